@@ -0,0 +1,41 @@
+// e2e/change-password.spec.ts
+
+import { expect, test } from "@playwright/test";
+import { SEED, loginViaUi, resetMockBackend } from "./support";
+
+const NEW_PASSWORD = "rahasiaBaru123";
+
+test.describe("Wajib ganti password", () => {
+  test.beforeEach(async ({ request, baseURL }) => {
+    await resetMockBackend(request, baseURL);
+  });
+
+  test("login pertama diarahkan ke ganti password sebelum dashboard", async ({
+    page,
+  }) => {
+    await loginViaUi(page, SEED.siti);
+    await expect(page).toHaveURL(/\/change-password/);
+
+    // Dashboard tetap terkunci selama password belum diganti
+    await page.goto("/student");
+    await expect(page).toHaveURL(/\/change-password/);
+
+    await page.getByPlaceholder("Masukkan password saat ini").fill("salah");
+    await page.getByPlaceholder("Minimal 8 karakter").fill(NEW_PASSWORD);
+    await page.getByPlaceholder("Ulangi password baru").fill(NEW_PASSWORD);
+    await page.getByRole("button", { name: "Simpan password baru" }).click();
+    await expect(page.getByText("Password lama tidak sesuai.")).toBeVisible();
+
+    await page
+      .getByPlaceholder("Masukkan password saat ini")
+      .fill("password123");
+    await page.getByRole("button", { name: "Simpan password baru" }).click();
+    await expect(page).toHaveURL(/\/student$/);
+
+    // Login ulang dengan password baru langsung masuk dashboard
+    await page.getByRole("button", { name: "Logout" }).click();
+    await expect(page).toHaveURL(/\/login/);
+    await loginViaUi(page, SEED.siti, NEW_PASSWORD);
+    await expect(page).toHaveURL(/\/student$/);
+  });
+});
@@ -0,0 +1,134 @@
+// e2e/dosen.spec.ts
+
+import { expect, test } from "@playwright/test";
+import {
+  SEED,
+  apiCall,
+  apiLogin,
+  loginViaUi,
+  resetMockBackend,
+} from "./support";
+
+test.describe("Dosen", () => {
+  test.beforeEach(async ({ page, request, baseURL }) => {
+    await resetMockBackend(request, baseURL);
+    await loginViaUi(page, SEED.dosen);
+    await expect(page).toHaveURL(/\/teacher$/);
+  });
+
+  test("menyusun section berisi materi, tugas, dan soal quiz", async ({
+    page,
+  }) => {
+    await page.goto(`/teacher/courses/${SEED.courseId}`);
+
+    // Section
+    await page.getByRole("button", { name: "+ Section baru" }).click();
+    await page
+      .getByPlaceholder("Misal: Minggu 1 – Pendahuluan")
+      .fill("Minggu 2 – Percabangan");
+    await page.getByPlaceholder("1, 2, 3, ...").fill("2");
+    await page.getByRole("button", { name: "Simpan section" }).click();
+
+    const sectionHeader = page.getByRole("button", {
+      name: /Minggu 2 – Percabangan/,
+    });
+    await sectionHeader.click();
+    const addButtons = page.getByRole("button", { name: "+ Tambah" });
+    await expect(addButtons).toHaveCount(3);
+
+    // Materi (link)
+    await addButtons.nth(0).click();
+    await page
+      .getByPlaceholder("Misal: Slide pertemuan 1")
+      .fill("Slide percabangan");
+    await page.getByRole("button", { name: "Link", exact: true }).click();
+    await page.getByPlaceholder("https://...").fill("https://example.com/if");
+    await page.getByRole("button", { name: "Simpan materi" }).click();
+    await expect(page.getByText("Slide percabangan")).toBeVisible();
+
+    // Tugas (link)
+    await addButtons.nth(1).click();
+    await page
+      .getByPlaceholder("Misal: Tugas 1 - Analisis Kasus")
+      .fill("Tugas 2 - Percabangan");
+    await page.getByRole("button", { name: "Link", exact: true }).click();
+    await page.getByRole("button", { name: "Simpan tugas" }).click();
+    await expect(page.getByText("Tugas 2 - Percabangan")).toBeVisible();
+
+    // Quiz
+    await addButtons.nth(2).click();
+    await page
+      .getByPlaceholder("Misal: Quiz 1 - Bab 1")
+      .fill("Quiz 2 - Percabangan");
+    await page.getByRole("button", { name: "Simpan quiz" }).click();
+    await expect(page.getByText("Quiz 2 - Percabangan")).toBeVisible();
+
+    // Soal quiz
+    await page.getByRole("button", { name: "Lihat attempt" }).click();
+    await expect(page).toHaveURL(/\/teacher\/quizzes\/\d+$/);
+
+    await page.getByRole("button", { name: "+ Soal Pilihan Ganda" }).click();
+    await page
+      .getByPlaceholder("Teks soal...")
+      .nth(0)
+      .fill("Kata kunci percabangan di C adalah ...");
+    await page.getByPlaceholder("Opsi 1").fill("for");
+    await page.getByPlaceholder("Opsi 2").fill("if");
+    await page.getByTitle("Tandai sebagai jawaban benar").nth(1).click();
+
+    await page.getByRole("button", { name: "+ Soal Isian Singkat" }).click();
+    await page
+      .getByPlaceholder("Teks soal...")
+      .nth(1)
+      .fill("Jelaskan perbedaan if dan switch.");
+
+    await page.getByRole("button", { name: "Simpan Soal" }).click();
+    await expect(page.getByText("Soal quiz berhasil disimpan.")).toBeVisible();
+
+    // Soal tersimpan di backend, bukan hanya di state halaman
+    await page.reload();
+    await expect(page.getByPlaceholder("Teks soal...")).toHaveCount(2);
+    await expect(page.getByPlaceholder("Teks soal...").nth(0)).toHaveValue(
+      "Kata kunci percabangan di C adalah ..."
+    );
+    await expect(page.getByPlaceholder("Opsi 2")).toHaveValue("if");
+  });
+
+  test("menilai submission mahasiswa", async ({ page, request, baseURL }) => {
+    // Mahasiswa seed mengumpulkan tugas link lewat API
+    const studentToken = await apiLogin(request, baseURL, SEED.budi);
+    await apiCall(
+      request,
+      baseURL,
+      studentToken,
+      "POST",
+      `/api/student/assignments/${SEED.assignmentId}/submit`,
+      { multipart: { link_url: "https://drive.example.com/flowchart" } }
+    );
+
+    await page.goto(`/teacher/assignments/${SEED.assignmentId}`);
+    await expect(page.getByText("Budi Santoso")).toBeVisible();
+
+    await page.getByPlaceholder("Nilai", { exact: true }).fill("85");
+    await page
+      .getByPlaceholder("Feedback singkat untuk mahasiswa...")
+      .fill("Flowchart sudah rapi.");
+    await page.getByRole("button", { name: "Simpan nilai" }).click();
+
+    await expect(
+      page.getByText("Nilai dan feedback berhasil disimpan.")
+    ).toBeVisible();
+
+    // Nilai langsung terlihat di sisi mahasiswa
+    const grades = (await apiCall(
+      request,
+      baseURL,
+      studentToken,
+      "GET",
+      "/api/student/grades"
+    )) as {
+      courses: { grades: { total_assignment_score: number } }[];
+    };
+    expect(grades.courses[0].grades.total_assignment_score).toBe(85);
+  });
+});
@@ -0,0 +1,90 @@
+// e2e/superadmin.spec.ts
+
+import { expect, test } from "@playwright/test";
+import * as XLSX from "xlsx";
+import { SEED, loginViaUi, resetMockBackend } from "./support";
+
+/** File Excel dengan format template import mahasiswa (kolom No, Nama) */
+function buildStudentWorkbook(names: string[]): Buffer {
+  const rows = [["No", "Nama"], ...names.map((name, i) => [i + 1, name])];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(rows),
+    "Mahasiswa"
+  );
+  return XLSX.write(workbook, { bookType: "xlsx", type: "buffer" }) as Buffer;
+}
+
+test.describe("Superadmin", () => {
+  test.beforeEach(async ({ page, request, baseURL }) => {
+    await resetMockBackend(request, baseURL);
+    await loginViaUi(page, SEED.admin);
+    await expect(page).toHaveURL(/\/superadmin$/);
+  });
+
+  test("membuat template mata kuliah lalu kelas dari template itu", async ({
+    page,
+  }) => {
+    await page.goto("/superadmin/templates");
+    await page.getByRole("button", { name: "Tambah template" }).click();
+    await page.getByPlaceholder("IF101").fill("IF202");
+    await page.getByPlaceholder("3", { exact: true }).fill("2");
+    await page
+      .getByPlaceholder("Pengantar Informatika & TIK")
+      .fill("Basis Data");
+    await page.getByRole("button", { name: "Simpan template" }).click();
+
+    await expect(page.getByText("Basis Data").first()).toBeVisible();
+
+    await page.goto("/superadmin/classes");
+    await page.getByRole("button", { name: "Buat kelas baru" }).click();
+
+    const templateSelect = page.locator("select").filter({
+      has: page.locator("option", { hasText: "Pilih mata kuliah" }),
+    });
+    await expect(
+      templateSelect.locator("option", { hasText: "IF202" })
+    ).toHaveCount(1);
+    await templateSelect.selectOption({ label: "IF202 — Basis Data" });
+
+    await page.getByPlaceholder("Contoh: A").fill("B");
+    await page
+      .getByPlaceholder("2025/2026 Ganjil", { exact: true })
+      .fill("2025/2026 Genap");
+
+    const lecturerSelect = page.locator("select").filter({
+      has: page.locator("option", { hasText: "Pilih dosen" }),
+    });
+    await lecturerSelect.selectOption({ label: "Dosen Pengampu (dosen)" });
+
+    await page.getByRole("button", { name: "Simpan kelas" }).click();
+
+    await expect(page.getByText("2025/2026 Genap").first()).toBeVisible();
+  });
+
+  test("import mahasiswa dari Excel", async ({ page }) => {
+    await page.goto("/superadmin/users");
+    await page.getByRole("button", { name: "Mahasiswa", exact: true }).click();
+    await page.getByRole("button", { name: "Import mahasiswa" }).click();
+
+    await page.locator('input[type="file"]').setInputFiles({
+      name: "mahasiswa.xlsx",
+      mimeType:
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      buffer: buildStudentWorkbook(["Andi Wijaya", "Rina Putri"]),
+    });
+
+    await expect(page.locator('input[value="Andi Wijaya"]')).toBeVisible();
+    await expect(page.locator('input[value="Rina Putri"]')).toBeVisible();
+
+    await page.getByRole("button", { name: "Generate" }).click();
+    await expect(
+      page.getByText("Berhasil generate 2 mahasiswa.")
+    ).toBeVisible();
+
+    await page.getByRole("button", { name: "Tutup" }).click();
+    await expect(page.getByText("Andi Wijaya")).toBeVisible();
+    await expect(page.getByText("Rina Putri")).toBeVisible();
+  });
+});
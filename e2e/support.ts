@@ -0,0 +1,82 @@
+// e2e/support.ts
+
+import {
+  expect,
+  type APIRequestContext,
+  type Page,
+} from "@playwright/test";
+
+/**
+ * Helper bersama untuk test E2E. Semua data berasal dari seed mock backend
+ * (src/lib/mockBackend/store.ts).
+ */
+
+export const SEED_PASSWORD = "password123";
+
+export const SEED = {
+  admin: "admin",
+  dosen: "dosen",
+  /** Mahasiswa terdaftar di kelas seed */
+  budi: "20250801001",
+  /** Mahasiswa dengan force_password_change = true */
+  siti: "20250801002",
+  courseId: 20,
+  assignmentId: 60,
+} as const;
+
+function mockApiUrl(baseURL: string | undefined, path: string) {
+  return `${baseURL ?? ""}/mock-api${path}`;
+}
+
+/** Kembalikan data mock ke seed (token lama ikut hangus) */
+export async function resetMockBackend(
+  request: APIRequestContext,
+  baseURL: string | undefined
+) {
+  const res = await request.post(mockApiUrl(baseURL, "/__reset"));
+  expect(res.ok()).toBeTruthy();
+}
+
+/** Login langsung ke mock API, untuk menyiapkan data tanpa lewat UI */
+export async function apiLogin(
+  request: APIRequestContext,
+  baseURL: string | undefined,
+  username: string,
+  password = SEED_PASSWORD
+): Promise<string> {
+  const res = await request.post(mockApiUrl(baseURL, "/api/auth/login"), {
+    data: { username, password },
+  });
+  expect(res.ok()).toBeTruthy();
+  const body = (await res.json()) as { token: string };
+  return body.token;
+}
+
+export async function apiCall(
+  request: APIRequestContext,
+  baseURL: string | undefined,
+  token: string,
+  method: "GET" | "POST",
+  path: string,
+  options: { multipart?: Record<string, string> } = {}
+) {
+  const res = await request.fetch(mockApiUrl(baseURL, path), {
+    method,
+    headers: { Authorization: `Bearer ${token}` },
+    multipart: options.multipart,
+  });
+  expect(res.ok()).toBeTruthy();
+  return res.json();
+}
+
+/** Login lewat form /login */
+export async function loginViaUi(
+  page: Page,
+  username: string,
+  password = SEED_PASSWORD
+) {
+  await page.goto("/login");
+  await page.locator("#username").fill(username);
+  await page.locator("#password").fill(password);
+  await page.getByRole("button", { name: "Login" }).click();
+}
@@ -0,0 +1,41 @@
+import { defineConfig, devices } from "@playwright/test";
+
+/**
+ * E2E: browser menembak mock backend in-memory (src/lib/mockBackend) lewat
+ * NEXT_PUBLIC_API_BASE_URL, jadi tidak butuh backend Laravel.
+ * State mock dipakai bersama oleh semua test → jalan berurutan (1 worker)
+ * dan tiap test me-reset data ke seed.
+ */
+
+const PORT = Number(process.env.E2E_PORT ?? 3100);
+const BASE_URL = `http://localhost:${PORT}`;
+
+export default defineConfig({
+  testDir: "./e2e",
+  fullyParallel: false,
+  workers: 1,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? "list" : "html",
+  timeout: 60_000,
+  use: {
+    baseURL: BASE_URL,
+    trace: "retain-on-failure",
+  },
+  projects: [
+    {
+      name: "chromium",
+      use: { ...devices["Desktop Chrome"] },
+    },
+  ],
+  webServer: {
+    command: `npx next dev --port ${PORT}`,
+    url: `${BASE_URL}/login`,
+    timeout: 180_000,
+    reuseExistingServer: !process.env.CI,
+    env: {
+      NEXT_PUBLIC_API_BASE_URL: `${BASE_URL}/mock-api`,
+      NEXT_PUBLIC_AUTH_MODE: "bearer",
+    },
+  },
+});
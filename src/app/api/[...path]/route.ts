@@ -0,0 +1,79 @@
+// src/app/api/[...path]/route.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  fetchBackend,
+  readJson,
+  toErrorResponseBody,
+} from "@/lib/server/backend";
+import { getRequestToken } from "@/lib/server/session";
+
+/**
+ * Proxy BFF: semua /api/* (selain /api/auth/login|logout|refresh yang punya
+ * handler sendiri) diteruskan ke backend LMS.
+ * - Authorization diambil dari cookie sesi atau header bearer browser
+ * - Response sukses diteruskan apa adanya (stream, termasuk file)
+ * - Response error dinormalisasi ke ErrorResponseBody
+ */
+
+/**
+ * Header response upstream yang ikut diteruskan ke browser. Content-Length
+ * dan Content-Encoding sengaja tidak ikut: fetch() sudah mendekompresi body
+ * gzip/br, jadi panjangnya tidak sama lagi. Runtime menghitung ulang sendiri.
+ */
+const PASSTHROUGH_RESPONSE_HEADERS = [
+  "Content-Type",
+  "Content-Disposition",
+  "Cache-Control",
+];
+
+async function forward(request: NextRequest): Promise<Response> {
+  const { pathname, search } = request.nextUrl;
+
+  const headers = new Headers({
+    Accept: request.headers.get("Accept") ?? "application/json",
+  });
+  const contentType = request.headers.get("Content-Type");
+  if (contentType) {
+    // Termasuk boundary multipart untuk upload FormData
+    headers.set("Content-Type", contentType);
+  }
+
+  const token = getRequestToken(request);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+
+  const upstream = await fetchBackend(pathname, {
+    search,
+    method: request.method,
+    headers,
+    body: hasBody ? await request.arrayBuffer() : undefined,
+  });
+
+  if (!upstream.ok) {
+    const data = await readJson(upstream);
+    return NextResponse.json(toErrorResponseBody(upstream.status, data), {
+      status: upstream.status,
+    });
+  }
+
+  const responseHeaders = new Headers();
+  PASSTHROUGH_RESPONSE_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: responseHeaders,
+  });
+}
+
+export const GET = forward;
+export const POST = forward;
+export const PUT = forward;
+export const PATCH = forward;
+export const DELETE = forward;
@@ -0,0 +1,50 @@
+// src/app/api/auth/login/route.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  errorResponse,
+  fetchBackend,
+  readJson,
+  toErrorResponseBody,
+} from "@/lib/server/backend";
+import { extractToken, setSessionToken } from "@/lib/server/session";
+import { isCookieAuthMode } from "@/lib/apiClient";
+
+/**
+ * Login lewat proxy.
+ * - Mode cookie: simpan token di cookie HttpOnly dan kembalikan hanya data
+ *   user (token tidak dikirim ke browser).
+ * - Mode bearer: response backend diteruskan apa adanya.
+ */
+export async function POST(request: NextRequest) {
+  const upstream = await fetchBackend("/api/auth/login", {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: await request.text(),
+  });
+
+  const data = await readJson(upstream);
+
+  if (!upstream.ok) {
+    return NextResponse.json(toErrorResponseBody(upstream.status, data), {
+      status: upstream.status,
+    });
+  }
+
+  if (!isCookieAuthMode) {
+    return NextResponse.json(data);
+  }
+
+  const token = extractToken(data);
+  if (!token) {
+    return errorResponse(502, "Token tidak ditemukan di response login.");
+  }
+
+  const user = (data as { user?: unknown }).user ?? null;
+  const response = NextResponse.json({ user });
+  setSessionToken(response, token);
+  return response;
+}
@@ -0,0 +1,31 @@
+// src/app/api/auth/logout/route.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+import { fetchBackend, readJson } from "@/lib/server/backend";
+import { clearSessionToken, getRequestToken } from "@/lib/server/session";
+
+/**
+ * Logout lewat proxy: cabut token di backend (kalau masih valid), lalu
+ * hapus cookie sesi. Cookie tetap dihapus walaupun backend gagal.
+ */
+export async function POST(request: NextRequest) {
+  const token = getRequestToken(request);
+  let data: unknown = null;
+
+  if (token) {
+    const upstream = await fetchBackend("/api/auth/logout", {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    if (upstream.ok) {
+      data = await readJson(upstream);
+    }
+  }
+
+  const response = NextResponse.json(data ?? { message: "Logout berhasil." });
+  clearSessionToken(response);
+  return response;
+}
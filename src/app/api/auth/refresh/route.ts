@@ -0,0 +1,59 @@
+// src/app/api/auth/refresh/route.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+import { errorResponse, fetchBackend, readJson } from "@/lib/server/backend";
+import {
+  clearSessionToken,
+  extractToken,
+  getRequestToken,
+  setSessionToken,
+} from "@/lib/server/session";
+import { isCookieAuthMode } from "@/lib/apiClient";
+
+/**
+ * Refresh sesi (dipanggil apiClient setelah 401). Urutannya sama dengan
+ * apiClient: coba /api/auth/refresh backend, kalau tidak ada token baru
+ * cek ulang token lama via /api/auth/me.
+ *
+ * Mode bearer: token baru dikembalikan di body supaya disimpan apiClient.
+ */
+export async function POST(request: NextRequest) {
+  const token = getRequestToken(request);
+
+  const expired = () => {
+    const response = errorResponse(401, "Sesi Anda telah berakhir.");
+    clearSessionToken(response);
+    return response;
+  };
+
+  if (!token) return expired();
+
+  const headers = {
+    Accept: "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+
+  const upstream = await fetchBackend("/api/auth/refresh", {
+    method: "POST",
+    headers,
+  });
+
+  const newToken = upstream.ok
+    ? extractToken(await readJson(upstream))
+    : null;
+  if (newToken) {
+    if (!isCookieAuthMode) {
+      return NextResponse.json({ token: newToken });
+    }
+    const response = NextResponse.json({ message: "Sesi diperbarui." });
+    setSessionToken(response, newToken);
+    return response;
+  }
+
+  const me = await fetchBackend("/api/auth/me", { method: "GET", headers });
+  if (me.ok) {
+    return NextResponse.json({ message: "Sesi masih berlaku." });
+  }
+
+  return expired();
+}
@@ -2,12 +2,9 @@
 
 import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { apiPost } from "@/lib/apiClient";
+import { changePassword, type ChangePasswordPayload } from "@/lib/api";
 import { useAuth } from "@/context/AuthContext";
-
-interface ChangePasswordResponse {
-  message?: string;
-}
+import { getDashboardPath } from "@/lib/authGuard";
 
 const ChangePasswordPage: React.FC = () => {
   const router = useRouter();
@@ -34,19 +31,7 @@ const ChangePasswordPage: React.FC = () => {
 
   const redirectToDashboard = () => {
     if (!user) return;
-    switch (user.role) {
-      case "superadmin":
-        router.replace("/superadmin");
-        break;
-      case "dosen":
-        router.replace("/dosen");
-        break;
-      case "mahasiswa":
-        router.replace("/mahasiswa");
-        break;
-      default:
-        router.replace("/");
-    }
+    router.replace(getDashboardPath(user.role));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -72,18 +57,14 @@ const ChangePasswordPage: React.FC = () => {
       // - current_password
       // backend mana pun (yang minta old_password atau current_password)
       // akan dapat nilai yang benar.
-      const payload = {
+      const payload: ChangePasswordPayload = {
         old_password: oldPassword,
         current_password: oldPassword,
         new_password: newPassword,
         new_password_confirmation: confirmPassword,
       };
 
-      const res = await apiPost<ChangePasswordResponse>(
-        "/api/auth/change-password",
-        payload,
-        { withAuth: true }
-      );
+      const res = await changePassword(payload);
 
       setSuccess(res.message || "Password berhasil diubah.");
       setOldPassword("");
@@ -3,19 +3,7 @@
 import React, { useEffect, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "@/context/AuthContext";
-
-function getDashboardPath(role: string | undefined | null): string {
-  switch (role) {
-    case "superadmin":
-      return "/superadmin";
-    case "dosen":
-      return "/teacher";
-    case "mahasiswa":
-      return "/student";
-    default:
-      return "/";
-  }
-}
+import { getDashboardPath, getSafeRedirect } from "@/lib/authGuard";
 
 const LoginContent: React.FC = () => {
   const router = useRouter();
@@ -28,16 +16,17 @@ const LoginContent: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const redirectMessage = searchParams.get("message");
+  const returnTo = getSafeRedirect(searchParams.get("redirect"));
 
   // Kalau sudah login, jangan bisa lihat halaman login lagi → redirect ke dashboard sesuai role
   useEffect(() => {
     if (!initialized) return;
 
     if (user) {
-      const target = getDashboardPath(user.role);
+      const target = returnTo ?? getDashboardPath(user.role);
       router.replace(target);
     }
-  }, [user, initialized, router]);
+  }, [user, initialized, router, returnTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -52,7 +41,7 @@ const LoginContent: React.FC = () => {
       setIsSubmitting(true);
       await login(username, password);
 
-      const target = getDashboardPath(user?.role);
+      const target = returnTo ?? getDashboardPath(user?.role);
       router.push(target);
     } catch (error: unknown) {
       if (error instanceof Error) {
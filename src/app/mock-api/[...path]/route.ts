@@ -0,0 +1,43 @@
+// src/app/mock-api/[...path]/route.ts
+
+import type { NextRequest } from "next/server";
+import { errorResponse } from "@/lib/server/backend";
+import { handleMockRequest } from "@/lib/mockBackend";
+
+/**
+ * Mock backend LMS (lihat src/lib/mockBackend). Aktifkan dengan mengarahkan
+ * backend ke prefix ini:
+ * - NEXT_PUBLIC_API_BASE_URL=http://localhost:3000/mock-api
+ *   (browser menembak mock langsung, mode bearer)
+ * - atau LMS_BACKEND_URL=http://localhost:3000/mock-api (lewat proxy BFF)
+ *
+ * Mati di build produksi kecuali LMS_ENABLE_MOCK_API=1 (misal untuk test
+ * E2E terhadap `next start`).
+ */
+
+const MOCK_PREFIX = "/mock-api";
+
+const isEnabled =
+  process.env.NODE_ENV !== "production" ||
+  process.env.LMS_ENABLE_MOCK_API === "1";
+
+export const dynamic = "force-dynamic";
+
+async function handle(request: NextRequest): Promise<Response> {
+  if (!isEnabled) {
+    return errorResponse(404, "Mock backend tidak aktif.");
+  }
+
+  const { origin, pathname } = request.nextUrl;
+  return handleMockRequest(
+    request,
+    pathname.slice(MOCK_PREFIX.length),
+    `${origin}${MOCK_PREFIX}`
+  );
+}
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -0,0 +1,454 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  getStudentAssignment,
+  submitAssignment,
+  type StudentAssignmentDetail,
+  type StudentSubmission,
+} from "@/lib/api";
+import RubricGrid from "@/components/RubricGrid";
+import { extractErrorMessage, formatDateTime } from "@/lib/utils";
+
+function isValidHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+type SubmissionState = "open" | "late" | "closed" | "graded";
+
+/**
+ * Status pengumpulan dari sisi mahasiswa:
+ * - graded  → sudah dinilai, tidak bisa submit ulang
+ * - closed  → backend menolak submit (can_submit_now = false)
+ * - late    → lewat deadline tapi allow_late, submit pertama masih diterima
+ * - open    → sebelum deadline, boleh submit / submit ulang
+ */
+function getSubmissionState(
+  assignment: StudentAssignmentDetail,
+  submission: StudentSubmission | null
+): SubmissionState {
+  if (submission && submission.score !== null) return "graded";
+  if (!assignment.can_submit_now) return "closed";
+  if (assignment.is_past_deadline) {
+    // Setelah deadline, submit ulang tidak diizinkan walaupun telat diperbolehkan
+    return submission ? "closed" : "late";
+  }
+  return "open";
+}
+
+const STATE_BADGE: Record<SubmissionState, { label: string; className: string }> =
+  {
+    open: {
+      label: "Terbuka",
+      className: "border-emerald-200 bg-emerald-50 text-emerald-700",
+    },
+    late: {
+      label: "Terlambat",
+      className: "border-amber-200 bg-amber-50 text-amber-700",
+    },
+    closed: {
+      label: "Ditutup",
+      className: "border-slate-200 bg-slate-50 text-slate-600",
+    },
+    graded: {
+      label: "Sudah dinilai",
+      className: "border-sky-200 bg-sky-50 text-sky-700",
+    },
+  };
+
+const StudentAssignmentPage: React.FC = () => {
+  const params = useParams();
+  const router = useRouter();
+  const assignmentId = (params?.id ?? "") as string;
+
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [assignment, setAssignment] =
+    useState<StudentAssignmentDetail | null>(null);
+  const [submission, setSubmission] = useState<StudentSubmission | null>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [linkUrl, setLinkUrl] = useState<string>("");
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!assignmentId) return;
+
+    const controller = new AbortController();
+
+    const loadData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getStudentAssignment(assignmentId, {
+          signal: controller.signal,
+        });
+
+        setAssignment(data.assignment);
+        setSubmission(data.submission);
+        setLinkUrl(data.submission?.link_url ?? "");
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        setError(extractErrorMessage(err, "Gagal memuat detail tugas."));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadData();
+
+    return () => {
+      controller.abort();
+    };
+  }, [assignmentId]);
+
+  const handleBack = () => {
+    if (assignment?.course_instance?.id) {
+      router.push(`/student/courses/${assignment.course_instance.id}`);
+    } else {
+      router.push("/student");
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!assignment) return;
+
+    setFormError(null);
+    setSuccessMessage(null);
+
+    const formData = new FormData();
+
+    if (assignment.type === "file") {
+      if (!file) {
+        setFormError("Silakan pilih file untuk diunggah.");
+        return;
+      }
+      formData.append("file", file);
+    } else {
+      const trimmed = linkUrl.trim();
+      if (!trimmed) {
+        setFormError("URL jawaban wajib diisi.");
+        return;
+      }
+      if (!isValidHttpUrl(trimmed)) {
+        setFormError("URL harus diawali http:// atau https://.");
+        return;
+      }
+      formData.append("link_url", trimmed);
+    }
+
+    setSubmitting(true);
+
+    try {
+      const res = await submitAssignment(assignment.id, formData);
+
+      const isResubmit = submission !== null;
+      setSubmission(res.submission);
+      setFile(null);
+      setSuccessMessage(
+        res.message ??
+          (isResubmit
+            ? "Jawaban berhasil diperbarui."
+            : "Jawaban berhasil dikumpulkan.")
+      );
+    } catch (err: unknown) {
+      setFormError(
+        extractErrorMessage(err, "Gagal mengumpulkan jawaban tugas.")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="rounded-2xl border border-slate-200 bg-white px-4 py-6 text-center text-sm text-slate-500">
+        Memuat detail tugas...
+      </div>
+    );
+  }
+
+  if (error || !assignment) {
+    return (
+      <div className="space-y-3">
+        <button
+          type="button"
+          onClick={handleBack}
+          className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+        >
+          ← Kembali
+        </button>
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+          {error ?? "Data tugas tidak ditemukan."}
+        </div>
+      </div>
+    );
+  }
+
+  const state = getSubmissionState(assignment, submission);
+  const canSubmit = state === "open" || state === "late";
+  const isGraded = state === "graded";
+  const submittedAnswerUrl =
+    submission?.file_url && submission.file_url.length > 0
+      ? submission.file_url
+      : submission?.link_url && submission.link_url.length > 0
+        ? submission.link_url
+        : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleBack}
+            className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+          >
+            ← Kembali
+          </button>
+          <div>
+            <h1 className="text-sm font-semibold tracking-tight text-slate-900">
+              {assignment.title}
+            </h1>
+            <p className="mt-0.5 text-[11px] text-slate-500">
+              {assignment.course_instance?.template
+                ? `${assignment.course_instance.template.code} — ${assignment.course_instance.template.name}`
+                : "Tanpa template"}{" "}
+              {assignment.course_instance
+                ? `• Kelas ${assignment.course_instance.class_name} • Semester ${assignment.course_instance.semester}`
+                : ""}
+            </p>
+          </div>
+        </div>
+        <span
+          className={[
+            "inline-flex w-fit items-center rounded-full border px-3 py-1 text-[11px] font-medium",
+            STATE_BADGE[state].className,
+          ].join(" ")}
+        >
+          {STATE_BADGE[state].label}
+        </span>
+      </div>
+
+      {/* Info Assignment */}
+      <div className="grid gap-3 md:grid-cols-3">
+        <div className="md:col-span-2 space-y-2 rounded-2xl border border-slate-200 bg-white p-4">
+          {assignment.description ? (
+            <p className="text-[11px] text-slate-600 whitespace-pre-wrap">
+              {assignment.description}
+            </p>
+          ) : (
+            <p className="text-[11px] text-slate-400">Tidak ada deskripsi.</p>
+          )}
+          {assignment.instructions && (
+            <div className="rounded-xl bg-slate-50 px-3 py-2 text-[11px] text-slate-700">
+              <p className="mb-1 font-semibold text-slate-900">Instruksi</p>
+              <p className="whitespace-pre-wrap">{assignment.instructions}</p>
+            </div>
+          )}
+        </div>
+        <div className="space-y-2 rounded-2xl border border-slate-200 bg-white p-4 text-[11px]">
+          <p className="text-xs font-semibold text-slate-900">
+            Ringkasan Tugas
+          </p>
+          <p className="text-slate-600">
+            Tipe jawaban:{" "}
+            <span className="font-semibold text-slate-900">
+              {assignment.type === "file" ? "File upload" : "Link"}
+            </span>
+          </p>
+          <p className="text-slate-600">
+            Deadline:{" "}
+            <span
+              className={[
+                "font-semibold",
+                assignment.is_past_deadline ? "text-red-700" : "text-slate-900",
+              ].join(" ")}
+            >
+              {formatDateTime(assignment.deadline)}
+            </span>
+          </p>
+          <p className="text-slate-600">
+            Nilai maksimal:{" "}
+            <span className="font-semibold text-slate-900">
+              {assignment.max_score ?? 100}
+            </span>
+          </p>
+          <p className="text-slate-600">
+            Telat:{" "}
+            <span className="font-semibold text-slate-900">
+              {assignment.allow_late ? "Diizinkan" : "Tidak diizinkan"}
+            </span>
+          </p>
+        </div>
+      </div>
+
+      {/* Nilai & feedback */}
+      {isGraded && submission && (
+        <div className="rounded-2xl border border-sky-200 bg-sky-50 px-4 py-3">
+          <p className="text-[11px] font-semibold uppercase tracking-wide text-sky-700">
+            Hasil penilaian
+          </p>
+          <p className="mt-1 text-lg font-semibold text-slate-900">
+            {submission.score}
+            <span className="text-xs font-normal text-slate-500">
+              {" "}
+              / {assignment.max_score ?? 100}
+            </span>
+          </p>
+          {submission.graded_at && (
+            <p className="text-[10px] text-slate-500">
+              Dinilai {formatDateTime(submission.graded_at)}
+            </p>
+          )}
+          <div className="mt-2 rounded-xl bg-white px-3 py-2 text-[11px] text-slate-700">
+            <p className="mb-1 font-semibold text-slate-900">Feedback dosen</p>
+            <p className="whitespace-pre-wrap">
+              {submission.feedback ?? "Tidak ada feedback."}
+            </p>
+          </div>
+          {assignment.rubric && submission.rubric_selection && (
+            <div className="mt-2 rounded-xl bg-white px-3 py-2">
+              <p className="mb-2 text-[11px] font-semibold text-slate-900">
+                Rubrik penilaian
+              </p>
+              <RubricGrid
+                rubric={assignment.rubric}
+                selection={submission.rubric_selection}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Submission saat ini */}
+      <div className="rounded-2xl border border-slate-200 bg-white">
+        <div className="border-b border-slate-200 px-4 py-3 text-xs font-semibold text-slate-900">
+          Jawaban Anda
+        </div>
+        <div className="space-y-3 px-4 py-3 text-[11px]">
+          {submission && submission.submitted_at ? (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-slate-50 px-3 py-2">
+              <div>
+                <p className="text-slate-600">
+                  Dikumpulkan{" "}
+                  <span className="font-semibold text-slate-900">
+                    {formatDateTime(submission.submitted_at)}
+                  </span>
+                </p>
+                {submission.is_late && (
+                  <p className="mt-0.5 text-[10px] text-amber-700">
+                    Dikumpulkan setelah deadline.
+                  </p>
+                )}
+              </div>
+              {submittedAnswerUrl && (
+                <a
+                  href={submittedAnswerUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center rounded-full bg-white px-2 py-0.5 text-[10px] text-red-600 hover:underline"
+                >
+                  {submission.file_name ?? "Lihat jawaban"}
+                </a>
+              )}
+            </div>
+          ) : (
+            <p className="text-slate-400">Anda belum mengumpulkan jawaban.</p>
+          )}
+
+          {successMessage && (
+            <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-emerald-700">
+              {successMessage}
+            </div>
+          )}
+
+          {canSubmit ? (
+            <form onSubmit={handleSubmit} className="space-y-3">
+              {formError && (
+                <div className="rounded-lg border border-red-200 bg-red-50 px-2 py-1.5 text-red-700">
+                  {formError}
+                </div>
+              )}
+              {state === "late" && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 px-2 py-1.5 text-amber-700">
+                  Deadline sudah lewat. Jawaban tetap diterima tetapi akan
+                  ditandai terlambat, dan tidak dapat dikumpulkan ulang.
+                </div>
+              )}
+              {assignment.type === "file" ? (
+                <div>
+                  <label className="block font-medium text-slate-600">
+                    {submission ? "Ganti file jawaban" : "File jawaban"}
+                  </label>
+                  <input
+                    type="file"
+                    onChange={(event) =>
+                      setFile(event.target.files?.[0] ?? null)
+                    }
+                    className="mt-1 block w-full text-[11px] text-slate-700 file:mr-3 file:rounded-full file:border-0 file:bg-slate-100 file:px-3 file:py-1.5 file:text-[11px] file:font-medium file:text-slate-700 hover:file:bg-slate-200"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block font-medium text-slate-600">
+                    URL jawaban
+                  </label>
+                  <input
+                    type="url"
+                    value={linkUrl}
+                    onChange={(event) => setLinkUrl(event.target.value)}
+                    className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                    placeholder="https://..."
+                  />
+                </div>
+              )}
+              <div className="flex items-center justify-end">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="inline-flex items-center rounded-full bg-red-600 px-4 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {submitting ? (
+                    <>
+                      <span className="mr-2 inline-block h-3 w-3 animate-spin rounded-full border border-white border-t-transparent" />
+                      Mengirim...
+                    </>
+                  ) : submission ? (
+                    "Kumpulkan ulang"
+                  ) : (
+                    "Kumpulkan"
+                  )}
+                </button>
+              </div>
+            </form>
+          ) : (
+            !isGraded && (
+              <p className="text-slate-500">
+                {submission
+                  ? "Deadline sudah lewat, jawaban tidak dapat diubah lagi."
+                  : "Pengumpulan untuk tugas ini sudah ditutup."}
+              </p>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudentAssignmentPage;
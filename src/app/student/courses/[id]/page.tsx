@@ -0,0 +1,520 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { API_BASE_URL, isAbortError } from "@/lib/apiClient";
+import {
+  listAssignments,
+  listMaterials,
+  listQuizzes,
+  listSections,
+  type AssignmentItem,
+  type CourseHeader,
+  type MaterialItem,
+  type QuizItem,
+  type SectionItem,
+} from "@/lib/api";
+import {
+  extractErrorMessage,
+  formatDateTime,
+  formatQuizStatus,
+} from "@/lib/utils";
+
+/**
+ * URL untuk membuka materi bertipe file.
+ * Pakai file_url dari backend jika ada, kalau tidak rakit dari file_path
+ * (disk public Laravel → /storage/...).
+ */
+function getMaterialFileUrl(material: MaterialItem): string | null {
+  if (material.file_url) return material.file_url;
+  if (!material.file_path) return null;
+  if (material.file_path.startsWith("http")) return material.file_path;
+  return `${API_BASE_URL.replace(/\/+$/, "")}/storage/${material.file_path.replace(/^\/+/, "")}`;
+}
+
+function sortSections(sections: SectionItem[]): SectionItem[] {
+  return [...sections].sort((a, b) => {
+    const aOrder = a.order ?? Number.MAX_SAFE_INTEGER;
+    const bOrder = b.order ?? Number.MAX_SAFE_INTEGER;
+    if (aOrder === bOrder) {
+      return a.id - b.id;
+    }
+    return aOrder - bOrder;
+  });
+}
+
+const StudentCourseDetailPage: React.FC = () => {
+  const params = useParams();
+  const router = useRouter();
+  const courseId = (params?.id ?? "") as string;
+
+  const [course, setCourse] = useState<CourseHeader | null>(null);
+
+  // Sections
+  const [sections, setSections] = useState<SectionItem[]>([]);
+  const [sectionsLoading, setSectionsLoading] = useState<boolean>(true);
+  const [sectionsError, setSectionsError] = useState<string | null>(null);
+  const [expandedSectionId, setExpandedSectionId] = useState<number | null>(
+    null
+  );
+
+  // Content per section
+  const [materialsBySection, setMaterialsBySection] = useState<{
+    [sectionId: number]: MaterialItem[];
+  }>({});
+  const [assignmentsBySection, setAssignmentsBySection] = useState<{
+    [sectionId: number]: AssignmentItem[];
+  }>({});
+  const [quizzesBySection, setQuizzesBySection] = useState<{
+    [sectionId: number]: QuizItem[];
+  }>({});
+  const [sectionContentLoading, setSectionContentLoading] = useState<{
+    [sectionId: number]: boolean;
+  }>({});
+  const [sectionContentError, setSectionContentError] = useState<{
+    [sectionId: number]: string | null;
+  }>({});
+
+  useEffect(() => {
+    if (!courseId) return;
+
+    const controller = new AbortController();
+
+    const loadSections = async () => {
+      setSectionsLoading(true);
+      setSectionsError(null);
+      try {
+        const data = await listSections(courseId, {
+          signal: controller.signal,
+        });
+
+        setSections(sortSections(data.sections));
+        setCourse(data.course);
+      } catch (error: unknown) {
+        if (isAbortError(error)) return;
+        const message = extractErrorMessage(
+          error,
+          "Gagal memuat sections kelas."
+        );
+        setSectionsError(message);
+      } finally {
+        if (!controller.signal.aborted) {
+          setSectionsLoading(false);
+        }
+      }
+    };
+
+    void loadSections();
+
+    return () => {
+      controller.abort();
+    };
+  }, [courseId]);
+
+  const handleBack = () => {
+    router.push("/student");
+  };
+
+  const toggleSectionExpand = (sectionId: number) => {
+    setExpandedSectionId((prev) => {
+      const next = prev === sectionId ? null : sectionId;
+      if (next !== null) {
+        void ensureSectionContentLoaded(next);
+      }
+      return next;
+    });
+  };
+
+  const ensureSectionContentLoaded = async (sectionId: number) => {
+    const alreadyLoaded =
+      materialsBySection[sectionId] ||
+      assignmentsBySection[sectionId] ||
+      quizzesBySection[sectionId];
+
+    if (alreadyLoaded) {
+      return;
+    }
+
+    await loadAllSectionContent(sectionId);
+  };
+
+  const loadAllSectionContent = async (sectionId: number) => {
+    setSectionContentLoading((prev) => ({ ...prev, [sectionId]: true }));
+    setSectionContentError((prev) => ({ ...prev, [sectionId]: null }));
+    try {
+      const [materialsRes, assignmentsRes, quizzesRes] = await Promise.all([
+        listMaterials(sectionId),
+        listAssignments(sectionId),
+        listQuizzes(sectionId),
+      ]);
+
+      setMaterialsBySection((prev) => ({
+        ...prev,
+        [sectionId]: materialsRes.materials,
+      }));
+      setAssignmentsBySection((prev) => ({
+        ...prev,
+        [sectionId]: assignmentsRes.assignments,
+      }));
+      setQuizzesBySection((prev) => ({
+        ...prev,
+        [sectionId]: quizzesRes.quizzes,
+      }));
+    } catch (error: unknown) {
+      const message = extractErrorMessage(
+        error,
+        "Gagal memuat konten pada section ini."
+      );
+      setSectionContentError((prev) => ({ ...prev, [sectionId]: message }));
+    } finally {
+      setSectionContentLoading((prev) => ({ ...prev, [sectionId]: false }));
+    }
+  };
+
+  // ---------------------------
+  // Sections (read-only)
+  // ---------------------------
+
+  const renderSections = () => {
+    if (sectionsLoading) {
+      return (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, idx) => (
+            <div
+              key={idx}
+              className="rounded-2xl border border-slate-200 bg-white px-4 py-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="space-y-1">
+                  <div className="h-3 w-32 rounded-full bg-slate-100" />
+                  <div className="h-3 w-24 rounded-full bg-slate-100" />
+                </div>
+                <div className="h-6 w-6 rounded-full bg-slate-100" />
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    if (sectionsError) {
+      return (
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+          {sectionsError}
+        </div>
+      );
+    }
+
+    if (sections.length === 0) {
+      return (
+        <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-8 text-center text-sm text-slate-500">
+          Belum ada materi perkuliahan pada kelas ini.
+          <div className="mt-1 text-[11px] text-slate-400">
+            Dosen pengampu belum menambahkan section.
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {sections.map((section) => {
+          const isExpanded = expandedSectionId === section.id;
+          const contentLoading = sectionContentLoading[section.id] ?? false;
+          const contentError = sectionContentError[section.id] ?? null;
+          const materials = materialsBySection[section.id] ?? [];
+          const assignments = assignmentsBySection[section.id] ?? [];
+          const quizzes = quizzesBySection[section.id] ?? [];
+
+          return (
+            <div
+              key={section.id}
+              className="rounded-2xl border border-slate-200 bg-white"
+            >
+              <div
+                role="button"
+                tabIndex={0}
+                onClick={() => toggleSectionExpand(section.id)}
+                onKeyDown={(event: React.KeyboardEvent<HTMLDivElement>) => {
+                  if (event.key === "Enter" || event.key === " ") {
+                    event.preventDefault();
+                    toggleSectionExpand(section.id);
+                  }
+                }}
+                className="flex w-full cursor-pointer items-center justify-between gap-3 px-4 py-3 text-left"
+              >
+                <div>
+                  <p className="text-xs font-semibold text-slate-900">
+                    {section.title}
+                  </p>
+                  {section.order !== null && (
+                    <p className="mt-0.5 text-[11px] text-slate-500">
+                      Pertemuan ke-{section.order}
+                    </p>
+                  )}
+                </div>
+                <span
+                  className={[
+                    "inline-flex h-6 w-6 items-center justify-center rounded-full border border-slate-200 text-[11px] text-slate-600 transition-transform",
+                    isExpanded ? "rotate-90" : "",
+                  ].join(" ")}
+                >
+                  &gt;
+                </span>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-slate-100 px-4 py-3">
+                  {contentLoading && (
+                    <div className="mb-3 text-[11px] text-slate-500">
+                      Memuat konten section...
+                    </div>
+                  )}
+                  {contentError && (
+                    <div className="mb-3 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+                      {contentError}
+                    </div>
+                  )}
+
+                  {!contentLoading && !contentError && (
+                    <div className="grid gap-3 md:grid-cols-3">
+                      {/* Materials */}
+                      <div className="space-y-2">
+                        <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-600">
+                          Materi
+                        </p>
+
+                        {materials.length === 0 ? (
+                          <p className="text-[11px] text-slate-400">
+                            Belum ada materi pada section ini.
+                          </p>
+                        ) : (
+                          <ul className="space-y-1.5">
+                            {materials.map((material) => {
+                              const href =
+                                material.type === "link"
+                                  ? material.url
+                                  : getMaterialFileUrl(material);
+                              return (
+                                <li
+                                  key={material.id}
+                                  className="flex items-start justify-between gap-2 rounded-xl border border-slate-100 bg-slate-50 px-3 py-2"
+                                >
+                                  <div className="space-y-0.5">
+                                    <div className="flex items-center gap-2">
+                                      <span className="rounded-full bg-red-600 px-2 py-0.5 text-[10px] font-medium text-white">
+                                        {material.type === "file"
+                                          ? "FILE"
+                                          : "LINK"}
+                                      </span>
+                                      <p className="text-xs font-semibold text-slate-900">
+                                        {material.title}
+                                      </p>
+                                    </div>
+                                    {material.description && (
+                                      <p className="text-[11px] text-slate-500">
+                                        {material.description}
+                                      </p>
+                                    )}
+                                    {material.subject && (
+                                      <p className="text-[10px] text-slate-400">
+                                        Tag: {material.subject}
+                                      </p>
+                                    )}
+                                  </div>
+                                  {href && (
+                                    <a
+                                      href={href}
+                                      target="_blank"
+                                      rel="noreferrer"
+                                      className="shrink-0 text-[10px] text-red-600 hover:underline"
+                                    >
+                                      {material.type === "file"
+                                        ? "Unduh"
+                                        : "Buka link"}
+                                    </a>
+                                  )}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        )}
+                      </div>
+
+                      {/* Assignments */}
+                      <div className="space-y-2">
+                        <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-600">
+                          Tugas
+                        </p>
+
+                        {assignments.length === 0 ? (
+                          <p className="text-[11px] text-slate-400">
+                            Belum ada tugas pada section ini.
+                          </p>
+                        ) : (
+                          <ul className="space-y-1.5">
+                            {assignments.map((assignment) => (
+                              <li
+                                key={assignment.id}
+                                className="flex items-start justify-between gap-2 rounded-xl border border-slate-100 bg-slate-50 px-3 py-2"
+                              >
+                                <div className="space-y-0.5">
+                                  <div className="flex items-center gap-2">
+                                    <span className="rounded-full bg-amber-500 px-2 py-0.5 text-[10px] font-medium text-white">
+                                      TUGAS
+                                    </span>
+                                    <p className="text-xs font-semibold text-slate-900">
+                                      {assignment.title}
+                                    </p>
+                                  </div>
+                                  {assignment.description && (
+                                    <p className="text-[11px] text-slate-500">
+                                      {assignment.description}
+                                    </p>
+                                  )}
+                                  <p className="text-[10px] text-slate-500">
+                                    Deadline:{" "}
+                                    <span className="font-medium text-slate-800">
+                                      {formatDateTime(assignment.deadline)}
+                                    </span>{" "}
+                                    • Maks {assignment.max_score ?? 100}
+                                  </p>
+                                  <p className="text-[10px] text-slate-400">
+                                    {assignment.can_submit_now
+                                      ? assignment.is_past_deadline
+                                        ? "Melewati deadline (telat diizinkan)"
+                                        : "Dapat dikumpulkan"
+                                      : "Pengumpulan ditutup"}
+                                  </p>
+                                </div>
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    router.push(
+                                      `/student/assignments/${assignment.id}`
+                                    )
+                                  }
+                                  className="shrink-0 rounded-full border border-slate-200 bg-white px-2 py-0.5 text-[10px] text-slate-700 hover:bg-slate-50"
+                                >
+                                  {assignment.can_submit_now
+                                    ? "Kerjakan"
+                                    : "Lihat"}
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+
+                      {/* Quizzes */}
+                      <div className="space-y-2">
+                        <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-600">
+                          Quiz
+                        </p>
+
+                        {quizzes.length === 0 ? (
+                          <p className="text-[11px] text-slate-400">
+                            Belum ada quiz pada section ini.
+                          </p>
+                        ) : (
+                          <ul className="space-y-1.5">
+                            {quizzes.map((quiz) => (
+                              <li
+                                key={quiz.id}
+                                className="flex items-start justify-between gap-2 rounded-xl border border-slate-100 bg-slate-50 px-3 py-2"
+                              >
+                                <div className="space-y-0.5">
+                                  <div className="flex items-center gap-2">
+                                    <span className="rounded-full bg-emerald-600 px-2 py-0.5 text-[10px] font-medium text-white">
+                                      QUIZ
+                                    </span>
+                                    <p className="text-xs font-semibold text-slate-900">
+                                      {quiz.title}
+                                    </p>
+                                  </div>
+                                  {quiz.description && (
+                                    <p className="text-[11px] text-slate-500">
+                                      {quiz.description}
+                                    </p>
+                                  )}
+                                  <p className="text-[10px] text-slate-500">
+                                    Window: {formatDateTime(quiz.start_time)}{" "}
+                                    – {formatDateTime(quiz.end_time)} • Durasi{" "}
+                                    {quiz.duration_minutes ?? "—"} menit
+                                  </p>
+                                  <p className="text-[10px] text-slate-400">
+                                    Status: {formatQuizStatus(quiz.time_status)}
+                                  </p>
+                                </div>
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    router.push(`/student/quizzes/${quiz.id}`)
+                                  }
+                                  className="shrink-0 rounded-full border border-slate-200 bg-white px-2 py-0.5 text-[10px] text-slate-700 hover:bg-slate-50"
+                                >
+                                  Buka quiz
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleBack}
+            className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+          >
+            ← Kembali
+          </button>
+          <div>
+            <h1 className="text-sm font-semibold tracking-tight text-slate-900">
+              {course?.template ? course.template.name : "Detail Kelas"}
+            </h1>
+            {course && (
+              <p className="mt-0.5 text-[11px] text-slate-500">
+                {course.template ? course.template.code : "Tanpa template"} •
+                Kelas {course.class_name} • Semester {course.semester}
+              </p>
+            )}
+          </div>
+        </div>
+        {course && course.lecturer && (
+          <div className="text-right">
+            <p className="text-[11px] text-slate-500">Dosen pengampu</p>
+            <p className="mt-0.5 text-xs font-semibold text-slate-900">
+              {course.lecturer.name}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {course?.status === "finished" && (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-[11px] text-amber-700">
+          Kelas ini sudah selesai. Materi tetap dapat dibaca, tetapi
+          pengumpulan tugas dan quiz sudah ditutup.
+        </div>
+      )}
+
+      {renderSections()}
+    </div>
+  );
+};
+
+export default StudentCourseDetailPage;
@@ -0,0 +1,438 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  getStudentGrades,
+  type GradeAssignmentMeta,
+  type GradeQuizMeta,
+  type GradeScores,
+  type StudentCourseGrades,
+} from "@/lib/api";
+import {
+  getDefaultGradingScheme,
+  listGradeItems,
+  resolveFinalGrade,
+} from "@/lib/gradingScheme";
+import { extractErrorMessage } from "@/lib/utils";
+
+type ItemState = "graded" | "pending" | "missing" | "upcoming";
+
+interface SemesterSummary {
+  semester: string;
+  courseCount: number;
+  earned: number;
+  max: number;
+  missingCount: number;
+}
+
+const ITEM_STATE_CLASSES: Record<ItemState, string> = {
+  graded: "text-slate-900",
+  pending: "text-sky-700",
+  missing: "bg-red-50 text-red-700",
+  upcoming: "text-slate-400",
+};
+
+function isPast(dateStr: string | null | undefined, nowMs: number): boolean {
+  if (!dateStr) return false;
+  const time = Date.parse(dateStr);
+  return !Number.isNaN(time) && time < nowMs;
+}
+
+function getAssignmentState(
+  meta: GradeAssignmentMeta,
+  cell: GradeScores["assignments"][string] | undefined,
+  nowMs: number
+): ItemState {
+  if (cell && cell.score !== null) return "graded";
+  if (cell?.submitted) return "pending";
+  return isPast(meta.deadline, nowMs) ? "missing" : "upcoming";
+}
+
+function getQuizState(
+  meta: GradeQuizMeta,
+  cell: GradeScores["quizzes"][string] | undefined,
+  nowMs: number
+): ItemState {
+  if (cell && cell.best_score !== null) return "graded";
+  return isPast(meta.end_time, nowMs) ? "missing" : "upcoming";
+}
+
+function getCourseMaxScore(course: StudentCourseGrades): number {
+  const assignmentMax = course.assignments.reduce(
+    (acc, item) => acc + (item.max_score ?? 0),
+    0
+  );
+  const quizMax = course.quizzes.reduce(
+    (acc, item) => acc + (item.max_score ?? 0),
+    0
+  );
+  const manualMax = (course.manual_items ?? []).reduce(
+    (acc, item) => acc + item.max_score,
+    0
+  );
+  return assignmentMax + quizMax + manualMax;
+}
+
+function countMissing(course: StudentCourseGrades, nowMs: number): number {
+  const missingAssignments = course.assignments.filter(
+    (meta) =>
+      getAssignmentState(
+        meta,
+        course.grades.assignments[String(meta.id)],
+        nowMs
+      ) === "missing"
+  ).length;
+  const missingQuizzes = course.quizzes.filter(
+    (meta) =>
+      getQuizState(meta, course.grades.quizzes[String(meta.id)], nowMs) ===
+      "missing"
+  ).length;
+  return missingAssignments + missingQuizzes;
+}
+
+function formatPercent(earned: number, max: number): string {
+  if (max <= 0) return "—";
+  return `${Math.round((earned / max) * 100)}%`;
+}
+
+const StudentGradesPage: React.FC = () => {
+  const [courses, setCourses] = useState<StudentCourseGrades[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [nowMs] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchGrades = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await getStudentGrades({ signal: controller.signal });
+        setCourses(data.courses ?? []);
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        setError(extractErrorMessage(err, "Gagal memuat rekap nilai."));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void fetchGrades();
+
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  const semesterMap = new Map<string, SemesterSummary>();
+  courses.forEach((item) => {
+    const semester = item.course.semester || "-";
+    const current = semesterMap.get(semester) ?? {
+      semester,
+      courseCount: 0,
+      earned: 0,
+      max: 0,
+      missingCount: 0,
+    };
+    current.courseCount += 1;
+    current.earned += item.grades.total_score;
+    current.max += getCourseMaxScore(item);
+    current.missingCount += countMissing(item, nowMs);
+    semesterMap.set(semester, current);
+  });
+
+  // Semester terbaru di atas (format "2025/2026 Ganjil" aman diurutkan string)
+  const semesters = Array.from(semesterMap.values()).sort((a, b) =>
+    b.semester.localeCompare(a.semester)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight">Nilai Saya</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Rekap nilai tugas dan quiz untuk semua kelas yang Anda ikuti.
+          </p>
+        </div>
+        <Link
+          href="/student"
+          className="inline-flex w-fit items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+        >
+          ← Dashboard
+        </Link>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="rounded-2xl border border-slate-200 bg-white px-4 py-6 text-center text-sm text-slate-500">
+          Memuat rekap nilai...
+        </div>
+      ) : courses.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-8 text-center text-sm text-slate-500">
+          Belum ada nilai yang bisa ditampilkan.
+        </div>
+      ) : (
+        semesters.map((summary) => {
+          const semesterCourses = courses.filter(
+            (item) => (item.course.semester || "-") === summary.semester
+          );
+
+          return (
+            <div key={summary.semester} className="space-y-3">
+              {/* Ringkasan semester */}
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-slate-200 bg-white px-4 py-3">
+                <div>
+                  <p className="text-[11px] uppercase tracking-wide text-slate-500">
+                    Semester
+                  </p>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {summary.semester}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-[10px]">
+                  <span className="inline-flex items-center rounded-full bg-slate-50 px-2 py-0.5 text-slate-600">
+                    Kelas:{" "}
+                    <span className="ml-1 font-semibold text-slate-900">
+                      {summary.courseCount}
+                    </span>
+                  </span>
+                  <span className="inline-flex items-center rounded-full bg-amber-50 px-2 py-0.5 text-amber-700">
+                    Capaian:{" "}
+                    <span className="ml-1 font-semibold">
+                      {formatPercent(summary.earned, summary.max)}
+                    </span>
+                  </span>
+                  {summary.missingCount > 0 && (
+                    <span className="inline-flex items-center rounded-full bg-red-50 px-2 py-0.5 text-red-700">
+                      Belum dikerjakan:{" "}
+                      <span className="ml-1 font-semibold">
+                        {summary.missingCount}
+                      </span>
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {semesterCourses.map((item) => {
+                const { course, assignments, quizzes, grades } = item;
+                const manualItems = item.manual_items ?? [];
+                const maxScore = getCourseMaxScore(item);
+                // Backend lama belum mengirim nilai akhir; hitung di klien
+                // dengan skema yang sama seperti rekap dosen
+                const final = resolveFinalGrade(
+                  item.grading_scheme ?? getDefaultGradingScheme(),
+                  listGradeItems(item),
+                  grades
+                );
+
+                return (
+                  <div
+                    key={course.id}
+                    className="rounded-2xl border border-slate-200 bg-white"
+                  >
+                    <div className="flex flex-wrap items-start justify-between gap-2 border-b border-slate-100 px-4 py-3">
+                      <div>
+                        <p className="text-xs font-semibold uppercase tracking-wide text-red-700">
+                          {course.template?.code ?? "-"}
+                        </p>
+                        <Link
+                          href={`/student/courses/${course.id}`}
+                          className="text-sm font-semibold text-slate-900 hover:underline"
+                        >
+                          {course.template?.name ?? "Tanpa template"}
+                        </Link>
+                        <p className="text-[11px] text-slate-500">
+                          Kelas {course.class_name}
+                          {course.lecturer ? ` • ${course.lecturer.name}` : ""}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        {final.final_score !== null ? (
+                          <>
+                            <p className="text-[11px] text-slate-500">
+                              Nilai akhir
+                            </p>
+                            <p className="text-lg font-semibold text-slate-900">
+                              {final.final_score}
+                              {final.letter_grade && (
+                                <span className="ml-2 inline-flex rounded-full bg-red-50 px-2 py-0.5 align-middle text-xs font-semibold text-red-700">
+                                  {final.letter_grade}
+                                </span>
+                              )}
+                            </p>
+                          </>
+                        ) : (
+                          <>
+                            <p className="text-[11px] text-slate-500">
+                              Total nilai
+                            </p>
+                            <p className="text-lg font-semibold text-slate-900">
+                              {Math.round(grades.total_score)}
+                              <span className="text-xs font-normal text-slate-500">
+                                {" "}
+                                / {maxScore}
+                              </span>
+                            </p>
+                          </>
+                        )}
+                        <p className="text-[10px] text-slate-500">
+                          Tugas {Math.round(grades.total_assignment_score)} •
+                          Quiz {Math.round(grades.total_quiz_score)}
+                        </p>
+                      </div>
+                    </div>
+
+                    {assignments.length === 0 &&
+                    quizzes.length === 0 &&
+                    manualItems.length === 0 ? (
+                      <p className="px-4 py-3 text-[11px] text-slate-400">
+                        Belum ada tugas atau quiz pada kelas ini.
+                      </p>
+                    ) : (
+                      <table className="min-w-full border-collapse text-[11px]">
+                        <tbody>
+                          {assignments.map((meta) => {
+                            const cell = grades.assignments[String(meta.id)];
+                            const state = getAssignmentState(
+                              meta,
+                              cell,
+                              nowMs
+                            );
+                            return (
+                              <tr
+                                key={`a-${meta.id}`}
+                                className={[
+                                  "border-t border-slate-100",
+                                  state === "missing" ? "bg-red-50/60" : "",
+                                ].join(" ")}
+                              >
+                                <td className="px-4 py-2">
+                                  <span className="mr-2 rounded-full bg-amber-500 px-2 py-0.5 text-[10px] font-medium text-white">
+                                    TUGAS
+                                  </span>
+                                  <span className="text-slate-900">
+                                    {meta.title}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-2 text-slate-500">
+                                  {state === "missing"
+                                    ? "Tidak dikumpulkan"
+                                    : state === "pending"
+                                    ? "Menunggu penilaian"
+                                    : state === "upcoming"
+                                    ? "Belum dikumpulkan"
+                                    : ""}
+                                </td>
+                                <td
+                                  className={[
+                                    "whitespace-nowrap px-4 py-2 text-right font-semibold",
+                                    ITEM_STATE_CLASSES[state],
+                                  ].join(" ")}
+                                >
+                                  {cell && cell.score !== null
+                                    ? cell.score
+                                    : "—"}{" "}
+                                  / {meta.max_score}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                          {quizzes.map((meta) => {
+                            const cell = grades.quizzes[String(meta.id)];
+                            const state = getQuizState(meta, cell, nowMs);
+                            return (
+                              <tr
+                                key={`q-${meta.id}`}
+                                className={[
+                                  "border-t border-slate-100",
+                                  state === "missing" ? "bg-red-50/60" : "",
+                                ].join(" ")}
+                              >
+                                <td className="px-4 py-2">
+                                  <span className="mr-2 rounded-full bg-emerald-600 px-2 py-0.5 text-[10px] font-medium text-white">
+                                    QUIZ
+                                  </span>
+                                  <span className="text-slate-900">
+                                    {meta.title}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-2 text-slate-500">
+                                  {state === "missing"
+                                    ? "Tidak dikerjakan"
+                                    : state === "upcoming"
+                                    ? "Belum dikerjakan"
+                                    : "Nilai terbaik"}
+                                </td>
+                                <td
+                                  className={[
+                                    "whitespace-nowrap px-4 py-2 text-right font-semibold",
+                                    ITEM_STATE_CLASSES[state],
+                                  ].join(" ")}
+                                >
+                                  {cell && cell.best_score !== null
+                                    ? cell.best_score
+                                    : "—"}{" "}
+                                  / {meta.max_score}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                          {manualItems.map((meta) => {
+                            const score =
+                              grades.manual?.[String(meta.id)]?.score ?? null;
+                            return (
+                              <tr
+                                key={`m-${meta.id}`}
+                                className="border-t border-slate-100"
+                              >
+                                <td className="px-4 py-2">
+                                  <span className="mr-2 rounded-full bg-slate-600 px-2 py-0.5 text-[10px] font-medium text-white">
+                                    NILAI
+                                  </span>
+                                  <span className="text-slate-900">
+                                    {meta.title}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-2 text-slate-500">
+                                  {score === null ? "Belum dinilai" : ""}
+                                </td>
+                                <td
+                                  className={[
+                                    "whitespace-nowrap px-4 py-2 text-right font-semibold",
+                                    ITEM_STATE_CLASSES[
+                                      score === null ? "upcoming" : "graded"
+                                    ],
+                                  ].join(" ")}
+                                >
+                                  {score ?? "—"} / {meta.max_score}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default StudentGradesPage;
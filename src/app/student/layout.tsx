@@ -1,7 +1,8 @@
 "use client";
 
-import React, { useEffect } from "react";
+import React from "react";
 import { useRouter } from "next/navigation";
+import RequireRole from "@/components/RequireRole";
 import { useAuth } from "@/context/AuthContext";
 
 interface StudentLayoutProps {
@@ -9,33 +10,9 @@ interface StudentLayoutProps {
 }
 
 const StudentLayout: React.FC<StudentLayoutProps> = ({ children }) => {
-  const { user, initialized, loading, logout } = useAuth();
+  const { user, logout } = useAuth();
   const router = useRouter();
 
-  useEffect(() => {
-    if (!initialized) return;
-
-    if (!user) {
-      router.replace(
-        "/login?message=" +
-          encodeURIComponent("Silakan login untuk mengakses halaman ini.")
-      );
-      return;
-    }
-
-    if (user.force_password_change) {
-      router.replace(
-        "/change-password?message=" +
-          encodeURIComponent("Silakan ganti password sebelum mengakses LMS.")
-      );
-      return;
-    }
-
-    if (user.role !== "mahasiswa") {
-      router.replace("/unauthorized");
-    }
-  }, [user, initialized, router]);
-
   const handleLogout = async () => {
     try {
       await logout();
@@ -44,61 +21,43 @@ const StudentLayout: React.FC<StudentLayoutProps> = ({ children }) => {
     }
   };
 
-  const isAllowed =
-    initialized &&
-    !loading &&
-    user &&
-    user.role === "mahasiswa" &&
-    !user.force_password_change;
-
-  if (!isAllowed) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-slate-50 text-slate-900">
-        <div className="flex flex-col items-center gap-3">
-          <div className="h-8 w-8 rounded-full border-2 border-red-600 border-t-transparent animate-spin" />
-          <p className="text-sm text-slate-500">
-            Memuat dashboard Mahasiswa...
-          </p>
-        </div>
-      </div>
-    );
-  }
-
   return (
-    <div className="min-h-screen bg-slate-50 text-slate-900 flex flex-col">
-      <header className="border-b border-slate-200 bg-white">
-        <div className="mx-auto max-w-6xl px-4 h-14 flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <div className="h-7 w-7 flex items-center justify-center rounded-lg bg-red-700 text-white text-xs font-semibold">
-              BS
-            </div>
-            <div>
-              <div className="text-sm font-semibold leading-none">
-                Bima Sakapenta
+    <RequireRole role="mahasiswa" loadingLabel="Memuat dashboard Mahasiswa...">
+      <div className="min-h-screen bg-slate-50 text-slate-900 flex flex-col">
+        <header className="border-b border-slate-200 bg-white">
+          <div className="mx-auto max-w-6xl px-4 h-14 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <div className="h-7 w-7 flex items-center justify-center rounded-lg bg-red-700 text-white text-xs font-semibold">
+                BS
               </div>
-              <div className="text-[11px] text-slate-500 leading-none mt-0.5">
-                Mahasiswa
+              <div>
+                <div className="text-sm font-semibold leading-none">
+                  Bima Sakapenta
+                </div>
+                <div className="text-[11px] text-slate-500 leading-none mt-0.5">
+                  Mahasiswa
+                </div>
               </div>
             </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-slate-500 hidden sm:inline">
+                {user?.name ?? user?.username}
+              </span>
+              <button
+                type="button"
+                onClick={handleLogout}
+                className="text-xs font-medium px-3 py-1.5 rounded-full border border-slate-200 bg-white hover:bg-slate-100 transition-colors"
+              >
+                Logout
+              </button>
+            </div>
           </div>
-          <div className="flex items-center gap-3">
-            <span className="text-xs text-slate-500 hidden sm:inline">
-              {user?.name ?? user?.username}
-            </span>
-            <button
-              type="button"
-              onClick={handleLogout}
-              className="text-xs font-medium px-3 py-1.5 rounded-full border border-slate-200 bg-white hover:bg-slate-100 transition-colors"
-            >
-              Logout
-            </button>
-          </div>
-        </div>
-      </header>
-      <main className="flex-1">
-        <div className="mx-auto max-w-6xl px-4 py-6">{children}</div>
-      </main>
-    </div>
+        </header>
+        <main className="flex-1">
+          <div className="mx-auto max-w-6xl px-4 py-6">{children}</div>
+        </main>
+      </div>
+    </RequireRole>
   );
 };
 
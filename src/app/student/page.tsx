@@ -1,16 +1,249 @@
-export default function StudentDashboardPage() {
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  listStudentCourseInstances,
+  type CourseStatus,
+  type StudentCourseInstance,
+} from "@/lib/api";
+import { extractErrorMessage, formatDate } from "@/lib/utils";
+
+type StatusFilter = "all" | CourseStatus;
+
+const STATUS_LABELS: Record<CourseStatus, string> = {
+  draft: "Draft",
+  active: "Aktif",
+  finished: "Selesai",
+};
+
+const STATUS_BADGE_CLASSES: Record<CourseStatus, string> = {
+  draft: "border-slate-200 bg-slate-50 text-slate-700",
+  active: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  finished: "border-amber-200 bg-amber-50 text-amber-700",
+};
+
+const StudentDashboardPage: React.FC = () => {
+  const [courses, setCourses] = useState<StudentCourseInstance[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("active");
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchCourses = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const data = await listStudentCourseInstances({
+          signal: controller.signal,
+        });
+
+        setCourses(data);
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        const message = extractErrorMessage(err, "Gagal memuat daftar kelas.");
+        setError(message);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void fetchCourses();
+
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  // Kelas draft belum dibuka oleh dosen, jadi tidak ditampilkan ke mahasiswa
+  const visibleCourses = courses.filter((c) => c.status !== "draft");
+
+  const filteredCourses =
+    statusFilter === "all"
+      ? visibleCourses
+      : visibleCourses.filter((c) => c.status === statusFilter);
+
+  const activeCount = visibleCourses.filter(
+    (c) => c.status === "active"
+  ).length;
+  const finishedCount = visibleCourses.filter(
+    (c) => c.status === "finished"
+  ).length;
+
   return (
-    <div className="space-y-4">
-      <h1 className="text-xl font-semibold tracking-tight">
-        Dashboard Mahasiswa
-      </h1>
-      <p className="text-sm text-slate-500">
-        Akses kelas dan progres belajar Anda.
-      </p>
-      <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3">
-        <p className="text-xs text-slate-500">Kelas Aktif</p>
-        <p className="mt-1 text-lg font-semibold text-slate-900">—</p>
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight">
+            Dashboard Mahasiswa
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Akses kelas dan progres belajar Anda.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Link
+            href="/student/grades"
+            className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Nilai Saya
+          </Link>
+          <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white px-1 py-1 text-xs">
+            {[
+              { key: "active", label: "Aktif" },
+              { key: "finished", label: "Selesai" },
+              { key: "all", label: "Semua" },
+            ].map((item) => {
+              const key = item.key as StatusFilter;
+              const isActive = statusFilter === key;
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setStatusFilter(key)}
+                  className={[
+                    "rounded-full px-3 py-1.5 transition-colors",
+                    isActive
+                      ? "bg-red-600 text-white shadow-sm"
+                      : "text-slate-600 hover:bg-slate-100",
+                  ].join(" ")}
+                >
+                  {item.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
       </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3">
+          <p className="text-xs text-slate-500">Kelas Aktif</p>
+          <p className="mt-1 text-lg font-semibold text-slate-900">
+            {loading ? "—" : activeCount}
+          </p>
+        </div>
+        <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3">
+          <p className="text-xs text-slate-500">Kelas Selesai</p>
+          <p className="mt-1 text-lg font-semibold text-slate-900">
+            {loading ? "—" : finishedCount}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {Array.from({ length: 2 }).map((_, idx) => (
+            <div
+              key={idx}
+              className="rounded-2xl border border-slate-200 bg-white p-4"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="space-y-2">
+                  <div className="h-4 w-40 rounded-full bg-slate-100" />
+                  <div className="h-3 w-28 rounded-full bg-slate-100" />
+                  <div className="h-3 w-32 rounded-full bg-slate-100" />
+                </div>
+                <div className="h-5 w-16 rounded-full bg-slate-100" />
+              </div>
+              <div className="mt-4 h-7 w-28 rounded-full bg-slate-100" />
+            </div>
+          ))}
+        </div>
+      ) : filteredCourses.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-8 text-center">
+          <p className="text-sm font-medium text-slate-700">
+            Belum ada kelas untuk filter ini.
+          </p>
+          <p className="mt-1 text-xs text-slate-500">
+            Kelas akan muncul di sini setelah Anda didaftarkan ke kelas oleh
+            Superadmin.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {filteredCourses.map((course) => (
+            <div
+              key={course.id}
+              className="flex flex-col justify-between rounded-2xl border border-slate-200 bg-white p-4"
+            >
+              <div className="space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-red-700">
+                      {course.template.code}
+                    </p>
+                    <h2 className="mt-0.5 text-sm font-semibold text-slate-900">
+                      {course.template.name}
+                    </h2>
+                  </div>
+                  <span
+                    className={[
+                      "inline-flex items-center rounded-full border px-2 py-0.5 text-[11px] font-medium",
+                      STATUS_BADGE_CLASSES[course.status],
+                    ].join(" ")}
+                  >
+                    {STATUS_LABELS[course.status]}
+                  </span>
+                </div>
+
+                <p className="text-xs text-slate-500">
+                  Kelas{" "}
+                  <span className="font-medium text-slate-800">
+                    {course.class_name}
+                  </span>{" "}
+                  • Semester{" "}
+                  <span className="font-medium text-slate-800">
+                    {course.semester}
+                  </span>
+                </p>
+
+                <p className="text-[11px] text-slate-500">
+                  Dosen:{" "}
+                  <span className="font-medium text-slate-700">
+                    {course.lecturer ? course.lecturer.name : "—"}
+                  </span>
+                </p>
+
+                <p className="text-[11px] text-slate-500">
+                  Periode:{" "}
+                  <span className="font-medium text-slate-700">
+                    {formatDate(course.start_date)}
+                  </span>{" "}
+                  –{" "}
+                  <span className="font-medium text-slate-700">
+                    {formatDate(course.end_date)}
+                  </span>
+                </p>
+              </div>
+
+              <div className="mt-4 flex items-center justify-end">
+                <Link
+                  href={`/student/courses/${course.id}`}
+                  className="inline-flex items-center justify-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 shadow-sm hover:bg-slate-50"
+                >
+                  Masuk kelas →
+                </Link>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
-}
+};
+
+export default StudentDashboardPage;
@@ -0,0 +1,963 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { ApiError, isAbortError } from "@/lib/apiClient";
+import {
+  getStudentQuiz,
+  saveQuizAnswers,
+  startQuizAttempt,
+  submitQuizAttempt,
+  type AnswerMap,
+  type AnswerValue,
+  type QuizTimeStatus,
+  type StudentQuizAttempt,
+  type StudentQuizDetail,
+  type StudentQuizQuestion,
+} from "@/lib/api";
+import {
+  extractErrorMessage,
+  formatDateTime,
+  formatDuration,
+} from "@/lib/utils";
+import { QUESTION_TYPE_LABELS, countWords } from "@/lib/quizQuestions";
+
+/**
+ * -------------------------
+ * Type definitions
+ * -------------------------
+ */
+
+type DisplayMode = "single" | "all";
+
+type SaveStatus = "idle" | "saving" | "saved" | "error";
+
+/** Interval autosave jawaban ke backend (ms) */
+const AUTOSAVE_INTERVAL_MS = 10_000;
+
+/** Mulai beri peringatan merah saat sisa waktu di bawah ini (ms) */
+const WARNING_THRESHOLD_MS = 60_000;
+
+/**
+ * -------------------------
+ * Helpers
+ * -------------------------
+ */
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  const mm = String(m).padStart(2, "0");
+  const ss = String(s).padStart(2, "0");
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+function canAttemptNow(status: QuizTimeStatus | undefined): boolean {
+  if (!status) return false;
+  if (typeof status === "string") return status === "ongoing";
+  if (typeof status === "object") return status.can_attempt_now;
+  return false;
+}
+
+function questionKey(question: StudentQuizQuestion, index: number): string {
+  return question.id !== undefined && question.id !== null
+    ? String(question.id)
+    : String(index);
+}
+
+function isAnswered(value: AnswerValue | undefined): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  // Menjodohkan dianggap terjawab kalau semua pernyataan sudah dipasangkan
+  if (Array.isArray(value)) {
+    return (
+      value.length > 0 &&
+      value.every((item) => typeof item === "number" || item.trim() !== "")
+    );
+  }
+  return true;
+}
+
+/**
+ * Selisih jam server dan jam lokal (ms). Dipakai supaya countdown tidak
+ * tergantung jam komputer mahasiswa yang bisa saja salah/dimajukan.
+ */
+function computeServerOffset(serverTime: string | undefined): number {
+  if (!serverTime) return 0;
+  const parsed = Date.parse(serverTime);
+  if (Number.isNaN(parsed)) return 0;
+  return parsed - Date.now();
+}
+
+/**
+ * Batas akhir attempt: expires_at dari backend jika ada, kalau tidak
+ * min(started_at + durasi, end_time quiz).
+ */
+function computeDeadlineMs(
+  quiz: StudentQuizDetail,
+  attempt: StudentQuizAttempt
+): number | null {
+  if (attempt.expires_at) {
+    const parsed = Date.parse(attempt.expires_at);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+
+  const candidates: number[] = [];
+
+  const startedAt = Date.parse(attempt.started_at);
+  if (!Number.isNaN(startedAt) && quiz.duration_minutes) {
+    candidates.push(startedAt + quiz.duration_minutes * 60_000);
+  }
+
+  if (quiz.end_time) {
+    const endTime = Date.parse(quiz.end_time);
+    if (!Number.isNaN(endTime)) candidates.push(endTime);
+  }
+
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+/**
+ * -------------------------
+ * Component
+ * -------------------------
+ */
+
+const StudentQuizPage: React.FC = () => {
+  const params = useParams();
+  const router = useRouter();
+
+  const quizIdParam = params?.id;
+  const quizId =
+    typeof quizIdParam === "string"
+      ? quizIdParam
+      : Array.isArray(quizIdParam)
+      ? quizIdParam[0]
+      : "";
+
+  const [quiz, setQuiz] = useState<StudentQuizDetail | null>(null);
+  const [attempt, setAttempt] = useState<StudentQuizAttempt | null>(null);
+  const [questions, setQuestions] = useState<StudentQuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<AnswerMap>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [starting, setStarting] = useState<boolean>(false);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [confirmSubmitOpen, setConfirmSubmitOpen] = useState<boolean>(false);
+  const [autoSubmitted, setAutoSubmitted] = useState<boolean>(false);
+  // Submit ditolak 4xx (attempt sudah dikumpulkan/kedaluwarsa): muat ulang
+  const [staleAttempt, setStaleAttempt] = useState<boolean>(false);
+
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+
+  const [displayMode, setDisplayMode] = useState<DisplayMode>("single");
+  const [currentIndex, setCurrentIndex] = useState<number>(0);
+
+  const [serverOffsetMs, setServerOffsetMs] = useState<number>(0);
+  const [nowMs, setNowMs] = useState<number>(() => Date.now());
+
+  // Ref dipakai oleh timer/autosave supaya selalu membaca jawaban terbaru
+  const answersRef = useRef<AnswerMap>({});
+  const dirtyRef = useRef<boolean>(false);
+  const submittingRef = useRef<boolean>(false);
+  // Submit otomatis hanya sekali per attempt; kalau gagal, mahasiswa
+  // mengumpulkan lewat tombol Kumpulkan
+  const autoSubmittedAttemptRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!quizId) return;
+
+    const controller = new AbortController();
+
+    const loadData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getStudentQuiz(quizId, {
+          signal: controller.signal,
+        });
+
+        setQuiz(data.quiz);
+        setAttempt(data.attempt);
+        setServerOffsetMs(computeServerOffset(data.server_time));
+
+        if (data.attempt && !data.attempt.submitted_at) {
+          // Lanjutkan attempt yang masih berjalan (misal setelah refresh)
+          const restored = data.attempt.answers ?? {};
+          answersRef.current = restored;
+          setAnswers(restored);
+          setQuestions(data.questions ?? []);
+        }
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        setError(extractErrorMessage(err, "Gagal memuat quiz."));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadData();
+
+    return () => {
+      controller.abort();
+    };
+  }, [quizId]);
+
+  useEffect(() => {
+    if (!quizId || !staleAttempt) return;
+
+    const controller = new AbortController();
+
+    const reloadAttempt = async () => {
+      try {
+        const data = await getStudentQuiz(quizId, {
+          signal: controller.signal,
+        });
+        setQuiz(data.quiz);
+        setAttempt(data.attempt);
+        setServerOffsetMs(computeServerOffset(data.server_time));
+      } catch {
+        // Biarkan pesan error submit yang tampil
+      } finally {
+        if (!controller.signal.aborted) {
+          setStaleAttempt(false);
+        }
+      }
+    };
+
+    void reloadAttempt();
+
+    return () => {
+      controller.abort();
+    };
+  }, [quizId, staleAttempt]);
+
+  const isInProgress = !!attempt && !attempt.submitted_at;
+  const deadlineMs =
+    quiz && attempt && isInProgress ? computeDeadlineMs(quiz, attempt) : null;
+  const attemptId = isInProgress && attempt ? attempt.id : null;
+
+  const saveAnswers = async (currentAttemptId: number) => {
+    if (!dirtyRef.current) return;
+
+    dirtyRef.current = false;
+    setSaveStatus("saving");
+    try {
+      const res = await saveQuizAnswers(
+        currentAttemptId,
+        answersRef.current
+      );
+      setSaveStatus("saved");
+      setLastSavedAt(res.saved_at ?? new Date().toISOString());
+      if (res.server_time) {
+        setServerOffsetMs(computeServerOffset(res.server_time));
+      }
+    } catch {
+      // tandai kotor lagi supaya dicoba ulang pada autosave berikutnya
+      dirtyRef.current = true;
+      setSaveStatus("error");
+    }
+  };
+
+  const submitAttempt = async (currentAttemptId: number, auto: boolean) => {
+    if (submittingRef.current) return;
+
+    submittingRef.current = true;
+    setSubmitting(true);
+    setActionError(null);
+    setConfirmSubmitOpen(false);
+
+    try {
+      const res = await submitQuizAttempt(
+        currentAttemptId,
+        answersRef.current
+      );
+      dirtyRef.current = false;
+      setAttempt(res.attempt);
+      setAutoSubmitted(auto);
+    } catch (err: unknown) {
+      // Boleh dicoba lagi secara manual
+      submittingRef.current = false;
+      setActionError(
+        extractErrorMessage(
+          err,
+          auto
+            ? "Waktu habis, tetapi jawaban gagal dikirim otomatis. Silakan klik Kumpulkan."
+            : "Gagal mengumpulkan quiz."
+        )
+      );
+      // 4xx tidak akan berhasil kalau diulang: ambil status terbaru
+      if (
+        err instanceof ApiError &&
+        err.status !== undefined &&
+        err.status >= 400 &&
+        err.status < 500
+      ) {
+        setStaleAttempt(true);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Countdown: tick tiap detik, submit otomatis ketika waktu habis
+  useEffect(() => {
+    if (attemptId === null || deadlineMs === null) return;
+
+    const timer = window.setInterval(() => {
+      const now = Date.now();
+      setNowMs(now);
+      if (
+        now + serverOffsetMs >= deadlineMs &&
+        !submittingRef.current &&
+        autoSubmittedAttemptRef.current !== attemptId
+      ) {
+        autoSubmittedAttemptRef.current = attemptId;
+        void submitAttempt(attemptId, true);
+      }
+    }, 1000);
+
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [attemptId, deadlineMs, serverOffsetMs]);
+
+  // Autosave berkala selama attempt berjalan
+  useEffect(() => {
+    if (attemptId === null) return;
+
+    const timer = window.setInterval(() => {
+      if (!submittingRef.current) {
+        void saveAnswers(attemptId);
+      }
+    }, AUTOSAVE_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [attemptId]);
+
+  const handleStart = async () => {
+    if (!quiz) return;
+
+    setStarting(true);
+    setActionError(null);
+    try {
+      const res = await startQuizAttempt(quiz.id);
+      const restored = res.attempt.answers ?? {};
+      answersRef.current = restored;
+      dirtyRef.current = false;
+      submittingRef.current = false;
+      setAnswers(restored);
+      setQuestions(res.questions ?? []);
+      setAttempt(res.attempt);
+      setServerOffsetMs(computeServerOffset(res.server_time));
+      setNowMs(Date.now());
+      setCurrentIndex(0);
+      setSaveStatus("idle");
+      setLastSavedAt(null);
+    } catch (err: unknown) {
+      setActionError(extractErrorMessage(err, "Gagal memulai quiz."));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleAnswerChange = (key: string, value: AnswerValue) => {
+    const next = { ...answersRef.current, [key]: value };
+    answersRef.current = next;
+    dirtyRef.current = true;
+    setAnswers(next);
+  };
+
+  const goToQuestion = (index: number) => {
+    setCurrentIndex(index);
+    if (attemptId !== null) {
+      void saveAnswers(attemptId);
+    }
+  };
+
+  const handleBack = () => {
+    const courseId = quiz?.section?.course_instance?.id;
+    if (courseId) {
+      router.push(`/student/courses/${courseId}`);
+    } else {
+      router.push("/student");
+    }
+  };
+
+  /**
+   * Render
+   */
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="flex flex-col items-center gap-3">
+          <div className="h-8 w-8 rounded-full border-2 border-red-600 border-t-transparent animate-spin" />
+          <p className="text-sm text-slate-500">Memuat quiz...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !quiz) {
+    return (
+      <div className="space-y-3">
+        <button
+          type="button"
+          onClick={handleBack}
+          className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+        >
+          ← Kembali
+        </button>
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+          {error ?? "Data quiz tidak ditemukan."}
+        </div>
+      </div>
+    );
+  }
+
+  const courseInfo = quiz.section?.course_instance;
+  const remainingMs =
+    deadlineMs !== null ? deadlineMs - (nowMs + serverOffsetMs) : null;
+  const answeredCount = questions.filter((q, idx) =>
+    isAnswered(answers[questionKey(q, idx)])
+  ).length;
+
+  const optionClass = (checked: boolean) =>
+    [
+      "flex cursor-pointer items-center gap-2 rounded-full border px-3 py-1.5 text-[11px] transition-colors",
+      checked
+        ? "border-red-500 bg-red-50 text-slate-900"
+        : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50",
+    ].join(" ");
+
+  const renderAnswerInput = (
+    question: StudentQuizQuestion,
+    key: string,
+    value: AnswerValue | undefined,
+    disabled: boolean
+  ) => {
+    switch (question.type) {
+      case "multiple_choice":
+        return (
+          <div className="flex flex-col gap-1.5">
+            {(question.options ?? []).map((opt, optIndex) => {
+              const checked = value === optIndex;
+              return (
+                <label
+                  key={opt.id ?? optIndex}
+                  className={optionClass(checked)}
+                >
+                  <input
+                    type="radio"
+                    name={`question-${key}`}
+                    checked={checked}
+                    disabled={disabled}
+                    onChange={() => handleAnswerChange(key, optIndex)}
+                    className="accent-red-600"
+                  />
+                  <span>{opt.text}</span>
+                </label>
+              );
+            })}
+          </div>
+        );
+
+      case "multiple_answer": {
+        const selected = Array.isArray(value)
+          ? value.filter((item): item is number => typeof item === "number")
+          : [];
+        return (
+          <div className="flex flex-col gap-1.5">
+            <p className="text-[10px] text-slate-500">
+              Pilih semua jawaban yang benar.
+            </p>
+            {(question.options ?? []).map((opt, optIndex) => {
+              const checked = selected.includes(optIndex);
+              return (
+                <label
+                  key={opt.id ?? optIndex}
+                  className={optionClass(checked)}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={disabled}
+                    onChange={() =>
+                      handleAnswerChange(
+                        key,
+                        checked
+                          ? selected.filter((idx) => idx !== optIndex)
+                          : [...selected, optIndex].sort((a, b) => a - b)
+                      )
+                    }
+                    className="accent-red-600"
+                  />
+                  <span>{opt.text}</span>
+                </label>
+              );
+            })}
+          </div>
+        );
+      }
+
+      case "true_false":
+        return (
+          <div className="flex flex-wrap gap-2">
+            {[
+              { answer: true, label: "Benar" },
+              { answer: false, label: "Salah" },
+            ].map((item) => (
+              <label
+                key={item.label}
+                className={optionClass(value === item.answer)}
+              >
+                <input
+                  type="radio"
+                  name={`question-${key}`}
+                  checked={value === item.answer}
+                  disabled={disabled}
+                  onChange={() => handleAnswerChange(key, item.answer)}
+                  className="accent-red-600"
+                />
+                <span>{item.label}</span>
+              </label>
+            ))}
+          </div>
+        );
+
+      case "matching": {
+        const prompts = question.matching_prompts ?? [];
+        const choices = question.matching_choices ?? [];
+        const current = prompts.map((_, i) =>
+          Array.isArray(value) && typeof value[i] === "string"
+            ? (value[i] as string)
+            : ""
+        );
+        return (
+          <div className="flex flex-col gap-1.5">
+            {prompts.map((prompt, promptIndex) => (
+              <div
+                key={promptIndex}
+                className="flex flex-col gap-1 sm:flex-row sm:items-center sm:gap-2"
+              >
+                <span className="flex-1 text-[11px] text-slate-800">
+                  {prompt}
+                </span>
+                <select
+                  value={current[promptIndex]}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    handleAnswerChange(
+                      key,
+                      current.map((item, i) =>
+                        i === promptIndex ? e.target.value : item
+                      )
+                    )
+                  }
+                  className="flex-1 rounded-full border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500"
+                >
+                  <option value="">Pilih pasangan...</option>
+                  {choices.map((choice) => (
+                    <option key={choice} value={choice}>
+                      {choice}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      case "numeric":
+        return (
+          <input
+            type="text"
+            inputMode="decimal"
+            value={typeof value === "string" ? value : ""}
+            disabled={disabled}
+            onChange={(e) => handleAnswerChange(key, e.target.value)}
+            className="w-40 rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-900 outline-none focus:border-red-500"
+            placeholder="Jawaban angka"
+          />
+        );
+
+      case "essay": {
+        const text = typeof value === "string" ? value : "";
+        const words = countWords(text);
+        const limit = question.essay_word_limit ?? null;
+        return (
+          <div>
+            <textarea
+              value={text}
+              disabled={disabled}
+              onChange={(e) => handleAnswerChange(key, e.target.value)}
+              className="min-h-[160px] w-full rounded-xl border border-slate-200 bg-white px-2 py-1.5 text-[11px] text-slate-900 outline-none focus:border-red-500"
+              placeholder="Tulis jawaban esai Anda..."
+            />
+            <p
+              className={`mt-1 text-right text-[10px] ${
+                limit !== null && words > limit
+                  ? "text-red-600"
+                  : "text-slate-500"
+              }`}
+            >
+              {limit !== null ? `${words}/${limit} kata` : `${words} kata`}
+            </p>
+          </div>
+        );
+      }
+
+      default:
+        return (
+          <textarea
+            value={typeof value === "string" ? value : ""}
+            disabled={disabled}
+            onChange={(e) => handleAnswerChange(key, e.target.value)}
+            className="min-h-[72px] w-full rounded-xl border border-slate-200 bg-white px-2 py-1.5 text-[11px] text-slate-900 outline-none focus:border-red-500"
+            placeholder="Tulis jawaban Anda..."
+          />
+        );
+    }
+  };
+
+  const renderQuestion = (question: StudentQuizQuestion, index: number) => {
+    const key = questionKey(question, index);
+    const value = answers[key];
+    const disabled = submitting;
+
+    return (
+      <div
+        key={key}
+        className="rounded-xl border border-slate-200 bg-white px-4 py-3"
+      >
+        <div className="mb-2 flex items-start justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-[10px] font-semibold text-white">
+              {index + 1}
+            </span>
+            <span className="text-[11px] font-medium text-slate-700">
+              {QUESTION_TYPE_LABELS[question.type] ?? question.type}
+            </span>
+          </div>
+          <span className="text-[10px] text-slate-500">
+            {question.points} poin
+          </span>
+        </div>
+        <p className="mb-3 whitespace-pre-wrap text-xs text-slate-900">
+          {question.text}
+        </p>
+
+        {renderAnswerInput(question, key, value, disabled)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleBack}
+            disabled={isInProgress}
+            className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            ← Kembali
+          </button>
+          <div>
+            <h1 className="text-sm font-semibold tracking-tight text-slate-900">
+              {quiz.title}
+            </h1>
+            <p className="mt-0.5 text-[11px] text-slate-500">
+              {courseInfo
+                ? `${courseInfo.template?.code ?? ""} ${
+                    courseInfo.template?.name ?? ""
+                  } • Kelas ${courseInfo.class_name} • ${courseInfo.semester}`
+                : "Informasi kelas tidak tersedia"}
+            </p>
+          </div>
+        </div>
+
+        {isInProgress && remainingMs !== null && (
+          <div
+            className={[
+              "inline-flex w-fit items-center gap-2 rounded-full border px-4 py-1.5 font-mono text-sm font-semibold",
+              remainingMs <= WARNING_THRESHOLD_MS
+                ? "border-red-300 bg-red-50 text-red-700"
+                : "border-slate-200 bg-white text-slate-900",
+            ].join(" ")}
+          >
+            <span className="font-sans text-[10px] font-medium uppercase tracking-wide text-slate-500">
+              Sisa waktu
+            </span>
+            {formatCountdown(remainingMs)}
+          </div>
+        )}
+      </div>
+
+      {actionError && (
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+          {actionError}
+        </div>
+      )}
+
+      {/* Belum mulai / sudah selesai */}
+      {!isInProgress && (
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="md:col-span-2 space-y-2 rounded-2xl border border-slate-200 bg-white p-4">
+            <p className="text-xs font-semibold text-slate-900">
+              Informasi Quiz
+            </p>
+            {quiz.description && (
+              <p className="whitespace-pre-line text-[11px] text-slate-600">
+                {quiz.description}
+              </p>
+            )}
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-[11px] text-slate-600">
+              <div>
+                <dt className="text-slate-400">Waktu mulai</dt>
+                <dd className="font-medium">
+                  {formatDateTime(quiz.start_time)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-slate-400">Waktu selesai</dt>
+                <dd className="font-medium">{formatDateTime(quiz.end_time)}</dd>
+              </div>
+              <div>
+                <dt className="text-slate-400">Durasi</dt>
+                <dd className="font-medium">
+                  {formatDuration(quiz.duration_minutes)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-slate-400">Jumlah soal</dt>
+                <dd className="font-medium">{quiz.question_count ?? "-"}</dd>
+              </div>
+            </dl>
+          </div>
+
+          <div className="space-y-2 rounded-2xl border border-slate-200 bg-white p-4 text-[11px]">
+            {attempt && attempt.submitted_at ? (
+              <>
+                <p className="text-xs font-semibold text-slate-900">
+                  Quiz sudah dikumpulkan
+                </p>
+                {autoSubmitted && (
+                  <p className="rounded-lg bg-amber-50 px-2 py-1 text-amber-700">
+                    Waktu habis — jawaban dikumpulkan otomatis.
+                  </p>
+                )}
+                <p className="text-slate-600">
+                  Dikumpulkan {formatDateTime(attempt.submitted_at)}
+                </p>
+                <p className="text-slate-600">
+                  Skor:{" "}
+                  <span className="text-lg font-semibold text-slate-900">
+                    {attempt.score ?? "-"}
+                  </span>
+                  {quiz.max_score != null && ` / ${quiz.max_score}`}
+                </p>
+                {attempt.score === null && (
+                  <p className="text-[10px] text-slate-400">
+                    Skor akan muncul setelah jawaban isian diperiksa dosen.
+                  </p>
+                )}
+              </>
+            ) : canAttemptNow(quiz.time_status) ? (
+              <>
+                <p className="text-xs font-semibold text-slate-900">
+                  Siap mengerjakan?
+                </p>
+                <p className="text-slate-600">
+                  Timer berjalan sejak Anda menekan tombol mulai dan tidak
+                  berhenti walaupun halaman ditutup. Jawaban tersimpan otomatis
+                  dan dikumpulkan otomatis saat waktu habis.
+                </p>
+                <button
+                  type="button"
+                  onClick={() => void handleStart()}
+                  disabled={starting}
+                  className="inline-flex items-center rounded-full bg-red-600 px-4 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {starting ? "Memulai..." : "Mulai quiz"}
+                </button>
+              </>
+            ) : (
+              <>
+                <p className="text-xs font-semibold text-slate-900">
+                  Quiz tidak dapat dikerjakan
+                </p>
+                <p className="text-slate-600">
+                  Quiz hanya bisa dikerjakan pada rentang waktu yang ditentukan
+                  dosen.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Attempt berjalan */}
+      {isInProgress && (
+        <div className="grid grid-cols-1 items-start gap-4 lg:grid-cols-[minmax(0,_3fr)_minmax(0,_1fr)]">
+          <div className="flex flex-col gap-3">
+            {questions.length === 0 ? (
+              <p className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-6 text-center text-[11px] text-slate-500">
+                Quiz ini belum memiliki soal.
+              </p>
+            ) : displayMode === "all" ? (
+              questions.map((q, idx) => renderQuestion(q, idx))
+            ) : (
+              <>
+                {renderQuestion(
+                  questions[Math.min(currentIndex, questions.length - 1)],
+                  Math.min(currentIndex, questions.length - 1)
+                )}
+                <div className="flex items-center justify-between">
+                  <button
+                    type="button"
+                    disabled={currentIndex <= 0}
+                    onClick={() => goToQuestion(currentIndex - 1)}
+                    className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] text-slate-700 hover:bg-slate-50 disabled:opacity-40"
+                  >
+                    ← Sebelumnya
+                  </button>
+                  <button
+                    type="button"
+                    disabled={currentIndex >= questions.length - 1}
+                    onClick={() => goToQuestion(currentIndex + 1)}
+                    className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] text-slate-700 hover:bg-slate-50 disabled:opacity-40"
+                  >
+                    Berikutnya →
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Panel navigasi */}
+          <div className="space-y-3 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-[11px]">
+            <div className="inline-flex w-full items-center gap-1 rounded-full bg-slate-100 p-1">
+              {(
+                [
+                  { key: "single", label: "Satu per satu" },
+                  { key: "all", label: "Semua soal" },
+                ] as { key: DisplayMode; label: string }[]
+              ).map((item) => (
+                <button
+                  key={item.key}
+                  type="button"
+                  onClick={() => setDisplayMode(item.key)}
+                  className={[
+                    "flex-1 rounded-full px-2 py-1",
+                    displayMode === item.key
+                      ? "bg-white text-slate-900 shadow-sm"
+                      : "text-slate-500",
+                  ].join(" ")}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <p className="mb-1 text-slate-500">
+                Terjawab {answeredCount}/{questions.length}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {questions.map((q, idx) => {
+                  const answered = isAnswered(answers[questionKey(q, idx)]);
+                  const isCurrent =
+                    displayMode === "single" && idx === currentIndex;
+                  return (
+                    <button
+                      key={questionKey(q, idx)}
+                      type="button"
+                      onClick={() => {
+                        setDisplayMode("single");
+                        goToQuestion(idx);
+                      }}
+                      className={[
+                        "h-7 w-7 rounded-full border text-[10px] font-semibold",
+                        isCurrent
+                          ? "border-red-600 bg-red-600 text-white"
+                          : answered
+                          ? "border-emerald-300 bg-emerald-50 text-emerald-700"
+                          : "border-slate-200 bg-white text-slate-600",
+                      ].join(" ")}
+                    >
+                      {idx + 1}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <p className="text-[10px] text-slate-400">
+              {saveStatus === "saving"
+                ? "Menyimpan jawaban..."
+                : saveStatus === "error"
+                ? "Gagal menyimpan, akan dicoba lagi otomatis."
+                : lastSavedAt
+                ? `Tersimpan ${formatDateTime(lastSavedAt)}`
+                : "Jawaban disimpan otomatis."}
+            </p>
+
+            {confirmSubmitOpen ? (
+              <div className="space-y-2 rounded-xl border border-red-200 bg-red-50 px-3 py-2">
+                <p className="text-red-700">
+                  Kumpulkan sekarang?{" "}
+                  {answeredCount < questions.length &&
+                    `${questions.length - answeredCount} soal belum dijawab.`}
+                </p>
+                <div className="flex items-center justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setConfirmSubmitOpen(false)}
+                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] text-slate-700 hover:bg-slate-50"
+                  >
+                    Batal
+                  </button>
+                  <button
+                    type="button"
+                    disabled={submitting}
+                    onClick={() =>
+                      attemptId !== null && void submitAttempt(attemptId, false)
+                    }
+                    className="rounded-full bg-red-600 px-3 py-1 text-[11px] font-semibold text-white hover:bg-red-700 disabled:opacity-60"
+                  >
+                    Ya, kumpulkan
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                type="button"
+                disabled={submitting}
+                onClick={() => setConfirmSubmitOpen(true)}
+                className="w-full rounded-full bg-red-600 px-4 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {submitting ? "Mengumpulkan..." : "Kumpulkan quiz"}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentQuizPage;
@@ -2,59 +2,16 @@
 
 import React, { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
-import { apiGet, apiPost, apiDelete } from "@/lib/apiClient";
-
-type CourseStatus = "draft" | "active" | "finished";
-
-interface TemplateLite {
-  id: number;
-  code: string;
-  name: string;
-}
-
-interface LecturerLite {
-  id: number;
-  name: string;
-  username: string;
-}
-
-interface ClassLite {
-  id: number;
-  course_template_id: number;
-  class_name: string;
-  semester: string;
-  status: CourseStatus;
-  start_date?: string | null;
-  end_date?: string | null;
-  notes?: string | null;
-  template?: TemplateLite | null;
-  lecturer?: LecturerLite | null;
-}
-
-type EnrollmentStatus = "active" | "dropped";
-
-interface StudentLite {
-  id: number;
-  name: string;
-  username: string;
-  nim: string | null;
-  email: string | null;
-  role: string;
-  user_status: "active" | "inactive";
-}
-
-interface EnrollmentItem {
-  enrollment_id: number;
-  status: EnrollmentStatus;
-  enrolled_at?: string | null;
-  dropped_at?: string | null;
-  student: StudentLite;
-}
-
-interface ClassStudentsResponse {
-  class: ClassLite;
-  students: EnrollmentItem[];
-}
+import {
+  dropStudent,
+  enrollStudent,
+  listClassStudents,
+  updateCourseInstanceStatus,
+  type ClassDetail,
+  type CourseStatus,
+  type EnrollmentItem,
+  type EnrollmentStatus,
+} from "@/lib/api";
 
 const statusLabel = (status: CourseStatus) => {
   switch (status) {
@@ -98,7 +55,7 @@ const ClassDetailPage: React.FC = () => {
   const params = useParams(); // <--- WAJIB DI NEXT 16
   const classId = (params?.id ?? "") as string;
 
-  const [classInfo, setClassInfo] = useState<ClassLite | null>(null);
+  const [classInfo, setClassInfo] = useState<ClassDetail | null>(null);
   const [students, setStudents] = useState<EnrollmentItem[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -119,11 +76,7 @@ const ClassDetailPage: React.FC = () => {
     setError(null);
     setLoading(true);
     try {
-      const res = await apiGet<ClassStudentsResponse>(
-        `/api/admin/course-instances/${id}/students`,
-        undefined,
-        { withAuth: true }
-      );
+      const res = await listClassStudents(id);
       setClassInfo(res.class);
       setStudents(res.students ?? []);
     } catch (err: unknown) {
@@ -148,11 +101,7 @@ const ClassDetailPage: React.FC = () => {
     setStatusUpdating(status);
     setError(null);
     try {
-      await apiPost<unknown>(
-        `/api/admin/course-instances/${classId}/status`,
-        { status },
-        { withAuth: true }
-      );
+      await updateCourseInstanceStatus(classId, status);
       setClassInfo({ ...classInfo, status });
     } catch (err: unknown) {
       if (err instanceof Error) {
@@ -171,14 +120,7 @@ const ClassDetailPage: React.FC = () => {
     setAddError(null);
 
     try {
-      const body = { nim: nimOrUsername.trim() }; // backend: nim ATAU username
-      const res = await apiPost<
-        { enrollment: EnrollmentItem; message?: string } | EnrollmentItem
-      >(
-        `/api/admin/course-instances/${classId}/students`,
-        body,
-        { withAuth: true }
-      );
+      const res = await enrollStudent(classId, nimOrUsername.trim());
 
       const enrollment =
         "enrollment" in res ? res.enrollment : (res as EnrollmentItem);
@@ -216,11 +158,7 @@ const ClassDetailPage: React.FC = () => {
     setError(null);
 
     try {
-      await apiDelete<unknown>(
-        `/api/admin/course-instances/${classId}/students/${studentId}`,
-        undefined,
-        { withAuth: true }
-      );
+      await dropStudent(classId, studentId);
 
       setStudents((prev) =>
         prev.map((s) =>
@@ -1,38 +1,21 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import { useRouter } from "next/navigation";
-import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/apiClient";
-
-type CourseStatus = "draft" | "active" | "finished";
-
-interface CourseTemplateLite {
-  id: number;
-  code: string;
-  name: string;
-}
-
-interface LecturerLite {
-  id: number;
-  name: string;
-  username: string;
-}
-
-interface CourseInstance {
-  id: number;
-  class_name: string;
-  semester: string;
-  status: CourseStatus;
-  start_date?: string | null;
-  end_date?: string | null;
-  notes?: string | null;
-  course_template_id?: number;
-  lecturer_id?: number;
-  // backend bisa kirim salah satu dari ini, jadi kita pegang dua2nya
-  course_template?: CourseTemplateLite;
-  template?: CourseTemplateLite;
-  lecturer?: LecturerLite;
-}
+import {
+  courseInstancesQuery,
+  courseTemplatesQuery,
+  createCourseInstance,
+  deleteCourseInstance,
+  updateCourseInstance,
+  usersQuery,
+  type AdminCourseInstance,
+  type CourseInstanceListQuery,
+  type CourseInstancePayload,
+  type CourseStatus,
+  type LecturerLite,
+} from "@/lib/api";
+import { useQuery } from "@/lib/queryCache";
 
 type StatusFilter = "all" | CourseStatus;
 
@@ -59,22 +42,40 @@ const emptyForm: ClassFormState = {
   notes: "",
 };
 
+function buildClassListQuery(
+  semester: string,
+  status: StatusFilter
+): CourseInstanceListQuery {
+  const params: CourseInstanceListQuery = {};
+  if (semester.trim()) {
+    params.semester = semester.trim();
+  }
+  if (status !== "all") {
+    params.status = status;
+  }
+  return params;
+}
+
+function getQueryErrorMessage(
+  error: unknown,
+  fallback: string,
+  unknownFallback: string
+): string | null {
+  if (!error) return null;
+  if (error instanceof Error) return error.message || fallback;
+  return unknownFallback;
+}
+
 const ClassListPage: React.FC = () => {
   const router = useRouter();
 
-  const [classes, setClasses] = useState<CourseInstance[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [refreshing, setRefreshing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
   const [semesterFilter, setSemesterFilter] = useState<string>("");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
 
-  // data pendukung untuk form
-  const [templates, setTemplates] = useState<CourseTemplateLite[]>([]);
-  const [lecturers, setLecturers] = useState<LecturerLite[]>([]);
-  const [metaLoading, setMetaLoading] = useState<boolean>(false);
-  const [metaError, setMetaError] = useState<string | null>(null);
+  // data pendukung untuk form, baru dimuat saat form pertama kali dibuka
+  const [metaRequested, setMetaRequested] = useState<boolean>(false);
 
   // modal form
   const [formOpen, setFormOpen] = useState<boolean>(false);
@@ -88,87 +89,45 @@ const ClassListPage: React.FC = () => {
 
   // ---------- LOAD LIST KELAS ----------
 
-  const loadClasses = async () => {
-    setError(null);
-    setLoading(true);
-
-    try {
-      const params: Record<string, string> = {};
-      if (semesterFilter.trim()) {
-        params.semester = semesterFilter.trim();
-      }
-      if (statusFilter !== "all") {
-        params.status = statusFilter;
-      }
-
-      const res = await apiGet<CourseInstance[]>(
-        "/api/admin/course-instances",
-        params,
-        { withAuth: true }
-      );
-
-      setClasses(res);
-    } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Gagal memuat daftar kelas.");
-      } else {
-        setError("Terjadi kesalahan saat memuat daftar kelas.");
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    void loadClasses();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  // Filter baru dikirim ke backend setelah klik "Terapkan"
+  const [appliedQuery, setAppliedQuery] = useState<CourseInstanceListQuery>(
+    {}
+  );
+  const classesResult = useQuery(courseInstancesQuery(appliedQuery));
+  const classes = classesResult.data ?? [];
+  const refreshing = classesResult.validating && !classesResult.loading;
+  const listError = getQueryErrorMessage(
+    classesResult.error,
+    "Gagal memuat daftar kelas.",
+    "Terjadi kesalahan saat memuat daftar kelas."
+  );
 
-  const handleApplyFilter = async () => {
-    setRefreshing(true);
-    await loadClasses();
-    setRefreshing(false);
+  const handleApplyFilter = () => {
+    setAppliedQuery(buildClassListQuery(semesterFilter, statusFilter));
+    classesResult.refetch();
   };
 
   // ---------- LOAD TEMPLATE & DOSEN ----------
 
-  const loadMeta = async () => {
-    setMetaError(null);
-    setMetaLoading(true);
-    try {
-      const [tplRes, lecRes] = await Promise.all([
-        apiGet<CourseTemplateLite[]>(
-          "/api/admin/course-templates",
-          { is_active: "1" },
-          { withAuth: true }
-        ),
-        apiGet<
-          {
-            id: number;
-            name: string;
-            username: string;
-            role: string;
-          }[]
-        >("/api/admin/users", { role: "dosen" }, { withAuth: true }),
-      ]);
-
-      setTemplates(tplRes);
-      const mappedLecturers: LecturerLite[] = lecRes.map((u) => ({
-        id: u.id,
-        name: u.name,
-        username: u.username,
-      }));
-      setLecturers(mappedLecturers);
-    } catch (err: unknown) {
-      if (err instanceof Error) {
-        setMetaError(err.message || "Gagal memuat data pendukung.");
-      } else {
-        setMetaError("Terjadi kesalahan saat memuat data pendukung.");
-      }
-    } finally {
-      setMetaLoading(false);
-    }
-  };
+  const templatesResult = useQuery(
+    metaRequested ? courseTemplatesQuery({ is_active: "1" }) : null
+  );
+  const lecturersResult = useQuery(
+    metaRequested ? usersQuery({ role: "dosen" }) : null
+  );
+
+  const templates = templatesResult.data ?? [];
+  const lecturers: LecturerLite[] = (lecturersResult.data ?? []).map((u) => ({
+    id: u.id,
+    name: u.name,
+    username: u.username,
+  }));
+  const metaLoading = templatesResult.loading || lecturersResult.loading;
+  const metaError = getQueryErrorMessage(
+    templatesResult.error || lecturersResult.error,
+    "Gagal memuat data pendukung.",
+    "Terjadi kesalahan saat memuat data pendukung."
+  );
 
   // ---------- HELPERS ----------
 
@@ -198,7 +157,7 @@ const ClassListPage: React.FC = () => {
     }
   };
 
-  const getTemplateInfo = (ci: CourseInstance) => {
+  const getTemplateInfo = (ci: AdminCourseInstance) => {
     const tpl = ci.course_template ?? ci.template;
     if (!tpl) {
       return {
@@ -212,11 +171,11 @@ const ClassListPage: React.FC = () => {
     };
   };
 
-  const isLoadingList = loading && !refreshing;
+  const isLoadingList = classesResult.loading;
 
   // ---------- FORM MODAL ----------
 
-  const openCreateForm = async () => {
+  const openCreateForm = () => {
     setFormMode("create");
     setFormState({
       ...emptyForm,
@@ -224,12 +183,10 @@ const ClassListPage: React.FC = () => {
     });
     setFormError(null);
     setFormOpen(true);
-    if (templates.length === 0 || lecturers.length === 0) {
-      await loadMeta();
-    }
+    setMetaRequested(true);
   };
 
-  const openEditForm = async (ci: CourseInstance) => {
+  const openEditForm = (ci: AdminCourseInstance) => {
     setFormMode("edit");
     setFormError(null);
 
@@ -250,9 +207,7 @@ const ClassListPage: React.FC = () => {
     });
 
     setFormOpen(true);
-    if (templates.length === 0 || lecturers.length === 0) {
-      await loadMeta();
-    }
+    setMetaRequested(true);
   };
 
   const closeForm = () => {
@@ -300,7 +255,7 @@ const ClassListPage: React.FC = () => {
       return;
     }
 
-    const payload: Record<string, unknown> = {
+    const payload: CourseInstancePayload = {
       course_template_id: courseTemplateId,
       class_name: formState.class_name.trim(),
       semester: formState.semester.trim(),
@@ -315,22 +270,15 @@ const ClassListPage: React.FC = () => {
       setFormSubmitting(true);
 
       if (formMode === "create") {
-        await apiPost<unknown>("/api/admin/course-instances", payload, {
-          withAuth: true,
-        });
+        await createCourseInstance(payload);
       } else {
         if (!formState.id) {
           throw new Error("ID kelas tidak valid.");
         }
-        await apiPut<unknown>(
-          `/api/admin/course-instances/${formState.id}`,
-          payload,
-          { withAuth: true }
-        );
+        await updateCourseInstance(formState.id, payload);
       }
 
       closeForm();
-      await loadClasses();
     } catch (err: unknown) {
       if (err instanceof Error) {
         setFormError(err.message || "Gagal menyimpan kelas.");
@@ -344,7 +292,7 @@ const ClassListPage: React.FC = () => {
 
   // ---------- DELETE KELAS ----------
 
-  const handleDeleteClass = async (ci: CourseInstance) => {
+  const handleDeleteClass = async (ci: AdminCourseInstance) => {
     const tplInfo = getTemplateInfo(ci);
     const ok = window.confirm(
       `Hapus kelas ${tplInfo.code || ci.id} ${
@@ -357,13 +305,7 @@ const ClassListPage: React.FC = () => {
     setError(null);
 
     try {
-      await apiDelete<unknown>(
-        `/api/admin/course-instances/${ci.id}`,
-        undefined,
-        { withAuth: true }
-      );
-
-      setClasses((prev) => prev.filter((c) => c.id !== ci.id));
+      await deleteCourseInstance(ci.id);
     } catch (err: unknown) {
       if (err instanceof Error) {
         setError(err.message || "Gagal menghapus kelas.");
@@ -480,9 +422,9 @@ const ClassListPage: React.FC = () => {
         </div>
 
         {/* Error */}
-        {error && (
+        {(error || listError) && (
           <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-800">
-            {error}
+            {error || listError}
           </div>
         )}
 
@@ -1,18 +1,16 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
-import { apiGet } from "@/lib/apiClient";
-
-type UserRole = "superadmin" | "dosen" | "mahasiswa";
-
-interface UserLike {
-  role?: string | null;
-}
-
-interface CourseInstanceLike {
-  semester?: string | null;
-  status?: string | null;
-}
+import React from "react";
+import {
+  courseInstancesQuery,
+  courseTemplatesQuery,
+  usersQuery,
+  type AdminCourseInstance,
+  type CourseTemplate,
+  type User,
+  type UserRole,
+} from "@/lib/api";
+import { useQuery } from "@/lib/queryCache";
 
 interface DashboardStats {
   totalUsers: number;
@@ -23,134 +21,99 @@ interface DashboardStats {
   semesters: { semester: string; count: number }[];
 }
 
-/**
- * Helper untuk ekstrak array dari response:
- * - Jika langsung array → pakai apa adanya
- * - Jika bentuk { data: [...] } → ambil data
- * - Selain itu → []
- */
-function extractArray<T>(value: unknown): T[] {
-  if (Array.isArray(value)) {
-    return value as T[];
-  }
+function buildDashboardStats(
+  users: User[],
+  templates: CourseTemplate[],
+  instances: AdminCourseInstance[]
+): DashboardStats {
+  const initialRoleCounts: Record<UserRole, number> = {
+    superadmin: 0,
+    dosen: 0,
+    mahasiswa: 0,
+  };
 
-  if (value && typeof value === "object" && "data" in value) {
-    const obj = value as { data?: unknown };
-    if (Array.isArray(obj.data)) {
-      return obj.data as T[];
-    }
-  }
+  const usersByRole = users.reduce(
+    (acc, user) => {
+      const role = user.role;
+      if (role === "superadmin" || role === "dosen" || role === "mahasiswa") {
+        acc[role] += 1;
+      }
+      return acc;
+    },
+    { ...initialRoleCounts }
+  );
 
-  return [];
+  const totalUsers = users.length;
+
+  const totalCourseTemplates = templates.length;
+  const totalCourseInstances = instances.length;
+
+  const activeCourseInstances = instances.filter(
+    (item) => item.status === "active"
+  ).length;
+
+  const semesterMap = new Map<string, number>();
+  instances.forEach((item) => {
+    const sem = (item.semester || "").trim();
+    if (!sem) return;
+    const current = semesterMap.get(sem) ?? 0;
+    semesterMap.set(sem, current + 1);
+  });
+
+  const semesters: { semester: string; count: number }[] = Array.from(
+    semesterMap.entries()
+  )
+    .map(([semester, count]) => ({ semester, count }))
+    .sort((a, b) => a.semester.localeCompare(b.semester));
+
+  return {
+    totalUsers,
+    usersByRole,
+    totalCourseTemplates,
+    totalCourseInstances,
+    activeCourseInstances,
+    semesters,
+  };
 }
 
 const SuperadminDashboardPage: React.FC = () => {
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const loadStats = async () => {
-    setError(null);
-    setLoading(true);
-
-    try {
-      // Ambil data dari tiga endpoint admin
-      const [usersRes, templatesRes, instancesRes] = await Promise.all([
-        apiGet<unknown>(
-          "/api/admin/users",
-          { per_page: 1000 },
-          { withAuth: true }
-        ),
-        apiGet<unknown>(
-          "/api/admin/course-templates",
-          { per_page: 1000 },
-          { withAuth: true }
-        ),
-        apiGet<unknown>(
-          "/api/admin/course-instances",
-          { per_page: 1000 },
-          { withAuth: true }
-        ),
-      ]);
-
-      const users = extractArray<UserLike>(usersRes);
-      const templates = extractArray<unknown>(templatesRes);
-      const instances = extractArray<CourseInstanceLike>(instancesRes);
-
-      const initialRoleCounts: Record<UserRole, number> = {
-        superadmin: 0,
-        dosen: 0,
-        mahasiswa: 0,
-      };
-
-      const usersByRole = users.reduce(
-        (acc, user) => {
-          const role = user.role;
-          if (
-            role === "superadmin" ||
-            role === "dosen" ||
-            role === "mahasiswa"
-          ) {
-            acc[role] += 1;
-          }
-          return acc;
-        },
-        { ...initialRoleCounts }
-      );
-
-      const totalUsers = users.length;
-
-      const totalCourseTemplates = templates.length;
-      const totalCourseInstances = instances.length;
-
-      const activeCourseInstances = instances.filter(
-        (item) => item.status === "active"
-      ).length;
-
-      const semesterMap = new Map<string, number>();
-      instances.forEach((item) => {
-        const sem = (item.semester || "").trim();
-        if (!sem) return;
-        const current = semesterMap.get(sem) ?? 0;
-        semesterMap.set(sem, current + 1);
-      });
-
-      const semesters: { semester: string; count: number }[] = Array.from(
-        semesterMap.entries()
-      )
-        .map(([semester, count]) => ({ semester, count }))
-        .sort((a, b) => a.semester.localeCompare(b.semester));
-
-      const nextStats: DashboardStats = {
-        totalUsers,
-        usersByRole,
-        totalCourseTemplates,
-        totalCourseInstances,
-        activeCourseInstances,
-        semesters,
-      };
-
-      setStats(nextStats);
-    } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Gagal memuat data dashboard.");
-      } else {
-        setError("Terjadi kesalahan saat memuat data dashboard.");
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    void loadStats();
-  }, []);
+  // Data diambil dari cache bersama; halaman users/classes/templates
+  // memakai cache yang sama, jadi kembali ke dashboard tidak perlu menunggu
+  const usersResult = useQuery(usersQuery({ per_page: 1000 }));
+  const templatesResult = useQuery(courseTemplatesQuery({ per_page: 1000 }));
+  const instancesResult = useQuery(courseInstancesQuery({ per_page: 1000 }));
+
+  const stats =
+    usersResult.data && templatesResult.data && instancesResult.data
+      ? buildDashboardStats(
+          usersResult.data,
+          templatesResult.data,
+          instancesResult.data
+        )
+      : null;
+
+  const loading =
+    usersResult.loading || templatesResult.loading || instancesResult.loading;
+  const refreshing =
+    !loading &&
+    (usersResult.validating ||
+      templatesResult.validating ||
+      instancesResult.validating);
+
+  const queryError =
+    usersResult.error || templatesResult.error || instancesResult.error;
+  let error: string | null = null;
+  if (queryError) {
+    error =
+      queryError instanceof Error
+        ? queryError.message || "Gagal memuat data dashboard."
+        : "Terjadi kesalahan saat memuat data dashboard.";
+  }
 
-  const handleRefresh = async () => {
-    setRefreshing(true);
-    await loadStats();
-    setRefreshing(false);
+  const handleRefresh = () => {
+    usersResult.refetch();
+    templatesResult.refetch();
+    instancesResult.refetch();
   };
 
   const isBusy = loading && !stats;
@@ -1,19 +1,17 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import { useRouter } from "next/navigation";
-import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/apiClient";
-
-interface CourseTemplate {
-  id: number;
-  code: string;
-  name: string;
-  description: string | null;
-  sks: number;
-  semester_recommendation: string | null;
-  is_active: boolean;
-  created_at?: string;
-}
+import {
+  createCourseTemplate,
+  courseTemplatesQuery,
+  deleteCourseTemplate,
+  updateCourseTemplate,
+  type CourseTemplate,
+  type CourseTemplateListQuery,
+  type CourseTemplatePayload,
+} from "@/lib/api";
+import { useQuery } from "@/lib/queryCache";
 
 type ActiveFilter = "all" | "active" | "inactive";
 
@@ -38,21 +36,20 @@ const emptyForm: TemplateFormState = {
   is_active: true,
 };
 
-function extractArray<T>(value: unknown): T[] {
-  if (Array.isArray(value)) return value as T[];
-  if (value && typeof value === "object" && "data" in value) {
-    const obj = value as { data?: unknown };
-    if (Array.isArray(obj.data)) return obj.data as T[];
-  }
-  return [];
+function buildTemplateListQuery(
+  search: string,
+  activeFilter: ActiveFilter
+): CourseTemplateListQuery {
+  const params: CourseTemplateListQuery = {};
+  if (search.trim()) params.search = search.trim();
+  if (activeFilter === "active") params.is_active = "1";
+  if (activeFilter === "inactive") params.is_active = "0";
+  return params;
 }
 
 const CourseTemplateListPage: React.FC = () => {
   const router = useRouter();
 
-  const [templates, setTemplates] = useState<CourseTemplate[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [refreshing, setRefreshing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
   const [search, setSearch] = useState<string>("");
@@ -71,40 +68,25 @@ const CourseTemplateListPage: React.FC = () => {
   // delete
   const [deleteId, setDeleteId] = useState<number | null>(null);
 
-  const loadTemplates = async () => {
-    setError(null);
-    setLoading(true);
-    try {
-      const params: Record<string, string> = {};
-      if (search.trim()) params.search = search.trim();
-      if (activeFilter === "active") params.is_active = "1";
-      if (activeFilter === "inactive") params.is_active = "0";
-
-      const res = await apiGet<unknown>("/api/admin/course-templates", params, {
-        withAuth: true,
-      });
-
-      const list = extractArray<CourseTemplate>(res);
-      setTemplates(list);
-    } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Gagal memuat template mata kuliah.");
-      } else {
-        setError("Terjadi kesalahan saat memuat template mata kuliah.");
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    void loadTemplates();
-  }, []);
+  // Filter baru dikirim ke backend setelah klik "Terapkan"
+  const [appliedQuery, setAppliedQuery] = useState<CourseTemplateListQuery>(
+    {}
+  );
+  const templatesResult = useQuery(courseTemplatesQuery(appliedQuery));
+  const templates = templatesResult.data ?? [];
+  const refreshing = templatesResult.validating && !templatesResult.loading;
+
+  let listError: string | null = null;
+  if (templatesResult.error) {
+    listError =
+      templatesResult.error instanceof Error
+        ? templatesResult.error.message || "Gagal memuat template mata kuliah."
+        : "Terjadi kesalahan saat memuat template mata kuliah.";
+  }
 
-  const handleApplyFilter = async () => {
-    setRefreshing(true);
-    await loadTemplates();
-    setRefreshing(false);
+  const handleApplyFilter = () => {
+    setAppliedQuery(buildTemplateListQuery(search, activeFilter));
+    templatesResult.refetch();
   };
 
   const openCreateForm = () => {
@@ -163,7 +145,7 @@ const CourseTemplateListPage: React.FC = () => {
     try {
       setFormSubmitting(true);
 
-      const payload: Record<string, unknown> = {
+      const payload: CourseTemplatePayload = {
         code: formState.code.trim(),
         name: formState.name.trim(),
         description: formState.description.trim() || null,
@@ -174,22 +156,15 @@ const CourseTemplateListPage: React.FC = () => {
       };
 
       if (formMode === "create") {
-        await apiPost<unknown>("/api/admin/course-templates", payload, {
-          withAuth: true,
-        });
+        await createCourseTemplate(payload);
       } else {
         if (!formState.id) {
           throw new Error("ID template tidak valid.");
         }
-        await apiPut<unknown>(
-          `/api/admin/course-templates/${formState.id}`,
-          payload,
-          { withAuth: true }
-        );
+        await updateCourseTemplate(formState.id, payload);
       }
 
       closeForm();
-      await loadTemplates();
     } catch (err: unknown) {
       if (err instanceof Error) {
         setFormError(err.message || "Gagal menyimpan template.");
@@ -206,7 +181,7 @@ const CourseTemplateListPage: React.FC = () => {
     setError(null);
 
     try {
-      const payload: Record<string, unknown> = {
+      const payload: CourseTemplatePayload = {
         code: tpl.code,
         name: tpl.name,
         description: tpl.description,
@@ -215,15 +190,7 @@ const CourseTemplateListPage: React.FC = () => {
         is_active: !tpl.is_active,
       };
 
-      await apiPut<unknown>(`/api/admin/course-templates/${tpl.id}`, payload, {
-        withAuth: true,
-      });
-
-      setTemplates((prev) =>
-        prev.map((t) =>
-          t.id === tpl.id ? { ...t, is_active: !tpl.is_active } : t
-        )
-      );
+      await updateCourseTemplate(tpl.id, payload);
     } catch (err: unknown) {
       if (err instanceof Error) {
         setError(err.message || "Gagal mengubah status template.");
@@ -245,13 +212,7 @@ const CourseTemplateListPage: React.FC = () => {
     setError(null);
 
     try {
-      await apiDelete<unknown>(
-        `/api/admin/course-templates/${tpl.id}`,
-        undefined,
-        { withAuth: true }
-      );
-
-      setTemplates((prev) => prev.filter((t) => t.id !== tpl.id));
+      await deleteCourseTemplate(tpl.id);
     } catch (err: unknown) {
       if (err instanceof Error) {
         setError(err.message || "Gagal menghapus template.");
@@ -263,7 +224,7 @@ const CourseTemplateListPage: React.FC = () => {
     }
   };
 
-  const isLoadingList = loading && !refreshing;
+  const isLoadingList = templatesResult.loading;
 
   return (
     <>
@@ -345,9 +306,9 @@ const CourseTemplateListPage: React.FC = () => {
         </div>
 
         {/* Error global */}
-        {error && (
+        {(error || listError) && (
           <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-800">
-            {error}
+            {error || listError}
           </div>
         )}
 
@@ -1,50 +1,30 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
-import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/apiClient";
+import React, { Suspense, useEffect, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  createUser,
+  deleteUser,
+  listUsers,
+  resetUserPassword,
+  updateUser,
+  usersPageQuery,
+  type SortDirection,
+  type User,
+  type UserPageQuery,
+  type UserPayload,
+  type UserRole,
+  type UserSortField,
+  type UserStatus,
+} from "@/lib/api";
+import {
+  generateNimAndPassword,
+  getNextOrderForToday,
+  getNimDatePrefix,
+} from "@/lib/utils";
+import { useQuery } from "@/lib/queryCache";
 import * as XLSX from "xlsx";
 
-type UserRole = "superadmin" | "dosen" | "mahasiswa";
-type UserStatus = "active" | "inactive";
-
-interface User {
-  id: number;
-  name: string;
-  email: string | null;
-  username: string;
-  nim: string | null;
-  role: UserRole;
-  status: UserStatus;
-  force_password_change: boolean;
-}
-
-interface ResetPasswordResponse {
-  plain_password?: string;
-  password?: string;
-  message?: string;
-}
-
-/**
- * Helper untuk ekstrak array dari response:
- * - Jika langsung array → pakai apa adanya
- * - Jika bentuk { data: [...] } → ambil data
- * - Selain itu → []
- */
-function extractArray<T>(value: unknown): T[] {
-  if (Array.isArray(value)) {
-    return value as T[];
-  }
-
-  if (value && typeof value === "object" && "data" in value) {
-    const obj = value as { data?: unknown };
-    if (Array.isArray(obj.data)) {
-      return obj.data as T[];
-    }
-  }
-
-  return [];
-}
-
 type UserFormMode = "create" | "edit";
 
 interface UserFormState {
@@ -76,71 +56,136 @@ interface BulkStudentRow {
   password: string;
 }
 
-/**
- * Generate NIM & password:
- * NIM = (TahunMasuk)(BulanMasuk)(TanggalMasuk)(UrutanDataMahasiswa)
- * Password = 7 huruf pertama nama (tanpa spasi, huruf kecil) + (UrutanDataMahasiswa 3 digit)
- */
-function generateNimAndPassword(
-  name: string,
-  order: number,
-  date: Date
-): { nim: string; password: string; username: string } {
-  const year = date.getFullYear().toString();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  const orderStr = String(order).padStart(3, "0");
-
-  const nim = `${year}${month}${day}${orderStr}`;
-
-  const normalizedName = name.replace(/\s+/g, "").toLowerCase().slice(0, 7);
-
-  const password = `${normalizedName}${orderStr}`;
-  const username = nim; // username = NIM
-
-  return { nim, password, username };
+type UserSection = "civitas" | "mahasiswa";
+
+const PER_PAGE_OPTIONS = [10, 25, 50, 100];
+const DEFAULT_PER_PAGE = 25;
+const SEARCH_DEBOUNCE_MS = 400;
+
+const SORT_FIELDS: UserSortField[] = ["name", "username", "role", "status"];
+
+/** State tabel yang disimpan di URL supaya bisa di-bookmark/dibagikan */
+interface UserListParams {
+  section: UserSection;
+  role: UserRole | "all";
+  status: UserStatus | "all";
+  keyword: string;
+  page: number;
+  perPage: number;
+  sort: UserSortField | null;
+  direction: SortDirection;
 }
 
-/**
- * Cari urutan terakhir (NNN) di NIM mahasiswa yang nim-nya
- * diawali prefix (yyyymmdd) pada tanggal hari ini.
- */
-function getNextOrderForToday(users: User[], date: Date): number {
-  const year = date.getFullYear().toString();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  const prefix = `${year}${month}${day}`;
-
-  let maxOrder = 0;
-
-  users.forEach((u) => {
-    if (u.role !== "mahasiswa" || !u.nim) return;
-    const nim = u.nim.trim();
-    if (!nim.startsWith(prefix)) return;
-    const suffix = nim.slice(prefix.length);
-    if (suffix.length === 0) return;
-    const n = Number.parseInt(suffix, 10);
-    if (!Number.isNaN(n) && n > maxOrder) {
-      maxOrder = n;
-    }
-  });
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const n = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(n) || n < 1 ? fallback : n;
+}
 
-  return maxOrder + 1;
+function parseUserListParams(search: {
+  get(name: string): string | null;
+}): UserListParams {
+  const section: UserSection =
+    search.get("tab") === "mahasiswa" ? "mahasiswa" : "civitas";
+
+  // Di tab civitas hanya superadmin/dosen; di tab mahasiswa role sudah pasti
+  const rawRole = search.get("role");
+  const role: UserRole | "all" =
+    section === "civitas" && (rawRole === "superadmin" || rawRole === "dosen")
+      ? rawRole
+      : "all";
+
+  const rawStatus = search.get("status");
+  const status: UserStatus | "all" =
+    rawStatus === "active" || rawStatus === "inactive" ? rawStatus : "all";
+
+  const perPage = parsePositiveInt(search.get("per_page"), DEFAULT_PER_PAGE);
+
+  const rawSort = search.get("sort");
+  const sort = SORT_FIELDS.find((field) => field === rawSort) ?? null;
+
+  return {
+    section,
+    role,
+    status,
+    keyword: (search.get("q") ?? "").trim(),
+    page: parsePositiveInt(search.get("page"), 1),
+    perPage: PER_PAGE_OPTIONS.includes(perPage) ? perPage : DEFAULT_PER_PAGE,
+    sort,
+    direction: search.get("dir") === "desc" ? "desc" : "asc",
+  };
 }
 
-type UserSection = "civitas" | "mahasiswa";
+/** Kebalikan parseUserListParams; nilai default tidak ditulis ke URL */
+function buildUserListSearch(params: UserListParams): string {
+  const search = new URLSearchParams();
+  if (params.section === "mahasiswa") search.set("tab", "mahasiswa");
+  if (params.role !== "all") search.set("role", params.role);
+  if (params.status !== "all") search.set("status", params.status);
+  if (params.keyword) search.set("q", params.keyword);
+  if (params.page > 1) search.set("page", String(params.page));
+  if (params.perPage !== DEFAULT_PER_PAGE) {
+    search.set("per_page", String(params.perPage));
+  }
+  if (params.sort) {
+    search.set("sort", params.sort);
+    search.set("dir", params.direction);
+  }
+  return search.toString();
+}
 
-const UserManagementPage: React.FC = () => {
-  const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+function toUserPageQuery(params: UserListParams): UserPageQuery {
+  let roles: UserRole[];
+  if (params.section === "mahasiswa") {
+    roles = ["mahasiswa"];
+  } else if (params.role !== "all") {
+    roles = [params.role];
+  } else {
+    roles = ["superadmin", "dosen"];
+  }
+
+  return {
+    roles,
+    status: params.status === "all" ? undefined : params.status,
+    keyword: params.keyword || undefined,
+    page: params.page,
+    per_page: params.perPage,
+    sort: params.sort ?? undefined,
+    direction: params.sort ? params.direction : undefined,
+  };
+}
 
-  const [roleFilter, setRoleFilter] = useState<UserRole | "all">("all");
-  const [statusFilter, setStatusFilter] = useState<UserStatus | "all">("all");
-  const [keyword, setKeyword] = useState<string>("");
+const UserManagementContent: React.FC = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
 
-  const [section, setSection] = useState<UserSection>("civitas");
+  const [error, setError] = useState<string | null>(null);
+
+  const listParams = parseUserListParams(searchParams);
+  const {
+    section,
+    role: roleFilter,
+    status: statusFilter,
+    sort: sortField,
+    direction: sortDirection,
+  } = listParams;
+
+  // Input search di-debounce sebelum ditulis ke URL
+  const [keywordInput, setKeywordInput] = useState<string>(listParams.keyword);
+  const [syncedKeyword, setSyncedKeyword] = useState<string>(
+    listParams.keyword
+  );
+  const [typedKeyword, setTypedKeyword] = useState<string | null>(null);
+  const searchTimerRef = useRef<number | null>(null);
+
+  // Keyword di URL berubah bukan dari ketikan (back/forward, link) →
+  // samakan isi input
+  if (listParams.keyword !== syncedKeyword) {
+    setSyncedKeyword(listParams.keyword);
+    if (listParams.keyword !== typedKeyword) {
+      setKeywordInput(listParams.keyword);
+    }
+  }
 
   // Form modal
   const [formMode, setFormMode] = useState<UserFormMode>("create");
@@ -172,48 +217,84 @@ const UserManagementPage: React.FC = () => {
     []
   );
 
-  const loadUsers = async () => {
-    setError(null);
-    setLoading(true);
-
-    try {
-      const params: Record<string, string> = {};
-      if (roleFilter !== "all") {
-        params.role = roleFilter;
-      }
-      if (statusFilter !== "all") {
-        params.status = statusFilter;
-      }
-      if (keyword.trim()) {
-        params.keyword = keyword.trim();
-      }
+  const usersResult = useQuery(usersPageQuery(toUserPageQuery(listParams)), {
+    keepPreviousData: true,
+  });
+  const usersPage = usersResult.data;
+  const refreshing = usersResult.validating && !usersResult.loading;
+
+  let listError: string | null = null;
+  if (usersResult.error) {
+    listError =
+      usersResult.error instanceof Error
+        ? usersResult.error.message || "Gagal memuat data pengguna."
+        : "Terjadi kesalahan saat memuat data pengguna.";
+  }
 
-      const res = await apiGet<unknown>("/api/admin/users", params, {
-        withAuth: true,
-      });
+  /**
+   * Tulis state tabel ke URL. Perubahan filter/sort selalu kembali ke
+   * halaman 1 kecuali `page` ikut diubah. State dasar dibaca dari
+   * window.location supaya aman dipanggil dari timer debounce.
+   */
+  const updateListParams = (
+    patch: Partial<UserListParams>,
+    options?: { replace?: boolean }
+  ) => {
+    const current = parseUserListParams(
+      new URLSearchParams(window.location.search)
+    );
+    const search = buildUserListSearch({ ...current, page: 1, ...patch });
+    const url = search ? `${pathname}?${search}` : pathname;
 
-      const list = extractArray<User>(res);
-      setUsers(list);
-    } catch (err: unknown) {
-      if (err instanceof Error) {
-        setError(err.message || "Gagal memuat data pengguna.");
-      } else {
-        setError("Terjadi kesalahan saat memuat data pengguna.");
-      }
-    } finally {
-      setLoading(false);
+    if (options?.replace) {
+      router.replace(url, { scroll: false });
+    } else {
+      router.push(url, { scroll: false });
     }
   };
 
   useEffect(() => {
-    void loadUsers();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    return () => {
+      if (searchTimerRef.current !== null) {
+        window.clearTimeout(searchTimerRef.current);
+      }
+    };
   }, []);
 
-  const handleApplyFilter = async () => {
-    setRefreshing(true);
-    await loadUsers();
-    setRefreshing(false);
+  const handleKeywordChange = (value: string) => {
+    setKeywordInput(value);
+
+    if (searchTimerRef.current !== null) {
+      window.clearTimeout(searchTimerRef.current);
+    }
+    searchTimerRef.current = window.setTimeout(() => {
+      searchTimerRef.current = null;
+      const keyword = value.trim();
+      setTypedKeyword(keyword);
+      updateListParams({ keyword }, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  const handleSort = (field: UserSortField) => {
+    if (sortField === field) {
+      updateListParams({
+        sort: field,
+        direction: sortDirection === "asc" ? "desc" : "asc",
+      });
+    } else {
+      updateListParams({ sort: field, direction: "asc" });
+    }
+  };
+
+  const renderSortIndicator = (field: UserSortField) => {
+    if (sortField !== field) {
+      return <span className="text-slate-300">↕</span>;
+    }
+    return (
+      <span className="text-red-700">
+        {sortDirection === "asc" ? "↑" : "↓"}
+      </span>
+    );
   };
 
   const openCreateForm = () => {
@@ -267,7 +348,7 @@ const UserManagementPage: React.FC = () => {
     try {
       setFormSubmitting(true);
 
-      const payload: Record<string, unknown> = {
+      const payload: UserPayload = {
         name: formState.name.trim(),
         email: formState.email.trim() || null,
         username: formState.username.trim(),
@@ -278,20 +359,15 @@ const UserManagementPage: React.FC = () => {
       };
 
       if (formMode === "create") {
-        await apiPost<unknown>("/api/admin/users", payload, {
-          withAuth: true,
-        });
+        await createUser(payload);
       } else {
         if (!formState.id) {
           throw new Error("ID pengguna tidak valid.");
         }
-        await apiPut<unknown>(`/api/admin/users/${formState.id}`, payload, {
-          withAuth: true,
-        });
+        await updateUser(formState.id, payload);
       }
 
       closeForm();
-      await loadUsers();
     } catch (err: unknown) {
       if (err instanceof Error) {
         setFormError(err.message || "Gagal menyimpan pengguna.");
@@ -309,11 +385,7 @@ const UserManagementPage: React.FC = () => {
     setError(null);
 
     try {
-      const res = await apiPost<ResetPasswordResponse>(
-        `/api/admin/users/${user.id}/reset-password`,
-        {},
-        { withAuth: true }
-      );
+      const res = await resetUserPassword(user.id);
 
       const plain = res.plain_password ?? res.password ?? "";
 
@@ -345,7 +417,7 @@ const UserManagementPage: React.FC = () => {
     setError(null);
 
     try {
-      const payload = {
+      const payload: UserPayload = {
         name: user.name,
         email: user.email,
         username: user.username,
@@ -355,13 +427,7 @@ const UserManagementPage: React.FC = () => {
         force_password_change: user.force_password_change,
       };
 
-      await apiPut<unknown>(`/api/admin/users/${user.id}`, payload, {
-        withAuth: true,
-      });
-
-      setUsers((prev) =>
-        prev.map((u) => (u.id === user.id ? { ...u, status: nextStatus } : u))
-      );
+      await updateUser(user.id, payload);
     } catch (err: unknown) {
       if (err instanceof Error) {
         setError(err.message || "Gagal mengubah status pengguna.");
@@ -383,11 +449,8 @@ const UserManagementPage: React.FC = () => {
     setError(null);
 
     try {
-      await apiDelete<unknown>(`/api/admin/users/${user.id}`, undefined, {
-        withAuth: true,
-      });
+      await deleteUser(user.id);
 
-      setUsers((prev) => prev.filter((u) => u.id !== user.id));
       if (resetInfo?.userId === user.id) {
         setResetInfo(null);
       }
@@ -402,7 +465,7 @@ const UserManagementPage: React.FC = () => {
     }
   };
 
-  const isLoadingList = loading && !refreshing;
+  const isLoadingList = usersResult.loading;
 
   // ======================
   // Bulk import mahasiswa (modal)
@@ -475,7 +538,9 @@ const UserManagementPage: React.FC = () => {
    *   - tidak ada di database (username/nim existing)
    *   - tidak duplikat di batch ini
    */
-  const handleUploadTemplate = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleUploadTemplate = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
     const file = e.target.files?.[0];
     e.target.value = "";
     setBulkError(null);
@@ -484,6 +549,24 @@ const UserManagementPage: React.FC = () => {
 
     if (!file) return;
 
+    // Tabel hanya memuat satu halaman, jadi user yang NIM/username-nya
+    // diawali prefix hari ini diambil langsung dari backend
+    const now = new Date();
+    let users: User[];
+    try {
+      users = await listUsers({
+        keyword: getNimDatePrefix(now),
+        per_page: 1000,
+      });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setBulkError(err.message || "Gagal memuat data mahasiswa.");
+      } else {
+        setBulkError("Terjadi kesalahan saat memuat data mahasiswa.");
+      }
+      return;
+    }
+
     // Kumpulkan username & nim yang SUDAH ada di database
     const existingUsernames = new Set<string>();
     const existingNims = new Set<string>();
@@ -522,7 +605,6 @@ const UserManagementPage: React.FC = () => {
           range: 1,
         });
 
-        const now = new Date();
         let baseOrder = getNextOrderForToday(users, now); // titik awal dari DB
         const rows: BulkStudentRow[] = [];
 
@@ -624,7 +706,7 @@ const UserManagementPage: React.FC = () => {
           continue;
         }
 
-        const payload: Record<string, unknown> = {
+        const payload: UserPayload = {
           name: row.name.trim(),
           email: null,
           username: row.username.trim(),
@@ -635,13 +717,10 @@ const UserManagementPage: React.FC = () => {
           password: row.password, // backend sudah menerima & hash field ini
         };
 
-        await apiPost<unknown>("/api/admin/users", payload, {
-          withAuth: true,
-        });
+        await createUser(payload);
       }
 
       setBulkGeneratedRows([...bulkRows]);
-      await loadUsers();
     } catch (err: unknown) {
       if (err instanceof Error) {
         setBulkError(err.message || "Gagal generate data mahasiswa.");
@@ -690,23 +769,9 @@ const UserManagementPage: React.FC = () => {
   // Derived data for table
   // ======================
 
-  const usersForTable = users.filter((u) => {
-    if (section === "civitas" && u.role === "mahasiswa") return false;
-    if (section === "mahasiswa" && u.role !== "mahasiswa") return false;
-
-    if (roleFilter !== "all" && u.role !== roleFilter) return false;
-    if (statusFilter !== "all" && u.status !== statusFilter) return false;
-    if (keyword.trim()) {
-      const kw = keyword.trim().toLowerCase();
-      const match =
-        u.name.toLowerCase().includes(kw) ||
-        u.username.toLowerCase().includes(kw) ||
-        (u.email ?? "").toLowerCase().includes(kw);
-      if (!match) return false;
-    }
-
-    return true;
-  });
+  const usersForTable = usersPage?.data ?? [];
+  const totalPages = Math.max(usersPage?.last_page ?? 1, 1);
+  const currentPage = usersPage?.current_page ?? listParams.page;
 
   const hasBulkResult = bulkGeneratedRows.length > 0;
 
@@ -722,7 +787,9 @@ const UserManagementPage: React.FC = () => {
             <div className="hidden sm:flex items-center rounded-full bg-slate-100 p-1 text-[11px]">
               <button
                 type="button"
-                onClick={() => setSection("civitas")}
+                onClick={() =>
+                  updateListParams({ section: "civitas", role: "all" })
+                }
                 className={`px-3 py-1.5 rounded-full ${
                   section === "civitas"
                     ? "bg-white shadow-sm text-slate-900"
@@ -733,7 +800,9 @@ const UserManagementPage: React.FC = () => {
               </button>
               <button
                 type="button"
-                onClick={() => setSection("mahasiswa")}
+                onClick={() =>
+                  updateListParams({ section: "mahasiswa", role: "all" })
+                }
                 className={`px-3 py-1.5 rounded-full ${
                   section === "mahasiswa"
                     ? "bg-white shadow-sm text-slate-900"
@@ -769,57 +838,48 @@ const UserManagementPage: React.FC = () => {
 
         {/* Filter & search */}
         <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3 flex flex-wrap items-center gap-3">
-          <div className="flex items-center gap-1.5 text-[11px]">
-            <button
-              type="button"
-              onClick={() => setRoleFilter("all")}
-              className={`px-3 py-1.5 rounded-full border text-xs ${
-                roleFilter === "all"
-                  ? "border-red-600 bg-red-50 text-red-700"
-                  : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
-              }`}
-            >
-              Semua
-            </button>
-            <button
-              type="button"
-              onClick={() => setRoleFilter("superadmin")}
-              className={`px-3 py-1.5 rounded-full border text-xs ${
-                roleFilter === "superadmin"
-                  ? "border-red-600 bg-red-50 text-red-700"
-                  : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
-              }`}
-            >
-              Superadmin
-            </button>
-            <button
-              type="button"
-              onClick={() => setRoleFilter("dosen")}
-              className={`px-3 py-1.5 rounded-full border text-xs ${
-                roleFilter === "dosen"
-                  ? "border-red-600 bg-red-50 text-red-700"
-                  : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
-              }`}
-            >
-              Dosen
-            </button>
-            <button
-              type="button"
-              onClick={() => setRoleFilter("mahasiswa")}
-              className={`px-3 py-1.5 rounded-full border text-xs ${
-                roleFilter === "mahasiswa"
-                  ? "border-red-600 bg-red-50 text-red-700"
-                  : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
-              }`}
-            >
-              Mahasiswa
-            </button>
-          </div>
+          {section === "civitas" && (
+            <div className="flex items-center gap-1.5 text-[11px]">
+              <button
+                type="button"
+                onClick={() => updateListParams({ role: "all" })}
+                className={`px-3 py-1.5 rounded-full border text-xs ${
+                  roleFilter === "all"
+                    ? "border-red-600 bg-red-50 text-red-700"
+                    : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+                }`}
+              >
+                Semua
+              </button>
+              <button
+                type="button"
+                onClick={() => updateListParams({ role: "superadmin" })}
+                className={`px-3 py-1.5 rounded-full border text-xs ${
+                  roleFilter === "superadmin"
+                    ? "border-red-600 bg-red-50 text-red-700"
+                    : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+                }`}
+              >
+                Superadmin
+              </button>
+              <button
+                type="button"
+                onClick={() => updateListParams({ role: "dosen" })}
+                className={`px-3 py-1.5 rounded-full border text-xs ${
+                  roleFilter === "dosen"
+                    ? "border-red-600 bg-red-50 text-red-700"
+                    : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+                }`}
+              >
+                Dosen
+              </button>
+            </div>
+          )}
 
           <div className="flex items-center gap-1.5 text-[11px]">
             <button
               type="button"
-              onClick={() => setStatusFilter("all")}
+              onClick={() => updateListParams({ status: "all" })}
               className={`px-3 py-1.5 rounded-full border text-xs ${
                 statusFilter === "all"
                   ? "border-slate-900 bg-slate-900 text-white"
@@ -830,7 +890,7 @@ const UserManagementPage: React.FC = () => {
             </button>
             <button
               type="button"
-              onClick={() => setStatusFilter("active")}
+              onClick={() => updateListParams({ status: "active" })}
               className={`px-3 py-1.5 rounded-full border text-xs ${
                 statusFilter === "active"
                   ? "border-emerald-600 bg-emerald-50 text-emerald-700"
@@ -841,7 +901,7 @@ const UserManagementPage: React.FC = () => {
             </button>
             <button
               type="button"
-              onClick={() => setStatusFilter("inactive")}
+              onClick={() => updateListParams({ status: "inactive" })}
               className={`px-3 py-1.5 rounded-full border text-xs ${
                 statusFilter === "inactive"
                   ? "border-slate-500 bg-slate-100 text-slate-700"
@@ -853,21 +913,16 @@ const UserManagementPage: React.FC = () => {
           </div>
 
           <div className="flex-1 min-w-[160px] flex items-center gap-2 justify-end">
+            {refreshing && (
+              <span className="text-[11px] text-slate-400">Memuat...</span>
+            )}
             <input
-              type="text"
-              value={keyword}
-              onChange={(e) => setKeyword(e.target.value)}
+              type="search"
+              value={keywordInput}
+              onChange={(e) => handleKeywordChange(e.target.value)}
               placeholder="Cari nama / username / email"
               className="w-full max-w-xs rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-red-600 focus:border-red-600"
             />
-            <button
-              type="button"
-              onClick={handleApplyFilter}
-              disabled={refreshing}
-              className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-60 disabled:cursor-not-allowed"
-            >
-              {refreshing ? "Memuat..." : "Terapkan"}
-            </button>
           </div>
         </div>
 
@@ -891,9 +946,9 @@ const UserManagementPage: React.FC = () => {
         )}
 
         {/* Error global */}
-        {error && (
+        {(error || listError) && (
           <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-800">
-            {error}
+            {error || listError}
           </div>
         )}
 
@@ -904,16 +959,40 @@ const UserManagementPage: React.FC = () => {
               <thead className="bg-slate-50 border-b border-slate-200">
                 <tr>
                   <th className="px-4 py-2 text-left font-medium text-slate-500">
-                    Nama
+                    <button
+                      type="button"
+                      onClick={() => handleSort("name")}
+                      className="inline-flex items-center gap-1 hover:text-slate-800"
+                    >
+                      Nama {renderSortIndicator("name")}
+                    </button>
                   </th>
                   <th className="px-4 py-2 text-left font-medium text-slate-500">
-                    Username / NIM
+                    <button
+                      type="button"
+                      onClick={() => handleSort("username")}
+                      className="inline-flex items-center gap-1 hover:text-slate-800"
+                    >
+                      Username / NIM {renderSortIndicator("username")}
+                    </button>
                   </th>
                   <th className="px-4 py-2 text-left font-medium text-slate-500">
-                    Role
+                    <button
+                      type="button"
+                      onClick={() => handleSort("role")}
+                      className="inline-flex items-center gap-1 hover:text-slate-800"
+                    >
+                      Role {renderSortIndicator("role")}
+                    </button>
                   </th>
                   <th className="px-4 py-2 text-left font-medium text-slate-500">
-                    Status
+                    <button
+                      type="button"
+                      onClick={() => handleSort("status")}
+                      className="inline-flex items-center gap-1 hover:text-slate-800"
+                    >
+                      Status {renderSortIndicator("status")}
+                    </button>
                   </th>
                   <th className="px-4 py-2 text-right font-medium text-slate-500">
                     Aksi
@@ -1026,6 +1105,52 @@ const UserManagementPage: React.FC = () => {
               </tbody>
             </table>
           </div>
+
+          {/* Pagination */}
+          <div className="flex flex-wrap items-center justify-between gap-3 border-t border-slate-100 px-4 py-2 text-[11px] text-slate-500">
+            <div>
+              {usersPage && usersPage.total > 0
+                ? `Menampilkan ${usersPage.from ?? 0}–${usersPage.to ?? 0} dari ${usersPage.total} pengguna`
+                : "0 pengguna"}
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1">
+                <span>Per halaman</span>
+                <select
+                  value={listParams.perPage}
+                  onChange={(e) =>
+                    updateListParams({ perPage: Number(e.target.value) })
+                  }
+                  className="rounded-full border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-700 focus:outline-none focus:ring-2 focus:ring-red-600"
+                >
+                  {PER_PAGE_OPTIONS.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => updateListParams({ page: currentPage - 1 })}
+                disabled={currentPage <= 1}
+                className="px-2 py-1 rounded-full border border-slate-200 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                ← Sebelumnya
+              </button>
+              <span>
+                Hal. {currentPage} / {totalPages}
+              </span>
+              <button
+                type="button"
+                onClick={() => updateListParams({ page: currentPage + 1 })}
+                disabled={currentPage >= totalPages}
+                className="px-2 py-1 rounded-full border border-slate-200 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Berikutnya →
+              </button>
+            </div>
+          </div>
         </div>
       </div>
 
@@ -1380,4 +1505,12 @@ const UserManagementPage: React.FC = () => {
   );
 };
 
+const UserManagementPage: React.FC = () => {
+  return (
+    <Suspense fallback={null}>
+      <UserManagementContent />
+    </Suspense>
+  );
+};
+
 export default UserManagementPage;
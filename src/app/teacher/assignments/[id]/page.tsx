@@ -2,57 +2,35 @@
 
 import React, { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { apiGet, apiPost, type ApiError } from "@/lib/apiClient";
-
-interface AssignmentDetail {
-  id: number;
-  title: string;
-  description: string | null;
-  instructions: string | null;
-  type: "file" | "link";
-  deadline: string | null;
-  max_score: number | null;
-  allow_late: boolean;
-  created_at: string;
-  updated_at: string;
-  course_instance?: {
-    id: number;
-    class_name: string;
-    semester: string;
-    template?: {
-      code: string;
-      name: string;
-    } | null;
-  } | null;
-}
-
-interface SubmissionStudent {
-  id: number;
-  name: string;
-  username: string;
-  nim: string | null;
-  email: string | null;
-}
-
-interface AssignmentSubmissionItem {
-  id: number;
-  student: SubmissionStudent;
-  submitted_at: string | null;
-  file_url?: string | null;
-  link_url?: string | null;
-  score: number | null;
-  feedback: string | null;
-  graded_at: string | null;
-}
-
-interface TeacherAssignmentSubmissionsResponse {
-  assignment: AssignmentDetail;
-  submissions: AssignmentSubmissionItem[];
-}
+import { isAbortError } from "@/lib/apiClient";
+import {
+  gradeSubmission,
+  listAssignmentSubmissions,
+  updateAssignmentRubric,
+  type AssignmentDetail,
+  type AssignmentSubmissionItem,
+  type Rubric,
+  type RubricSelection,
+} from "@/lib/api";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import GradeImportDialog, {
+  type ImportedGrade,
+} from "@/components/GradeImportDialog";
+import RubricEditor from "@/components/RubricEditor";
+import RubricGrid from "@/components/RubricGrid";
+import { computeRubricScore } from "@/lib/rubric";
+import {
+  extractErrorMessage,
+  formatDate,
+  formatDateTime,
+  parseNumberOrNull,
+} from "@/lib/utils";
 
 interface SubmissionEdit {
   score: string;
   feedback: string;
+  /** Level rubrik yang dipilih; kosong = nilai diisi manual */
+  rubric: RubricSelection;
 }
 
 interface SubmissionEditMap {
@@ -63,57 +41,19 @@ interface SubmissionSubmittingMap {
   [submissionId: number]: boolean;
 }
 
-function extractErrorMessage(error: unknown, fallback: string): string {
-  if (error instanceof Error && error.message) {
-    return error.message;
-  }
-
-  if (typeof error === "object" && error !== null && "data" in error) {
-    const apiError = error as ApiError;
-    if (apiError.data && typeof apiError.data === "object") {
-      const body = apiError.data as { message?: unknown; error?: unknown };
-      if (typeof body.message === "string" && body.message.length > 0) {
-        return body.message;
-      }
-      if (typeof body.error === "string" && body.error.length > 0) {
-        return body.error;
-      }
-    }
-  }
-
-  return fallback;
-}
-
-function formatDateTime(dateStr: string | null | undefined): string {
-  if (!dateStr) return "—";
-  const date = new Date(dateStr);
-  if (Number.isNaN(date.getTime())) return dateStr;
-  return date.toLocaleString("id-ID", {
-    day: "2-digit",
-    month: "short",
-    year: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-}
-
-function formatDate(dateStr: string | null | undefined): string {
-  if (!dateStr) return "—";
-  const date = new Date(dateStr);
-  if (Number.isNaN(date.getTime())) return dateStr;
-  return date.toLocaleDateString("id-ID", {
-    day: "2-digit",
-    month: "short",
-    year: "numeric",
+function toEditMap(submissions: AssignmentSubmissionItem[]) {
+  const edits: SubmissionEditMap = {};
+  submissions.forEach((submission) => {
+    edits[submission.id] = {
+      score:
+        submission.score !== null && submission.score !== undefined
+          ? String(submission.score)
+          : "",
+      feedback: submission.feedback ?? "",
+      rubric: { ...submission.rubric_selection },
+    };
   });
-}
-
-function parseNumberOrNull(value: string): number | null {
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-  const parsed = Number.parseInt(trimmed, 10);
-  if (Number.isNaN(parsed)) return null;
-  return parsed;
+  return edits;
 }
 
 const TeacherAssignmentDetailPage: React.FC = () => {
@@ -133,45 +73,40 @@ const TeacherAssignmentDetailPage: React.FC = () => {
   const [submittingMap, setSubmittingMap] =
     useState<SubmissionSubmittingMap>({});
   const [globalMessage, setGlobalMessage] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState<boolean>(false);
+
+  const [rubricEditorOpen, setRubricEditorOpen] = useState<boolean>(false);
+  const [rubricRemoveOpen, setRubricRemoveOpen] = useState<boolean>(false);
+  const [rubricSaving, setRubricSaving] = useState<boolean>(false);
+  const [rubricError, setRubricError] = useState<string | null>(null);
+  const [rubricOpenFor, setRubricOpenFor] = useState<number | null>(null);
 
   useEffect(() => {
     if (!assignmentId) return;
 
-    let isActive = true;
+    const controller = new AbortController();
 
     const loadData = async () => {
       setLoading(true);
       setError(null);
       setGlobalMessage(null);
       try {
-        const data = await apiGet<TeacherAssignmentSubmissionsResponse>(
-          `/api/teacher/assignments/${assignmentId}/submissions`
-        );
-        if (!isActive) return;
+        const data = await listAssignmentSubmissions(assignmentId, {
+          signal: controller.signal,
+        });
 
         setAssignment(data.assignment);
         setSubmissions(data.submissions);
-
-        const initialEdits: SubmissionEditMap = {};
-        data.submissions.forEach((submission) => {
-          initialEdits[submission.id] = {
-            score:
-              submission.score !== null && submission.score !== undefined
-                ? String(submission.score)
-                : "",
-            feedback: submission.feedback ?? "",
-          };
-        });
-        setEdits(initialEdits);
+        setEdits(toEditMap(data.submissions));
       } catch (err: unknown) {
-        if (!isActive) return;
+        if (isAbortError(err)) return;
         const message = extractErrorMessage(
           err,
           "Gagal memuat detail tugas dan submission."
         );
         setError(message);
       } finally {
-        if (isActive) {
+        if (!controller.signal.aborted) {
           setLoading(false);
         }
       }
@@ -180,7 +115,7 @@ const TeacherAssignmentDetailPage: React.FC = () => {
     void loadData();
 
     return () => {
-      isActive = false;
+      controller.abort();
     };
   }, [assignmentId]);
 
@@ -204,6 +139,7 @@ const TeacherAssignmentDetailPage: React.FC = () => {
       [submissionId]: {
         score: value,
         feedback: prev[submissionId]?.feedback ?? "",
+        rubric: prev[submissionId]?.rubric ?? {},
       },
     }));
   };
@@ -214,16 +150,74 @@ const TeacherAssignmentDetailPage: React.FC = () => {
       [submissionId]: {
         score: prev[submissionId]?.score ?? "",
         feedback: value,
+        rubric: prev[submissionId]?.rubric ?? {},
+      },
+    }));
+  };
+
+  const handleSelectRubricLevel = (
+    submissionId: number,
+    criterionId: string,
+    levelId: string
+  ) => {
+    if (!assignment?.rubric) return;
+    const rubric = assignment.rubric;
+
+    setEdits((prev) => {
+      const current = prev[submissionId];
+      const selection = { ...current?.rubric, [criterionId]: levelId };
+      const score = computeRubricScore(rubric, selection);
+      return {
+        ...prev,
+        [submissionId]: {
+          score: score !== null ? String(score) : "",
+          feedback: current?.feedback ?? "",
+          rubric: selection,
+        },
+      };
+    });
+  };
+
+  const handleClearRubric = (submissionId: number) => {
+    setEdits((prev) => ({
+      ...prev,
+      [submissionId]: {
+        score: "",
+        feedback: prev[submissionId]?.feedback ?? "",
+        rubric: {},
       },
     }));
   };
 
+  // Sama dengan aturan server: pilihan rubrik lama ikut hilang kalau
+  // nilainya diubah tanpa rubrik
+  const keepSelection = (
+    submission: AssignmentSubmissionItem,
+    score: number | null
+  ): RubricSelection | null => {
+    const rubric = assignment?.rubric;
+    const selection = submission.rubric_selection;
+    if (!rubric || !selection) return null;
+    return computeRubricScore(rubric, selection) === score ? selection : null;
+  };
+
   const handleSubmitGrade = async (submissionId: number) => {
     const edit = edits[submissionId];
     if (!edit) return;
 
-    const scoreValue = parseNumberOrNull(edit.score);
     const feedbackValue = edit.feedback.trim();
+    const rubric = assignment?.rubric ?? null;
+    const rubricSelection =
+      rubric && Object.keys(edit.rubric).length > 0 ? edit.rubric : null;
+    const scoreValue =
+      rubric && rubricSelection
+        ? computeRubricScore(rubric, rubricSelection)
+        : parseNumberOrNull(edit.score);
+    if (rubricSelection && scoreValue === null) {
+      setGlobalMessage(null);
+      setError("Pilih satu tingkat capaian di setiap kriteria rubrik.");
+      return;
+    }
 
     setSubmittingMap((prev) => ({
       ...prev,
@@ -233,13 +227,11 @@ const TeacherAssignmentDetailPage: React.FC = () => {
     setError(null);
 
     try {
-      await apiPost(
-        `/api/teacher/assignment-submissions/${submissionId}/grade`,
-        {
-          score: scoreValue,
-          feedback: feedbackValue.length > 0 ? feedbackValue : null,
-        }
-      );
+      await gradeSubmission(submissionId, {
+        score: scoreValue,
+        feedback: feedbackValue.length > 0 ? feedbackValue : null,
+        rubric_selection: rubricSelection,
+      });
 
       setSubmissions((prev) =>
         prev.map((submission) => {
@@ -248,6 +240,8 @@ const TeacherAssignmentDetailPage: React.FC = () => {
             ...submission,
             score: scoreValue,
             feedback: feedbackValue.length > 0 ? feedbackValue : null,
+            rubric_selection:
+              rubricSelection ?? keepSelection(submission, scoreValue),
             graded_at: new Date().toISOString(),
           };
         })
@@ -268,6 +262,63 @@ const TeacherAssignmentDetailPage: React.FC = () => {
     }
   };
 
+  const handleGradesImported = (grades: ImportedGrade[]) => {
+    const byId = new Map(grades.map((grade) => [grade.submissionId, grade]));
+    const gradedAt = new Date().toISOString();
+
+    const updated: AssignmentSubmissionItem[] = [];
+    submissions.forEach((submission) => {
+      const grade = byId.get(submission.id);
+      if (!grade) return;
+      updated.push({
+        ...submission,
+        score: grade.score,
+        feedback: grade.feedback,
+        rubric_selection: keepSelection(submission, grade.score),
+        graded_at: gradedAt,
+      });
+    });
+    const updatedById = new Map(updated.map((row) => [row.id, row]));
+
+    setSubmissions((prev) =>
+      prev.map((submission) => updatedById.get(submission.id) ?? submission)
+    );
+    setEdits((prev) => ({ ...prev, ...toEditMap(updated) }));
+    setGlobalMessage(`${grades.length} nilai berhasil diimpor.`);
+  };
+
+  const reloadSubmissions = async () => {
+    const data = await listAssignmentSubmissions(assignmentId);
+    setAssignment(data.assignment);
+    setSubmissions(data.submissions);
+    setEdits(toEditMap(data.submissions));
+  };
+
+  const handleSaveRubric = async (rubric: Rubric | null) => {
+    if (!assignment) return;
+
+    setRubricSaving(true);
+    setRubricError(null);
+    try {
+      await updateAssignmentRubric(assignment.id, rubric);
+      // Nilai maksimal dan nilai berbasis rubrik bisa berubah di server
+      await reloadSubmissions();
+      setRubricEditorOpen(false);
+      setRubricRemoveOpen(false);
+      setRubricOpenFor(null);
+      setError(null);
+      setGlobalMessage(
+        rubric ? "Rubrik berhasil disimpan." : "Rubrik berhasil dihapus."
+      );
+    } catch (err: unknown) {
+      const message = extractErrorMessage(err, "Gagal menyimpan rubrik.");
+      setRubricError(message);
+      setRubricRemoveOpen(false);
+    } finally {
+      setRubricSaving(false);
+    }
+  };
+
   const totalSubmissions = submissions.length;
   const gradedCount = submissions.filter(
     (sub) => sub.score !== null && sub.score !== undefined
@@ -360,6 +411,24 @@ const TeacherAssignmentDetailPage: React.FC = () => {
                   {assignment.allow_late ? "Diizinkan" : "Tidak diizinkan"}
                 </span>
               </p>
+              <p className="text-slate-600">
+                Penilaian:{" "}
+                <span className="font-semibold text-slate-900">
+                  {assignment.rubric
+                    ? `Rubrik (${assignment.rubric.criteria.length} kriteria)`
+                    : "Nilai langsung"}
+                </span>{" "}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setRubricError(null);
+                    setRubricEditorOpen(true);
+                  }}
+                  className="text-red-600 hover:underline"
+                >
+                  {assignment.rubric ? "Ubah rubrik" : "Buat rubrik"}
+                </button>
+              </p>
               <p className="mt-2 text-slate-600">
                 Submission dinilai:{" "}
                 <span className="font-semibold text-slate-900">
@@ -387,8 +456,18 @@ const TeacherAssignmentDetailPage: React.FC = () => {
 
       {/* Submissions Table */}
       <div className="rounded-2xl border border-slate-200 bg-white">
-        <div className="border-b border-slate-200 px-4 py-3 text-xs font-semibold text-slate-900">
-          Submission Mahasiswa
+        <div className="flex items-center justify-between gap-2 border-b border-slate-200 px-4 py-3">
+          <span className="text-xs font-semibold text-slate-900">
+            Submission Mahasiswa
+          </span>
+          <button
+            type="button"
+            onClick={() => setImportOpen(true)}
+            disabled={loading || submissions.length === 0}
+            className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Impor nilai
+          </button>
         </div>
 
         {loading ? (
@@ -443,7 +522,10 @@ const TeacherAssignmentDetailPage: React.FC = () => {
                   const edit = edits[submission.id] ?? {
                     score: "",
                     feedback: "",
+                    rubric: {},
                   };
+                  const usesRubric = Object.keys(edit.rubric).length > 0;
+                  const rubricOpen = rubricOpenFor === submission.id;
                   const isSubmitting =
                     submittingMap[submission.id] ?? false;
                   const hasSubmitted =
@@ -465,133 +547,189 @@ const TeacherAssignmentDetailPage: React.FC = () => {
                         : null;
 
                   return (
-                    <tr key={submission.id} className={rowBg}>
-                      <td className="px-3 py-2 align-top">
-                        <div className="flex items-center gap-2">
-                          <div className="flex h-7 w-7 items-center justify-center rounded-full bg-red-600 text-[10px] font-semibold text-white">
-                            {submission.student.name
-                              .split(" ")
-                              .map((part) => part.charAt(0))
-                              .join("")
-                              .slice(0, 2)
-                              .toUpperCase()}
-                          </div>
-                          <div>
-                            <p className="text-xs font-semibold text-slate-900">
-                              {submission.student.name}
-                            </p>
-                            <p className="text-[10px] text-slate-500">
-                              {submission.student.username}
-                              {submission.student.nim
-                                ? ` • ${submission.student.nim}`
-                                : ""}
-                            </p>
-                            {submission.student.email && (
+                    <React.Fragment key={submission.id}>
+                      <tr className={rowBg}>
+                        <td className="px-3 py-2 align-top">
+                          <div className="flex items-center gap-2">
+                            <div className="flex h-7 w-7 items-center justify-center rounded-full bg-red-600 text-[10px] font-semibold text-white">
+                              {submission.student.name
+                                .split(" ")
+                                .map((part) => part.charAt(0))
+                                .join("")
+                                .slice(0, 2)
+                                .toUpperCase()}
+                            </div>
+                            <div>
+                              <p className="text-xs font-semibold text-slate-900">
+                                {submission.student.name}
+                              </p>
                               <p className="text-[10px] text-slate-500">
-                                {submission.student.email}
+                                {submission.student.username}
+                                {submission.student.nim
+                                  ? ` • ${submission.student.nim}`
+                                  : ""}
                               </p>
-                            )}
+                              {submission.student.email && (
+                                <p className="text-[10px] text-slate-500">
+                                  {submission.student.email}
+                                </p>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                      </td>
-                      <td className="px-3 py-2 align-top text-[11px] text-slate-600">
-                        {hasSubmitted ? (
-                          <>
-                            <p>{formatDateTime(submission.submitted_at)}</p>
-                            {submission.graded_at && (
-                              <p className="mt-0.5 text-[10px] text-emerald-700">
-                                Dinilai {formatDateTime(submission.graded_at)}
+                        </td>
+                        <td className="px-3 py-2 align-top text-[11px] text-slate-600">
+                          {hasSubmitted ? (
+                            <>
+                              <p>{formatDateTime(submission.submitted_at)}</p>
+                              {submission.graded_at && (
+                                <p className="mt-0.5 text-[10px] text-emerald-700">
+                                  Dinilai {formatDateTime(submission.graded_at)}
+                                </p>
+                              )}
+                            </>
+                          ) : (
+                            <span className="rounded-full bg-slate-50 px-2 py-0.5 text-[10px] text-slate-400">
+                              Belum submit
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 align-top text-[11px] text-slate-600">
+                          {answerUrl ? (
+                            <a
+                              href={answerUrl}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="inline-flex items-center rounded-full bg-slate-50 px-2 py-0.5 text-[10px] text-red-600 hover:bg-slate-100 hover:underline"
+                            >
+                              Lihat jawaban
+                            </a>
+                          ) : hasSubmitted ? (
+                            <span className="text-[10px] text-slate-400">
+                              Jawaban tersedia, tapi link tidak disediakan.
+                            </span>
+                          ) : (
+                            <span className="text-[10px] text-slate-300">
+                              —
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <div className="space-y-1">
+                            {displayScore && (
+                              <p className="text-[10px] text-slate-500">
+                                Nilai saat ini:{" "}
+                                <span className="font-semibold text-slate-900">
+                                  {submission.score}
+                                </span>
                               </p>
                             )}
-                          </>
-                        ) : (
-                          <span className="rounded-full bg-slate-50 px-2 py-0.5 text-[10px] text-slate-400">
-                            Belum submit
-                          </span>
-                        )}
-                      </td>
-                      <td className="px-3 py-2 align-top text-[11px] text-slate-600">
-                        {answerUrl ? (
-                          <a
-                            href={answerUrl}
-                            target="_blank"
-                            rel="noreferrer"
-                            className="inline-flex items-center rounded-full bg-slate-50 px-2 py-0.5 text-[10px] text-red-600 hover:bg-slate-100 hover:underline"
-                          >
-                            Lihat jawaban
-                          </a>
-                        ) : hasSubmitted ? (
-                          <span className="text-[10px] text-slate-400">
-                            Jawaban tersedia, tapi link tidak disediakan.
-                          </span>
-                        ) : (
-                          <span className="text-[10px] text-slate-300">
-                            —
-                          </span>
-                        )}
-                      </td>
-                      <td className="px-3 py-2 align-top">
-                        <div className="space-y-1">
-                          {displayScore && (
-                            <p className="text-[10px] text-slate-500">
-                              Nilai saat ini:{" "}
-                              <span className="font-semibold text-slate-900">
-                                {submission.score}
-                              </span>
-                            </p>
-                          )}
-                          <input
-                            type="number"
-                            min={0}
-                            max={assignment?.max_score ?? 100}
-                            value={edit.score}
+                            <input
+                              type="number"
+                              min={0}
+                              max={assignment?.max_score ?? 100}
+                              value={edit.score}
+                              onChange={(e) =>
+                                handleChangeScore(
+                                  submission.id,
+                                  e.target.value
+                                )
+                              }
+                              readOnly={usesRubric}
+                              title={
+                                usesRubric
+                                  ? "Dihitung dari rubrik"
+                                  : undefined
+                              }
+                              className="w-20 rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none read-only:bg-slate-50 focus:border-red-500"
+                              placeholder="Nilai"
+                            />
+                            {assignment?.rubric && hasSubmitted && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setRubricOpenFor(
+                                    rubricOpen ? null : submission.id
+                                  )
+                                }
+                                className="block text-[10px] text-red-600 hover:underline"
+                              >
+                                {rubricOpen
+                                  ? "Tutup rubrik"
+                                  : "Nilai dengan rubrik"}
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 align-top">
+                          <textarea
+                            value={edit.feedback}
                             onChange={(e) =>
-                              handleChangeScore(
+                              handleChangeFeedback(
                                 submission.id,
                                 e.target.value
                               )
                             }
-                            className="w-20 rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500"
-                            placeholder="Nilai"
+                            className="min-h-[60px] w-full rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500"
+                            placeholder="Feedback singkat untuk mahasiswa..."
                           />
-                        </div>
-                      </td>
-                      <td className="px-3 py-2 align-top">
-                        <textarea
-                          value={edit.feedback}
-                          onChange={(e) =>
-                            handleChangeFeedback(
-                              submission.id,
-                              e.target.value
-                            )
-                          }
-                          className="min-h-[60px] w-full rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500"
-                          placeholder="Feedback singkat untuk mahasiswa..."
-                        />
-                      </td>
-                      <td className="px-3 py-2 align-top text-right">
-                        <button
-                          type="button"
-                          disabled={isSubmitting || !hasSubmitted}
-                          onClick={() => void handleSubmitGrade(submission.id)}
-                          className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
-                        >
-                          {isSubmitting ? (
-                            <>
-                              <span className="mr-2 inline-block h-3 w-3 animate-spin rounded-full border border-white border-t-transparent" />
-                              Menyimpan...
-                            </>
-                          ) : (
-                            "Simpan nilai"
+                        </td>
+                        <td className="px-3 py-2 align-top text-right">
+                          <button
+                            type="button"
+                            disabled={isSubmitting || !hasSubmitted}
+                            onClick={() =>
+                              void handleSubmitGrade(submission.id)
+                            }
+                            className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+                          >
+                            {isSubmitting ? (
+                              <>
+                                <span className="mr-2 inline-block h-3 w-3 animate-spin rounded-full border border-white border-t-transparent" />
+                                Menyimpan...
+                              </>
+                            ) : (
+                              "Simpan nilai"
+                            )}
+                          </button>
+                          {!hasSubmitted && (
+                            <p className="mt-1 text-[10px] text-slate-400">
+                              Mahasiswa belum mengumpulkan.
+                            </p>
                           )}
-                        </button>
-                        {!hasSubmitted && (
-                          <p className="mt-1 text-[10px] text-slate-400">
-                            Mahasiswa belum mengumpulkan.
-                          </p>
-                        )}
-                      </td>
-                    </tr>
+                        </td>
+                      </tr>
+                      {rubricOpen && assignment?.rubric && (
+                        <tr className={rowBg}>
+                          <td colSpan={6} className="px-3 pb-3">
+                            <div className="rounded-xl border border-slate-200 bg-white p-3">
+                              <RubricGrid
+                                rubric={assignment.rubric}
+                                selection={edit.rubric}
+                                disabled={isSubmitting}
+                                onSelect={(criterionId, levelId) =>
+                                  handleSelectRubricLevel(
+                                    submission.id,
+                                    criterionId,
+                                    levelId
+                                  )
+                                }
+                              />
+                              {usesRubric && (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    handleClearRubric(submission.id)
+                                  }
+                                  className="mt-1 text-[10px] text-slate-500 hover:text-red-600"
+                                >
+                                  Kosongkan pilihan rubrik
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
                   );
                 })}
               </tbody>
@@ -599,6 +737,36 @@ const TeacherAssignmentDetailPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      <GradeImportDialog
+        open={importOpen}
+        assignmentTitle={assignment?.title ?? ""}
+        maxScore={assignment?.max_score ?? 100}
+        submissions={submissions}
+        onGraded={handleGradesImported}
+        onClose={() => setImportOpen(false)}
+      />
+
+      {rubricEditorOpen && assignment && (
+        <RubricEditor
+          rubric={assignment.rubric ?? null}
+          gradedCount={gradedCount}
+          saving={rubricSaving}
+          error={rubricError}
+          onSave={(rubric) => void handleSaveRubric(rubric)}
+          onRemove={() => setRubricRemoveOpen(true)}
+          onClose={() => setRubricEditorOpen(false)}
+        />
+      )}
+
+      <ConfirmDialog
+        open={rubricRemoveOpen}
+        title="Hapus rubrik?"
+        description="Nilai yang sudah ada tetap tersimpan, tetapi pilihan rubrik di setiap submission dihapus."
+        confirmLabel={rubricSaving ? "Menghapus..." : "Ya, hapus"}
+        onConfirm={() => void handleSaveRubric(null)}
+        onCancel={() => setRubricRemoveOpen(false)}
+      />
     </div>
   );
 };
@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  getTeacherCourseGrades,
+  type TeacherCourseGradesResponse,
+} from "@/lib/api";
+import { buildGradebookRows } from "@/lib/gradebookExport";
+import { getDefaultGradingScheme } from "@/lib/gradingScheme";
+import { extractErrorMessage, formatDateTime } from "@/lib/utils";
+
+/**
+ * Rekap nilai versi cetak: tabel polos tanpa tab/tombol supaya bisa dicetak
+ * atau disimpan sebagai PDF dari dialog print browser.
+ */
+const TeacherGradesPrintPage: React.FC = () => {
+  const params = useParams();
+  const router = useRouter();
+  const courseId = (params?.id ?? "") as string;
+
+  const [grades, setGrades] = useState<TeacherCourseGradesResponse | null>(
+    null
+  );
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [printedAt] = useState<string>(() => new Date().toISOString());
+
+  useEffect(() => {
+    if (!courseId) return;
+
+    const controller = new AbortController();
+
+    const loadGrades = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getTeacherCourseGrades(courseId, {
+          signal: controller.signal,
+        });
+        setGrades(data);
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        const message = extractErrorMessage(
+          err,
+          "Gagal memuat rekap nilai kelas."
+        );
+        setError(message);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadGrades();
+
+    return () => {
+      controller.abort();
+    };
+  }, [courseId]);
+
+  if (loading) {
+    return (
+      <div className="rounded-2xl border border-slate-200 bg-white px-4 py-6 text-center text-sm text-slate-500">
+        Memuat rekap nilai kelas...
+      </div>
+    );
+  }
+
+  if (error || !grades) {
+    return (
+      <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+        {error ?? "Rekap nilai tidak ditemukan."}
+      </div>
+    );
+  }
+
+  const { course } = grades;
+  const scheme = grades.grading_scheme ?? getDefaultGradingScheme();
+  const [header, ...rows] = buildGradebookRows(grades);
+
+  return (
+    <div className="space-y-4 print:space-y-2">
+      <div className="flex items-center justify-between gap-2 print:hidden">
+        <button
+          type="button"
+          onClick={() => router.push(`/teacher/courses/${courseId}`)}
+          className="text-[11px] text-slate-500 hover:text-slate-800"
+        >
+          ← Kembali ke kelas
+        </button>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700"
+        >
+          Cetak / Simpan PDF
+        </button>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white px-4 py-4 print:rounded-none print:border-0 print:p-0">
+        <div className="mb-3 flex flex-wrap items-end justify-between gap-2 border-b border-slate-300 pb-2">
+          <div>
+            <h1 className="text-sm font-semibold text-slate-900">
+              Rekap Nilai —{" "}
+              {course.template
+                ? `${course.template.code} ${course.template.name}`
+                : "Tanpa template"}
+            </h1>
+            <p className="text-[11px] text-slate-600">
+              Kelas {course.class_name} • Semester {course.semester}
+              {course.lecturer ? ` • Dosen: ${course.lecturer.name}` : ""}
+            </p>
+          </div>
+          <div className="text-right text-[10px] text-slate-500">
+            <p>
+              Skema:{" "}
+              {scheme.categories
+                .map((category) => `${category.name} ${category.weight}%`)
+                .join(", ")}
+            </p>
+            <p>Dicetak {formatDateTime(printedAt)}</p>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-[11px] text-slate-500">
+            Belum ada mahasiswa di kelas ini.
+          </p>
+        ) : (
+          <table className="w-full border-collapse text-[10px]">
+            <thead>
+              <tr>
+                {header.map((cell, index) => (
+                  <th
+                    key={index}
+                    className="border border-slate-300 bg-slate-100 px-1.5 py-1 text-left font-semibold text-slate-800"
+                  >
+                    {cell}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="break-inside-avoid">
+                  {row.map((cell, index) => (
+                    <td
+                      key={index}
+                      className={`border border-slate-300 px-1.5 py-1 text-slate-900 ${
+                        typeof cell === "number" ? "text-right" : ""
+                      }`}
+                    >
+                      {cell ?? "—"}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <p className="mt-2 text-[10px] text-slate-500">
+          Nilai kategori dan nilai akhir dalam skala 0–100. Tugas/quiz yang
+          belum dinilai dihitung 0 dan tidak ikut dibuang sebagai nilai
+          terendah.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TeacherGradesPrintPage;
@@ -1,201 +1,78 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
+import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
+import { isAbortError } from "@/lib/apiClient";
 import {
-  apiGet,
-  apiPost,
-  apiPut,
-  apiDelete,
-  type ApiError,
-} from "@/lib/apiClient";
+  createAssignment,
+  createManualGradeItem,
+  createMaterial,
+  createQuiz,
+  createSection,
+  deleteAssignment,
+  deleteManualGradeItem,
+  deleteMaterial,
+  deleteQuiz,
+  deleteSection,
+  getTeacherCourseGrades,
+  listAssignments,
+  listMaterials,
+  listQuizzes,
+  listSections,
+  updateAssignment,
+  updateCourseGrades,
+  updateGradingScheme,
+  updateManualGradeItem,
+  updateMaterial,
+  updateQuiz,
+  updateSection,
+  type AssignmentItem,
+  type AssignmentPayload,
+  type AssignmentType,
+  type CourseHeader,
+  type GradeCellUpdate,
+  type GradingScheme,
+  type MaterialItem,
+  type MaterialType,
+  type QuizItem,
+  type QuizPayload,
+  type SectionItem,
+  type SectionPayload,
+  type TeacherCourseGradesResponse,
+} from "@/lib/api";
+import GradebookGrid from "@/components/GradebookGrid";
+import GradingSchemeEditor from "@/components/GradingSchemeEditor";
+import { XLSX_MIME_TYPE, downloadFile } from "@/lib/download";
+import {
+  GRADEBOOK_EXPORT_FORMATS,
+  GRADEBOOK_EXPORT_FORMAT_LABELS,
+  buildGradebookRows,
+  getGradebookFileName,
+  gradebookToCsv,
+  writeGradebookWorkbook,
+  type GradebookExportFormat,
+} from "@/lib/gradebookExport";
+import {
+  getDefaultGradingScheme,
+  listGradeItems,
+  type GradeItem,
+} from "@/lib/gradingScheme";
+import {
+  describeQuizRandomization,
+  validateDrawCount,
+} from "@/lib/quizQuestions";
+import {
+  extractErrorMessage,
+  formatDate,
+  formatDateTime,
+  formatQuizStatus,
+  parseNumberOrNull,
+  toLocalDateTimeInput,
+} from "@/lib/utils";
 
 type TabKey = "sections" | "participants" | "grades";
 
-type CourseStatus = "draft" | "active" | "finished";
-
-interface CourseTemplateLite {
-  id: number;
-  code: string;
-  name: string;
-}
-
-interface LecturerLite {
-  id: number;
-  name: string;
-  username: string;
-}
-
-interface CourseHeader {
-  id: number;
-  class_name: string;
-  semester: string;
-  status?: CourseStatus;
-  template: CourseTemplateLite | null;
-  lecturer: LecturerLite | null;
-}
-
-interface SectionItem {
-  id: number;
-  title: string;
-  order: number | null;
-  created_at: string;
-  updated_at: string;
-}
-
-type MaterialType = "file" | "link";
-
-interface MaterialItem {
-  id: number;
-  title: string;
-  description: string | null;
-  type: MaterialType;
-  file_path: string | null;
-  url: string | null;
-  subject: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-type AssignmentType = "file" | "link";
-
-interface AssignmentItem {
-  id: number;
-  title: string;
-  description: string | null;
-  type: AssignmentType;
-  instructions: string | null;
-  deadline: string | null;
-  max_score: number | null;
-  allow_late: boolean;
-  is_past_deadline: boolean;
-  can_submit_now: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-interface QuizTimeStatusFlags {
-  is_future: boolean;
-  is_ongoing: boolean;
-  is_finished: boolean;
-  can_attempt_now: boolean;
-}
-
-type QuizTimeStatus =
-  | "not_started"
-  | "ongoing"
-  | "finished"
-  | QuizTimeStatusFlags
-  | string
-  | null;
-
-interface QuizItem {
-  id: number;
-  title: string;
-  description: string | null;
-  start_time: string | null;
-  end_time: string | null;
-  duration_minutes: number | null;
-  max_score: number | null;
-  time_status?: QuizTimeStatus;
-  created_at: string;
-  updated_at: string;
-}
-
-interface SectionsResponse {
-  course: CourseHeader & {
-    status: CourseStatus;
-  };
-  sections: SectionItem[];
-}
-
-interface MaterialsResponse {
-  section: {
-    id: number;
-    title: string;
-    order: number | null;
-    course_instance: {
-      id: number;
-      class_name: string;
-      semester: string;
-    };
-  };
-  materials: MaterialItem[];
-}
-
-interface AssignmentsResponse {
-  section: {
-    id: number;
-    title: string;
-    order: number | null;
-    course_instance: {
-      id: number;
-      class_name: string;
-      semester: string;
-    };
-  };
-  assignments: AssignmentItem[];
-}
-
-interface QuizzesResponse {
-  section: {
-    id: number;
-    title: string;
-    order: number | null;
-    course_instance: {
-      id: number;
-      class_name: string;
-      semester: string;
-    };
-  };
-  quizzes: QuizItem[];
-}
-
-// Grades (dipakai di tab Participants + Grades)
-interface GradeAssignmentMeta {
-  id: number;
-  title: string;
-  max_score: number;
-}
-
-interface GradeQuizMeta {
-  id: number;
-  title: string;
-  max_score: number;
-}
-
-interface GradeStudentRow {
-  student: {
-    id: number;
-    name: string;
-    username: string;
-    nim: string | null;
-    email: string | null;
-  };
-  assignments: {
-    [assignmentId: string]: {
-      score: number | null;
-      max_score: number;
-    };
-  };
-  quizzes: {
-    [quizId: string]: {
-      best_score: number | null;
-      max_score: number;
-    };
-  };
-  total_score: number;
-  total_assignment_score: number;
-  total_quiz_score: number;
-}
-
-interface TeacherCourseGradesResponse {
-  course: CourseHeader;
-  assignments: GradeAssignmentMeta[];
-  quizzes: GradeQuizMeta[];
-  students: GradeStudentRow[];
-}
-
 type SectionFormMode = "create" | "edit";
 
 interface SectionFormState {
@@ -232,6 +109,8 @@ interface AssignmentFormState {
   deadline: string;
   max_score: string;
   allow_late: boolean;
+  /** Nilai maksimal tugas berubrik mengikuti total poin rubrik */
+  has_rubric: boolean;
 }
 
 type QuizFormMode = "create" | "edit";
@@ -246,6 +125,19 @@ interface QuizFormState {
   end_time: string;
   duration_minutes: string;
   max_score: string;
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  /** Jumlah soal yang diundi per mahasiswa; kosong = semua soal */
+  draw_count: string;
+  /** Jumlah soal quiz untuk batas undian; null = belum diketahui */
+  question_count: number | null;
+}
+
+/** Form kolom nilai manual (kehadiran, UTS, keaktifan, ...) */
+interface ManualItemFormState {
+  itemId?: number;
+  title: string;
+  max_score: string;
 }
 
 const tabLabel: { [K in TabKey]: string } = {
@@ -254,88 +146,6 @@ const tabLabel: { [K in TabKey]: string } = {
   grades: "Grades",
 };
 
-function extractErrorMessage(error: unknown, fallback: string): string {
-  if (error instanceof Error && error.message) {
-    return error.message;
-  }
-
-  if (typeof error === "object" && error !== null && "data" in error) {
-    const apiError = error as ApiError;
-    if (apiError.data && typeof apiError.data === "object") {
-      const body = apiError.data as { message?: unknown; error?: unknown };
-      if (typeof body.message === "string" && body.message.length > 0) {
-        return body.message;
-      }
-      if (typeof body.error === "string" && body.error.length > 0) {
-        return body.error;
-      }
-    }
-  }
-
-  return fallback;
-}
-
-function formatDate(dateStr: string | null | undefined): string {
-  if (!dateStr) return "—";
-  const date = new Date(dateStr);
-  if (Number.isNaN(date.getTime())) return dateStr;
-  return date.toLocaleDateString("id-ID", {
-    day: "2-digit",
-    month: "short",
-    year: "numeric",
-  });
-}
-
-function formatDateTime(dateStr: string | null | undefined): string {
-  if (!dateStr) return "—";
-  const date = new Date(dateStr);
-  if (Number.isNaN(date.getTime())) return dateStr;
-  return date.toLocaleString("id-ID", {
-    day: "2-digit",
-    month: "short",
-    year: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-}
-
-function toLocalDateTimeInput(dateStr: string | null | undefined): string {
-  if (!dateStr) return "";
-  const date = new Date(dateStr);
-  if (Number.isNaN(date.getTime())) return "";
-  const year = date.getFullYear();
-  const month = `${date.getMonth() + 1}`.padStart(2, "0");
-  const day = `${date.getDate()}`.padStart(2, "0");
-  const hours = `${date.getHours()}`.padStart(2, "0");
-  const minutes = `${date.getMinutes()}`.padStart(2, "0");
-  return `${year}-${month}-${day}T${hours}:${minutes}`;
-}
-
-function parseNumberOrNull(value: string): number | null {
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-  const parsed = Number.parseInt(trimmed, 10);
-  if (Number.isNaN(parsed)) return null;
-  return parsed;
-}
-
-function formatQuizStatus(status: QuizTimeStatus | undefined): string {
-  if (status == null) return "—";
-
-  if (typeof status === "string") {
-    return status;
-  }
-
-  const flags = status as QuizTimeStatusFlags;
-
-  if (flags.is_ongoing) return "Sedang berlangsung";
-  if (flags.is_future) return "Belum dimulai";
-  if (flags.is_finished) return "Sudah berakhir";
-  if (flags.can_attempt_now) return "Dapat dikerjakan";
-
-  return "Status tidak diketahui";
-}
-
 // ---------------------------
 // Local Confirm Dialog
 // ---------------------------
@@ -474,6 +284,20 @@ const CourseDetailPage: React.FC = () => {
   );
   const [gradesLoading, setGradesLoading] = useState<boolean>(true);
   const [gradesError, setGradesError] = useState<string | null>(null);
+  const [schemeEditorOpen, setSchemeEditorOpen] = useState<boolean>(false);
+  const [schemeSaving, setSchemeSaving] = useState<boolean>(false);
+  const [schemeError, setSchemeError] = useState<string | null>(null);
+  const [gradesSaving, setGradesSaving] = useState<boolean>(false);
+  const [gradesSaveError, setGradesSaveError] = useState<string | null>(
+    null
+  );
+  const [manualItemForm, setManualItemForm] =
+    useState<ManualItemFormState | null>(null);
+  const [manualItemSubmitting, setManualItemSubmitting] =
+    useState<boolean>(false);
+  const [manualItemError, setManualItemError] = useState<string | null>(
+    null
+  );
 
   // Global confirm dialog state
   const [confirmConfig, setConfirmConfig] = useState<ConfirmConfig | null>(
@@ -483,16 +307,15 @@ const CourseDetailPage: React.FC = () => {
   useEffect(() => {
     if (!courseId) return;
 
-    let isActive = true;
+    const controller = new AbortController();
 
     const loadSections = async () => {
       setSectionsLoading(true);
       setSectionsError(null);
       try {
-        const data = await apiGet<SectionsResponse>(
-          `/api/course-instances/${courseId}/sections`
-        );
-        if (!isActive) return;
+        const data = await listSections(courseId, {
+          signal: controller.signal,
+        });
 
         const sorted = [...data.sections].sort((a, b) => {
           const aOrder = a.order ?? Number.MAX_SAFE_INTEGER;
@@ -506,14 +329,14 @@ const CourseDetailPage: React.FC = () => {
         setSections(sorted);
         setCourse((prev) => prev ?? data.course);
       } catch (error: unknown) {
-        if (!isActive) return;
+        if (isAbortError(error)) return;
         const message = extractErrorMessage(
           error,
           "Gagal memuat sections kelas."
         );
         setSectionsError(message);
       } finally {
-        if (isActive) {
+        if (!controller.signal.aborted) {
           setSectionsLoading(false);
         }
       }
@@ -523,21 +346,20 @@ const CourseDetailPage: React.FC = () => {
       setGradesLoading(true);
       setGradesError(null);
       try {
-        const data = await apiGet<TeacherCourseGradesResponse>(
-          `/api/teacher/course-instances/${courseId}/grades`
-        );
-        if (!isActive) return;
+        const data = await getTeacherCourseGrades(courseId, {
+          signal: controller.signal,
+        });
         setGrades(data);
         setCourse((prev) => prev ?? data.course);
       } catch (error: unknown) {
-        if (!isActive) return;
+        if (isAbortError(error)) return;
         const message = extractErrorMessage(
           error,
           "Gagal memuat data nilai/participants kelas."
         );
         setGradesError(message);
       } finally {
-        if (isActive) {
+        if (!controller.signal.aborted) {
           setGradesLoading(false);
         }
       }
@@ -547,7 +369,7 @@ const CourseDetailPage: React.FC = () => {
     void loadGrades();
 
     return () => {
-      isActive = false;
+      controller.abort();
     };
   }, [courseId]);
 
@@ -599,9 +421,7 @@ const CourseDetailPage: React.FC = () => {
   };
 
   const loadMaterialsForSection = async (sectionId: number) => {
-    const data = await apiGet<MaterialsResponse>(
-      `/api/sections/${sectionId}/materials`
-    );
+    const data = await listMaterials(sectionId);
     setMaterialsBySection((prev) => ({
       ...prev,
       [sectionId]: data.materials,
@@ -609,9 +429,7 @@ const CourseDetailPage: React.FC = () => {
   };
 
   const loadAssignmentsForSection = async (sectionId: number) => {
-    const data = await apiGet<AssignmentsResponse>(
-      `/api/sections/${sectionId}/assignments`
-    );
+    const data = await listAssignments(sectionId);
     setAssignmentsBySection((prev) => ({
       ...prev,
       [sectionId]: data.assignments,
@@ -619,9 +437,7 @@ const CourseDetailPage: React.FC = () => {
   };
 
   const loadQuizzesForSection = async (sectionId: number) => {
-    const data = await apiGet<QuizzesResponse>(
-      `/api/sections/${sectionId}/quizzes`
-    );
+    const data = await listQuizzes(sectionId);
     setQuizzesBySection((prev) => ({
       ...prev,
       [sectionId]: data.quizzes,
@@ -687,7 +503,7 @@ const CourseDetailPage: React.FC = () => {
 
     const orderValue = parseNumberOrNull(order);
 
-    const payload: { title: string; order?: number | null } = {
+    const payload: SectionPayload = {
       title: trimmedTitle,
     };
     if (orderValue !== null) {
@@ -699,20 +515,15 @@ const CourseDetailPage: React.FC = () => {
 
     try {
       if (mode === "create") {
-        await apiPost(
-          `/api/course-instances/${courseId}/sections`,
-          payload
-        );
+        await createSection(courseId, payload);
       } else if (mode === "edit" && typeof sectionId === "number") {
-        await apiPut(`/api/sections/${sectionId}`, payload);
+        await updateSection(sectionId, payload);
       }
 
       setSectionsLoading(true);
       setSectionsError(null);
 
-      const data = await apiGet<SectionsResponse>(
-        `/api/course-instances/${courseId}/sections`
-      );
+      const data = await listSections(courseId);
       const sorted = [...data.sections].sort((a, b) => {
         const aOrder = a.order ?? Number.MAX_SAFE_INTEGER;
         const bOrder = b.order ?? Number.MAX_SAFE_INTEGER;
@@ -753,7 +564,7 @@ const CourseDetailPage: React.FC = () => {
 
   const performDeleteSection = async (section: SectionItem) => {
     try {
-      await apiDelete(`/api/sections/${section.id}`);
+      await deleteSection(section.id);
       setSections((prev) => prev.filter((s) => s.id !== section.id));
 
       setMaterialsBySection((prev) => {
@@ -901,15 +712,9 @@ const CourseDetailPage: React.FC = () => {
 
     try {
       if (mode === "create") {
-        await apiPost(`/api/sections/${sectionId}/materials`, formData, {
-          headers: {},
-        });
+        await createMaterial(sectionId, formData);
       } else if (mode === "edit" && typeof materialId === "number") {
-        // diasumsikan backend pakai method spoofing (_method=PUT) atau endpoint khusus update file
-        formData.append("_method", "PUT");
-        await apiPost(`/api/materials/${materialId}`, formData, {
-          headers: {},
-        });
+        await updateMaterial(materialId, formData);
       }
 
       await loadMaterialsForSection(sectionId);
@@ -932,7 +737,7 @@ const CourseDetailPage: React.FC = () => {
     material: MaterialItem
   ) => {
     try {
-      await apiDelete(`/api/materials/${material.id}`);
+      await deleteMaterial(material.id);
       await loadMaterialsForSection(sectionId);
     } catch (error: unknown) {
       const message = extractErrorMessage(
@@ -971,6 +776,7 @@ const CourseDetailPage: React.FC = () => {
       deadline: "",
       max_score: "",
       allow_late: false,
+      has_rubric: false,
     });
     setAssignmentFormError(null);
   };
@@ -993,6 +799,7 @@ const CourseDetailPage: React.FC = () => {
           ? String(assignment.max_score)
           : "",
       allow_late: assignment.allow_late,
+      has_rubric: Boolean(assignment.rubric),
     });
     setAssignmentFormError(null);
   };
@@ -1028,15 +835,7 @@ const CourseDetailPage: React.FC = () => {
       return;
     }
 
-    const payload: {
-      title: string;
-      description?: string | null;
-      type: AssignmentType;
-      instructions?: string | null;
-      deadline?: string | null;
-      max_score?: number | null;
-      allow_late?: boolean;
-    } = {
+    const payload: AssignmentPayload = {
       title: trimmedTitle,
       type,
     };
@@ -1071,9 +870,9 @@ const CourseDetailPage: React.FC = () => {
 
     try {
       if (mode === "create") {
-        await apiPost(`/api/sections/${sectionId}/assignments`, payload);
+        await createAssignment(sectionId, payload);
       } else if (mode === "edit" && typeof assignmentId === "number") {
-        await apiPut(`/api/assignments/${assignmentId}`, payload);
+        await updateAssignment(assignmentId, payload);
       }
 
       await loadAssignmentsForSection(sectionId);
@@ -1096,7 +895,7 @@ const CourseDetailPage: React.FC = () => {
     assignment: AssignmentItem
   ) => {
     try {
-      await apiDelete(`/api/assignments/${assignment.id}`);
+      await deleteAssignment(assignment.id);
       await loadAssignmentsForSection(sectionId);
     } catch (error: unknown) {
       const message = extractErrorMessage(
@@ -1137,6 +936,10 @@ const CourseDetailPage: React.FC = () => {
       end_time: "",
       duration_minutes: "",
       max_score: "",
+      shuffle_questions: false,
+      shuffle_options: false,
+      draw_count: "",
+      question_count: null,
     });
     setQuizFormError(null);
   };
@@ -1156,6 +959,10 @@ const CourseDetailPage: React.FC = () => {
           : "",
       max_score:
         quiz.max_score !== null ? String(quiz.max_score) : "",
+      shuffle_questions: quiz.shuffle_questions ?? false,
+      shuffle_options: quiz.shuffle_options ?? false,
+      draw_count: quiz.draw_count != null ? String(quiz.draw_count) : "",
+      question_count: quiz.questions_count ?? null,
     });
     setQuizFormError(null);
   };
@@ -1182,6 +989,10 @@ const CourseDetailPage: React.FC = () => {
       end_time,
       duration_minutes,
       max_score,
+      shuffle_questions,
+      shuffle_options,
+      draw_count,
+      question_count,
     } = quizForm;
 
     const trimmedTitle = title.trim();
@@ -1190,15 +1001,7 @@ const CourseDetailPage: React.FC = () => {
       return;
     }
 
-    const payload: {
-      title: string;
-      description?: string | null;
-      start_time?: string | null;
-      end_time?: string | null;
-      duration_minutes?: number | null;
-      max_score?: number | null;
-      questions?: unknown[] | null;
-    } = {
+    const payload: QuizPayload = {
       title: trimmedTitle,
     };
 
@@ -1221,6 +1024,18 @@ const CourseDetailPage: React.FC = () => {
       payload.max_score = maxScoreValue;
     }
 
+    // parseNumberOrNull membulatkan "2.5" dan "3x", jadi validasi teks mentah
+    const drawCountError = validateDrawCount(draw_count, question_count);
+    if (drawCountError) {
+      setQuizFormError(drawCountError);
+      return;
+    }
+    const drawCountValue = draw_count.trim() ? Number(draw_count.trim()) : null;
+
+    payload.shuffle_questions = shuffle_questions;
+    payload.shuffle_options = shuffle_options;
+    payload.draw_count = drawCountValue;
+
     payload.questions = null;
 
     setQuizFormSubmitting(true);
@@ -1228,9 +1043,9 @@ const CourseDetailPage: React.FC = () => {
 
     try {
       if (mode === "create") {
-        await apiPost(`/api/sections/${sectionId}/quizzes`, payload);
+        await createQuiz(sectionId, payload);
       } else if (mode === "edit" && typeof quizId === "number") {
-        await apiPut(`/api/quizzes/${quizId}`, payload);
+        await updateQuiz(quizId, payload);
       }
 
       await loadQuizzesForSection(sectionId);
@@ -1250,7 +1065,7 @@ const CourseDetailPage: React.FC = () => {
 
   const performDeleteQuiz = async (sectionId: number, quiz: QuizItem) => {
     try {
-      await apiDelete(`/api/quizzes/${quiz.id}`);
+      await deleteQuiz(quiz.id);
       await loadQuizzesForSection(sectionId);
     } catch (error: unknown) {
       const message = extractErrorMessage(
@@ -1273,6 +1088,134 @@ const CourseDetailPage: React.FC = () => {
     });
   };
 
+  // ---------------------------
+  // GRADING SCHEME HANDLERS
+  // ---------------------------
+
+  const handleSaveGradingScheme = async (scheme: GradingScheme) => {
+    if (!courseId) return;
+
+    setSchemeSaving(true);
+    setSchemeError(null);
+    try {
+      const data = await updateGradingScheme(courseId, scheme);
+      setGrades(data);
+      setSchemeEditorOpen(false);
+    } catch (error: unknown) {
+      const message = extractErrorMessage(
+        error,
+        "Gagal menyimpan skema penilaian."
+      );
+      setSchemeError(message);
+    } finally {
+      setSchemeSaving(false);
+    }
+  };
+
+  const handleSaveGradeCells = async (
+    updates: GradeCellUpdate[]
+  ): Promise<boolean> => {
+    if (!courseId) return false;
+
+    setGradesSaving(true);
+    setGradesSaveError(null);
+    try {
+      const data = await updateCourseGrades(courseId, { entries: updates });
+      setGrades(data);
+      return true;
+    } catch (error: unknown) {
+      const message = extractErrorMessage(error, "Gagal menyimpan nilai.");
+      setGradesSaveError(message);
+      return false;
+    } finally {
+      setGradesSaving(false);
+    }
+  };
+
+  const handleManualItemFormSubmit = async (
+    event: React.FormEvent<HTMLFormElement>
+  ) => {
+    event.preventDefault();
+    if (!courseId || !manualItemForm) return;
+
+    const title = manualItemForm.title.trim();
+    const maxScore = parseNumberOrNull(manualItemForm.max_score);
+    if (!title) {
+      setManualItemError("Nama kolom wajib diisi.");
+      return;
+    }
+    if (maxScore === null || maxScore <= 0) {
+      setManualItemError("Nilai maksimal harus lebih dari 0.");
+      return;
+    }
+
+    setManualItemSubmitting(true);
+    setManualItemError(null);
+    try {
+      const payload = { title, max_score: maxScore };
+      const data =
+        typeof manualItemForm.itemId === "number"
+          ? await updateManualGradeItem(manualItemForm.itemId, payload)
+          : await createManualGradeItem(courseId, payload);
+      setGrades(data);
+      setManualItemForm(null);
+    } catch (error: unknown) {
+      const message = extractErrorMessage(
+        error,
+        "Gagal menyimpan kolom nilai."
+      );
+      setManualItemError(message);
+    } finally {
+      setManualItemSubmitting(false);
+    }
+  };
+
+  const performDeleteManualItem = async (item: GradeItem) => {
+    try {
+      const data = await deleteManualGradeItem(item.id);
+      setGrades(data);
+    } catch (error: unknown) {
+      const message = extractErrorMessage(
+        error,
+        "Gagal menghapus kolom nilai."
+      );
+      setGradesSaveError(message);
+    }
+  };
+
+  const handleDeleteManualItem = (item: GradeItem) => {
+    setConfirmConfig({
+      title: "Hapus kolom nilai",
+      description: `Hapus kolom "${item.title}" beserta semua nilainya?`,
+      confirmLabel: "Ya, hapus",
+      cancelLabel: "Batal",
+      onConfirm: () => {
+        void performDeleteManualItem(item);
+      },
+    });
+  };
+
+  const handleExportGrades = (format: GradebookExportFormat) => {
+    if (!grades) return;
+    const rows = buildGradebookRows(grades);
+    const fileName = getGradebookFileName(grades.course);
+
+    if (format === "xlsx") {
+      downloadFile(
+        writeGradebookWorkbook(rows),
+        `${fileName}.xlsx`,
+        XLSX_MIME_TYPE
+      );
+      return;
+    }
+    // BOM supaya Excel membaca nama mahasiswa sebagai UTF-8
+    downloadFile(
+      `\uFEFF${gradebookToCsv(rows)}`,
+      `${fileName}.csv`,
+      "text/csv;charset=utf-8"
+    );
+  };
+
   // ---------------------------
   // Tab: Sections
   // ---------------------------
@@ -1575,6 +1518,7 @@ const CourseDetailPage: React.FC = () => {
                                         </span>{" "}
                                         • Maks{" "}
                                         {assignment.max_score ?? 100}
+                                        {assignment.rubric && " • Rubrik"}
                                       </p>
                                     </div>
                                     <div className="flex flex-col items-end gap-1">
@@ -1680,6 +1624,10 @@ const CourseDetailPage: React.FC = () => {
                                         {formatQuizStatus(
                                           quiz.time_status
                                         )}
+                                        {describeQuizRandomization(quiz) &&
+                                          ` • ${describeQuizRandomization(
+                                            quiz
+                                          )}`}
                                       </p>
                                     </div>
                                     <div className="flex flex-col items-end gap-1">
@@ -1894,154 +1842,104 @@ const CourseDetailPage: React.FC = () => {
       return null;
     }
 
-    const { assignments, quizzes, students } = grades;
-
-    if (students.length === 0) {
-      return (
-        <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-6 text-center text-sm text-slate-500">
-          Belum ada nilai untuk kelas ini.
-        </div>
-      );
-    }
+    const { students } = grades;
+    const scheme = grades.grading_scheme ?? getDefaultGradingScheme();
+    const items = listGradeItems(grades);
+    const schemeSummary = scheme.categories
+      .map((category) => {
+        const drop =
+          category.drop_lowest > 0
+            ? ` (buang ${category.drop_lowest} terendah)`
+            : "";
+        return `${category.name} ${category.weight}%${drop}`;
+      })
+      .join(" • ");
 
     return (
       <div className="space-y-3">
-        <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3 text-[11px] text-slate-500">
-          Rekap nilai per mahasiswa untuk semua tugas dan quiz di kelas
-          ini. Pengelolaan detail penilaian akan ditambahkan di tahap
-          selanjutnya.
-        </div>
-        <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white">
-          <table className="min-w-full border-collapse text-xs">
-            <thead>
-              <tr className="border-b border-slate-200 bg-slate-50">
-                <th className="whitespace-nowrap px-3 py-2 text-left font-medium text-slate-700">
-                  Mahasiswa
-                </th>
-                {assignments.map((assignment) => (
-                  <th
-                    key={assignment.id}
-                    className="whitespace-nowrap px-3 py-2 text-left font-medium text-slate-700"
-                  >
-                    <div className="flex flex-col">
-                      <span className="text-[11px] font-semibold">
-                        {assignment.title}
-                      </span>
-                      <span className="text-[10px] text-slate-500">
-                        Tugas • Maks {assignment.max_score}
-                      </span>
-                    </div>
-                  </th>
-                ))}
-                {quizzes.map((quiz) => (
-                  <th
-                    key={quiz.id}
-                    className="whitespace-nowrap px-3 py-2 text-left font-medium text-slate-700"
-                  >
-                    <div className="flex flex-col">
-                      <span className="text-[11px] font-semibold">
-                        {quiz.title}
-                      </span>
-                      <span className="text-[10px] text-slate-500">
-                        Quiz • Maks {quiz.max_score}
-                      </span>
-                    </div>
-                  </th>
-                ))}
-                <th className="whitespace-nowrap px-3 py-2 text-right font-medium text-slate-700">
-                  Total Tugas
-                </th>
-                <th className="whitespace-nowrap px-3 py-2 text-right font-medium text-slate-700">
-                  Total Quiz
-                </th>
-                <th className="whitespace-nowrap px-3 py-2 text-right font-medium text-slate-700">
-                  Total Nilai
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {students.map((row, rowIndex) => (
-                <tr
-                  key={row.student.id}
-                  className={
-                    rowIndex % 2 === 0 ? "bg-white" : "bg-slate-50/40"
-                  }
-                >
-                  <td className="whitespace-nowrap px-3 py-2 align-top">
-                    <div className="flex flex-col">
-                      <span className="text-xs font-semibold text-slate-900">
-                        {row.student.name}
-                      </span>
-                      <span className="text-[10px] text-slate-500">
-                        {row.student.username}
-                        {row.student.nim ? ` • ${row.student.nim}` : ""}
-                      </span>
-                    </div>
-                  </td>
-                  {assignments.map((assignment) => {
-                    const key = String(assignment.id);
-                    const cell = row.assignments[key];
-                    const value =
-                      cell && cell.score !== null
-                        ? cell.score
-                        : undefined;
-                    return (
-                      <td
-                        key={assignment.id}
-                        className="whitespace-nowrap px-3 py-2 text-right align-top text-[11px]"
-                      >
-                        {value !== undefined ? (
-                          <span className="font-semibold text-slate-900">
-                            {value}
-                          </span>
-                        ) : (
-                          <span className="text-slate-300">—</span>
-                        )}
-                      </td>
-                    );
-                  })}
-                  {quizzes.map((quiz) => {
-                    const key = String(quiz.id);
-                    const cell = row.quizzes[key];
-                    const value =
-                      cell && cell.best_score !== null
-                        ? cell.best_score
-                        : undefined;
-                    return (
-                      <td
-                        key={quiz.id}
-                        className="whitespace-nowrap px-3 py-2 text-right align-top text-[11px]"
-                      >
-                        {value !== undefined ? (
-                          <span className="font-semibold text-slate-900">
-                            {value}
-                          </span>
-                        ) : (
-                          <span className="text-slate-300">—</span>
-                        )}
-                      </td>
-                    );
-                  })}
-                  <td className="whitespace-nowrap px-3 py-2 text-right align-top text-[11px]">
-                    <span className="font-semibold text-slate-900">
-                      {Math.round(row.total_assignment_score)}
-                    </span>
-                  </td>
-                  <td className="whitespace-nowrap px-3 py-2 text-right align-top text-[11px]">
-                    <span className="font-semibold text-slate-900">
-                      {Math.round(row.total_quiz_score)}
-                    </span>
-                  </td>
-                  <td className="whitespace-nowrap px-3 py-2 text-right align-top text-[11px]">
-                    <span className="font-semibold text-slate-900">
-                      {Math.round(row.total_score)}
-                    </span>
-                  </td>
-                </tr>
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-slate-200 bg-white px-4 py-3">
+          <div>
+            <p className="text-xs font-semibold text-slate-900">
+              Skema Penilaian
+            </p>
+            <p className="mt-0.5 text-[11px] text-slate-500">
+              {schemeSummary}
+              {!grades.grading_scheme && " • skema default"}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value=""
+              onChange={(e) => {
+                const format = e.target.value as GradebookExportFormat | "";
+                if (format) handleExportGrades(format);
+              }}
+              disabled={students.length === 0}
+              aria-label="Ekspor nilai"
+              className="rounded-full border border-slate-300 bg-white px-2 py-1 text-[11px] font-medium text-slate-700 outline-none focus:border-red-500 disabled:opacity-40"
+            >
+              <option value="">Ekspor...</option>
+              {GRADEBOOK_EXPORT_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {GRADEBOOK_EXPORT_FORMAT_LABELS[format]}
+                </option>
               ))}
-            </tbody>
-          </table>
+            </select>
+            <Link
+              href={`/teacher/courses/${courseId}/grades/print`}
+              className="inline-flex items-center rounded-full border border-slate-300 px-3 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-100 transition"
+            >
+              Tampilan cetak
+            </Link>
+            <button
+              type="button"
+              onClick={() => {
+                setManualItemForm({ title: "", max_score: "100" });
+                setManualItemError(null);
+              }}
+              className="inline-flex items-center rounded-full border border-red-600 px-3 py-1 text-[11px] font-medium text-red-700 hover:bg-red-600 hover:text-white transition"
+            >
+              + Kolom nilai
+            </button>
+            <button
+              type="button"
+              onClick={() => setSchemeEditorOpen(true)}
+              className="inline-flex items-center rounded-full border border-slate-300 px-3 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-900 hover:text-white transition"
+            >
+              Atur skema penilaian
+            </button>
+          </div>
         </div>
+
+        {students.length === 0 ? (
+          <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-6 text-center text-sm text-slate-500">
+            Belum ada nilai untuk kelas ini.
+          </div>
+        ) : (
+          <GradebookGrid
+            scheme={scheme}
+            items={items}
+            students={students}
+            saving={gradesSaving}
+            error={gradesSaveError}
+            onSave={handleSaveGradeCells}
+            onEditManualItem={(item) => {
+              setManualItemForm({
+                itemId: item.id,
+                title: item.title,
+                max_score: String(item.max_score),
+              });
+              setManualItemError(null);
+            }}
+            onDeleteManualItem={handleDeleteManualItem}
+          />
+        )}
+        <p className="text-[10px] text-slate-500">
+          Nilai kategori dan nilai akhir dalam skala 0–100. Tugas/quiz yang
+          belum dinilai dihitung 0 dan tidak ikut dibuang sebagai nilai
+          terendah. Kolom nilai manual baru ikut dihitung setelah diberi
+          kategori di skema penilaian.
+        </p>
       </div>
     );
   };
@@ -2558,6 +2456,12 @@ const CourseDetailPage: React.FC = () => {
                   <input
                     type="number"
                     min={1}
+                    disabled={assignmentForm.has_rubric}
+                    title={
+                      assignmentForm.has_rubric
+                        ? "Mengikuti total poin rubrik"
+                        : undefined
+                    }
                     value={assignmentForm.max_score}
                     onChange={(event) =>
                       setAssignmentForm((prev) =>
@@ -2566,9 +2470,14 @@ const CourseDetailPage: React.FC = () => {
                           : prev
                       )
                     }
-                    className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                    className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500 disabled:bg-slate-50 disabled:text-slate-500"
                     placeholder="Default 100"
                   />
+                  {assignmentForm.has_rubric && (
+                    <p className="mt-1 text-[10px] text-slate-500">
+                      Mengikuti total poin rubrik.
+                    </p>
+                  )}
                 </div>
               </div>
               <div>
@@ -2800,6 +2709,70 @@ const CourseDetailPage: React.FC = () => {
                   />
                 </div>
               </div>
+              <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2">
+                <p className="text-[11px] font-medium text-slate-600">
+                  Pengacakan
+                </p>
+                <label className="mt-1 flex items-center gap-2 text-[11px] text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={quizForm.shuffle_questions}
+                    onChange={(event) =>
+                      setQuizForm((prev) =>
+                        prev
+                          ? {
+                              ...prev,
+                              shuffle_questions: event.target.checked,
+                            }
+                          : prev
+                      )
+                    }
+                  />
+                  Acak urutan soal
+                </label>
+                <label className="mt-1 flex items-center gap-2 text-[11px] text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={quizForm.shuffle_options}
+                    onChange={(event) =>
+                      setQuizForm((prev) =>
+                        prev
+                          ? {
+                              ...prev,
+                              shuffle_options: event.target.checked,
+                            }
+                          : prev
+                      )
+                    }
+                  />
+                  Acak urutan opsi jawaban (pilihan ganda)
+                </label>
+                <div className="mt-2">
+                  <label className="block text-[11px] font-medium text-slate-600">
+                    Jumlah soal diundi per mahasiswa
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={quizForm.question_count ?? undefined}
+                    step={1}
+                    value={quizForm.draw_count}
+                    onChange={(event) =>
+                      setQuizForm((prev) =>
+                        prev
+                          ? { ...prev, draw_count: event.target.value }
+                          : prev
+                      )
+                    }
+                    className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                    placeholder="Kosongkan = semua soal"
+                  />
+                  <p className="mt-1 text-[10px] text-slate-500">
+                    Setiap mahasiswa mendapat soal acak dari daftar soal quiz
+                    ini. Skor dihitung dari soal yang diundi saja.
+                  </p>
+                </div>
+              </div>
               <div className="mt-3 flex items-center justify-end gap-2">
                 <button
                   type="button"
@@ -2830,6 +2803,108 @@ const CourseDetailPage: React.FC = () => {
         </div>
       )}
 
+      {/* MANUAL GRADE ITEM MODAL */}
+      {manualItemForm && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 px-4">
+          <div className="w-full max-w-md rounded-2xl bg-white p-4 shadow-xl">
+            <div className="mb-3 flex items-center justify-between">
+              <div>
+                <p className="text-xs font-semibold text-slate-900">
+                  {manualItemForm.itemId === undefined
+                    ? "Tambah Kolom Nilai"
+                    : "Ubah Kolom Nilai"}
+                </p>
+                <p className="mt-0.5 text-[11px] text-slate-500">
+                  Untuk nilai di luar tugas/quiz, misal kehadiran, UTS atau
+                  keaktifan.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setManualItemForm(null)}
+                className="rounded-full border border-slate-200 bg-slate-50 px-2 py-1 text-[11px] text-slate-600 hover:bg-slate-100"
+              >
+                Tutup
+              </button>
+            </div>
+            <form
+              onSubmit={handleManualItemFormSubmit}
+              className="space-y-3 text-xs"
+            >
+              {manualItemError && (
+                <div className="rounded-lg border border-red-200 bg-red-50 px-2 py-1.5 text-[11px] text-red-700">
+                  {manualItemError}
+                </div>
+              )}
+              <div>
+                <label className="block text-[11px] font-medium text-slate-600">
+                  Nama kolom
+                </label>
+                <input
+                  type="text"
+                  value={manualItemForm.title}
+                  onChange={(event) =>
+                    setManualItemForm((prev) =>
+                      prev ? { ...prev, title: event.target.value } : prev
+                    )
+                  }
+                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                  placeholder="Misal: Kehadiran"
+                />
+              </div>
+              <div>
+                <label className="block text-[11px] font-medium text-slate-600">
+                  Nilai maksimal
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  step="any"
+                  value={manualItemForm.max_score}
+                  onChange={(event) =>
+                    setManualItemForm((prev) =>
+                      prev ? { ...prev, max_score: event.target.value } : prev
+                    )
+                  }
+                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                />
+              </div>
+              <div className="mt-3 flex items-center justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setManualItemForm(null)}
+                  className="rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-600 hover:bg-slate-50"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={manualItemSubmitting}
+                  className="inline-flex items-center rounded-full bg-red-600 px-4 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {manualItemSubmitting ? "Menyimpan..." : "Simpan kolom"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* GRADING SCHEME MODAL */}
+      {schemeEditorOpen && grades && (
+        <GradingSchemeEditor
+          scheme={grades.grading_scheme ?? getDefaultGradingScheme()}
+          items={listGradeItems(grades)}
+          saving={schemeSaving}
+          error={schemeError}
+          onSave={(scheme) => void handleSaveGradingScheme(scheme)}
+          onClose={() => {
+            setSchemeEditorOpen(false);
+            setSchemeError(null);
+          }}
+        />
+      )}
+
       {/* GLOBAL CONFIRM DIALOG */}
       <ConfirmDialog
         open={!!confirmConfig}
@@ -2,35 +2,14 @@
 
 import React, { useEffect, useState } from "react";
 import Link from "next/link";
-import { apiGet, apiPost, type ApiError } from "@/lib/apiClient";
-
-type CourseStatus = "draft" | "active" | "finished";
-
-interface CourseTemplateLite {
-  id: number;
-  code: string;
-  name: string;
-}
-
-interface LecturerLite {
-  id: number;
-  name: string;
-  username: string;
-}
-
-interface TeacherCourseInstance {
-  id: number;
-  course_template_id: number;
-  class_name: string;
-  semester: string;
-  lecturer_id: number;
-  status: CourseStatus;
-  start_date: string | null;
-  end_date: string | null;
-  notes: string | null;
-  template: CourseTemplateLite;
-  lecturer: LecturerLite;
-}
+import { isAbortError } from "@/lib/apiClient";
+import {
+  listTeacherCourseInstances,
+  updateTeacherCourseStatus,
+  type CourseInstance,
+  type CourseStatus,
+} from "@/lib/api";
+import { extractErrorMessage, formatDate } from "@/lib/utils";
 
 type StatusFilter = "all" | CourseStatus;
 
@@ -46,48 +25,15 @@ const STATUS_BADGE_CLASSES: Record<CourseStatus, string> = {
   finished: "border-amber-200 bg-amber-50 text-amber-700",
 };
 
-function getErrorMessage(error: unknown, fallback: string): string {
-  if (error instanceof Error && error.message) {
-    return error.message;
-  }
-
-  if (typeof error === "object" && error !== null && "data" in error) {
-    const apiError = error as ApiError;
-    if (apiError.data && typeof apiError.data === "object") {
-      const body = apiError.data as { message?: unknown };
-      if (typeof body.message === "string" && body.message.length > 0) {
-        return body.message;
-      }
-    }
-  }
-
-  return fallback;
-}
-
-function formatDate(dateStr: string | null | undefined): string {
-  if (!dateStr) return "—";
-
-  const date = new Date(dateStr);
-  if (Number.isNaN(date.getTime())) {
-    return dateStr;
-  }
-
-  return date.toLocaleDateString("id-ID", {
-    day: "2-digit",
-    month: "short",
-    year: "numeric",
-  });
-}
-
 const TeacherMyCoursesPage: React.FC = () => {
-  const [courses, setCourses] = useState<TeacherCourseInstance[]>([]);
+  const [courses, setCourses] = useState<CourseInstance[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [updatingId, setUpdatingId] = useState<number | null>(null);
 
   useEffect(() => {
-    let isActive = true;
+    const controller = new AbortController();
 
     const fetchCourses = async () => {
       setLoading(true);
@@ -96,20 +42,17 @@ const TeacherMyCoursesPage: React.FC = () => {
       try {
         const query =
           statusFilter === "all" ? undefined : { status: statusFilter };
-        const data = await apiGet<TeacherCourseInstance[]>(
-          "/api/teacher/course-instances",
-          query
-        );
+        const data = await listTeacherCourseInstances(query, {
+          signal: controller.signal,
+        });
 
-        if (isActive) {
-          setCourses(data);
-        }
+        setCourses(data);
       } catch (err: unknown) {
-        if (!isActive) return;
-        const message = getErrorMessage(err, "Gagal memuat daftar kelas.");
+        if (isAbortError(err)) return;
+        const message = extractErrorMessage(err, "Gagal memuat daftar kelas.");
         setError(message);
       } finally {
-        if (isActive) {
+        if (!controller.signal.aborted) {
           setLoading(false);
         }
       }
@@ -118,7 +61,7 @@ const TeacherMyCoursesPage: React.FC = () => {
     void fetchCourses();
 
     return () => {
-      isActive = false;
+      controller.abort();
     };
   }, [statusFilter]);
 
@@ -127,7 +70,7 @@ const TeacherMyCoursesPage: React.FC = () => {
       ? courses
       : courses.filter((c) => c.status === statusFilter);
 
-  const handleToggleStatus = async (course: TeacherCourseInstance) => {
+  const handleToggleStatus = async (course: CourseInstance) => {
     if (course.status === "finished") {
       setError("Kelas yang sudah selesai tidak dapat diubah statusnya.");
       return;
@@ -140,16 +83,13 @@ const TeacherMyCoursesPage: React.FC = () => {
     setError(null);
 
     try {
-      const updated = await apiPost<TeacherCourseInstance>(
-        `/api/teacher/course-instances/${course.id}/status`,
-        { status: nextStatus }
-      );
+      const updated = await updateTeacherCourseStatus(course.id, nextStatus);
 
       setCourses((prev) =>
         prev.map((item) => (item.id === updated.id ? updated : item))
       );
     } catch (err: unknown) {
-      const message = getErrorMessage(
+      const message = extractErrorMessage(
         err,
         "Gagal mengubah status kelas. Silakan coba lagi."
       );
@@ -169,6 +109,12 @@ const TeacherMyCoursesPage: React.FC = () => {
           <p className="mt-1 text-sm text-slate-500">
             Lihat dan kelola kelas per semester yang Anda ampu.
           </p>
+          <Link
+            href="/teacher/question-bank"
+            className="mt-2 inline-flex items-center text-xs font-medium text-red-700 hover:underline"
+          >
+            Bank soal →
+          </Link>
         </div>
 
         <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white px-1 py-1 text-xs">
@@ -0,0 +1,680 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import QuestionEditor from "@/components/QuestionEditor";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  createBankQuestion,
+  deleteBankQuestion,
+  listBankQuestionTags,
+  listBankQuestions,
+  listTeacherCourseInstances,
+  updateBankQuestion,
+  type BankQuestion,
+  type BankQuestionPayload,
+  type BankQuestionQuery,
+  type CourseTemplateLite,
+  type QuestionDifficulty,
+  type QuestionType,
+  type QuizQuestion,
+} from "@/lib/api";
+import {
+  DIFFICULTY_LABELS,
+  getTeachingTemplates,
+  parseTags,
+  toBankPayloadFromQuizQuestion,
+} from "@/lib/questionBank";
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  changeQuestionType,
+  createQuestion,
+  normalizeQuizQuestion,
+  validateQuizQuestion,
+} from "@/lib/quizQuestions";
+import { extractErrorMessage, formatDate } from "@/lib/utils";
+
+interface BankForm {
+  /** Isi soal yang diedit lewat QuestionEditor (id hanya untuk editor) */
+  question: QuizQuestion;
+  points: string;
+  tags: string;
+  difficulty: QuestionDifficulty | "";
+  course_template_id: string;
+  /** Hanya untuk edit: terapkan perubahan ke quiz yang memakai soal ini */
+  propagate: boolean;
+}
+
+function emptyForm(): BankForm {
+  return {
+    question: createQuestion("multiple_choice"),
+    points: "1",
+    tags: "",
+    difficulty: "",
+    course_template_id: "",
+    propagate: false,
+  };
+}
+
+function toForm(question: BankQuestion): BankForm {
+  return {
+    question: normalizeQuizQuestion({ ...question, id: "bank-draft" }),
+    points: String(question.points),
+    tags: question.tags.join(", "),
+    difficulty: question.difficulty ?? "",
+    course_template_id:
+      question.course_template_id != null
+        ? String(question.course_template_id)
+        : "",
+    propagate: false,
+  };
+}
+
+/** Validasi form; kembalikan pesan error atau payload siap kirim */
+function toPayload(form: BankForm): BankQuestionPayload | string {
+  const question: QuizQuestion = {
+    ...form.question,
+    points: Number(form.points),
+  };
+
+  const validationError = validateQuizQuestion(question, null);
+  if (validationError) return validationError;
+
+  return toBankPayloadFromQuizQuestion(question, {
+    tags: parseTags(form.tags),
+    difficulty: form.difficulty || null,
+    course_template_id: form.course_template_id
+      ? Number(form.course_template_id)
+      : null,
+  });
+}
+
+/** Ringkasan kunci jawaban di kartu soal */
+const AnswerKeyPreview: React.FC<{ question: BankQuestion }> = ({
+  question: q,
+}) => {
+  switch (q.type) {
+    case "multiple_choice":
+    case "multiple_answer": {
+      const correct =
+        q.type === "multiple_answer"
+          ? q.correct_option_indexes ?? []
+          : [q.correct_option_index];
+      return (
+        <ol className="mt-2 space-y-1 text-xs text-slate-700">
+          {(q.options ?? []).map((opt, index) => (
+            <li
+              key={index}
+              className={
+                correct.includes(index)
+                  ? "font-semibold text-emerald-700"
+                  : undefined
+              }
+            >
+              {String.fromCharCode(65 + index)}. {opt.text}
+              {correct.includes(index) && " ✓"}
+            </li>
+          ))}
+        </ol>
+      );
+    }
+    case "true_false":
+      return (
+        <p className="mt-2 text-xs text-emerald-700">
+          Jawaban: {q.correct_boolean ? "Benar" : "Salah"}
+        </p>
+      );
+    case "matching":
+      return (
+        <ul className="mt-2 space-y-1 text-xs text-slate-700">
+          {(q.matching_pairs ?? []).map((pair, index) => (
+            <li key={index}>
+              {pair.left} → {pair.right}
+            </li>
+          ))}
+        </ul>
+      );
+    case "numeric":
+      return (
+        <p className="mt-2 text-xs text-emerald-700">
+          Jawaban: {q.numeric_answer}
+          {q.numeric_tolerance ? ` ± ${q.numeric_tolerance}` : ""}
+        </p>
+      );
+    default:
+      return null;
+  }
+};
+
+const TeacherQuestionBankPage: React.FC = () => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<CourseTemplateLite[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Filter
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState<QuestionType | "">("");
+  const [difficultyFilter, setDifficultyFilter] = useState<
+    QuestionDifficulty | ""
+  >("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [templateFilter, setTemplateFilter] = useState("");
+
+  // Form tambah / edit
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [form, setForm] = useState<BankForm>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [deleteTarget, setDeleteTarget] = useState<BankQuestion | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadOptions = async () => {
+      try {
+        const [tagList, courses] = await Promise.all([
+          listBankQuestionTags({ signal: controller.signal }),
+          listTeacherCourseInstances(undefined, { signal: controller.signal }),
+        ]);
+        setTags(tagList);
+        setTemplates(getTeachingTemplates(courses));
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        // Filter tetap bisa dipakai tanpa daftar tag / mata kuliah
+      }
+    };
+
+    void loadOptions();
+
+    return () => {
+      controller.abort();
+    };
+  }, [reloadKey]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadQuestions = async () => {
+      setLoading(true);
+      setError(null);
+
+      const query: BankQuestionQuery = {};
+      if (search.trim()) query.search = search.trim();
+      if (typeFilter) query.type = typeFilter;
+      if (difficultyFilter) query.difficulty = difficultyFilter;
+      if (tagFilter) query.tag = tagFilter;
+      if (templateFilter) query.course_template_id = Number(templateFilter);
+
+      try {
+        const data = await listBankQuestions(query, {
+          signal: controller.signal,
+        });
+        setQuestions(data);
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        setError(extractErrorMessage(err, "Gagal memuat bank soal."));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadQuestions();
+
+    return () => {
+      controller.abort();
+    };
+  }, [
+    search,
+    typeFilter,
+    difficultyFilter,
+    tagFilter,
+    templateFilter,
+    reloadKey,
+  ]);
+
+  const openCreateForm = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setFormError(null);
+    setFormOpen(true);
+  };
+
+  const openEditForm = (question: BankQuestion) => {
+    setEditing(question);
+    setForm(toForm(question));
+    setFormError(null);
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    if (saving) return;
+    setFormOpen(false);
+    setEditing(null);
+  };
+
+  const updateForm = (patch: Partial<BankForm>) => {
+    setForm((prev) => ({ ...prev, ...patch }));
+  };
+
+  const handleTypeChange = (type: QuestionType) => {
+    setForm((prev) => ({
+      ...prev,
+      question: changeQuestionType(prev.question, type),
+    }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const payload = toPayload(form);
+    if (typeof payload === "string") {
+      setFormError(payload);
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      if (editing) {
+        const result = await updateBankQuestion(editing.id, {
+          ...payload,
+          propagate: form.propagate,
+        });
+        let info = "Soal di bank soal diperbarui.";
+        if (form.propagate) {
+          info += ` ${result.updated_quiz_count} quiz ikut diperbarui.`;
+          if (result.skipped_quiz_count > 0) {
+            info += ` ${result.skipped_quiz_count} quiz dilewati karena sudah ada attempt mahasiswa.`;
+          }
+        }
+        setMessage(info);
+      } else {
+        await createBankQuestion(payload);
+        setMessage("Soal ditambahkan ke bank soal.");
+      }
+      setFormOpen(false);
+      setEditing(null);
+      setReloadKey((key) => key + 1);
+    } catch (err: unknown) {
+      setFormError(extractErrorMessage(err, "Gagal menyimpan soal."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    setError(null);
+
+    try {
+      await deleteBankQuestion(target.id);
+      setMessage("Soal dihapus dari bank soal.");
+      setReloadKey((key) => key + 1);
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err, "Gagal menghapus soal."));
+    }
+  };
+
+  const usageCount = editing?.usage_count ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <Link
+            href="/teacher"
+            className="text-[11px] text-slate-500 hover:text-red-600"
+          >
+            &larr; Kelas yang diampu
+          </Link>
+          <h1 className="mt-1 text-xl font-semibold tracking-tight">
+            Bank Soal
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Simpan soal untuk dipakai ulang di quiz mana pun, lintas kelas dan
+            semester.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={openCreateForm}
+          className="inline-flex items-center justify-center rounded-full bg-red-600 px-4 py-2 text-xs font-semibold text-white shadow-sm hover:bg-red-700"
+        >
+          + Soal baru
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 rounded-2xl border border-slate-200 bg-white p-3 sm:grid-cols-5">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Cari teks soal..."
+          className="col-span-2 rounded-full border border-slate-200 px-3 py-1.5 text-xs outline-none focus:border-red-500 sm:col-span-1"
+        />
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as QuestionType | "")}
+          className="rounded-full border border-slate-200 px-2 py-1.5 text-xs outline-none focus:border-red-500"
+        >
+          <option value="">Semua tipe</option>
+          {QUESTION_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {QUESTION_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={difficultyFilter}
+          onChange={(e) =>
+            setDifficultyFilter(e.target.value as QuestionDifficulty | "")
+          }
+          className="rounded-full border border-slate-200 px-2 py-1.5 text-xs outline-none focus:border-red-500"
+        >
+          <option value="">Semua kesulitan</option>
+          {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+          className="rounded-full border border-slate-200 px-2 py-1.5 text-xs outline-none focus:border-red-500"
+        >
+          <option value="">Semua tag</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>
+              {tag}
+            </option>
+          ))}
+        </select>
+        <select
+          value={templateFilter}
+          onChange={(e) => setTemplateFilter(e.target.value)}
+          className="rounded-full border border-slate-200 px-2 py-1.5 text-xs outline-none focus:border-red-500"
+        >
+          <option value="">Semua mata kuliah</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.code} — {template.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {message && (
+        <div className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-xs text-emerald-700">
+          {message}
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, idx) => (
+            <div
+              key={idx}
+              className="rounded-2xl border border-slate-200 bg-white p-4"
+            >
+              <div className="h-3 w-40 rounded-full bg-slate-100" />
+              <div className="mt-3 h-4 w-3/4 rounded-full bg-slate-100" />
+            </div>
+          ))}
+        </div>
+      ) : questions.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-8 text-center">
+          <p className="text-sm font-medium text-slate-700">
+            Belum ada soal untuk filter ini.
+          </p>
+          <p className="mt-1 text-xs text-slate-500">
+            Tambahkan soal baru, atau simpan soal dari editor quiz lewat tombol
+            &quot;Simpan ke bank&quot;.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {questions.map((q) => (
+            <div
+              key={q.id}
+              className="rounded-2xl border border-slate-200 bg-white p-4"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-1.5 text-[11px]">
+                  <span className="font-semibold text-slate-800">
+                    {QUESTION_TYPE_LABELS[q.type] ?? q.type}
+                  </span>
+                  <span className="text-slate-400">•</span>
+                  <span className="text-slate-500">{q.points} poin</span>
+                  {q.difficulty && (
+                    <span className="rounded-full border border-slate-200 px-2 py-0.5 text-slate-600">
+                      {DIFFICULTY_LABELS[q.difficulty]}
+                    </span>
+                  )}
+                  <span className="rounded-full border border-slate-200 px-2 py-0.5 text-slate-600">
+                    {q.course_template
+                      ? `${q.course_template.code} — ${q.course_template.name}`
+                      : "Semua mata kuliah"}
+                  </span>
+                  {q.tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="rounded-full bg-slate-100 px-2 py-0.5 text-slate-700"
+                    >
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => openEditForm(q)}
+                    className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDeleteTarget(q)}
+                    className="inline-flex items-center rounded-full border border-red-200 bg-white px-3 py-1 text-[11px] font-medium text-red-600 hover:bg-red-50"
+                  >
+                    Hapus
+                  </button>
+                </div>
+              </div>
+
+              <p className="mt-2 whitespace-pre-line text-sm text-slate-900">
+                {q.text}
+              </p>
+
+              <AnswerKeyPreview question={q} />
+
+              <p className="mt-3 text-[11px] text-slate-400">
+                Dipakai di {q.usage_count ?? 0} quiz • Diperbarui{" "}
+                {formatDate(q.updated_at)}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {formOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm px-4">
+          <form
+            onSubmit={handleSubmit}
+            className="flex max-h-[90vh] w-full max-w-lg flex-col overflow-y-auto rounded-2xl bg-white p-4 shadow-lg shadow-black/10"
+          >
+            <h2 className="text-sm font-semibold text-slate-900">
+              {editing ? "Edit soal bank" : "Soal baru"}
+            </h2>
+
+            <div className="mt-3 grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1 text-[11px] text-slate-600">
+                Tipe soal
+                <select
+                  value={form.question.type}
+                  onChange={(e) =>
+                    handleTypeChange(e.target.value as QuestionType)
+                  }
+                  className="rounded-xl border border-slate-200 px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                >
+                  {QUESTION_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {QUESTION_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-[11px] text-slate-600">
+                Poin
+                <input
+                  type="number"
+                  min={1}
+                  value={form.points}
+                  onChange={(e) => updateForm({ points: e.target.value })}
+                  className="rounded-xl border border-slate-200 px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                />
+              </label>
+            </div>
+
+            <div className="mt-3 text-[11px] text-slate-600">
+              Teks soal
+              <QuestionEditor
+                question={form.question}
+                onChange={(question) => updateForm({ question })}
+              />
+            </div>
+
+            <div className="mt-3 grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1 text-[11px] text-slate-600">
+                Tingkat kesulitan
+                <select
+                  value={form.difficulty}
+                  onChange={(e) =>
+                    updateForm({
+                      difficulty: e.target.value as QuestionDifficulty | "",
+                    })
+                  }
+                  className="rounded-xl border border-slate-200 px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                >
+                  <option value="">Tidak ditentukan</option>
+                  {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-[11px] text-slate-600">
+                Mata kuliah
+                <select
+                  value={form.course_template_id}
+                  onChange={(e) =>
+                    updateForm({ course_template_id: e.target.value })
+                  }
+                  className="rounded-xl border border-slate-200 px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+                >
+                  <option value="">Semua mata kuliah</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.code} — {template.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <label className="mt-3 flex flex-col gap-1 text-[11px] text-slate-600">
+              Tag (pisahkan dengan koma)
+              <input
+                type="text"
+                value={form.tags}
+                onChange={(e) => updateForm({ tags: e.target.value })}
+                list="question-bank-tags"
+                placeholder="Misal: flowchart, percabangan"
+                className="rounded-xl border border-slate-200 px-2 py-1.5 text-xs text-slate-900 outline-none focus:border-red-500"
+              />
+              <datalist id="question-bank-tags">
+                {tags.map((tag) => (
+                  <option key={tag} value={tag} />
+                ))}
+              </datalist>
+            </label>
+
+            {editing && usageCount > 0 && (
+              <label className="mt-3 flex items-start gap-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-[11px] text-amber-800">
+                <input
+                  type="checkbox"
+                  checked={form.propagate}
+                  onChange={(e) => updateForm({ propagate: e.target.checked })}
+                  className="mt-0.5"
+                />
+                <span>
+                  Terapkan perubahan ke {usageCount} quiz yang memakai soal ini.
+                  Quiz yang sudah dikerjakan mahasiswa tidak diubah.
+                </span>
+              </label>
+            )}
+
+            {formError && (
+              <div className="mt-3 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+                {formError}
+              </div>
+            )}
+
+            <div className="mt-4 flex items-center justify-end gap-2">
+              <button
+                type="button"
+                onClick={closeForm}
+                className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-40"
+              >
+                {saving ? "Menyimpan..." : "Simpan soal"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title="Hapus soal dari bank?"
+        description={
+          deleteTarget && (deleteTarget.usage_count ?? 0) > 0
+            ? `Soal ini dipakai di ${deleteTarget.usage_count} quiz. Soal di quiz tersebut tetap ada, hanya tautannya ke bank soal yang dilepas.`
+            : "Soal akan dihapus permanen dari bank soal."
+        }
+        confirmLabel="Ya, hapus"
+        onConfirm={() => void handleConfirmDelete()}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+};
+
+export default TeacherQuestionBankPage;
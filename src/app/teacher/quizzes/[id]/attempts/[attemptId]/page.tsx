@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import QuizAnswerGradeForm from "@/components/QuizAnswerGradeForm";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  getQuizAttempt,
+  gradeQuizAnswer,
+  type QuizAttemptAnswer,
+  type QuizDetail,
+  type TeacherQuizAttemptDetail,
+} from "@/lib/api";
+import {
+  QUESTION_TYPE_LABELS,
+  formatAnswer,
+  formatAnswerKey,
+  isManuallyGraded,
+} from "@/lib/quizQuestions";
+import { extractErrorMessage, formatDateTime } from "@/lib/utils";
+
+const TeacherQuizAttemptPage: React.FC = () => {
+  const params = useParams();
+  const quizId = (params?.id ?? "") as string;
+  const attemptId = (params?.attemptId ?? "") as string;
+
+  const [quiz, setQuiz] = useState<QuizDetail | null>(null);
+  const [attempt, setAttempt] = useState<TeacherQuizAttemptDetail | null>(
+    null
+  );
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const controller = new AbortController();
+
+    const loadData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getQuizAttempt(attemptId, {
+          signal: controller.signal,
+        });
+        setQuiz(data.quiz);
+        setAttempt(data.attempt);
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        setError(extractErrorMessage(err, "Gagal memuat jawaban mahasiswa."));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadData();
+
+    return () => {
+      controller.abort();
+    };
+  }, [attemptId]);
+
+  const handleSaveGrade = async (
+    item: QuizAttemptAnswer,
+    points: number | null,
+    feedback: string | null
+  ) => {
+    if (!attempt) return;
+
+    setSavingKey(item.question_key);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const data = await gradeQuizAnswer(attempt.id, {
+        question_key: item.question_key,
+        points,
+        feedback,
+      });
+      setAttempt(data.attempt);
+      setMessage(
+        points === null
+          ? "Nilai jawaban dihapus."
+          : "Nilai jawaban berhasil disimpan."
+      );
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err, "Gagal menyimpan nilai jawaban."));
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[40vh] items-center justify-center">
+        <div className="h-8 w-8 rounded-full border-2 border-red-600 border-t-transparent animate-spin" />
+      </div>
+    );
+  }
+
+  if (!quiz || !attempt) {
+    return (
+      <div className="mx-auto max-w-md rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+        {error ?? "Attempt tidak ditemukan."}
+      </div>
+    );
+  }
+
+  const ungraded = attempt.ungraded_count ?? 0;
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <Link
+            href={`/teacher/quizzes/${quizId}`}
+            className="text-[11px] text-slate-500 hover:text-red-600"
+          >
+            &larr; {quiz.title}
+          </Link>
+          <h1 className="mt-1 text-lg font-semibold text-slate-900">
+            {attempt.student.name}
+          </h1>
+          <p className="text-[11px] text-slate-500">
+            {attempt.student.nim ?? attempt.student.username} • Dikumpulkan{" "}
+            {attempt.submitted_at
+              ? formatDateTime(attempt.submitted_at)
+              : "belum"}
+          </p>
+        </div>
+        <div className="flex flex-col items-start gap-1 sm:items-end">
+          <span className="inline-flex items-center rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-800">
+            Skor: {attempt.score ?? "-"}
+            {quiz.max_score != null && ` / ${quiz.max_score}`}
+          </span>
+          {ungraded > 0 ? (
+            <Link
+              href={`/teacher/quizzes/${quizId}/grading`}
+              className="text-[11px] font-medium text-amber-700 hover:underline"
+            >
+              {ungraded} jawaban belum dinilai → antrian penilaian
+            </Link>
+          ) : (
+            <span className="text-[11px] text-emerald-700">
+              Semua jawaban sudah dinilai.
+            </span>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-[11px] text-emerald-700">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3">
+        {attempt.answers.map((item, index) => {
+          const { question } = item;
+          const manual = isManuallyGraded(question.type);
+          const answerText = formatAnswer(question, item.answer);
+          const answerKey = formatAnswerKey(question);
+          const earned = manual
+            ? item.manual_grade?.points ?? null
+            : item.auto_points;
+
+          return (
+            <div
+              key={item.question_key}
+              className="rounded-2xl border border-slate-200 bg-white px-4 py-3"
+            >
+              <div className="mb-2 flex items-start justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-[10px] font-semibold text-white">
+                    {index + 1}
+                  </span>
+                  <span className="text-[11px] font-medium text-slate-700">
+                    {QUESTION_TYPE_LABELS[question.type] ?? question.type}
+                  </span>
+                  {manual && !item.manual_grade && (
+                    <span className="rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[10px] font-medium text-amber-700">
+                      Belum dinilai
+                    </span>
+                  )}
+                </div>
+                <span className="text-[11px] font-semibold text-slate-800">
+                  {earned ?? "-"} / {question.points} poin
+                </span>
+              </div>
+
+              <p className="whitespace-pre-wrap text-xs text-slate-900">
+                {question.text}
+              </p>
+
+              <div className="mt-2 rounded-xl bg-slate-50 px-3 py-2">
+                <p className="text-[10px] font-medium uppercase tracking-wide text-slate-500">
+                  Jawaban mahasiswa
+                </p>
+                <p className="mt-1 whitespace-pre-wrap text-[11px] text-slate-900">
+                  {answerText || (
+                    <span className="italic text-slate-400">
+                      Tidak dijawab
+                    </span>
+                  )}
+                </p>
+              </div>
+
+              {answerKey && (
+                <p className="mt-2 text-[11px] text-emerald-700">
+                  Kunci: {answerKey}
+                </p>
+              )}
+
+              {manual && (
+                <div className="mt-3 border-t border-slate-100 pt-3">
+                  <QuizAnswerGradeForm
+                    key={`${item.question_key}-${item.manual_grade?.graded_at ?? ""}`}
+                    maxPoints={question.points}
+                    grade={item.manual_grade}
+                    saving={savingKey === item.question_key}
+                    onSave={(points, feedback) =>
+                      void handleSaveGrade(item, points, feedback)
+                    }
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TeacherQuizAttemptPage;
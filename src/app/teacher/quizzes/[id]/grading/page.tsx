@@ -0,0 +1,358 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import QuizAnswerGradeForm from "@/components/QuizAnswerGradeForm";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  getQuizGradingQueue,
+  gradeQuizAnswer,
+  type QuizDetail,
+  type QuizGradingQueueItem,
+} from "@/lib/api";
+import {
+  QUESTION_TYPE_LABELS,
+  countWords,
+  formatAnswer,
+} from "@/lib/quizQuestions";
+import { extractErrorMessage } from "@/lib/utils";
+
+function itemKey(item: QuizGradingQueueItem): string {
+  return `${item.attempt_id}:${item.question_key}`;
+}
+
+/**
+ * Antrian penilaian manual: jawaban isian singkat / esai yang belum dinilai,
+ * dikerjakan per soal untuk semua mahasiswa (urutan dari backend: soal,
+ * lalu nama mahasiswa).
+ */
+const TeacherQuizGradingPage: React.FC = () => {
+  const params = useParams();
+  const quizId = (params?.id ?? "") as string;
+
+  const [quiz, setQuiz] = useState<QuizDetail | null>(null);
+  const [items, setItems] = useState<QuizGradingQueueItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  /** Tampilkan juga jawaban yang sudah dinilai (untuk revisi nilai) */
+  const [showGraded, setShowGraded] = useState(false);
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    if (!quizId) return;
+
+    const controller = new AbortController();
+
+    const loadData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getQuizGradingQueue(quizId, {
+          signal: controller.signal,
+        });
+        setQuiz(data.quiz);
+        setItems(data.items);
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        setError(extractErrorMessage(err, "Gagal memuat antrian penilaian."));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadData();
+
+    return () => {
+      controller.abort();
+    };
+  }, [quizId]);
+
+  const queue = showGraded
+    ? items
+    : items.filter((item) => item.manual_grade === null);
+  const index = Math.min(position, Math.max(queue.length - 1, 0));
+  const current = queue[index] ?? null;
+
+  const ungradedCount = items.filter((item) => !item.manual_grade).length;
+
+  // Ringkasan per soal untuk navigasi cepat
+  const questionGroups = items.reduce<
+    { index: number; text: string; pending: number }[]
+  >((groups, item) => {
+    let group = groups.find((row) => row.index === item.question_index);
+    if (!group) {
+      group = {
+        index: item.question_index,
+        text: item.question.text ?? "",
+        pending: 0,
+      };
+      groups.push(group);
+    }
+    if (!item.manual_grade) group.pending += 1;
+    return groups;
+  }, []);
+
+  const sameQuestion = current
+    ? queue.filter((item) => item.question_index === current.question_index)
+    : [];
+  const positionInQuestion = current
+    ? sameQuestion.findIndex((item) => itemKey(item) === itemKey(current)) + 1
+    : 0;
+
+  const jumpToQuestion = (questionIndex: number) => {
+    const target = queue.findIndex(
+      (item) => item.question_index === questionIndex
+    );
+    if (target >= 0) setPosition(target);
+  };
+
+  const handleSave = async (
+    points: number | null,
+    feedback: string | null
+  ) => {
+    if (!current) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const data = await gradeQuizAnswer(current.attempt_id, {
+        question_key: current.question_key,
+        points,
+        feedback,
+      });
+      const updated = data.attempt.answers.find(
+        (answer) => answer.question_key === current.question_key
+      );
+      setItems((prev) =>
+        prev.map((item) =>
+          itemKey(item) === itemKey(current)
+            ? { ...item, manual_grade: updated?.manual_grade ?? null }
+            : item
+        )
+      );
+      // Di mode "belum dinilai" item tersimpan keluar dari antrian, jadi
+      // posisi yang sama otomatis menunjuk jawaban berikutnya.
+      if (showGraded || points === null) {
+        setPosition(Math.min(index + 1, queue.length - 1));
+      }
+    } catch (err: unknown) {
+      setError(extractErrorMessage(err, "Gagal menyimpan nilai jawaban."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[40vh] items-center justify-center">
+        <div className="h-8 w-8 rounded-full border-2 border-red-600 border-t-transparent animate-spin" />
+      </div>
+    );
+  }
+
+  if (!quiz) {
+    return (
+      <div className="mx-auto max-w-md rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+        {error ?? "Quiz tidak ditemukan."}
+      </div>
+    );
+  }
+
+  const answerText = current
+    ? formatAnswer(current.question, current.answer)
+    : "";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <Link
+            href={`/teacher/quizzes/${quizId}`}
+            className="text-[11px] text-slate-500 hover:text-red-600"
+          >
+            &larr; {quiz.title}
+          </Link>
+          <h1 className="mt-1 text-lg font-semibold text-slate-900">
+            Antrian Penilaian
+          </h1>
+          <p className="text-[11px] text-slate-500">
+            Nilai jawaban isian singkat dan esai per soal untuk semua
+            mahasiswa. Skor attempt dihitung ulang setiap nilai disimpan.
+          </p>
+        </div>
+        <div className="flex flex-col items-start gap-1 sm:items-end">
+          <span className="inline-flex items-center rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-800">
+            {ungradedCount} dari {items.length} jawaban belum dinilai
+          </span>
+          <label className="flex items-center gap-1 text-[11px] text-slate-600">
+            <input
+              type="checkbox"
+              checked={showGraded}
+              onChange={(e) => {
+                setShowGraded(e.target.checked);
+                setPosition(0);
+              }}
+            />
+            Tampilkan yang sudah dinilai
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-slate-200 bg-white px-4 py-8 text-center text-xs text-slate-500">
+          Belum ada jawaban isian singkat atau esai yang perlu dinilai.
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-[220px_1fr]">
+          <div className="flex flex-col gap-1.5">
+            {questionGroups.map((group) => {
+              const active = current?.question_index === group.index;
+              return (
+                <button
+                  key={group.index}
+                  type="button"
+                  onClick={() => jumpToQuestion(group.index)}
+                  className={`rounded-xl border px-3 py-2 text-left text-[11px] transition ${
+                    active
+                      ? "border-red-500 bg-red-50"
+                      : "border-slate-200 bg-white hover:bg-slate-50"
+                  }`}
+                >
+                  <span className="font-semibold text-slate-800">
+                    Soal #{group.index + 1}
+                  </span>
+                  <span
+                    className={`ml-2 ${
+                      group.pending > 0 ? "text-amber-700" : "text-emerald-700"
+                    }`}
+                  >
+                    {group.pending > 0
+                      ? `${group.pending} belum dinilai`
+                      : "Selesai"}
+                  </span>
+                  <span className="mt-0.5 block truncate text-slate-500">
+                    {group.text}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          {current ? (
+            <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3">
+              <div className="mb-2 flex flex-wrap items-center justify-between gap-2 text-[11px]">
+                <div className="flex items-center gap-2">
+                  <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-[10px] font-semibold text-white">
+                    {current.question_index + 1}
+                  </span>
+                  <span className="font-medium text-slate-700">
+                    {QUESTION_TYPE_LABELS[current.question.type] ??
+                      current.question.type}
+                  </span>
+                  <span className="text-slate-400">•</span>
+                  <span className="text-slate-500">
+                    {current.question.points} poin
+                  </span>
+                </div>
+                <span className="text-slate-500">
+                  Mahasiswa {positionInQuestion} dari {sameQuestion.length}{" "}
+                  untuk soal ini
+                </span>
+              </div>
+
+              <p className="whitespace-pre-wrap text-xs text-slate-900">
+                {current.question.text}
+              </p>
+
+              <div className="mt-3 rounded-xl bg-slate-50 px-3 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-[11px] font-semibold text-slate-800">
+                    {current.student.name}{" "}
+                    <span className="font-normal text-slate-500">
+                      {current.student.nim ?? current.student.username}
+                    </span>
+                  </p>
+                  <Link
+                    href={`/teacher/quizzes/${quizId}/attempts/${current.attempt_id}`}
+                    className="text-[10px] text-slate-500 hover:text-red-600"
+                  >
+                    Lihat semua jawaban
+                  </Link>
+                </div>
+                <p className="mt-1 whitespace-pre-wrap text-[11px] text-slate-900">
+                  {answerText || (
+                    <span className="italic text-slate-400">
+                      Tidak dijawab
+                    </span>
+                  )}
+                </p>
+                {current.question.type === "essay" && answerText && (
+                  <p className="mt-1 text-right text-[10px] text-slate-400">
+                    {countWords(answerText)} kata
+                    {current.question.essay_word_limit
+                      ? ` / batas ${current.question.essay_word_limit}`
+                      : ""}
+                  </p>
+                )}
+              </div>
+
+              <div className="mt-3">
+                <QuizAnswerGradeForm
+                  key={`${itemKey(current)}-${current.manual_grade?.graded_at ?? ""}`}
+                  maxPoints={current.question.points}
+                  grade={current.manual_grade}
+                  saving={saving}
+                  submitLabel="Simpan & lanjut"
+                  onSave={(points, feedback) =>
+                    void handleSave(points, feedback)
+                  }
+                />
+              </div>
+
+              <div className="mt-3 flex items-center justify-between border-t border-slate-100 pt-3 text-[11px]">
+                <button
+                  type="button"
+                  disabled={index === 0}
+                  onClick={() => setPosition(index - 1)}
+                  className="rounded-full border border-slate-300 px-3 py-1 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                >
+                  &larr; Sebelumnya
+                </button>
+                <span className="text-slate-500">
+                  {index + 1} / {queue.length}
+                </span>
+                <button
+                  type="button"
+                  disabled={index >= queue.length - 1}
+                  onClick={() => setPosition(index + 1)}
+                  className="rounded-full border border-slate-300 px-3 py-1 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                >
+                  Lewati &rarr;
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-8 text-center text-xs text-emerald-700">
+              Semua jawaban sudah dinilai. Centang &quot;Tampilkan yang sudah
+              dinilai&quot; untuk merevisi nilai.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeacherQuizGradingPage;
@@ -1,165 +1,52 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
+import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
-import { apiGet, apiPut, type ApiError } from "@/lib/apiClient";
-
-/**
- * -------------------------
- * Type definitions
- * -------------------------
- */
-
-type QuizTimeStatus =
-  | "not_started"
-  | "ongoing"
-  | "finished"
-  | {
-      is_future: boolean;
-      is_ongoing: boolean;
-      is_finished: boolean;
-      can_attempt_now: boolean;
-    }
-  | string
-  | null;
-
-type QuestionType = "multiple_choice" | "short_answer";
-
-interface QuizQuestionOption {
-  id?: string; // client-side id (optional)
-  text: string | null;
-}
-
-interface QuizQuestion {
-  id?: number | string;
-  type: QuestionType;
-  text: string | null;
-  points: number;
-  options?: QuizQuestionOption[];
-  correct_option_index?: number | null;
-}
-
-interface QuizDetail {
-  id: number;
-  title: string;
-  description: string | null;
-  start_time: string | null;
-  end_time: string | null;
-  duration_minutes: number | null;
-  max_score: number | null;
-  time_status?: QuizTimeStatus;
-  questions: QuizQuestion[] | null;
-
-  // optional relasi untuk header
-  section?: {
-    id: number;
-    title: string;
-    course_instance?: {
-      id: number;
-      class_name: string;
-      semester: string;
-      template?: {
-        code: string;
-        name: string;
-      };
-    };
-  };
-}
-
-interface StudentMini {
-  id: number;
-  name: string;
-  username: string;
-  nim: string | null;
-  email: string | null;
-}
-
-interface QuizAttempt {
-  id: number;
-  student: StudentMini;
-  score: number | null;
-  started_at: string | null;
-  submitted_at: string | null;
-}
-
-interface TeacherQuizAttemptsResponse {
-  quiz: QuizDetail;
-  attempts: QuizAttempt[];
-}
-
-/**
- * -------------------------
- * Helpers
- * -------------------------
- */
-
-function extractErrorMessage(error: unknown, fallback: string): string {
-  if (!error) return fallback;
-
-  if (typeof error === "string") return error;
-
-  if (error instanceof Error) {
-    return error.message || fallback;
-  }
-
-  const maybeApi = error as ApiError & { data?: any };
-
-  if (maybeApi?.data) {
-    const data = maybeApi.data as any;
-    if (typeof data.message === "string") return data.message;
-    if (typeof data.error === "string") return data.error;
-  }
-
-  if (typeof (maybeApi as any).message === "string") {
-    return (maybeApi as any).message as string;
-  }
-
-  return fallback;
-}
-
-function formatDateTime(value: string | null): string {
-  if (!value) return "-";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return value;
-  return date.toLocaleString("id-ID", {
-    dateStyle: "medium",
-    timeStyle: "short",
-  });
-}
-
-function formatDuration(minutes: number | null): string {
-  if (!minutes) return "-";
-  if (minutes < 60) return `${minutes} menit`;
-  const h = Math.floor(minutes / 60);
-  const m = minutes % 60;
-  if (m === 0) return `${h} jam`;
-  return `${h} jam ${m} menit`;
-}
-
-function formatQuizStatus(status: QuizTimeStatus): string {
-  if (!status) return "-";
-
-  if (typeof status === "string") {
-    switch (status) {
-      case "not_started":
-        return "Belum dimulai";
-      case "ongoing":
-        return "Sedang berlangsung";
-      case "finished":
-        return "Sudah selesai";
-      default:
-        return status;
-    }
-  }
-
-  if (typeof status === "object") {
-    if (status.is_ongoing) return "Sedang berlangsung";
-    if (status.is_future) return "Belum dimulai";
-    if (status.is_finished) return "Sudah selesai";
-  }
-
-  return "-";
-}
+import QuestionBankPicker from "@/components/QuestionBankPicker";
+import QuestionEditor from "@/components/QuestionEditor";
+import QuizImportDialog from "@/components/QuizImportDialog";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  createBankQuestion,
+  listQuizAttempts,
+  updateQuizQuestions,
+  type BankQuestion,
+  type QuestionType,
+  type QuizAttemptSummary,
+  type QuizDetail,
+  type QuizQuestion,
+} from "@/lib/api";
+import { XLSX_MIME_TYPE, downloadFile } from "@/lib/download";
+import {
+  toBankPayloadFromQuizQuestion,
+  toQuizQuestionFromBank,
+} from "@/lib/questionBank";
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  changeQuestionType,
+  createQuestion,
+  describeQuizRandomization,
+  normalizeQuizQuestion,
+  validateQuizQuestion,
+  validateQuizQuestions,
+} from "@/lib/quizQuestions";
+import {
+  QUIZ_TRANSFER_FORMATS,
+  QUIZ_TRANSFER_FORMAT_LABELS,
+  exportAiken,
+  exportGift,
+  questionsToSheetRows,
+  writeQuizWorkbook,
+  type QuizTransferFormat,
+} from "@/lib/quizTransfer";
+import {
+  extractErrorMessage,
+  formatDateTime,
+  formatDuration,
+  formatQuizStatus,
+} from "@/lib/utils";
 
 /**
  * -------------------------
@@ -180,7 +67,7 @@ const TeacherQuizDetailPage: React.FC = () => {
       : "";
 
   const [quiz, setQuiz] = useState<QuizDetail | null>(null);
-  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttemptSummary[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -190,10 +77,19 @@ const TeacherQuizDetailPage: React.FC = () => {
   const [savingQuestions, setSavingQuestions] = useState(false);
   const [questionMessage, setQuestionMessage] = useState<string | null>(null);
 
+  // Bank soal
+  const [bankPickerOpen, setBankPickerOpen] = useState(false);
+  const [savingToBankIndex, setSavingToBankIndex] = useState<number | null>(
+    null
+  );
+
+  // Impor / ekspor GIFT, Aiken, Excel
+  const [importOpen, setImportOpen] = useState(false);
+
   useEffect(() => {
     if (!quizId) return;
 
-    let isActive = true;
+    const controller = new AbortController();
 
     const loadData = async () => {
       setLoading(true);
@@ -201,10 +97,9 @@ const TeacherQuizDetailPage: React.FC = () => {
       setQuestionMessage(null);
 
       try {
-        const data = await apiGet<TeacherQuizAttemptsResponse>(
-          `/api/teacher/quizzes/${quizId}/attempts`
-        );
-        if (!isActive) return;
+        const data = await listQuizAttempts(quizId, {
+          signal: controller.signal,
+        });
 
         const incomingQuiz = data.quiz;
         setQuiz(incomingQuiz);
@@ -214,29 +109,14 @@ const TeacherQuizDetailPage: React.FC = () => {
           (incomingQuiz.questions as QuizQuestion[] | null) ?? [];
 
         // Normalisasi biar tidak ada null yang nyangkut di value input
-        const normalized = incomingQuestions.map((q) => ({
-          ...q,
-          text: q.text ?? "",
-          points:
-            typeof q.points === "number" && !Number.isNaN(q.points)
-              ? q.points
-              : 1,
-          options: q.options
-            ? q.options.map((opt) => ({
-                ...opt,
-                text: opt.text ?? "",
-              }))
-            : q.options,
-        }));
-
-        setQuestionsDraft(normalized);
+        setQuestionsDraft(incomingQuestions.map(normalizeQuizQuestion));
       } catch (err: unknown) {
-        if (!isActive) return;
+        if (isAbortError(err)) return;
         setError(
           extractErrorMessage(err, "Gagal memuat detail quiz dan attempts.")
         );
       } finally {
-        if (isActive) {
+        if (!controller.signal.aborted) {
           setLoading(false);
         }
       }
@@ -245,7 +125,7 @@ const TeacherQuizDetailPage: React.FC = () => {
     void loadData();
 
     return () => {
-      isActive = false;
+      controller.abort();
     };
   }, [quizId]);
 
@@ -254,103 +134,136 @@ const TeacherQuizDetailPage: React.FC = () => {
    */
 
   const handleAddQuestion = (type: QuestionType) => {
+    setQuestionsDraft((prev) => [...prev, createQuestion(type)]);
+    setEditingQuestions(true);
+    setQuestionMessage(null);
+  };
+
+  const handleInsertFromBank = (bankQuestions: BankQuestion[]) => {
+    const stamp = Date.now();
     setQuestionsDraft((prev) => [
       ...prev,
-      {
-        id: `new-${Date.now()}-${Math.random().toString(16).slice(2)}`,
-        type,
-        text: "",
-        points: 1,
-        options:
-          type === "multiple_choice"
-            ? [
-                { id: "opt-1", text: "" },
-                { id: "opt-2", text: "" },
-              ]
-            : undefined,
-        correct_option_index: type === "multiple_choice" ? 0 : null,
-      },
+      ...bankQuestions.map((bq, i) =>
+        toQuizQuestionFromBank(
+          bq,
+          `new-${stamp}-${i}-${Math.random().toString(16).slice(2)}`
+        )
+      ),
     ]);
+    setBankPickerOpen(false);
     setEditingQuestions(true);
-    setQuestionMessage(null);
+    setQuestionMessage(
+      `${bankQuestions.length} soal dari bank soal ditambahkan. Klik "Simpan Soal" untuk menyimpan.`
+    );
   };
 
-  const handleRemoveQuestion = (index: number) => {
-    setQuestionsDraft((prev) => prev.filter((_, i) => i !== index));
+  const handleImportQuestions = (imported: QuizQuestion[]) => {
+    setQuestionsDraft((prev) => [...prev, ...imported]);
     setEditingQuestions(true);
-    setQuestionMessage(null);
+    setQuestionMessage(
+      `${imported.length} soal hasil impor ditambahkan. Klik "Simpan Soal" untuk menyimpan.`
+    );
   };
 
-  const handleQuestionFieldChange = <K extends keyof QuizQuestion>(
-    index: number,
-    field: K,
-    value: QuizQuestion[K]
-  ) => {
-    setQuestionsDraft((prev) =>
-      prev.map((q, i) => (i === index ? { ...q, [field]: value } : q))
+  /** Ekspor soal yang sudah tersimpan (bukan draft yang belum disimpan) */
+  const handleExportQuestions = (format: QuizTransferFormat) => {
+    if (!quiz) return;
+    const saved = (quiz.questions ?? []).map(normalizeQuizQuestion);
+    if (saved.length === 0) {
+      setQuestionMessage("Gagal ekspor: quiz belum punya soal tersimpan.");
+      return;
+    }
+
+    const baseName = `soal_${quiz.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "")}`;
+
+    if (format === "xlsx") {
+      downloadFile(
+        writeQuizWorkbook(questionsToSheetRows(saved)),
+        `${baseName}.xlsx`,
+        XLSX_MIME_TYPE
+      );
+      setQuestionMessage(null);
+      return;
+    }
+
+    const { content, skipped } =
+      format === "gift" ? exportGift(saved) : exportAiken(saved);
+    if (!content) {
+      setQuestionMessage(
+        "Gagal ekspor: format Aiken hanya mendukung soal pilihan ganda."
+      );
+      return;
+    }
+    downloadFile(content, `${baseName}.${format === "gift" ? "gift" : "txt"}`);
+    setQuestionMessage(
+      skipped > 0
+        ? `${skipped} soal selain pilihan ganda tidak ikut diekspor ke Aiken.`
+        : null
     );
-    setEditingQuestions(true);
-    setQuestionMessage(null);
   };
 
-  const handleOptionChange = (
-    questionIndex: number,
-    optionIndex: number,
-    value: string
-  ) => {
-    setQuestionsDraft((prev) =>
-      prev.map((q, i) => {
-        if (i !== questionIndex) return q;
-        const options = q.options ? [...q.options] : [];
-        options[optionIndex] = { ...options[optionIndex], text: value };
-        return { ...q, options };
-      })
-    );
-    setEditingQuestions(true);
+  /**
+   * Simpan soal quiz ke bank soal, lalu tautkan draft ke soal bank baru.
+   * Tautan ikut tersimpan saat dosen menekan "Simpan Soal".
+   */
+  const handleSaveToBank = async (index: number) => {
+    const question = questionsDraft[index];
+    if (!question) return;
+
+    const validationError = validateQuizQuestion(question, index);
+    if (validationError) {
+      setQuestionMessage(`Gagal menyimpan ke bank soal: ${validationError}`);
+      return;
+    }
+
+    setSavingToBankIndex(index);
     setQuestionMessage(null);
+
+    try {
+      const created = await createBankQuestion(
+        toBankPayloadFromQuizQuestion(question)
+      );
+      setQuestionsDraft((prev) =>
+        prev.map((q, i) =>
+          i === index ? { ...q, bank_question_id: created.id } : q
+        )
+      );
+      setEditingQuestions(true);
+      setQuestionMessage(
+        `Soal #${index + 1} disimpan ke bank soal. Klik "Simpan Soal" untuk menautkannya ke quiz ini.`
+      );
+    } catch (err: unknown) {
+      setQuestionMessage(
+        extractErrorMessage(err, "Gagal menyimpan soal ke bank soal.")
+      );
+    } finally {
+      setSavingToBankIndex(null);
+    }
   };
 
-  const handleAddOption = (questionIndex: number) => {
-    setQuestionsDraft((prev) =>
-      prev.map((q, i) => {
-        if (i !== questionIndex) return q;
-        const options = q.options ? [...q.options] : [];
-        options.push({
-          id: `opt-${options.length + 1}-${Math.random()
-            .toString(16)
-            .slice(2)}`,
-          text: "",
-        });
-        return { ...q, options };
-      })
-    );
+  const handleRemoveQuestion = (index: number) => {
+    setQuestionsDraft((prev) => prev.filter((_, i) => i !== index));
     setEditingQuestions(true);
     setQuestionMessage(null);
   };
 
-  const handleRemoveOption = (questionIndex: number, optionIndex: number) => {
+  const handleQuestionChange = (index: number, question: QuizQuestion) => {
     setQuestionsDraft((prev) =>
-      prev.map((q, i) => {
-        if (i !== questionIndex) return q;
-        const options = q.options ? [...q.options] : [];
-        options.splice(optionIndex, 1);
-
-        let correctIndex = q.correct_option_index ?? null;
-        if (correctIndex !== null) {
-          if (optionIndex === correctIndex) {
-            correctIndex = options.length > 0 ? 0 : null;
-          } else if (optionIndex < correctIndex) {
-            correctIndex = correctIndex - 1;
-          }
-        }
-
-        return { ...q, options, correct_option_index: correctIndex };
-      })
+      prev.map((q, i) => (i === index ? question : q))
     );
     setEditingQuestions(true);
     setQuestionMessage(null);
   };
 
+  const handleQuestionTypeChange = (index: number, type: QuestionType) => {
+    const question = questionsDraft[index];
+    if (!question || question.type === type) return;
+    handleQuestionChange(index, changeQuestionType(question, type));
+  };
+
   const handleSaveQuestions = async () => {
     if (!quizId) return;
 
@@ -358,40 +271,14 @@ const TeacherQuizDetailPage: React.FC = () => {
     setQuestionMessage(null);
 
     try {
-      // Simple validation
-      for (const [idx, q] of questionsDraft.entries()) {
-        if (!q.text || !q.text.trim()) {
-          throw new Error(`Soal #${idx + 1} belum diisi teksnya.`);
-        }
-        if (!Number.isFinite(q.points) || q.points <= 0) {
-          throw new Error(
-            `Poin untuk soal #${idx + 1} harus angka lebih dari 0.`
-          );
-        }
-        if (q.type === "multiple_choice") {
-          const options = q.options ?? [];
-          if (options.length < 2) {
-            throw new Error(
-              `Soal pilihan ganda #${idx + 1} minimal punya 2 opsi.`
-            );
-          }
-          if (
-            q.correct_option_index === null ||
-            q.correct_option_index === undefined ||
-            q.correct_option_index < 0 ||
-            q.correct_option_index >= options.length
-          ) {
-            throw new Error(
-              `Soal pilihan ganda #${idx + 1} belum memiliki jawaban benar yang valid.`
-            );
-          }
-        }
+      // Validasi per tipe soal (lihat lib/quizQuestions)
+      const validationError = validateQuizQuestions(questionsDraft);
+      if (validationError) {
+        throw new Error(validationError);
       }
 
       // Kirim ke backend – asumsi backend update hanya field 'questions'
-      await apiPut(`/api/quizzes/${quizId}`, {
-        questions: questionsDraft,
-      });
+      await updateQuizQuestions(quizId, questionsDraft);
 
       // Sinkronkan ke state quiz
       setQuiz((prev) =>
@@ -414,22 +301,7 @@ const TeacherQuizDetailPage: React.FC = () => {
     const original =
       (quiz.questions as QuizQuestion[] | null | undefined) ?? [];
 
-    const normalized = original.map((q) => ({
-      ...q,
-      text: q.text ?? "",
-      points:
-        typeof q.points === "number" && !Number.isNaN(q.points)
-          ? q.points
-          : 1,
-      options: q.options
-        ? q.options.map((opt) => ({
-            ...opt,
-            text: opt.text ?? "",
-          }))
-        : q.options,
-    }));
-
-    setQuestionsDraft(normalized);
+    setQuestionsDraft(original.map(normalizeQuizQuestion));
     setEditingQuestions(false);
     setQuestionMessage(null);
   };
@@ -502,6 +374,10 @@ const TeacherQuizDetailPage: React.FC = () => {
   }
 
   const courseInfo = quiz.section?.course_instance;
+  const ungradedCount = attempts.reduce(
+    (sum, attempt) => sum + (attempt.ungraded_count ?? 0),
+    0
+  );
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900">
@@ -577,6 +453,15 @@ const TeacherQuizDetailPage: React.FC = () => {
                   <dt className="text-slate-400">Max score</dt>
                   <dd className="font-medium">{quiz.max_score ?? "-"}</dd>
                 </div>
+                <div className="col-span-2">
+                  <dt className="text-slate-400">Pengacakan</dt>
+                  <dd className="font-medium">
+                    {describeQuizRandomization(
+                      quiz,
+                      quiz.questions?.length ?? 0
+                    ) || "Tidak diacak"}
+                  </dd>
+                </div>
               </dl>
             </div>
 
@@ -588,11 +473,45 @@ const TeacherQuizDetailPage: React.FC = () => {
                     Pengaturan Soal
                   </h2>
                   <p className="text-[11px] text-slate-500">
-                    Atur daftar soal untuk quiz ini (multiple choice / short
-                    answer).
+                    Atur daftar soal untuk quiz ini (pilihan ganda, benar/salah,
+                    menjodohkan, numerik, isian, esai), atau ambil dari bank
+                    soal.
                   </p>
                 </div>
                 <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setBankPickerOpen(true)}
+                    className="inline-flex items-center rounded-full border border-slate-300 px-3 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-900 hover:text-white transition"
+                  >
+                    + Dari Bank Soal
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setImportOpen(true)}
+                    className="inline-flex items-center rounded-full border border-slate-300 px-3 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-900 hover:text-white transition"
+                  >
+                    Impor
+                  </button>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (e.target.value) {
+                        handleExportQuestions(
+                          e.target.value as QuizTransferFormat
+                        );
+                      }
+                    }}
+                    aria-label="Ekspor soal"
+                    className="rounded-full border border-slate-300 bg-white px-2 py-1 text-[11px] font-medium text-slate-700 outline-none focus:border-red-500"
+                  >
+                    <option value="">Ekspor...</option>
+                    {QUIZ_TRANSFER_FORMATS.map((format) => (
+                      <option key={format} value={format}>
+                        {QUIZ_TRANSFER_FORMAT_LABELS[format]}
+                      </option>
+                    ))}
+                  </select>
                   <button
                     type="button"
                     onClick={() => handleAddQuestion("multiple_choice")}
@@ -607,6 +526,26 @@ const TeacherQuizDetailPage: React.FC = () => {
                   >
                     + Soal Isian Singkat
                   </button>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (e.target.value) {
+                        handleAddQuestion(e.target.value as QuestionType);
+                      }
+                    }}
+                    aria-label="Tambah soal tipe lain"
+                    className="rounded-full border border-slate-300 bg-white px-2 py-1 text-[11px] font-medium text-slate-700 outline-none focus:border-red-500"
+                  >
+                    <option value="">+ Tipe lain...</option>
+                    {QUESTION_TYPES.filter(
+                      (type) =>
+                        type !== "multiple_choice" && type !== "short_answer"
+                    ).map((type) => (
+                      <option key={type} value={type}>
+                        {QUESTION_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -635,30 +574,33 @@ const TeacherQuizDetailPage: React.FC = () => {
                       key={q.id ?? qIndex}
                       className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2"
                     >
-                      <div className="mb-2 flex items-start justify-between gap-3">
-                        <div className="flex flex-col gap-1 flex-1">
-                          <div className="flex items-center gap-2">
-                            <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-[10px] font-semibold text-white">
-                              {qIndex + 1}
-                            </span>
-                            <span className="text-[11px] font-medium text-slate-700">
-                              {q.type === "multiple_choice"
-                                ? "Pilihan Ganda"
-                                : "Isian Singkat"}
-                            </span>
-                          </div>
-                          <textarea
-                            value={q.text ?? ""} // <= FIX: never null
+                      <div className="mb-1 flex items-start justify-between gap-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-[10px] font-semibold text-white">
+                            {qIndex + 1}
+                          </span>
+                          <select
+                            value={q.type}
                             onChange={(e) =>
-                              handleQuestionFieldChange(
+                              handleQuestionTypeChange(
                                 qIndex,
-                                "text",
-                                e.target.value
+                                e.target.value as QuestionType
                               )
                             }
-                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-2 py-1.5 text-[11px] text-slate-900 outline-none focus:border-red-500"
-                            placeholder="Teks soal..."
-                          />
+                            aria-label={`Tipe soal #${qIndex + 1}`}
+                            className="rounded-full border border-slate-200 bg-white px-2 py-0.5 text-[11px] font-medium text-slate-700 outline-none focus:border-red-500"
+                          >
+                            {QUESTION_TYPES.map((type) => (
+                              <option key={type} value={type}>
+                                {QUESTION_TYPE_LABELS[type]}
+                              </option>
+                            ))}
+                          </select>
+                          {q.bank_question_id != null && (
+                            <span className="inline-flex items-center rounded-full border border-sky-200 bg-sky-50 px-2 py-0.5 text-[10px] font-medium text-sky-700">
+                              Bank soal
+                            </span>
+                          )}
                         </div>
                         <div className="flex flex-col items-end gap-1">
                           <label className="flex items-center gap-1 text-[11px] text-slate-600">
@@ -668,15 +610,26 @@ const TeacherQuizDetailPage: React.FC = () => {
                               min={1}
                               value={q.points ?? 1}
                               onChange={(e) =>
-                                handleQuestionFieldChange(
-                                  qIndex,
-                                  "points",
-                                  Number(e.target.value) || 1
-                                )
+                                handleQuestionChange(qIndex, {
+                                  ...q,
+                                  points: Number(e.target.value) || 1,
+                                })
                               }
                               className="w-16 rounded-full border border-slate-200 bg-white px-2 py-0.5 text-right text-[11px] outline-none focus:border-red-500"
                             />
                           </label>
+                          {q.bank_question_id == null && (
+                            <button
+                              type="button"
+                              disabled={savingToBankIndex !== null}
+                              onClick={() => void handleSaveToBank(qIndex)}
+                              className="text-[10px] text-slate-600 hover:underline disabled:opacity-40"
+                            >
+                              {savingToBankIndex === qIndex
+                                ? "Menyimpan..."
+                                : "Simpan ke bank"}
+                            </button>
+                          )}
                           <button
                             type="button"
                             onClick={() => handleRemoveQuestion(qIndex)}
@@ -687,74 +640,10 @@ const TeacherQuizDetailPage: React.FC = () => {
                         </div>
                       </div>
 
-                      {q.type === "multiple_choice" && (
-                        <div className="mt-2">
-                          <p className="mb-1 text-[11px] font-medium text-slate-700">
-                            Opsi jawaban
-                          </p>
-                          <div className="flex flex-col gap-1.5">
-                            {(q.options ?? []).map((opt, optIndex) => {
-                              const isCorrect =
-                                q.correct_option_index === optIndex;
-                              return (
-                                <div
-                                  key={opt.id ?? optIndex}
-                                  className="flex items-center gap-2"
-                                >
-                                  <button
-                                    type="button"
-                                    onClick={() =>
-                                      handleQuestionFieldChange(
-                                        qIndex,
-                                        "correct_option_index",
-                                        optIndex
-                                      )
-                                    }
-                                    className={`flex h-4 w-4 items-center justify-center rounded-full border text-[9px] ${
-                                      isCorrect
-                                        ? "border-emerald-500 bg-emerald-500 text-white"
-                                        : "border-slate-300 bg-white text-slate-400"
-                                    }`}
-                                    title="Tandai sebagai jawaban benar"
-                                  >
-                                    ✓
-                                  </button>
-                                  <input
-                                    type="text"
-                                    value={opt.text ?? ""} // <= FIX: never null
-                                    onChange={(e) =>
-                                      handleOptionChange(
-                                        qIndex,
-                                        optIndex,
-                                        e.target.value
-                                      )
-                                    }
-                                    className="flex-1 rounded-full border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500"
-                                    placeholder={`Opsi ${optIndex + 1}`}
-                                  />
-                                  <button
-                                    type="button"
-                                    onClick={() =>
-                                      handleRemoveOption(qIndex, optIndex)
-                                    }
-                                    className="text-[10px] text-slate-400 hover:text-red-600"
-                                    title="Hapus opsi"
-                                  >
-                                    Hapus
-                                  </button>
-                                </div>
-                              );
-                            })}
-                          </div>
-                          <button
-                            type="button"
-                            onClick={() => handleAddOption(qIndex)}
-                            className="mt-2 inline-flex items-center rounded-full border border-slate-300 px-3 py-0.5 text-[10px] font-medium text-slate-700 hover:bg-slate-900 hover:text-white transition"
-                          >
-                            + Tambah opsi
-                          </button>
-                        </div>
-                      )}
+                      <QuestionEditor
+                        question={q}
+                        onChange={(next) => handleQuestionChange(qIndex, next)}
+                      />
                     </div>
                   ))}
                 </div>
@@ -799,9 +688,19 @@ const TeacherQuizDetailPage: React.FC = () => {
                   Rekap mahasiswa yang sudah mengerjakan quiz ini.
                 </p>
               </div>
-              <span className="text-[11px] text-slate-500">
-                Total attempt: {attempts.length}
-              </span>
+              <div className="flex flex-col items-end gap-1">
+                <span className="text-[11px] text-slate-500">
+                  Total attempt: {attempts.length}
+                </span>
+                {ungradedCount > 0 && (
+                  <Link
+                    href={`/teacher/quizzes/${quizId}/grading`}
+                    className="inline-flex items-center rounded-full border border-amber-300 bg-amber-50 px-3 py-1 text-[11px] font-medium text-amber-700 hover:bg-amber-100"
+                  >
+                    Antrian penilaian ({ungradedCount})
+                  </Link>
+                )}
+              </div>
             </div>
 
             {attempts.length === 0 ? (
@@ -828,6 +727,9 @@ const TeacherQuizDetailPage: React.FC = () => {
                       <th className="px-3 py-2 text-right font-medium">
                         Skor
                       </th>
+                      <th className="px-3 py-2 text-right font-medium">
+                        Jawaban
+                      </th>
                     </tr>
                   </thead>
                   <tbody>
@@ -882,6 +784,25 @@ const TeacherQuizDetailPage: React.FC = () => {
                             {quiz.max_score != null && " / "}
                             {quiz.max_score != null && quiz.max_score}
                           </span>
+                          {(attempt.ungraded_count ?? 0) > 0 && (
+                            <span className="mt-1 block text-[10px] text-amber-700">
+                              {attempt.ungraded_count} belum dinilai
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 align-top text-right">
+                          {attempt.submitted_at ? (
+                            <Link
+                              href={`/teacher/quizzes/${quizId}/attempts/${attempt.id}`}
+                              className="text-[11px] font-medium text-red-600 hover:underline"
+                            >
+                              Periksa
+                            </Link>
+                          ) : (
+                            <span className="text-[10px] text-slate-400">
+                              Belum dikumpulkan
+                            </span>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -892,6 +813,21 @@ const TeacherQuizDetailPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <QuestionBankPicker
+        open={bankPickerOpen}
+        usedBankQuestionIds={questionsDraft
+          .map((q) => q.bank_question_id)
+          .filter((id): id is number => typeof id === "number")}
+        onInsert={handleInsertFromBank}
+        onClose={() => setBankPickerOpen(false)}
+      />
+
+      <QuizImportDialog
+        open={importOpen}
+        onImport={handleImportQuestions}
+        onClose={() => setImportOpen(false)}
+      />
     </div>
   );
 };
@@ -0,0 +1,346 @@
+"use client";
+
+import React, { useState } from "react";
+import { gradeSubmission, type AssignmentSubmissionItem } from "@/lib/api";
+import { XLSX_MIME_TYPE, downloadFile } from "@/lib/download";
+import { writeGradebookWorkbook } from "@/lib/gradebookExport";
+import {
+  getGradeImportTemplateRows,
+  parseGradeImport,
+  readGradeSheet,
+  type GradeImportRow,
+} from "@/lib/gradeImport";
+import { extractErrorMessage } from "@/lib/utils";
+
+/** Nilai yang berhasil disimpan, untuk memperbarui daftar submission */
+export interface ImportedGrade {
+  submissionId: number;
+  score: number | null;
+  feedback: string | null;
+}
+
+interface GradeImportDialogProps {
+  open: boolean;
+  /** Dipakai untuk nama file template */
+  assignmentTitle: string;
+  maxScore: number;
+  submissions: AssignmentSubmissionItem[];
+  onGraded: (grades: ImportedGrade[]) => void;
+  onClose: () => void;
+}
+
+interface RowResult {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Modal impor nilai tugas dari XLSX/CSV: baris dicocokkan ke submission
+ * lewat NIM/username, divalidasi terhadap nilai maksimal, lalu disimpan satu
+ * per satu dengan hasil per baris.
+ */
+const GradeImportDialog: React.FC<GradeImportDialogProps> = ({
+  open,
+  assignmentTitle,
+  maxScore,
+  submissions,
+  onGraded,
+  onClose,
+}) => {
+  const [sheetRows, setSheetRows] = useState<unknown[][] | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState<boolean>(false);
+  const [progress, setProgress] = useState<number>(0);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+
+  if (!open) return null;
+
+  // Dihitung ulang dari submission terbaru, jadi baris yang sudah tersimpan
+  // otomatis tidak dianggap berubah lagi
+  const parsed = sheetRows
+    ? parseGradeImport(sheetRows, submissions, maxScore)
+    : null;
+  const rows = parsed?.rows ?? [];
+  const pending = rows.filter(
+    (row) => row.error === null && row.changed && !results[row.line]?.ok
+  );
+  const invalidCount = rows.filter((row) => row.error !== null).length;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      const data = evt.target?.result;
+      if (!(data instanceof ArrayBuffer)) {
+        setError("Gagal membaca file.");
+        return;
+      }
+      try {
+        const next = readGradeSheet(data);
+        setSheetRows(next);
+        setFileName(file.name);
+        setResults({});
+        setError(next.length === 0 ? "File tidak berisi data." : null);
+      } catch (err: unknown) {
+        setError(extractErrorMessage(err, "Gagal memproses file."));
+      }
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleDownloadTemplate = () => {
+    const baseName = assignmentTitle
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+    downloadFile(
+      writeGradebookWorkbook(getGradeImportTemplateRows(submissions)),
+      `nilai_${baseName || "tugas"}.xlsx`,
+      XLSX_MIME_TYPE
+    );
+  };
+
+  const handleApply = async () => {
+    if (pending.length === 0) return;
+
+    setApplying(true);
+    setProgress(0);
+    const saved: ImportedGrade[] = [];
+    const nextResults = { ...results };
+
+    // Sengaja berurutan: satu baris gagal tidak membatalkan baris lain
+    for (const [index, row] of pending.entries()) {
+      const submissionId = (row.submission as AssignmentSubmissionItem).id;
+      try {
+        await gradeSubmission(submissionId, {
+          score: row.score,
+          feedback: row.feedback,
+        });
+        saved.push({
+          submissionId,
+          score: row.score,
+          feedback: row.feedback,
+        });
+        nextResults[row.line] = { ok: true, message: "Tersimpan" };
+      } catch (err: unknown) {
+        nextResults[row.line] = {
+          ok: false,
+          message: extractErrorMessage(err, "Gagal menyimpan nilai."),
+        };
+      }
+      setProgress(index + 1);
+    }
+
+    setResults(nextResults);
+    setApplying(false);
+    if (saved.length > 0) onGraded(saved);
+  };
+
+  const handleClose = () => {
+    if (applying) return;
+    setSheetRows(null);
+    setFileName("");
+    setResults({});
+    setError(null);
+    onClose();
+  };
+
+  const describeRow = (row: GradeImportRow) => {
+    const result = results[row.line];
+    if (result) {
+      return (
+        <span className={result.ok ? "text-emerald-700" : "text-red-600"}>
+          {result.message}
+        </span>
+      );
+    }
+    if (row.error) return <span className="text-red-600">{row.error}</span>;
+    if (!row.changed) {
+      return <span className="text-slate-400">Tidak berubah</span>;
+    }
+    return <span className="text-amber-700">Akan diperbarui</span>;
+  };
+
+  const savedCount = Object.values(results).filter((row) => row.ok).length;
+  const failedCount = Object.values(results).filter((row) => !row.ok).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm px-4">
+      <div className="flex max-h-[85vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-lg shadow-black/10">
+        <div className="flex items-start justify-between gap-3 border-b border-slate-100 px-4 py-3">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">
+              Impor Nilai
+            </h2>
+            <p className="text-[11px] text-slate-500">
+              Kolom NIM atau Username dan Nilai wajib ada; Feedback opsional.
+              Sel kosong tidak mengubah nilai/feedback yang sudah ada.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={applying}
+            className="text-[11px] text-slate-500 hover:text-slate-800 disabled:opacity-40"
+          >
+            Tutup
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 border-b border-slate-100 px-4 py-3">
+          <input
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            onChange={handleFileChange}
+            disabled={applying}
+            className="text-[11px]"
+          />
+          <button
+            type="button"
+            onClick={handleDownloadTemplate}
+            className="text-[11px] text-red-600 hover:underline"
+          >
+            Unduh template
+          </button>
+          {fileName && (
+            <span className="text-[10px] text-slate-400">{fileName}</span>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {error && (
+            <div className="mb-3 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+              {error}
+            </div>
+          )}
+
+          {parsed && parsed.problems.length > 0 && (
+            <div className="mb-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-[11px] text-amber-800">
+              <ul className="list-disc pl-4">
+                {parsed.problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!parsed ? (
+            <p className="text-[11px] text-slate-500">
+              Pilih file XLSX/CSV. Unduh template untuk mendapat daftar
+              mahasiswa yang sudah mengumpulkan beserta nilainya saat ini.
+            </p>
+          ) : rows.length === 0 ? (
+            <p className="text-[11px] text-slate-500">
+              Tidak ada baris nilai yang terbaca.
+            </p>
+          ) : (
+            <table className="min-w-full border-collapse text-[11px]">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-[10px] text-slate-500">
+                  <th className="py-1 pr-2 font-medium">Baris</th>
+                  <th className="py-1 pr-2 font-medium">Mahasiswa</th>
+                  <th className="py-1 pr-2 text-right font-medium">Nilai</th>
+                  <th className="py-1 pr-2 font-medium">Feedback</th>
+                  <th className="py-1 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const before = row.submission;
+                  const scoreChanged = before && row.score !== before.score;
+                  const feedbackChanged =
+                    before && row.feedback !== before.feedback;
+                  return (
+                    <tr
+                      key={row.line}
+                      className={`border-b border-slate-100 align-top ${
+                        row.error ? "bg-red-50/60" : ""
+                      }`}
+                    >
+                      <td className="py-1.5 pr-2 text-slate-400">
+                        {row.line}
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        {before ? (
+                          <>
+                            <span className="font-medium text-slate-900">
+                              {before.student.name}
+                            </span>
+                            <span className="block text-[10px] text-slate-500">
+                              {row.identifier}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-slate-500">
+                            {row.identifier}
+                          </span>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap py-1.5 pr-2 text-right">
+                        {scoreChanged && (
+                          <span className="text-slate-400 line-through">
+                            {before.score ?? "—"}
+                          </span>
+                        )}{" "}
+                        <span className="font-semibold text-slate-900">
+                          {row.score ?? "—"}
+                        </span>
+                      </td>
+                      <td className="max-w-[220px] py-1.5 pr-2">
+                        <span
+                          className={`line-clamp-2 ${
+                            feedbackChanged
+                              ? "text-slate-900"
+                              : "text-slate-400"
+                          }`}
+                        >
+                          {row.feedback ?? "—"}
+                        </span>
+                      </td>
+                      <td className="py-1.5">{describeRow(row)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 border-t border-slate-100 px-4 py-3">
+          <span className="text-[11px] text-slate-500">
+            {applying
+              ? `Menyimpan ${progress}/${pending.length}...`
+              : `${pending.length} nilai akan diperbarui`}
+            {invalidCount > 0 && ` • ${invalidCount} baris tidak valid`}
+            {savedCount > 0 && ` • ${savedCount} tersimpan`}
+            {failedCount > 0 && ` • ${failedCount} gagal`}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={applying}
+              className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50 disabled:opacity-40"
+            >
+              Tutup
+            </button>
+            <button
+              type="button"
+              disabled={applying || pending.length === 0}
+              onClick={() => void handleApply()}
+              className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-40"
+            >
+              {applying ? "Menyimpan..." : `Simpan ${pending.length} nilai`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GradeImportDialog;
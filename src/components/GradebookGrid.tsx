@@ -0,0 +1,464 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import type {
+  GradeCellUpdate,
+  GradeStudentRow,
+  GradingScheme,
+} from "@/lib/api";
+import {
+  applyDraftToScores,
+  applyPaste,
+  formatCellValue,
+  getCellKey,
+  isCellEditable,
+  parseClipboardGrid,
+  summarizeDraft,
+  type GradeDraft,
+} from "@/lib/gradebookGrid";
+import {
+  GRADE_ITEM_KIND_LABELS,
+  computeFinalGrade,
+  getItemScore,
+  getItemSetting,
+  resolveFinalGrade,
+  type GradeItem,
+} from "@/lib/gradingScheme";
+
+interface GradebookGridProps {
+  scheme: GradingScheme;
+  items: GradeItem[];
+  students: GradeStudentRow[];
+  saving: boolean;
+  /** Error dari backend saat menyimpan */
+  error: string | null;
+  /** Resolve true kalau tersimpan; draft lalu dikosongkan */
+  onSave: (updates: GradeCellUpdate[]) => Promise<boolean>;
+  onEditManualItem: (item: GradeItem) => void;
+  onDeleteManualItem: (item: GradeItem) => void;
+}
+
+/** Batas langkah undo yang disimpan */
+const MAX_HISTORY = 50;
+
+function formatScore(value: number | null) {
+  return value === null ? (
+    <span className="text-slate-300">—</span>
+  ) : (
+    <span className="font-semibold text-slate-900">
+      {Math.round(value * 100) / 100}
+    </span>
+  );
+}
+
+/**
+ * Rekap nilai ala spreadsheet: nilai tugas (yang sudah dikumpulkan) dan
+ * kolom manual bisa diketik langsung, dinavigasi dengan keyboard, ditempel
+ * dari Excel, dan diurungkan. Perubahan baru tersimpan lewat tombol Simpan.
+ */
+const GradebookGrid: React.FC<GradebookGridProps> = ({
+  scheme,
+  items,
+  students,
+  saving,
+  error,
+  onSave,
+  onEditManualItem,
+  onDeleteManualItem,
+}) => {
+  const [draft, setDraft] = useState<GradeDraft>({});
+  const [history, setHistory] = useState<GradeDraft[]>([]);
+  const inputRefs = useRef<Map<string, HTMLInputElement>>(new Map());
+  // Sel yang sedang diketik: perubahan pertama di sel baru = satu langkah undo
+  const editingKeyRef = useRef<string | null>(null);
+
+  const rows = students.map((row) => ({
+    studentId: row.student.id,
+    scores: row,
+  }));
+  const summary = summarizeDraft(draft, items, rows);
+  const changedKeys = new Set(
+    summary.updates.map((update) =>
+      getCellKey({ kind: update.kind, id: update.item_id }, update.student_id)
+    )
+  );
+  const errorCount = Object.keys(summary.errors).length;
+  const categoryNames = new Map(
+    scheme.categories.map((category) => [category.id, category.name])
+  );
+
+  const pushHistory = (snapshot: GradeDraft) => {
+    setHistory((prev) => [...prev.slice(-(MAX_HISTORY - 1)), snapshot]);
+  };
+
+  const handleUndo = () => {
+    if (history.length === 0) return;
+    setDraft(history[history.length - 1]);
+    setHistory(history.slice(0, -1));
+    editingKeyRef.current = null;
+  };
+
+  const handleChange = (key: string, value: string) => {
+    if (editingKeyRef.current !== key) {
+      pushHistory(draft);
+      editingKeyRef.current = key;
+    }
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  /** Pindah ke sel yang bisa diedit berikutnya searah (dRow, dCol) */
+  const moveFocus = (
+    rowIndex: number,
+    colIndex: number,
+    dRow: number,
+    dCol: number
+  ) => {
+    let row = rowIndex + dRow;
+    let col = colIndex + dCol;
+    while (row >= 0 && row < rows.length && col >= 0 && col < items.length) {
+      const input = inputRefs.current.get(`${row}:${col}`);
+      if (input) {
+        input.focus();
+        input.select();
+        return;
+      }
+      row += dRow;
+      col += dCol;
+    }
+  };
+
+  const handleKeyDown = (
+    e: React.KeyboardEvent<HTMLInputElement>,
+    rowIndex: number,
+    colIndex: number,
+    key: string
+  ) => {
+    const input = e.currentTarget;
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+      e.preventDefault();
+      handleUndo();
+      return;
+    }
+
+    switch (e.key) {
+      case "ArrowUp":
+        e.preventDefault();
+        moveFocus(rowIndex, colIndex, -1, 0);
+        break;
+      case "ArrowDown":
+        e.preventDefault();
+        moveFocus(rowIndex, colIndex, 1, 0);
+        break;
+      case "Enter":
+        e.preventDefault();
+        moveFocus(rowIndex, colIndex, e.shiftKey ? -1 : 1, 0);
+        break;
+      case "ArrowLeft":
+        if (input.selectionStart === 0 && input.selectionEnd === 0) {
+          e.preventDefault();
+          moveFocus(rowIndex, colIndex, 0, -1);
+        }
+        break;
+      case "ArrowRight":
+        if (input.selectionStart === input.value.length) {
+          e.preventDefault();
+          moveFocus(rowIndex, colIndex, 0, 1);
+        }
+        break;
+      case "Escape":
+        // Batalkan ketikan di sel ini saja
+        if (editingKeyRef.current === key) {
+          e.preventDefault();
+          handleUndo();
+        }
+        break;
+      default:
+        break;
+    }
+  };
+
+  const handlePaste = (
+    e: React.ClipboardEvent<HTMLInputElement>,
+    rowIndex: number,
+    colIndex: number
+  ) => {
+    const pasted = parseClipboardGrid(e.clipboardData.getData("text/plain"));
+    // Satu nilai saja: biarkan input menempel seperti biasa
+    if (pasted.length === 1 && pasted[0].length === 1) return;
+
+    e.preventDefault();
+    pushHistory(draft);
+    setDraft(
+      applyPaste(draft, pasted, { row: rowIndex, col: colIndex }, {
+        items,
+        rows,
+      })
+    );
+    editingKeyRef.current = null;
+  };
+
+  const handleDiscard = () => {
+    pushHistory(draft);
+    setDraft({});
+    editingKeyRef.current = null;
+  };
+
+  const handleSave = async () => {
+    if (errorCount > 0 || summary.updates.length === 0) return;
+    const saved = await onSave(summary.updates);
+    if (saved) {
+      setDraft({});
+      setHistory([]);
+      editingKeyRef.current = null;
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white">
+        <table className="min-w-full border-collapse text-xs">
+          <thead>
+            <tr className="border-b border-slate-200 bg-slate-50">
+              <th className="sticky left-0 z-10 whitespace-nowrap bg-slate-50 px-3 py-2 text-left font-medium text-slate-700">
+                Mahasiswa
+              </th>
+              {items.map((item) => {
+                const setting = getItemSetting(scheme, item.kind, item.id);
+                const category = setting.category_id
+                  ? categoryNames.get(setting.category_id)
+                  : undefined;
+                return (
+                  <th
+                    key={`${item.kind}-${item.id}`}
+                    className="whitespace-nowrap px-3 py-2 text-left font-medium text-slate-700"
+                  >
+                    <div className="flex flex-col">
+                      <span className="text-[11px] font-semibold">
+                        {item.title}
+                      </span>
+                      <span className="text-[10px] text-slate-500">
+                        {GRADE_ITEM_KIND_LABELS[item.kind]} • Maks{" "}
+                        {item.max_score}
+                      </span>
+                      <span className="text-[10px] text-slate-400">
+                        {category ?? "Tidak dihitung"}
+                        {category && setting.weight !== 1
+                          ? ` • bobot ${setting.weight}`
+                          : ""}
+                      </span>
+                      {item.kind === "manual" && (
+                        <span className="mt-0.5 flex gap-2 text-[10px] font-normal">
+                          <button
+                            type="button"
+                            onClick={() => onEditManualItem(item)}
+                            className="text-slate-500 hover:text-slate-900"
+                          >
+                            Ubah
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onDeleteManualItem(item)}
+                            className="text-red-600 hover:underline"
+                          >
+                            Hapus
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                  </th>
+                );
+              })}
+              {scheme.categories.map((category) => (
+                <th
+                  key={category.id}
+                  className="whitespace-nowrap px-3 py-2 text-right font-medium text-slate-700"
+                >
+                  <div className="flex flex-col">
+                    <span className="text-[11px] font-semibold">
+                      {category.name}
+                    </span>
+                    <span className="text-[10px] text-slate-500">
+                      {category.weight}%
+                    </span>
+                  </div>
+                </th>
+              ))}
+              <th className="whitespace-nowrap px-3 py-2 text-right font-medium text-slate-700">
+                Nilai Akhir
+              </th>
+              <th className="whitespace-nowrap px-3 py-2 text-center font-medium text-slate-700">
+                Huruf
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {students.map((row, rowIndex) => {
+              const studentId = row.student.id;
+              const hasDraft = items.some(
+                (item) => draft[getCellKey(item, studentId)] !== undefined
+              );
+              const final = hasDraft
+                ? computeFinalGrade(
+                    scheme,
+                    items,
+                    applyDraftToScores(row, studentId, items, draft)
+                  )
+                : resolveFinalGrade(scheme, items, row);
+              const rowClass =
+                rowIndex % 2 === 0 ? "bg-white" : "bg-slate-50/40";
+
+              return (
+                <tr key={studentId} className={rowClass}>
+                  <td
+                    className={`sticky left-0 z-10 whitespace-nowrap px-3 py-2 align-top ${
+                      rowIndex % 2 === 0 ? "bg-white" : "bg-slate-50"
+                    }`}
+                  >
+                    <div className="flex flex-col">
+                      <span className="text-xs font-semibold text-slate-900">
+                        {row.student.name}
+                      </span>
+                      <span className="text-[10px] text-slate-500">
+                        {row.student.username}
+                        {row.student.nim ? ` • ${row.student.nim}` : ""}
+                      </span>
+                    </div>
+                  </td>
+                  {items.map((item, colIndex) => {
+                    const key = getCellKey(item, studentId);
+                    const saved = getItemScore(row, item).score;
+
+                    if (!isCellEditable(item, row)) {
+                      return (
+                        <td
+                          key={key}
+                          title={
+                            item.kind === "assignment"
+                              ? "Belum mengumpulkan"
+                              : "Nilai quiz berasal dari attempt"
+                          }
+                          className="whitespace-nowrap px-3 py-2 text-right align-top text-[11px]"
+                        >
+                          {formatScore(saved)}
+                        </td>
+                      );
+                    }
+
+                    const cellError = summary.errors[key];
+                    const stateClass = cellError
+                      ? "border-red-400 bg-red-50"
+                      : changedKeys.has(key)
+                      ? "border-amber-300 bg-amber-50"
+                      : "border-transparent bg-transparent";
+
+                    return (
+                      <td
+                        key={key}
+                        className="whitespace-nowrap px-2 py-1 text-right align-top"
+                      >
+                        <input
+                          ref={(el) => {
+                            const refKey = `${rowIndex}:${colIndex}`;
+                            if (el) inputRefs.current.set(refKey, el);
+                            else inputRefs.current.delete(refKey);
+                          }}
+                          value={draft[key] ?? formatCellValue(saved)}
+                          onChange={(e) => handleChange(key, e.target.value)}
+                          onFocus={(e) => {
+                            editingKeyRef.current = null;
+                            e.target.select();
+                          }}
+                          onKeyDown={(e) =>
+                            handleKeyDown(e, rowIndex, colIndex, key)
+                          }
+                          onPaste={(e) => handlePaste(e, rowIndex, colIndex)}
+                          inputMode="decimal"
+                          title={cellError}
+                          aria-label={`Nilai ${item.title} untuk ${row.student.name}`}
+                          className={`w-16 rounded border px-1.5 py-1 text-right text-[11px] font-semibold text-slate-900 outline-none hover:border-slate-300 focus:border-red-500 focus:bg-white ${stateClass}`}
+                        />
+                      </td>
+                    );
+                  })}
+                  {scheme.categories.map((category) => (
+                    <td
+                      key={category.id}
+                      className="whitespace-nowrap px-3 py-2 text-right align-top text-[11px]"
+                    >
+                      {formatScore(final.category_scores[category.id] ?? null)}
+                    </td>
+                  ))}
+                  <td className="whitespace-nowrap px-3 py-2 text-right align-top text-[11px]">
+                    {formatScore(final.final_score)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2 text-center align-top text-[11px]">
+                    {final.letter_grade ? (
+                      <span className="inline-flex min-w-[28px] justify-center rounded-full bg-red-50 px-2 py-0.5 font-semibold text-red-700">
+                        {final.letter_grade}
+                      </span>
+                    ) : (
+                      <span className="text-slate-300">—</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-slate-200 bg-white px-4 py-2">
+        <div className="text-[11px] text-slate-500">
+          {summary.updates.length > 0 || errorCount > 0 ? (
+            <>
+              <span className="font-semibold text-amber-700">
+                {summary.updates.length} perubahan belum disimpan
+              </span>
+              {errorCount > 0 && (
+                <span className="text-red-600">
+                  {" "}
+                  • {errorCount} sel tidak valid
+                </span>
+              )}
+            </>
+          ) : (
+            "Klik sel lalu ketik. Enter/↑↓ pindah baris, Tab pindah kolom, " +
+            "Ctrl+Z urungkan, tempel langsung dari Excel."
+          )}
+          {error && <p className="mt-0.5 text-red-600">{error}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={history.length === 0 || saving}
+            className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50 disabled:opacity-40"
+          >
+            Urungkan
+          </button>
+          <button
+            type="button"
+            onClick={handleDiscard}
+            disabled={Object.keys(draft).length === 0 || saving}
+            className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50 disabled:opacity-40"
+          >
+            Batalkan perubahan
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={
+              saving || errorCount > 0 || summary.updates.length === 0
+            }
+            className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-40"
+          >
+            {saving ? "Menyimpan..." : "Simpan perubahan"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GradebookGrid;
@@ -0,0 +1,445 @@
+"use client";
+
+import React, { useState } from "react";
+import type {
+  GradeCategory,
+  GradeItemSetting,
+  GradingScheme,
+  LetterGradeBand,
+} from "@/lib/api";
+import {
+  DEFAULT_LETTER_SCALE,
+  GRADE_ITEM_KIND_LABELS,
+  createCategoryId,
+  getItemSetting,
+  setItemSetting,
+  validateGradingScheme,
+  type GradeItem,
+} from "@/lib/gradingScheme";
+
+interface GradingSchemeEditorProps {
+  /** Skema yang sedang berlaku; draft disalin saat modal dibuka */
+  scheme: GradingScheme;
+  items: GradeItem[];
+  saving: boolean;
+  /** Error dari backend saat menyimpan */
+  error: string | null;
+  onSave: (scheme: GradingScheme) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500";
+
+function toNumber(value: string): number {
+  return value.trim() === "" ? Number.NaN : Number(value);
+}
+
+/**
+ * Modal pengaturan skema penilaian kelas: kategori berbobot + buang nilai
+ * terendah, kategori & bobot tiap tugas/quiz/kolom manual, dan skala huruf
+ * mutu. Pasang hanya saat modal terbuka supaya draft selalu mulai dari
+ * skema terbaru.
+ */
+const GradingSchemeEditor: React.FC<GradingSchemeEditorProps> = ({
+  scheme,
+  items,
+  saving,
+  error,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<GradingScheme>(() => ({
+    categories: scheme.categories.map((row) => ({ ...row })),
+    // Simpan pengaturan semua item secara eksplisit supaya default
+    // "tugas"/"quiz" tidak berubah diam-diam saat kategori diganti
+    items: items.map((item) => ({
+      ...getItemSetting(scheme, item.kind, item.id),
+    })),
+    letter_scale: scheme.letter_scale.map((band) => ({ ...band })),
+  }));
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const totalWeight = draft.categories.reduce(
+    (sum, row) => sum + (Number.isFinite(row.weight) ? row.weight : 0),
+    0
+  );
+
+  const updateCategory = (index: number, patch: Partial<GradeCategory>) => {
+    setDraft((prev) => ({
+      ...prev,
+      categories: prev.categories.map((row, i) =>
+        i === index ? { ...row, ...patch } : row
+      ),
+    }));
+  };
+
+  const addCategory = () => {
+    setDraft((prev) => ({
+      ...prev,
+      categories: [
+        ...prev.categories,
+        {
+          id: createCategoryId("kategori", prev.categories),
+          name: "",
+          weight: 0,
+          drop_lowest: 0,
+        },
+      ],
+    }));
+  };
+
+  const removeCategory = (index: number) => {
+    setDraft((prev) => {
+      const removed = prev.categories[index];
+      return {
+        ...prev,
+        categories: prev.categories.filter((_, i) => i !== index),
+        items: prev.items.map((row) =>
+          row.category_id === removed?.id ? { ...row, category_id: null } : row
+        ),
+      };
+    });
+  };
+
+  const updateItem = (item: GradeItem, patch: Partial<GradeItemSetting>) => {
+    setDraft((prev) =>
+      setItemSetting(prev, {
+        ...getItemSetting(prev, item.kind, item.id),
+        ...patch,
+      })
+    );
+  };
+
+  const updateBand = (index: number, patch: Partial<LetterGradeBand>) => {
+    setDraft((prev) => ({
+      ...prev,
+      letter_scale: prev.letter_scale.map((row, i) =>
+        i === index ? { ...row, ...patch } : row
+      ),
+    }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const cleaned: GradingScheme = {
+      ...draft,
+      categories: draft.categories.map((row) => ({
+        ...row,
+        name: row.name.trim(),
+      })),
+      letter_scale: [...draft.letter_scale]
+        .map((band) => ({ ...band, letter: band.letter.trim() }))
+        .sort((a, b) => b.min_score - a.min_score),
+    };
+    const validationError = validateGradingScheme(cleaned);
+    if (validationError) {
+      setLocalError(validationError);
+      return;
+    }
+
+    setLocalError(null);
+    onSave(cleaned);
+  };
+
+  const shownError = localError ?? error;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-lg shadow-black/10"
+      >
+        <div className="flex items-start justify-between gap-3 border-b border-slate-100 px-4 py-3">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">
+              Skema Penilaian
+            </h2>
+            <p className="text-[11px] text-slate-500">
+              Nilai akhir = rata-rata tertimbang kategori. Tugas/quiz yang
+              belum dinilai dihitung 0 dan tidak ikut dibuang sebagai nilai
+              terendah.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[11px] text-slate-500 hover:text-slate-800"
+          >
+            Tutup
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-5 overflow-y-auto px-4 py-3">
+          {/* Kategori */}
+          <section>
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <h3 className="text-xs font-semibold text-slate-900">
+                Kategori
+              </h3>
+              <span
+                className={`text-[11px] font-medium ${
+                  Math.abs(totalWeight - 100) > 0.01
+                    ? "text-red-600"
+                    : "text-emerald-700"
+                }`}
+              >
+                Total bobot {Math.round(totalWeight * 100) / 100}%
+              </span>
+            </div>
+            <div className="grid grid-cols-[1fr_80px_110px_auto] items-center gap-2 text-[10px] font-medium text-slate-500">
+              <span>Nama</span>
+              <span>Bobot (%)</span>
+              <span>Buang terendah</span>
+              <span />
+            </div>
+            <div className="mt-1 flex flex-col gap-1.5">
+              {draft.categories.map((category, index) => (
+                <div
+                  key={category.id}
+                  className="grid grid-cols-[1fr_80px_110px_auto] items-center gap-2"
+                >
+                  <input
+                    value={category.name}
+                    onChange={(e) =>
+                      updateCategory(index, { name: e.target.value })
+                    }
+                    className={inputClass}
+                    placeholder="Misal: UTS"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="any"
+                    value={Number.isNaN(category.weight) ? "" : category.weight}
+                    onChange={(e) =>
+                      updateCategory(index, {
+                        weight: toNumber(e.target.value),
+                      })
+                    }
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={
+                      Number.isNaN(category.drop_lowest)
+                        ? ""
+                        : category.drop_lowest
+                    }
+                    onChange={(e) =>
+                      updateCategory(index, {
+                        drop_lowest: toNumber(e.target.value),
+                      })
+                    }
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeCategory(index)}
+                    className="text-[10px] text-red-600 hover:underline"
+                  >
+                    Hapus
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={addCategory}
+              className="mt-2 text-[11px] font-medium text-red-600 hover:underline"
+            >
+              + Tambah kategori
+            </button>
+          </section>
+
+          {/* Item */}
+          <section>
+            <h3 className="mb-2 text-xs font-semibold text-slate-900">
+              Item Nilai
+            </h3>
+            {items.length === 0 ? (
+              <p className="text-[11px] text-slate-500">
+                Belum ada tugas, quiz atau kolom nilai di kelas ini.
+              </p>
+            ) : (
+              <table className="min-w-full border-collapse text-[11px]">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-[10px] text-slate-500">
+                    <th className="py-1 pr-2 font-medium">Item</th>
+                    <th className="py-1 pr-2 font-medium">Kategori</th>
+                    <th className="w-20 py-1 font-medium">Bobot item</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item) => {
+                    const setting = getItemSetting(draft, item.kind, item.id);
+                    return (
+                      <tr
+                        key={`${item.kind}-${item.id}`}
+                        className="border-b border-slate-100"
+                      >
+                        <td className="py-1.5 pr-2">
+                          <span className="font-medium text-slate-900">
+                            {item.title}
+                          </span>
+                          <span className="ml-1 text-[10px] text-slate-500">
+                            {GRADE_ITEM_KIND_LABELS[item.kind]} • Maks{" "}
+                            {item.max_score}
+                          </span>
+                        </td>
+                        <td className="py-1.5 pr-2">
+                          <select
+                            value={setting.category_id ?? ""}
+                            onChange={(e) =>
+                              updateItem(item, {
+                                category_id: e.target.value || null,
+                              })
+                            }
+                            className={inputClass}
+                          >
+                            <option value="">Tidak dihitung</option>
+                            {draft.categories.map((category) => (
+                              <option key={category.id} value={category.id}>
+                                {category.name || "(tanpa nama)"}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-1.5">
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={
+                              Number.isNaN(setting.weight) ? "" : setting.weight
+                            }
+                            onChange={(e) =>
+                              updateItem(item, {
+                                weight: toNumber(e.target.value),
+                              })
+                            }
+                            className={inputClass}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            <p className="mt-1 text-[10px] text-slate-500">
+              Bobot item relatif terhadap item lain di kategori yang sama
+              (misal 2 = dihitung dua kali).
+            </p>
+          </section>
+
+          {/* Skala huruf */}
+          <section>
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <h3 className="text-xs font-semibold text-slate-900">
+                Skala huruf mutu
+              </h3>
+              <button
+                type="button"
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    letter_scale: DEFAULT_LETTER_SCALE.map((band) => ({
+                      ...band,
+                    })),
+                  }))
+                }
+                className="text-[10px] text-slate-500 hover:text-red-600"
+              >
+                Kembalikan default
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 sm:grid-cols-4">
+              {draft.letter_scale.map((band, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <input
+                    value={band.letter}
+                    onChange={(e) =>
+                      updateBand(index, { letter: e.target.value })
+                    }
+                    className={`${inputClass} w-12 text-center font-semibold`}
+                    aria-label={`Huruf mutu #${index + 1}`}
+                  />
+                  <span className="text-[10px] text-slate-500">≥</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="any"
+                    value={Number.isNaN(band.min_score) ? "" : band.min_score}
+                    onChange={(e) =>
+                      updateBand(index, { min_score: toNumber(e.target.value) })
+                    }
+                    className={`${inputClass} w-16`}
+                    aria-label={`Batas bawah huruf ${band.letter}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        letter_scale: prev.letter_scale.filter(
+                          (_, i) => i !== index
+                        ),
+                      }))
+                    }
+                    className="text-[10px] text-slate-400 hover:text-red-600"
+                    aria-label={`Hapus huruf ${band.letter}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                setDraft((prev) => ({
+                  ...prev,
+                  letter_scale: [
+                    ...prev.letter_scale,
+                    { letter: "", min_score: 0 },
+                  ],
+                }))
+              }
+              className="mt-2 text-[11px] font-medium text-red-600 hover:underline"
+            >
+              + Tambah huruf
+            </button>
+          </section>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 border-t border-slate-100 px-4 py-3">
+          <p className="text-[11px] text-red-600">{shownError}</p>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+            >
+              Batal
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-40"
+            >
+              {saving ? "Menyimpan..." : "Simpan skema"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default GradingSchemeEditor;
@@ -0,0 +1,329 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { isAbortError } from "@/lib/apiClient";
+import {
+  listBankQuestionTags,
+  listBankQuestions,
+  listTeacherCourseInstances,
+  type BankQuestion,
+  type BankQuestionQuery,
+  type CourseTemplateLite,
+  type QuestionDifficulty,
+  type QuestionType,
+} from "@/lib/api";
+import { DIFFICULTY_LABELS, getTeachingTemplates } from "@/lib/questionBank";
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from "@/lib/quizQuestions";
+import { extractErrorMessage } from "@/lib/utils";
+
+interface QuestionBankPickerProps {
+  open: boolean;
+  /** Soal bank yang sudah ada di draft quiz (ditandai, tetap bisa dipilih) */
+  usedBankQuestionIds: number[];
+  onInsert: (questions: BankQuestion[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal untuk menelusuri bank soal dosen lalu menyisipkan soal terpilih
+ * ke editor soal quiz.
+ */
+const QuestionBankPicker: React.FC<QuestionBankPickerProps> = ({
+  open,
+  usedBankQuestionIds,
+  onInsert,
+  onClose,
+}) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<CourseTemplateLite[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState<QuestionType | "">("");
+  const [difficultyFilter, setDifficultyFilter] = useState<
+    QuestionDifficulty | ""
+  >("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [templateFilter, setTemplateFilter] = useState("");
+
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  // Tag & daftar mata kuliah cukup dimuat sekali per buka modal
+  useEffect(() => {
+    if (!open) return;
+
+    const controller = new AbortController();
+
+    const loadOptions = async () => {
+      try {
+        const [tagList, courses] = await Promise.all([
+          listBankQuestionTags({ signal: controller.signal }),
+          listTeacherCourseInstances(undefined, { signal: controller.signal }),
+        ]);
+        setTags(tagList);
+        setTemplates(getTeachingTemplates(courses));
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        // Filter tetap bisa dipakai tanpa daftar tag / mata kuliah
+      }
+    };
+
+    void loadOptions();
+
+    return () => {
+      controller.abort();
+    };
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const controller = new AbortController();
+
+    const loadQuestions = async () => {
+      setLoading(true);
+      setError(null);
+
+      const query: BankQuestionQuery = {};
+      if (search.trim()) query.search = search.trim();
+      if (typeFilter) query.type = typeFilter;
+      if (difficultyFilter) query.difficulty = difficultyFilter;
+      if (tagFilter) query.tag = tagFilter;
+      if (templateFilter) query.course_template_id = Number(templateFilter);
+
+      try {
+        const data = await listBankQuestions(query, {
+          signal: controller.signal,
+        });
+        setQuestions(data);
+      } catch (err: unknown) {
+        if (isAbortError(err)) return;
+        setError(extractErrorMessage(err, "Gagal memuat bank soal."));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadQuestions();
+
+    return () => {
+      controller.abort();
+    };
+  }, [open, search, typeFilter, difficultyFilter, tagFilter, templateFilter]);
+
+  if (!open) return null;
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]
+    );
+  };
+
+  const handleInsert = () => {
+    const picked = questions.filter((q) => selectedIds.includes(q.id));
+    if (picked.length === 0) return;
+    onInsert(picked);
+    setSelectedIds([]);
+  };
+
+  const handleClose = () => {
+    setSelectedIds([]);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm px-4">
+      <div className="flex max-h-[85vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-lg shadow-black/10">
+        <div className="flex items-start justify-between gap-3 border-b border-slate-100 px-4 py-3">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">
+              Ambil dari Bank Soal
+            </h2>
+            <p className="text-[11px] text-slate-500">
+              Soal disalin ke quiz ini. Perubahan di quiz tidak mengubah bank
+              soal.{" "}
+              <Link
+                href="/teacher/question-bank"
+                className="text-red-600 hover:underline"
+              >
+                Kelola bank soal
+              </Link>
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            className="text-[11px] text-slate-500 hover:text-slate-800"
+          >
+            Tutup
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 border-b border-slate-100 px-4 py-3 sm:grid-cols-5">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Cari teks soal..."
+            className="col-span-2 rounded-full border border-slate-200 px-3 py-1 text-[11px] outline-none focus:border-red-500 sm:col-span-1"
+          />
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as QuestionType | "")}
+            className="rounded-full border border-slate-200 px-2 py-1 text-[11px] outline-none focus:border-red-500"
+          >
+            <option value="">Semua tipe</option>
+            {QUESTION_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {QUESTION_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={difficultyFilter}
+            onChange={(e) =>
+              setDifficultyFilter(e.target.value as QuestionDifficulty | "")
+            }
+            className="rounded-full border border-slate-200 px-2 py-1 text-[11px] outline-none focus:border-red-500"
+          >
+            <option value="">Semua kesulitan</option>
+            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            className="rounded-full border border-slate-200 px-2 py-1 text-[11px] outline-none focus:border-red-500"
+          >
+            <option value="">Semua tag</option>
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+          <select
+            value={templateFilter}
+            onChange={(e) => setTemplateFilter(e.target.value)}
+            className="rounded-full border border-slate-200 px-2 py-1 text-[11px] outline-none focus:border-red-500"
+          >
+            <option value="">Semua mata kuliah</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.code} — {template.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {error && (
+            <div className="mb-3 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-[11px] text-slate-500">Memuat bank soal...</p>
+          ) : questions.length === 0 ? (
+            <p className="text-[11px] text-slate-500">
+              Tidak ada soal yang cocok dengan filter.
+            </p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {questions.map((q) => {
+                const checked = selectedIds.includes(q.id);
+                const used = usedBankQuestionIds.includes(q.id);
+                return (
+                  <label
+                    key={q.id}
+                    className={`flex cursor-pointer items-start gap-2 rounded-xl border px-3 py-2 ${
+                      checked
+                        ? "border-red-300 bg-red-50/60"
+                        : "border-slate-200 bg-slate-50 hover:bg-slate-100"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      onChange={() => toggleSelected(q.id)}
+                      className="mt-0.5"
+                    />
+                    <div className="flex flex-1 flex-col gap-1">
+                      <div className="flex flex-wrap items-center gap-1.5 text-[10px]">
+                        <span className="font-medium text-slate-700">
+                          {QUESTION_TYPE_LABELS[q.type] ?? q.type}
+                        </span>
+                        <span className="text-slate-400">•</span>
+                        <span className="text-slate-500">{q.points} poin</span>
+                        {q.difficulty && (
+                          <span className="rounded-full bg-white px-2 py-0.5 text-slate-600 border border-slate-200">
+                            {DIFFICULTY_LABELS[q.difficulty]}
+                          </span>
+                        )}
+                        {q.course_template && (
+                          <span className="rounded-full bg-white px-2 py-0.5 text-slate-600 border border-slate-200">
+                            {q.course_template.code}
+                          </span>
+                        )}
+                        {q.tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="rounded-full bg-slate-200 px-2 py-0.5 text-slate-700"
+                          >
+                            #{tag}
+                          </span>
+                        ))}
+                        {used && (
+                          <span className="rounded-full bg-amber-50 px-2 py-0.5 text-amber-700 border border-amber-200">
+                            Sudah ada di quiz ini
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-[11px] text-slate-900 whitespace-pre-line">
+                        {q.text}
+                      </p>
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 border-t border-slate-100 px-4 py-3">
+          <span className="text-[11px] text-slate-500">
+            {selectedIds.length} soal dipilih
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+            >
+              Batal
+            </button>
+            <button
+              type="button"
+              disabled={selectedIds.length === 0}
+              onClick={handleInsert}
+              className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-40"
+            >
+              Sisipkan ke quiz
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankPicker;
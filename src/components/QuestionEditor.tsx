@@ -0,0 +1,352 @@
+"use client";
+
+import React from "react";
+import type { QuizQuestion } from "@/lib/api";
+import { createClientId } from "@/lib/quizQuestions";
+
+interface QuestionEditorProps {
+  question: QuizQuestion;
+  onChange: (question: QuizQuestion) => void;
+}
+
+const inputClass =
+  "rounded-full border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500";
+
+const addButtonClass =
+  "mt-2 inline-flex items-center rounded-full border border-slate-300 px-3 py-0.5 text-[10px] font-medium text-slate-700 hover:bg-slate-900 hover:text-white transition";
+
+function toNumberOrNull(value: string): number | null {
+  if (value.trim() === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Editor isi soal (teks + kunci jawaban) sesuai tipe soal. Tipe & poin
+ * diatur oleh komponen induk. Dipakai editor soal quiz dan bank soal.
+ */
+const QuestionEditor: React.FC<QuestionEditorProps> = ({
+  question: q,
+  onChange,
+}) => {
+  const update = (patch: Partial<QuizQuestion>) => {
+    onChange({ ...q, ...patch });
+  };
+
+  const options = q.options ?? [];
+  const pairs = q.matching_pairs ?? [];
+
+  const handleOptionChange = (index: number, text: string) => {
+    update({
+      options: options.map((opt, i) =>
+        i === index ? { ...opt, text } : opt
+      ),
+    });
+  };
+
+  const handleAddOption = () => {
+    update({ options: [...options, { id: createClientId("opt"), text: "" }] });
+  };
+
+  const handleRemoveOption = (index: number) => {
+    const nextOptions = options.filter((_, i) => i !== index);
+
+    if (q.type === "multiple_answer") {
+      update({
+        options: nextOptions,
+        correct_option_indexes: (q.correct_option_indexes ?? [])
+          .filter((idx) => idx !== index)
+          .map((idx) => (idx > index ? idx - 1 : idx)),
+      });
+      return;
+    }
+
+    let correctIndex = q.correct_option_index ?? null;
+    if (correctIndex !== null) {
+      if (index === correctIndex) {
+        correctIndex = nextOptions.length > 0 ? 0 : null;
+      } else if (index < correctIndex) {
+        correctIndex = correctIndex - 1;
+      }
+    }
+    update({ options: nextOptions, correct_option_index: correctIndex });
+  };
+
+  const toggleCorrect = (index: number) => {
+    if (q.type === "multiple_answer") {
+      const current = q.correct_option_indexes ?? [];
+      update({
+        correct_option_indexes: current.includes(index)
+          ? current.filter((idx) => idx !== index)
+          : [...current, index].sort((a, b) => a - b),
+      });
+    } else {
+      update({ correct_option_index: index });
+    }
+  };
+
+  const handlePairChange = (
+    index: number,
+    side: "left" | "right",
+    value: string
+  ) => {
+    update({
+      matching_pairs: pairs.map((pair, i) =>
+        i === index ? { ...pair, [side]: value } : pair
+      ),
+    });
+  };
+
+  const renderOptions = () => (
+    <div className="mt-2">
+      <p className="mb-1 text-[11px] font-medium text-slate-700">
+        Opsi jawaban
+        {q.type === "multiple_answer" && (
+          <span className="font-normal text-slate-500">
+            {" "}
+            (tandai semua jawaban benar)
+          </span>
+        )}
+      </p>
+      <div className="flex flex-col gap-1.5">
+        {options.map((opt, optIndex) => {
+          const isCorrect =
+            q.type === "multiple_answer"
+              ? (q.correct_option_indexes ?? []).includes(optIndex)
+              : q.correct_option_index === optIndex;
+          return (
+            <div key={opt.id ?? optIndex} className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => toggleCorrect(optIndex)}
+                className={`flex h-4 w-4 items-center justify-center border text-[9px] ${
+                  q.type === "multiple_answer" ? "rounded" : "rounded-full"
+                } ${
+                  isCorrect
+                    ? "border-emerald-500 bg-emerald-500 text-white"
+                    : "border-slate-300 bg-white text-slate-400"
+                }`}
+                title="Tandai sebagai jawaban benar"
+              >
+                ✓
+              </button>
+              <input
+                type="text"
+                value={opt.text ?? ""}
+                onChange={(e) => handleOptionChange(optIndex, e.target.value)}
+                className={`flex-1 ${inputClass}`}
+                placeholder={`Opsi ${optIndex + 1}`}
+              />
+              <button
+                type="button"
+                onClick={() => handleRemoveOption(optIndex)}
+                className="text-[10px] text-slate-400 hover:text-red-600"
+                title="Hapus opsi"
+              >
+                Hapus
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <button
+        type="button"
+        onClick={handleAddOption}
+        className={addButtonClass}
+      >
+        + Tambah opsi
+      </button>
+      {q.type === "multiple_answer" && (
+        <label className="mt-2 flex items-center gap-2 text-[11px] text-slate-600">
+          <input
+            type="checkbox"
+            checked={q.partial_credit ?? true}
+            onChange={(e) => update({ partial_credit: e.target.checked })}
+          />
+          Nilai parsial: tiap opsi benar menambah nilai, opsi salah
+          menguranginya (minimal 0)
+        </label>
+      )}
+    </div>
+  );
+
+  const renderTypeEditor = () => {
+    switch (q.type) {
+      case "multiple_choice":
+      case "multiple_answer":
+        return renderOptions();
+
+      case "true_false":
+        return (
+          <div className="mt-2 flex items-center gap-2">
+            <span className="text-[11px] font-medium text-slate-700">
+              Jawaban benar:
+            </span>
+            {[
+              { value: true, label: "Benar" },
+              { value: false, label: "Salah" },
+            ].map((item) => (
+              <button
+                key={item.label}
+                type="button"
+                onClick={() => update({ correct_boolean: item.value })}
+                className={`rounded-full border px-3 py-0.5 text-[11px] ${
+                  q.correct_boolean === item.value
+                    ? "border-emerald-500 bg-emerald-500 text-white"
+                    : "border-slate-300 bg-white text-slate-700 hover:bg-slate-100"
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        );
+
+      case "matching":
+        return (
+          <div className="mt-2">
+            <p className="mb-1 text-[11px] font-medium text-slate-700">
+              Pasangan jawaban{" "}
+              <span className="font-normal text-slate-500">
+                (kolom kanan diacak saat ditampilkan ke mahasiswa)
+              </span>
+            </p>
+            <div className="flex flex-col gap-1.5">
+              {pairs.map((pair, pairIndex) => (
+                <div
+                  key={pair.id ?? pairIndex}
+                  className="flex items-center gap-2"
+                >
+                  <input
+                    type="text"
+                    value={pair.left}
+                    onChange={(e) =>
+                      handlePairChange(pairIndex, "left", e.target.value)
+                    }
+                    className={`flex-1 ${inputClass}`}
+                    placeholder={`Pernyataan ${pairIndex + 1}`}
+                  />
+                  <span className="text-[11px] text-slate-400">→</span>
+                  <input
+                    type="text"
+                    value={pair.right}
+                    onChange={(e) =>
+                      handlePairChange(pairIndex, "right", e.target.value)
+                    }
+                    className={`flex-1 ${inputClass}`}
+                    placeholder={`Pasangan ${pairIndex + 1}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      update({
+                        matching_pairs: pairs.filter(
+                          (_, i) => i !== pairIndex
+                        ),
+                      })
+                    }
+                    className="text-[10px] text-slate-400 hover:text-red-600"
+                    title="Hapus pasangan"
+                  >
+                    Hapus
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                update({
+                  matching_pairs: [
+                    ...pairs,
+                    { id: createClientId("pair"), left: "", right: "" },
+                  ],
+                })
+              }
+              className={addButtonClass}
+            >
+              + Tambah pasangan
+            </button>
+          </div>
+        );
+
+      case "numeric":
+        return (
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1 text-[11px] text-slate-600">
+              <span>Jawaban</span>
+              <input
+                type="number"
+                step="any"
+                value={q.numeric_answer ?? ""}
+                onChange={(e) =>
+                  update({ numeric_answer: toNumberOrNull(e.target.value) })
+                }
+                className={`w-28 ${inputClass}`}
+                placeholder="Misal: 3.14"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-[11px] text-slate-600">
+              <span>Toleransi ±</span>
+              <input
+                type="number"
+                step="any"
+                min={0}
+                value={q.numeric_tolerance ?? ""}
+                onChange={(e) =>
+                  update({ numeric_tolerance: toNumberOrNull(e.target.value) })
+                }
+                className={`w-20 ${inputClass}`}
+                placeholder="0"
+              />
+            </label>
+          </div>
+        );
+
+      case "essay":
+        return (
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1 text-[11px] text-slate-600">
+              <span>Batas kata (opsional)</span>
+              <input
+                type="number"
+                min={1}
+                value={q.essay_word_limit ?? ""}
+                onChange={(e) =>
+                  update({ essay_word_limit: toNumberOrNull(e.target.value) })
+                }
+                className={`w-20 ${inputClass}`}
+              />
+            </label>
+            <span className="text-[10px] text-slate-500">
+              Jawaban esai dinilai manual oleh dosen.
+            </span>
+          </div>
+        );
+
+      case "short_answer":
+        return (
+          <p className="mt-2 text-[10px] text-slate-500">
+            Jawaban isian singkat dinilai manual oleh dosen.
+          </p>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div>
+      <textarea
+        value={q.text ?? ""}
+        onChange={(e) => update({ text: e.target.value })}
+        className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-2 py-1.5 text-[11px] text-slate-900 outline-none focus:border-red-500"
+        placeholder="Teks soal..."
+      />
+      {renderTypeEditor()}
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,110 @@
+"use client";
+
+import React, { useState } from "react";
+import type { QuizAnswerGrade } from "@/lib/api";
+import { formatDateTime } from "@/lib/utils";
+
+interface QuizAnswerGradeFormProps {
+  maxPoints: number;
+  grade: QuizAnswerGrade | null;
+  saving: boolean;
+  /** Label tombol simpan, misal "Simpan & lanjut" di antrian penilaian */
+  submitLabel?: string;
+  onSave: (points: number | null, feedback: string | null) => void;
+}
+
+/**
+ * Form poin + komentar untuk satu jawaban isian singkat / esai. Pasang
+ * `key` per jawaban di komponen induk supaya isian ter-reset saat pindah.
+ */
+const QuizAnswerGradeForm: React.FC<QuizAnswerGradeFormProps> = ({
+  maxPoints,
+  grade,
+  saving,
+  submitLabel = "Simpan nilai",
+  onSave,
+}) => {
+  const [points, setPoints] = useState<string>(
+    grade ? String(grade.points) : ""
+  );
+  const [feedback, setFeedback] = useState<string>(grade?.feedback ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = points.trim() === "" ? null : Number(points);
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      setError("Poin harus angka 0 atau lebih.");
+      return;
+    }
+    if (value !== null && value > maxPoints) {
+      setError(`Poin maksimal untuk soal ini ${maxPoints}.`);
+      return;
+    }
+
+    setError(null);
+    const trimmed = feedback.trim();
+    onSave(value, trimmed.length > 0 ? trimmed : null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1 text-[11px] text-slate-600">
+          <span>Poin</span>
+          <input
+            type="number"
+            min={0}
+            max={maxPoints}
+            step="any"
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            className="w-20 rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500"
+            placeholder="Nilai"
+          />
+          <span className="text-slate-400">/ {maxPoints}</span>
+        </label>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setPoints("0")}
+            className="rounded-full border border-slate-200 px-2 py-0.5 text-[10px] text-slate-600 hover:bg-slate-100"
+          >
+            0
+          </button>
+          <button
+            type="button"
+            onClick={() => setPoints(String(maxPoints))}
+            className="rounded-full border border-slate-200 px-2 py-0.5 text-[10px] text-slate-600 hover:bg-slate-100"
+          >
+            Penuh
+          </button>
+        </div>
+        {grade && (
+          <span className="text-[10px] text-slate-400">
+            Dinilai {formatDateTime(grade.graded_at)}
+          </span>
+        )}
+      </div>
+      <textarea
+        value={feedback}
+        onChange={(e) => setFeedback(e.target.value)}
+        className="min-h-[56px] w-full rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500"
+        placeholder="Komentar untuk mahasiswa (opsional)..."
+      />
+      {error && <p className="text-[10px] text-red-600">{error}</p>}
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {saving ? "Menyimpan..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default QuizAnswerGradeForm;
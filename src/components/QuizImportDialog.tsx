@@ -0,0 +1,346 @@
+"use client";
+
+import React, { useState } from "react";
+import type { QuizQuestion } from "@/lib/api";
+import { XLSX_MIME_TYPE, downloadFile } from "@/lib/download";
+import { QUESTION_TYPE_LABELS } from "@/lib/quizQuestions";
+import {
+  QUIZ_TRANSFER_FORMATS,
+  QUIZ_TRANSFER_FORMAT_LABELS,
+  getQuizTemplateRows,
+  parseAiken,
+  parseGift,
+  readQuizWorkbook,
+  writeQuizWorkbook,
+  type QuizImportResult,
+  type QuizTransferFormat,
+} from "@/lib/quizTransfer";
+import { extractErrorMessage } from "@/lib/utils";
+
+interface QuizImportDialogProps {
+  open: boolean;
+  onImport: (questions: QuizQuestion[]) => void;
+  onClose: () => void;
+}
+
+const FORMAT_HINTS: Record<QuizTransferFormat, string> = {
+  gift:
+    "Soal dipisah baris kosong, jawaban di dalam {...}: =benar ~salah, " +
+    "{T}/{F}, {#angka:toleransi}, {=kiri -> kanan}, atau {} untuk esai.",
+  aiken:
+    "Teks soal, opsi A. / B. / C., lalu baris ANSWER: huruf. Hanya pilihan " +
+    "ganda.",
+  xlsx:
+    "Isi sheet pertama sesuai template: satu baris per soal, kunci berupa " +
+    "huruf opsi, Benar/Salah, atau angka.",
+};
+
+/**
+ * Modal impor soal dari GIFT, Aiken atau Excel. Hasil parsing ditampilkan
+ * sebagai pratinjau; hanya soal valid yang dicentang yang masuk ke draft
+ * quiz.
+ */
+const QuizImportDialog: React.FC<QuizImportDialogProps> = ({
+  open,
+  onImport,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<QuizTransferFormat>("gift");
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<QuizImportResult | null>(null);
+  const [excluded, setExcluded] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!open) return null;
+
+  const showResult = (next: QuizImportResult) => {
+    setResult(next);
+    setExcluded([]);
+    setError(
+      next.questions.length === 0 && next.problems.length === 0
+        ? "Tidak ada soal yang terbaca."
+        : null
+    );
+  };
+
+  const handleFormatChange = (next: QuizTransferFormat) => {
+    setFormat(next);
+    setResult(null);
+    setError(null);
+  };
+
+  const handlePreviewText = () => {
+    if (!text.trim()) {
+      setError("Tempel teks soal atau pilih file terlebih dahulu.");
+      return;
+    }
+    showResult(format === "gift" ? parseGift(text) : parseAiken(text));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      const data = evt.target?.result;
+      if (!data) {
+        setError("Gagal membaca file.");
+        return;
+      }
+      try {
+        if (data instanceof ArrayBuffer) {
+          showResult(readQuizWorkbook(data));
+        } else {
+          setText(data);
+          showResult(format === "gift" ? parseGift(data) : parseAiken(data));
+        }
+      } catch (err: unknown) {
+        setError(extractErrorMessage(err, "Gagal memproses file."));
+      }
+    };
+
+    if (format === "xlsx") {
+      reader.readAsArrayBuffer(file);
+    } else {
+      reader.readAsText(file);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadFile(
+      writeQuizWorkbook(getQuizTemplateRows()),
+      "template_soal_quiz.xlsx",
+      XLSX_MIME_TYPE
+    );
+  };
+
+  const items = result?.questions ?? [];
+  const selected = items.filter(
+    (item, index) => item.error === null && !excluded.includes(index)
+  );
+  const invalidCount = items.filter((item) => item.error !== null).length;
+
+  const toggleExcluded = (index: number) => {
+    setExcluded((prev) =>
+      prev.includes(index)
+        ? prev.filter((item) => item !== index)
+        : [...prev, index]
+    );
+  };
+
+  const handleClose = () => {
+    setText("");
+    setResult(null);
+    setExcluded([]);
+    setError(null);
+    onClose();
+  };
+
+  const handleImport = () => {
+    if (selected.length === 0) return;
+    onImport(selected.map((item) => item.question));
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm px-4">
+      <div className="flex max-h-[85vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-lg shadow-black/10">
+        <div className="flex items-start justify-between gap-3 border-b border-slate-100 px-4 py-3">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">
+              Impor Soal
+            </h2>
+            <p className="text-[11px] text-slate-500">
+              Soal ditambahkan ke draft quiz; periksa lalu klik &quot;Simpan
+              Soal&quot; untuk menyimpan.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            className="text-[11px] text-slate-500 hover:text-slate-800"
+          >
+            Tutup
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2 border-b border-slate-100 px-4 py-3">
+          <div className="flex flex-wrap items-center gap-1.5">
+            {QUIZ_TRANSFER_FORMATS.map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => handleFormatChange(key)}
+                className={`rounded-full border px-3 py-1 text-[11px] font-medium transition ${
+                  format === key
+                    ? "border-red-600 bg-red-600 text-white"
+                    : "border-slate-300 text-slate-700 hover:bg-slate-100"
+                }`}
+              >
+                {QUIZ_TRANSFER_FORMAT_LABELS[key]}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500">{FORMAT_HINTS[format]}</p>
+
+          {format === "xlsx" ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="file"
+                accept=".xlsx,.xls"
+                onChange={handleFileChange}
+                className="text-[11px]"
+              />
+              <button
+                type="button"
+                onClick={handleDownloadTemplate}
+                className="text-[11px] text-red-600 hover:underline"
+              >
+                Unduh template
+              </button>
+            </div>
+          ) : (
+            <>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="min-h-[96px] w-full rounded-lg border border-slate-200 bg-white px-2 py-1 font-mono text-[11px] text-slate-900 outline-none focus:border-red-500"
+                placeholder={
+                  format === "gift"
+                    ? "Ibukota Indonesia? {=Jakarta ~Bandung ~Surabaya}"
+                    : "Ibukota Indonesia?\nA. Jakarta\nB. Bandung\nANSWER: A"
+                }
+              />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <input
+                  type="file"
+                  accept=".txt,.gift"
+                  onChange={handleFileChange}
+                  className="text-[11px]"
+                />
+                <button
+                  type="button"
+                  onClick={handlePreviewText}
+                  className="inline-flex items-center rounded-full border border-slate-300 px-3 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-900 hover:text-white transition"
+                >
+                  Pratinjau
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {error && (
+            <div className="mb-3 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-[11px] text-red-700">
+              {error}
+            </div>
+          )}
+
+          {result && result.problems.length > 0 && (
+            <div className="mb-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-[11px] text-amber-800">
+              <p className="font-semibold">
+                {result.problems.length} bagian tidak terbaca:
+              </p>
+              <ul className="mt-1 list-disc pl-4">
+                {result.problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!result ? (
+            <p className="text-[11px] text-slate-500">
+              Pilih format, lalu tempel teks atau pilih file untuk melihat
+              pratinjau soal.
+            </p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {items.map((item, index) => {
+                const valid = item.error === null;
+                const checked = valid && !excluded.includes(index);
+                return (
+                  <label
+                    key={`${item.source}-${index}`}
+                    className={`flex items-start gap-2 rounded-xl border px-3 py-2 ${
+                      !valid
+                        ? "border-red-200 bg-red-50/60"
+                        : checked
+                        ? "border-red-300 bg-red-50/40"
+                        : "border-slate-200 bg-slate-50"
+                    } ${valid ? "cursor-pointer" : ""}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={!valid}
+                      onChange={() => toggleExcluded(index)}
+                      className="mt-0.5"
+                    />
+                    <div className="flex flex-1 flex-col gap-1">
+                      <div className="flex flex-wrap items-center gap-1.5 text-[10px]">
+                        <span className="font-medium text-slate-700">
+                          {QUESTION_TYPE_LABELS[item.question.type]}
+                        </span>
+                        <span className="text-slate-400">•</span>
+                        <span className="text-slate-500">
+                          {item.question.points} poin
+                        </span>
+                        <span className="text-slate-400">•</span>
+                        <span className="text-slate-400">{item.source}</span>
+                      </div>
+                      <p className="whitespace-pre-line text-[11px] text-slate-900">
+                        {item.question.text || (
+                          <span className="italic text-slate-400">
+                            (tanpa teks)
+                          </span>
+                        )}
+                      </p>
+                      {item.error && (
+                        <p className="text-[10px] text-red-600">{item.error}</p>
+                      )}
+                      {item.note && (
+                        <p className="text-[10px] text-amber-700">
+                          {item.note}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 border-t border-slate-100 px-4 py-3">
+          <span className="text-[11px] text-slate-500">
+            {selected.length} soal dipilih
+            {invalidCount > 0 && ` • ${invalidCount} soal tidak valid`}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+            >
+              Batal
+            </button>
+            <button
+              type="button"
+              disabled={selected.length === 0}
+              onClick={handleImport}
+              className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-40"
+            >
+              Tambahkan {selected.length} soal
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizImportDialog;
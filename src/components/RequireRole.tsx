@@ -0,0 +1,55 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth, type UserRole } from "@/context/AuthContext";
+import { getGuardRedirect, toSessionHint } from "@/lib/authGuard";
+
+interface RequireRoleProps {
+  role: UserRole;
+  /** Teks di bawah spinner selama sesi dicek */
+  loadingLabel: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Guard client untuk layout per role. Proxy sudah menangani kasus umum
+ * sebelum render; komponen ini menangani sisanya (cookie basi, sesi habis
+ * di tengah jalan, force_password_change yang baru di-set backend).
+ */
+const RequireRole: React.FC<RequireRoleProps> = ({
+  role,
+  loadingLabel,
+  children,
+}) => {
+  const { user, initialized } = useAuth();
+  const router = useRouter();
+
+  const isAllowed =
+    initialized && getGuardRedirect(toSessionHint(user), role) === null;
+
+  useEffect(() => {
+    if (!initialized) return;
+
+    const returnTo = `${window.location.pathname}${window.location.search}`;
+    const target = getGuardRedirect(toSessionHint(user), role, returnTo);
+    if (target) {
+      router.replace(target);
+    }
+  }, [user, initialized, role, router]);
+
+  if (!isAllowed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 text-slate-900">
+        <div className="flex flex-col items-center gap-3">
+          <div className="h-8 w-8 rounded-full border-2 border-red-600 border-t-transparent animate-spin" />
+          <p className="text-sm text-slate-500">{loadingLabel}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
@@ -0,0 +1,326 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Rubric, RubricCriterion, RubricLevel } from "@/lib/api";
+import {
+  createRubricCriterion,
+  createRubricId,
+  getRubricMaxScore,
+  validateRubric,
+} from "@/lib/rubric";
+
+interface RubricEditorProps {
+  /** Rubrik yang sedang berlaku (null = belum ada); disalin saat dibuka */
+  rubric: Rubric | null;
+  /** Jumlah submission yang sudah dinilai, untuk catatan hitung ulang */
+  gradedCount: number;
+  saving: boolean;
+  /** Error dari backend saat menyimpan */
+  error: string | null;
+  onSave: (rubric: Rubric) => void;
+  /** Hapus rubrik; konfirmasi ditangani halaman */
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-900 outline-none focus:border-red-500";
+
+function toNumber(value: string): number {
+  return value.trim() === "" ? Number.NaN : Number(value);
+}
+
+function toOptionalText(value: string | null): string | null {
+  const text = value?.trim() ?? "";
+  return text ? text : null;
+}
+
+/**
+ * Modal penyusunan rubrik tugas: kriteria beserta tingkat capaian dan
+ * poinnya. Pasang hanya saat modal terbuka supaya draft selalu mulai dari
+ * rubrik terbaru.
+ */
+const RubricEditor: React.FC<RubricEditorProps> = ({
+  rubric,
+  gradedCount,
+  saving,
+  error,
+  onSave,
+  onRemove,
+  onClose,
+}) => {
+  const [criteria, setCriteria] = useState<RubricCriterion[]>(() =>
+    rubric
+      ? rubric.criteria.map((criterion) => ({
+          ...criterion,
+          levels: criterion.levels.map((level) => ({ ...level })),
+        }))
+      : [createRubricCriterion([])]
+  );
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const draft: Rubric = { criteria };
+  const maxScore = getRubricMaxScore(draft);
+
+  const updateCriterion = (
+    index: number,
+    patch: Partial<RubricCriterion>
+  ) => {
+    setCriteria((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...patch } : row))
+    );
+  };
+
+  const updateLevel = (
+    criterionIndex: number,
+    levelIndex: number,
+    patch: Partial<RubricLevel>
+  ) => {
+    setCriteria((prev) =>
+      prev.map((row, i) =>
+        i === criterionIndex
+          ? {
+              ...row,
+              levels: row.levels.map((level, j) =>
+                j === levelIndex ? { ...level, ...patch } : level
+              ),
+            }
+          : row
+      )
+    );
+  };
+
+  const addLevel = (criterionIndex: number) => {
+    setCriteria((prev) =>
+      prev.map((row, i) =>
+        i === criterionIndex
+          ? {
+              ...row,
+              levels: [
+                ...row.levels,
+                {
+                  id: createRubricId("l", row.levels),
+                  label: "",
+                  points: 0,
+                  description: null,
+                },
+              ],
+            }
+          : row
+      )
+    );
+  };
+
+  const removeLevel = (criterionIndex: number, levelIndex: number) => {
+    setCriteria((prev) =>
+      prev.map((row, i) =>
+        i === criterionIndex
+          ? { ...row, levels: row.levels.filter((_, j) => j !== levelIndex) }
+          : row
+      )
+    );
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const cleaned: Rubric = {
+      criteria: criteria.map((criterion) => ({
+        ...criterion,
+        title: criterion.title.trim(),
+        description: toOptionalText(criterion.description),
+        levels: criterion.levels.map((level) => ({
+          ...level,
+          label: level.label.trim(),
+          description: toOptionalText(level.description),
+        })),
+      })),
+    };
+    const validationError = validateRubric(cleaned);
+    if (validationError) {
+      setLocalError(validationError);
+      return;
+    }
+
+    setLocalError(null);
+    onSave(cleaned);
+  };
+
+  const shownError = localError ?? error;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 backdrop-blur-sm px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-2xl bg-white shadow-lg shadow-black/10"
+      >
+        <div className="flex items-start justify-between gap-3 border-b border-slate-100 px-4 py-3">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">
+              Rubrik Penilaian
+            </h2>
+            <p className="text-[11px] text-slate-500">
+              Nilai maksimal tugas = jumlah poin tertinggi tiap kriteria
+              (sekarang {maxScore}).
+              {gradedCount > 0 &&
+                " Nilai yang sudah diisi lewat rubrik dihitung ulang."}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-[11px] text-slate-500 hover:text-slate-800"
+          >
+            Tutup
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-3 overflow-y-auto px-4 py-3">
+          {criteria.map((criterion, index) => (
+            <section
+              key={criterion.id}
+              className="rounded-xl border border-slate-200 p-3"
+            >
+              <div className="grid grid-cols-[1fr_auto] items-start gap-2">
+                <div className="space-y-1.5">
+                  <input
+                    value={criterion.title}
+                    onChange={(e) =>
+                      updateCriterion(index, { title: e.target.value })
+                    }
+                    className={`${inputClass} font-semibold`}
+                    placeholder="Misal: Kelengkapan flowchart"
+                    aria-label={`Judul kriteria #${index + 1}`}
+                  />
+                  <input
+                    value={criterion.description ?? ""}
+                    onChange={(e) =>
+                      updateCriterion(index, { description: e.target.value })
+                    }
+                    className={inputClass}
+                    placeholder="Deskripsi kriteria (opsional)"
+                    aria-label={`Deskripsi kriteria #${index + 1}`}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setCriteria((prev) => prev.filter((_, i) => i !== index))
+                  }
+                  className="text-[10px] text-red-600 hover:underline"
+                >
+                  Hapus
+                </button>
+              </div>
+
+              <div className="mt-2 grid grid-cols-[1fr_70px_1.5fr_auto] items-center gap-2 text-[10px] font-medium text-slate-500">
+                <span>Tingkat capaian</span>
+                <span>Poin</span>
+                <span>Deskripsi</span>
+                <span />
+              </div>
+              <div className="mt-1 flex flex-col gap-1.5">
+                {criterion.levels.map((level, levelIndex) => (
+                  <div
+                    key={level.id}
+                    className="grid grid-cols-[1fr_70px_1.5fr_auto] items-center gap-2"
+                  >
+                    <input
+                      value={level.label}
+                      onChange={(e) =>
+                        updateLevel(index, levelIndex, {
+                          label: e.target.value,
+                        })
+                      }
+                      className={inputClass}
+                      placeholder="Misal: Baik"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={Number.isNaN(level.points) ? "" : level.points}
+                      onChange={(e) =>
+                        updateLevel(index, levelIndex, {
+                          points: toNumber(e.target.value),
+                        })
+                      }
+                      className={inputClass}
+                    />
+                    <input
+                      value={level.description ?? ""}
+                      onChange={(e) =>
+                        updateLevel(index, levelIndex, {
+                          description: e.target.value,
+                        })
+                      }
+                      className={inputClass}
+                      placeholder="Opsional"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeLevel(index, levelIndex)}
+                      className="text-[10px] text-slate-400 hover:text-red-600"
+                      aria-label={`Hapus tingkat ${level.label}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => addLevel(index)}
+                className="mt-2 text-[11px] font-medium text-red-600 hover:underline"
+              >
+                + Tambah tingkat
+              </button>
+            </section>
+          ))}
+
+          <button
+            type="button"
+            onClick={() =>
+              setCriteria((prev) => [...prev, createRubricCriterion(prev)])
+            }
+            className="text-[11px] font-medium text-red-600 hover:underline"
+          >
+            + Tambah kriteria
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 border-t border-slate-100 px-4 py-3">
+          <p className="text-[11px] text-red-600">{shownError}</p>
+          <div className="flex items-center gap-2">
+            {rubric && (
+              <button
+                type="button"
+                onClick={onRemove}
+                disabled={saving}
+                className="text-[11px] text-slate-500 hover:text-red-600 disabled:opacity-40"
+              >
+                Hapus rubrik
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="inline-flex items-center rounded-full border border-slate-200 bg-white px-3 py-1.5 text-[11px] text-slate-700 hover:bg-slate-50"
+            >
+              Batal
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center rounded-full bg-red-600 px-3 py-1.5 text-[11px] font-semibold text-white shadow-sm hover:bg-red-700 disabled:opacity-40"
+            >
+              {saving ? "Menyimpan..." : "Simpan rubrik"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RubricEditor;
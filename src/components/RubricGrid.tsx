@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+import type { Rubric, RubricSelection } from "@/lib/api";
+import {
+  computeRubricScore,
+  findRubricLevel,
+  getRubricMaxScore,
+} from "@/lib/rubric";
+
+interface RubricGridProps {
+  rubric: Rubric;
+  selection: RubricSelection | null | undefined;
+  /** Tanpa handler, grid hanya menampilkan (tampilan mahasiswa) */
+  onSelect?: (criterionId: string, levelId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Rubrik sebagai grid kriteria × tingkat capaian. Dosen menilai dengan
+ * mengklik sel; mahasiswa melihat sel yang dipilih dosen.
+ */
+const RubricGrid: React.FC<RubricGridProps> = ({
+  rubric,
+  selection,
+  onSelect,
+  disabled = false,
+}) => {
+  const score = computeRubricScore(rubric, selection);
+
+  return (
+    <div className="space-y-2 text-[11px]">
+      {rubric.criteria.map((criterion) => {
+        const selected = findRubricLevel(criterion, selection);
+        return (
+          <div
+            key={criterion.id}
+            className="grid gap-2 sm:grid-cols-[180px_1fr]"
+          >
+            <div>
+              <p className="font-semibold text-slate-900">{criterion.title}</p>
+              {criterion.description && (
+                <p className="text-[10px] text-slate-500">
+                  {criterion.description}
+                </p>
+              )}
+              <p className="mt-0.5 text-[10px] text-slate-500">
+                {selected ? `${selected.points} poin` : "Belum dipilih"}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {criterion.levels.map((level) => {
+                const isSelected = selected?.id === level.id;
+                const className = `flex min-w-[110px] flex-1 flex-col rounded-xl border px-2.5 py-1.5 text-left ${
+                  isSelected
+                    ? "border-red-500 bg-red-50 text-red-800"
+                    : "border-slate-200 bg-white text-slate-700"
+                }`;
+                const content = (
+                  <>
+                    <span className="flex items-center justify-between gap-2 font-medium">
+                      <span>{level.label}</span>
+                      <span className="text-[10px]">{level.points}</span>
+                    </span>
+                    {level.description && (
+                      <span className="mt-0.5 text-[10px] text-slate-500">
+                        {level.description}
+                      </span>
+                    )}
+                  </>
+                );
+
+                return onSelect ? (
+                  <button
+                    key={level.id}
+                    type="button"
+                    disabled={disabled}
+                    aria-pressed={isSelected}
+                    onClick={() => onSelect(criterion.id, level.id)}
+                    className={`${className} hover:border-red-400 disabled:cursor-not-allowed disabled:opacity-60`}
+                  >
+                    {content}
+                  </button>
+                ) : (
+                  <div key={level.id} className={className}>
+                    {content}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-right text-[11px] font-semibold text-slate-900">
+        Total rubrik: {score ?? "—"} / {getRubricMaxScore(rubric)}
+      </p>
+    </div>
+  );
+};
+
+export default RubricGrid;
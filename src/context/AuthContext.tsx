@@ -9,36 +9,27 @@ import {
   type ReactNode,
 } from "react";
 import {
-  apiGet,
-  apiPost,
   clearAuthToken,
   getAuthToken,
+  isCookieAuthMode,
+  onSessionExpired,
   setAuthToken,
   type ApiError,
 } from "../lib/apiClient";
+import {
+  getMe,
+  login as loginRequest,
+  logout as logoutRequest,
+  type AuthUser,
+} from "../lib/api";
+import { writeSessionHint } from "../lib/authGuard";
+import { clearQueryCache } from "../lib/queryCache";
 
-export type UserRole = "superadmin" | "dosen" | "mahasiswa";
-
-export type UserStatus = "active" | "inactive";
-
-export interface AuthUser {
-  id: number;
-  name: string;
-  email: string | null;
-  username: string;
-  nim: string | null;
-  role: UserRole;
-  status: UserStatus;
-  force_password_change: boolean;
-}
-
-interface LoginResponse {
-  token: string;
-  user: AuthUser;
-}
+export type { AuthUser, UserRole, UserStatus } from "../lib/api";
 
 interface AuthContextValue {
   user: AuthUser | null;
+  /** Selalu null di mode cookie (token ada di cookie HttpOnly) */
   token: string | null;
   loading: boolean;
   initialized: boolean;
@@ -55,13 +46,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState<boolean>(false);
   const [initialized, setInitialized] = useState<boolean>(false);
 
-  // Inisialisasi: cek token di localStorage, lalu hit /api/auth/me
+  // Inisialisasi: cek token di localStorage, lalu hit /api/auth/me.
+  // Mode cookie: token tidak terlihat dari JS, jadi langsung cek /me.
   useEffect(() => {
     let isMounted = true;
 
     async function initAuth() {
       const existingToken = getAuthToken();
-      if (!existingToken) {
+      if (!existingToken && !isCookieAuthMode) {
         if (isMounted) {
           setInitialized(true);
         }
@@ -72,7 +64,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setLoading(true);
 
       try {
-        const me = await apiGet<AuthUser>("/api/auth/me");
+        // Token lama yang invalid cukup dibersihkan, tidak perlu redirect
+        const me = await getMe({ skipAuthRefresh: true });
         if (isMounted) {
           setUser(me);
         }
@@ -98,17 +91,39 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  // Cookie lms_session dipakai proxy untuk redirect sebelum render;
+  // selalu disamakan dengan user yang sedang login
+  useEffect(() => {
+    if (!initialized) return;
+    writeSessionHint(user);
+  }, [user, initialized]);
+
+  // Sesi habis di tengah pemakaian (401 yang gagal di-refresh) → reset state
+  useEffect(() => {
+    return onSessionExpired(() => {
+      clearQueryCache();
+      writeSessionHint(null);
+      setToken(null);
+      setUser(null);
+    });
+  }, []);
+
   async function login(username: string, password: string): Promise<void> {
     setLoading(true);
     try {
-      const res = await apiPost<LoginResponse>(
-        "/api/auth/login",
-        { username, password },
-        { withAuth: false }
-      );
-
-      setAuthToken(res.token);
-      setToken(res.token);
+      const res = await loginRequest(username, password);
+
+      clearQueryCache();
+      if (!isCookieAuthMode) {
+        if (!res.token) {
+          throw new Error("Token tidak ditemukan di response login.");
+        }
+        setAuthToken(res.token);
+      }
+      // Langsung ditulis (tidak menunggu effect) karena halaman login
+      // biasanya navigasi ke dashboard tepat setelah ini
+      writeSessionHint(res.user);
+      setToken(res.token ?? null);
       setUser(res.user);
     } catch (error: unknown) {
       // lempar lagi dengan pesan lebih rapi
@@ -141,11 +156,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   async function logout(): Promise<void> {
     setLoading(true);
     try {
-      await apiPost<unknown>("/api/auth/logout");
+      await logoutRequest();
     } catch {
       // kalau gagal tetap kita clear lokalnya
     } finally {
       clearAuthToken();
+      clearQueryCache();
       setToken(null);
       setUser(null);
       setLoading(false);
@@ -153,11 +169,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   async function refreshUser(): Promise<void> {
-    if (!token) return;
+    if (!token && !isCookieAuthMode) return;
 
     setLoading(true);
     try {
-      const me = await apiGet<AuthUser>("/api/auth/me");
+      const me = await getMe();
       setUser(me);
     } finally {
       setLoading(false);
@@ -0,0 +1,314 @@
+// src/lib/api/admin.ts
+
+import {
+  apiDelete,
+  apiGet,
+  apiPost,
+  apiPut,
+  type ApiCallOptions,
+} from "../apiClient";
+import {
+  getQueryKey,
+  invalidateQueries,
+  type QueryDescriptor,
+} from "../queryCache";
+import type {
+  AdminCourseInstance,
+  ClassStudentsResponse,
+  CourseInstancePayload,
+  CourseStatus,
+  CourseTemplate,
+  CourseTemplatePayload,
+  EnrollStudentResponse,
+  MessageResponse,
+  PaginatedResponse,
+  ResetPasswordResponse,
+  SortDirection,
+  User,
+  UserPayload,
+  UserRole,
+  UserStatus,
+} from "./types";
+import { extractArray } from "../utils";
+
+/**
+ * Jalankan mutasi, lalu tandai cache list terkait sebagai basi supaya
+ * halaman yang memakainya refetch otomatis.
+ */
+async function invalidateAfter<T>(request: Promise<T>, path: string) {
+  const result = await request;
+  invalidateQueries(path);
+  return result;
+}
+
+const USERS_PATH = "/api/admin/users";
+const COURSE_TEMPLATES_PATH = "/api/admin/course-templates";
+const COURSE_INSTANCES_PATH = "/api/admin/course-instances";
+
+// -----------------------------
+// Users
+// -----------------------------
+
+export interface UserListQuery {
+  role?: UserRole;
+  status?: UserStatus;
+  keyword?: string;
+  per_page?: number;
+}
+
+export async function listUsers(
+  query?: UserListQuery,
+  options?: ApiCallOptions
+) {
+  const res = await apiGet<unknown>(USERS_PATH, { ...query }, options);
+  return extractArray<User>(res);
+}
+
+export function usersQuery(query?: UserListQuery): QueryDescriptor<User[]> {
+  return {
+    key: getQueryKey(USERS_PATH, { ...query }),
+    fetcher: () => listUsers(query),
+  };
+}
+
+export type UserSortField = "name" | "username" | "role" | "status";
+
+export interface UserPageQuery extends Omit<UserListQuery, "role"> {
+  /** Lebih dari satu role dikirim sebagai `role=superadmin,dosen` */
+  roles?: UserRole[];
+  page: number;
+  sort?: UserSortField;
+  direction?: SortDirection;
+}
+
+function toUserPageParams(query: UserPageQuery) {
+  const { roles, ...rest } = query;
+  return { ...rest, role: roles?.length ? roles.join(",") : undefined };
+}
+
+/**
+ * Versi berhalaman dari listUsers. Kalau backend mengembalikan array biasa
+ * (tanpa paginate), hasilnya dianggap satu halaman penuh.
+ */
+export async function listUsersPage(
+  query: UserPageQuery,
+  options?: ApiCallOptions
+): Promise<PaginatedResponse<User>> {
+  const res = await apiGet<unknown>(
+    USERS_PATH,
+    toUserPageParams(query),
+    options
+  );
+
+  if (
+    res &&
+    typeof res === "object" &&
+    !Array.isArray(res) &&
+    "last_page" in res
+  ) {
+    return res as PaginatedResponse<User>;
+  }
+
+  const data = extractArray<User>(res);
+  return {
+    data,
+    current_page: 1,
+    last_page: 1,
+    per_page: data.length,
+    total: data.length,
+    from: data.length > 0 ? 1 : null,
+    to: data.length > 0 ? data.length : null,
+  };
+}
+
+/**
+ * Key selalu memuat `page`, jadi tidak bentrok dengan usersQuery
+ * (yang menyimpan array, bukan response pagination).
+ */
+export function usersPageQuery(
+  query: UserPageQuery
+): QueryDescriptor<PaginatedResponse<User>> {
+  return {
+    key: getQueryKey(USERS_PATH, toUserPageParams(query)),
+    fetcher: () => listUsersPage(query),
+  };
+}
+
+export function createUser(payload: UserPayload) {
+  return invalidateAfter(apiPost<User>(USERS_PATH, payload), USERS_PATH);
+}
+
+export function updateUser(id: number, payload: UserPayload) {
+  return invalidateAfter(
+    apiPut<User>(`${USERS_PATH}/${id}`, payload),
+    USERS_PATH
+  );
+}
+
+export function deleteUser(id: number) {
+  return invalidateAfter(
+    apiDelete<MessageResponse>(`${USERS_PATH}/${id}`),
+    USERS_PATH
+  );
+}
+
+export function resetUserPassword(id: number) {
+  return apiPost<ResetPasswordResponse>(
+    `${USERS_PATH}/${id}/reset-password`,
+    {}
+  );
+}
+
+// -----------------------------
+// Course templates
+// -----------------------------
+
+export interface CourseTemplateListQuery {
+  search?: string;
+  is_active?: "0" | "1";
+  per_page?: number;
+}
+
+export async function listCourseTemplates(
+  query?: CourseTemplateListQuery,
+  options?: ApiCallOptions
+) {
+  const res = await apiGet<unknown>(
+    COURSE_TEMPLATES_PATH,
+    { ...query },
+    options
+  );
+  return extractArray<CourseTemplate>(res);
+}
+
+export function courseTemplatesQuery(
+  query?: CourseTemplateListQuery
+): QueryDescriptor<CourseTemplate[]> {
+  return {
+    key: getQueryKey(COURSE_TEMPLATES_PATH, { ...query }),
+    fetcher: () => listCourseTemplates(query),
+  };
+}
+
+export function createCourseTemplate(payload: CourseTemplatePayload) {
+  return invalidateAfter(
+    apiPost<CourseTemplate>(COURSE_TEMPLATES_PATH, payload),
+    COURSE_TEMPLATES_PATH
+  );
+}
+
+export function updateCourseTemplate(
+  id: number,
+  payload: CourseTemplatePayload
+) {
+  return invalidateAfter(
+    apiPut<CourseTemplate>(`${COURSE_TEMPLATES_PATH}/${id}`, payload),
+    COURSE_TEMPLATES_PATH
+  );
+}
+
+export function deleteCourseTemplate(id: number) {
+  return invalidateAfter(
+    apiDelete<MessageResponse>(`${COURSE_TEMPLATES_PATH}/${id}`),
+    COURSE_TEMPLATES_PATH
+  );
+}
+
+// -----------------------------
+// Course instances (kelas)
+// -----------------------------
+
+export interface CourseInstanceListQuery {
+  semester?: string;
+  status?: CourseStatus;
+  per_page?: number;
+}
+
+export async function listCourseInstances(
+  query?: CourseInstanceListQuery,
+  options?: ApiCallOptions
+) {
+  const res = await apiGet<unknown>(
+    COURSE_INSTANCES_PATH,
+    { ...query },
+    options
+  );
+  return extractArray<AdminCourseInstance>(res);
+}
+
+export function courseInstancesQuery(
+  query?: CourseInstanceListQuery
+): QueryDescriptor<AdminCourseInstance[]> {
+  return {
+    key: getQueryKey(COURSE_INSTANCES_PATH, { ...query }),
+    fetcher: () => listCourseInstances(query),
+  };
+}
+
+export function createCourseInstance(payload: CourseInstancePayload) {
+  return invalidateAfter(
+    apiPost<AdminCourseInstance>(COURSE_INSTANCES_PATH, payload),
+    COURSE_INSTANCES_PATH
+  );
+}
+
+export function updateCourseInstance(
+  id: number,
+  payload: CourseInstancePayload
+) {
+  return invalidateAfter(
+    apiPut<AdminCourseInstance>(`${COURSE_INSTANCES_PATH}/${id}`, payload),
+    COURSE_INSTANCES_PATH
+  );
+}
+
+export function deleteCourseInstance(id: number) {
+  return invalidateAfter(
+    apiDelete<MessageResponse>(`${COURSE_INSTANCES_PATH}/${id}`),
+    COURSE_INSTANCES_PATH
+  );
+}
+
+export function updateCourseInstanceStatus(
+  id: number | string,
+  status: CourseStatus
+) {
+  return invalidateAfter(
+    apiPost<AdminCourseInstance>(`${COURSE_INSTANCES_PATH}/${id}/status`, {
+      status,
+    }),
+    COURSE_INSTANCES_PATH
+  );
+}
+
+// -----------------------------
+// Enrollment mahasiswa
+// -----------------------------
+
+export function listClassStudents(
+  classId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<ClassStudentsResponse>(
+    `${COURSE_INSTANCES_PATH}/${classId}/students`,
+    undefined,
+    options
+  );
+}
+
+/**
+ * Daftarkan mahasiswa ke kelas.
+ * Backend menerima NIM atau username di field `nim`.
+ */
+export function enrollStudent(classId: number | string, nim: string) {
+  const path = `${COURSE_INSTANCES_PATH}/${classId}/students`;
+  return invalidateAfter(apiPost<EnrollStudentResponse>(path, { nim }), path);
+}
+
+export function dropStudent(classId: number | string, studentId: number) {
+  const path = `${COURSE_INSTANCES_PATH}/${classId}/students`;
+  return invalidateAfter(
+    apiDelete<MessageResponse>(`${path}/${studentId}`),
+    path
+  );
+}
@@ -0,0 +1,50 @@
+// src/lib/api/assignments.ts
+
+import {
+  apiDelete,
+  apiGet,
+  apiPost,
+  apiPut,
+  type ApiCallOptions,
+} from "../apiClient";
+import type {
+  AssignmentItem,
+  AssignmentPayload,
+  AssignmentsResponse,
+  MessageResponse,
+  Rubric,
+} from "./types";
+
+export function listAssignments(sectionId: number, options?: ApiCallOptions) {
+  return apiGet<AssignmentsResponse>(
+    `/api/sections/${sectionId}/assignments`,
+    undefined,
+    options
+  );
+}
+
+export function createAssignment(
+  sectionId: number,
+  payload: AssignmentPayload
+) {
+  return apiPost<AssignmentItem>(
+    `/api/sections/${sectionId}/assignments`,
+    payload
+  );
+}
+
+export function updateAssignment(id: number, payload: AssignmentPayload) {
+  return apiPut<AssignmentItem>(`/api/assignments/${id}`, payload);
+}
+
+/**
+ * Simpan (atau hapus dengan `null`) rubrik tugas. Nilai maksimal tugas ikut
+ * menjadi total poin rubrik.
+ */
+export function updateAssignmentRubric(id: number, rubric: Rubric | null) {
+  return apiPut<AssignmentItem>(`/api/assignments/${id}/rubric`, { rubric });
+}
+
+export function deleteAssignment(id: number) {
+  return apiDelete<MessageResponse>(`/api/assignments/${id}`);
+}
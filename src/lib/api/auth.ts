@@ -0,0 +1,40 @@
+// src/lib/api/auth.ts
+
+import { apiGet, apiPost, type ApiRequestOptions } from "../apiClient";
+import type {
+  AuthUser,
+  ChangePasswordPayload,
+  LoginResponse,
+  MessageResponse,
+} from "./types";
+
+/**
+ * Login dengan username + password. Tidak perlu token.
+ */
+export function login(username: string, password: string) {
+  return apiPost<LoginResponse>(
+    "/api/auth/login",
+    { username, password },
+    { withAuth: false }
+  );
+}
+
+/**
+ * 401 saat logout tidak perlu refresh sesi — token memang akan dibuang.
+ */
+export function logout() {
+  return apiPost<MessageResponse>("/api/auth/logout", undefined, {
+    skipAuthRefresh: true,
+  });
+}
+
+/**
+ * Data user yang sedang login (berdasarkan token).
+ */
+export function getMe(options?: Pick<ApiRequestOptions, "skipAuthRefresh">) {
+  return apiGet<AuthUser>("/api/auth/me", undefined, options);
+}
+
+export function changePassword(payload: ChangePasswordPayload) {
+  return apiPost<MessageResponse>("/api/auth/change-password", payload);
+}
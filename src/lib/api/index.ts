@@ -0,0 +1,16 @@
+// src/lib/api/index.ts
+
+/**
+ * SDK typed untuk backend LMS: satu fungsi per endpoint.
+ * Halaman cukup import dari "@/lib/api", tidak perlu menulis path manual.
+ */
+export * from "./types";
+export * from "./auth";
+export * from "./admin";
+export * from "./teacher";
+export * from "./sections";
+export * from "./materials";
+export * from "./assignments";
+export * from "./quizzes";
+export * from "./questionBank";
+export * from "./student";
@@ -0,0 +1,39 @@
+// src/lib/api/materials.ts
+
+import { apiDelete, apiGet, apiPost, type ApiCallOptions } from "../apiClient";
+import type { MaterialItem, MaterialsResponse, MessageResponse } from "./types";
+
+export function listMaterials(sectionId: number, options?: ApiCallOptions) {
+  return apiGet<MaterialsResponse>(
+    `/api/sections/${sectionId}/materials`,
+    undefined,
+    options
+  );
+}
+
+/**
+ * Materi dikirim sebagai FormData (bisa berisi file).
+ * headers {} supaya browser yang mengisi Content-Type multipart.
+ */
+export function createMaterial(sectionId: number, formData: FormData) {
+  return apiPost<MaterialItem>(
+    `/api/sections/${sectionId}/materials`,
+    formData,
+    { headers: {} }
+  );
+}
+
+/**
+ * Update lewat POST + method spoofing (_method=PUT), karena PHP tidak
+ * mem-parse multipart pada request PUT.
+ */
+export function updateMaterial(id: number, formData: FormData) {
+  formData.append("_method", "PUT");
+  return apiPost<MaterialItem>(`/api/materials/${id}`, formData, {
+    headers: {},
+  });
+}
+
+export function deleteMaterial(id: number) {
+  return apiDelete<MessageResponse>(`/api/materials/${id}`);
+}
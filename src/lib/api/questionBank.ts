@@ -0,0 +1,58 @@
+// src/lib/api/questionBank.ts
+
+import {
+  apiDelete,
+  apiGet,
+  apiPost,
+  apiPut,
+  type ApiCallOptions,
+} from "../apiClient";
+import type {
+  BankQuestion,
+  BankQuestionPayload,
+  BankQuestionQuery,
+  MessageResponse,
+  UpdateBankQuestionPayload,
+  UpdateBankQuestionResponse,
+} from "./types";
+
+/**
+ * Bank soal milik dosen yang login.
+ */
+export function listBankQuestions(
+  query?: BankQuestionQuery,
+  options?: ApiCallOptions
+) {
+  return apiGet<BankQuestion[]>(
+    "/api/teacher/question-bank",
+    { ...query },
+    options
+  );
+}
+
+/** Semua tag yang pernah dipakai dosen, untuk filter & saran input */
+export function listBankQuestionTags(options?: ApiCallOptions) {
+  return apiGet<string[]>(
+    "/api/teacher/question-bank/tags",
+    undefined,
+    options
+  );
+}
+
+export function createBankQuestion(payload: BankQuestionPayload) {
+  return apiPost<BankQuestion>("/api/teacher/question-bank", payload);
+}
+
+export function updateBankQuestion(
+  id: number,
+  payload: UpdateBankQuestionPayload
+) {
+  return apiPut<UpdateBankQuestionResponse>(
+    `/api/teacher/question-bank/${id}`,
+    payload
+  );
+}
+
+export function deleteBankQuestion(id: number) {
+  return apiDelete<MessageResponse>(`/api/teacher/question-bank/${id}`);
+}
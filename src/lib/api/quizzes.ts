@@ -0,0 +1,46 @@
+// src/lib/api/quizzes.ts
+
+import {
+  apiDelete,
+  apiGet,
+  apiPost,
+  apiPut,
+  type ApiCallOptions,
+} from "../apiClient";
+import type {
+  MessageResponse,
+  QuizItem,
+  QuizPayload,
+  QuizQuestion,
+  QuizzesResponse,
+} from "./types";
+
+export function listQuizzes(sectionId: number, options?: ApiCallOptions) {
+  return apiGet<QuizzesResponse>(
+    `/api/sections/${sectionId}/quizzes`,
+    undefined,
+    options
+  );
+}
+
+export function createQuiz(sectionId: number, payload: QuizPayload) {
+  return apiPost<QuizItem>(`/api/sections/${sectionId}/quizzes`, payload);
+}
+
+export function updateQuiz(id: number | string, payload: QuizPayload) {
+  return apiPut<QuizItem>(`/api/quizzes/${id}`, payload);
+}
+
+/**
+ * Simpan ulang seluruh daftar soal quiz (dipakai editor soal).
+ */
+export function updateQuizQuestions(
+  id: number | string,
+  questions: QuizQuestion[]
+) {
+  return apiPut<QuizItem>(`/api/quizzes/${id}`, { questions });
+}
+
+export function deleteQuiz(id: number) {
+  return apiDelete<MessageResponse>(`/api/quizzes/${id}`);
+}
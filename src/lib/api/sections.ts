@@ -0,0 +1,47 @@
+// src/lib/api/sections.ts
+
+import {
+  apiDelete,
+  apiGet,
+  apiPost,
+  apiPut,
+  type ApiCallOptions,
+} from "../apiClient";
+import type {
+  MessageResponse,
+  SectionItem,
+  SectionPayload,
+  SectionsResponse,
+} from "./types";
+
+/**
+ * Dipakai dosen (kelola) maupun mahasiswa (read-only).
+ */
+export function listSections(
+  courseId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<SectionsResponse>(
+    `/api/course-instances/${courseId}/sections`,
+    undefined,
+    options
+  );
+}
+
+export function createSection(
+  courseId: number | string,
+  payload: SectionPayload
+) {
+  return apiPost<SectionItem>(
+    `/api/course-instances/${courseId}/sections`,
+    payload
+  );
+}
+
+export function updateSection(id: number, payload: SectionPayload) {
+  return apiPut<SectionItem>(`/api/sections/${id}`, payload);
+}
+
+export function deleteSection(id: number) {
+  return apiDelete<MessageResponse>(`/api/sections/${id}`);
+}
@@ -0,0 +1,87 @@
+// src/lib/api/student.ts
+
+import { apiGet, apiPost, apiPut, type ApiCallOptions } from "../apiClient";
+import type {
+  AnswerMap,
+  SaveAnswersResponse,
+  StartAttemptResponse,
+  StudentAssignmentResponse,
+  StudentCourseInstance,
+  StudentGradesResponse,
+  StudentQuizResponse,
+  SubmitAssignmentResponse,
+  SubmitAttemptResponse,
+} from "./types";
+
+/**
+ * Backend hanya mengembalikan kelas dengan enrollment aktif milik
+ * mahasiswa yang login.
+ */
+export function listStudentCourseInstances(options?: ApiCallOptions) {
+  return apiGet<StudentCourseInstance[]>(
+    "/api/student/course-instances",
+    undefined,
+    options
+  );
+}
+
+export function getStudentAssignment(
+  assignmentId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<StudentAssignmentResponse>(
+    `/api/student/assignments/${assignmentId}`,
+    undefined,
+    options
+  );
+}
+
+/**
+ * FormData berisi `file` (tugas file) atau `link_url` (tugas link).
+ */
+export function submitAssignment(assignmentId: number, formData: FormData) {
+  return apiPost<SubmitAssignmentResponse>(
+    `/api/student/assignments/${assignmentId}/submit`,
+    formData,
+    { headers: {} }
+  );
+}
+
+export function getStudentQuiz(
+  quizId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<StudentQuizResponse>(
+    `/api/student/quizzes/${quizId}`,
+    undefined,
+    options
+  );
+}
+
+export function startQuizAttempt(quizId: number) {
+  return apiPost<StartAttemptResponse>(
+    `/api/student/quizzes/${quizId}/attempts`
+  );
+}
+
+export function saveQuizAnswers(attemptId: number, answers: AnswerMap) {
+  return apiPut<SaveAnswersResponse>(
+    `/api/student/quiz-attempts/${attemptId}/answers`,
+    { answers }
+  );
+}
+
+export function submitQuizAttempt(attemptId: number, answers: AnswerMap) {
+  return apiPost<SubmitAttemptResponse>(
+    `/api/student/quiz-attempts/${attemptId}/submit`,
+    { answers }
+  );
+}
+
+export function getStudentGrades(options?: ApiCallOptions) {
+  return apiGet<StudentGradesResponse>(
+    "/api/student/grades",
+    undefined,
+    options
+  );
+}
@@ -0,0 +1,187 @@
+// src/lib/api/teacher.ts
+
+import {
+  apiDelete,
+  apiGet,
+  apiPost,
+  apiPut,
+  type ApiCallOptions,
+} from "../apiClient";
+import type {
+  CourseInstance,
+  CourseStatus,
+  GradeQuizAnswerPayload,
+  GradeSubmissionPayload,
+  GradingScheme,
+  ManualGradeItemPayload,
+  MessageResponse,
+  TeacherAssignmentSubmissionsResponse,
+  TeacherCourseGradesResponse,
+  TeacherQuizAttemptResponse,
+  TeacherQuizAttemptsResponse,
+  TeacherQuizGradingQueueResponse,
+  UpdateCourseGradesPayload,
+} from "./types";
+
+/**
+ * Kelas yang diampu oleh dosen yang login.
+ */
+export function listTeacherCourseInstances(
+  query?: { status?: CourseStatus },
+  options?: ApiCallOptions
+) {
+  return apiGet<CourseInstance[]>(
+    "/api/teacher/course-instances",
+    query,
+    options
+  );
+}
+
+export function updateTeacherCourseStatus(id: number, status: CourseStatus) {
+  return apiPost<CourseInstance>(`/api/teacher/course-instances/${id}/status`, {
+    status,
+  });
+}
+
+export function getTeacherCourseGrades(
+  courseId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<TeacherCourseGradesResponse>(
+    `/api/teacher/course-instances/${courseId}/grades`,
+    undefined,
+    options
+  );
+}
+
+/**
+ * Simpan skema penilaian kelas (kategori, bobot item, skala huruf mutu).
+ * Backend mengembalikan rekap nilai yang sudah dihitung ulang.
+ */
+export function updateGradingScheme(
+  courseId: number | string,
+  scheme: GradingScheme
+) {
+  return apiPut<TeacherCourseGradesResponse>(
+    `/api/teacher/course-instances/${courseId}/grading-scheme`,
+    scheme
+  );
+}
+
+/**
+ * Simpan banyak sel nilai sekaligus dari grid rekap (nilai tugas dan kolom
+ * manual). Semua sel divalidasi dulu; kalau ada yang salah tidak ada yang
+ * disimpan.
+ */
+export function updateCourseGrades(
+  courseId: number | string,
+  payload: UpdateCourseGradesPayload
+) {
+  return apiPut<TeacherCourseGradesResponse>(
+    `/api/teacher/course-instances/${courseId}/grades`,
+    payload
+  );
+}
+
+/** Tambah kolom nilai manual, misal kehadiran atau UTS */
+export function createManualGradeItem(
+  courseId: number | string,
+  payload: ManualGradeItemPayload
+) {
+  return apiPost<TeacherCourseGradesResponse>(
+    `/api/teacher/course-instances/${courseId}/manual-grade-items`,
+    payload
+  );
+}
+
+export function updateManualGradeItem(
+  itemId: number,
+  payload: ManualGradeItemPayload
+) {
+  return apiPut<TeacherCourseGradesResponse>(
+    `/api/teacher/manual-grade-items/${itemId}`,
+    payload
+  );
+}
+
+/** Hapus kolom manual beserta semua nilainya */
+export function deleteManualGradeItem(itemId: number) {
+  return apiDelete<TeacherCourseGradesResponse>(
+    `/api/teacher/manual-grade-items/${itemId}`
+  );
+}
+
+export function listAssignmentSubmissions(
+  assignmentId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<TeacherAssignmentSubmissionsResponse>(
+    `/api/teacher/assignments/${assignmentId}/submissions`,
+    undefined,
+    options
+  );
+}
+
+export function gradeSubmission(
+  submissionId: number,
+  payload: GradeSubmissionPayload
+) {
+  return apiPost<MessageResponse>(
+    `/api/teacher/assignment-submissions/${submissionId}/grade`,
+    payload
+  );
+}
+
+export function listQuizAttempts(
+  quizId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<TeacherQuizAttemptsResponse>(
+    `/api/teacher/quizzes/${quizId}/attempts`,
+    undefined,
+    options
+  );
+}
+
+/**
+ * Detail satu attempt: jawaban per soal, poin otomatis, dan nilai manual.
+ */
+export function getQuizAttempt(
+  attemptId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<TeacherQuizAttemptResponse>(
+    `/api/teacher/quiz-attempts/${attemptId}`,
+    undefined,
+    options
+  );
+}
+
+/**
+ * Beri nilai manual satu jawaban isian singkat / esai. Backend menghitung
+ * ulang skor attempt dan mengembalikan detail attempt terbaru.
+ */
+export function gradeQuizAnswer(
+  attemptId: number,
+  payload: GradeQuizAnswerPayload
+) {
+  return apiPost<TeacherQuizAttemptResponse>(
+    `/api/teacher/quiz-attempts/${attemptId}/grade`,
+    payload
+  );
+}
+
+/**
+ * Semua jawaban yang dinilai manual dari attempt yang sudah dikumpulkan,
+ * urut per soal lalu per mahasiswa.
+ */
+export function getQuizGradingQueue(
+  quizId: number | string,
+  options?: ApiCallOptions
+) {
+  return apiGet<TeacherQuizGradingQueueResponse>(
+    `/api/teacher/quizzes/${quizId}/grading-queue`,
+    undefined,
+    options
+  );
+}
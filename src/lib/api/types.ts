@@ -0,0 +1,901 @@
+// src/lib/api/types.ts
+
+/**
+ * Tipe domain bersama untuk seluruh response/payload backend LMS.
+ * Kalau backend mengubah field, cukup ubah di sini — compiler akan
+ * menunjukkan semua halaman yang terdampak.
+ */
+
+// -----------------------------
+// User & auth
+// -----------------------------
+
+export type UserRole = "superadmin" | "dosen" | "mahasiswa";
+
+export type UserStatus = "active" | "inactive";
+
+export interface User {
+  id: number;
+  name: string;
+  email: string | null;
+  username: string;
+  nim: string | null;
+  role: UserRole;
+  status: UserStatus;
+  force_password_change: boolean;
+}
+
+/** User yang sedang login (bentuk response /api/auth/me) */
+export type AuthUser = User;
+
+export interface LoginResponse {
+  /** Tidak ada di mode cookie — token disimpan di cookie HttpOnly */
+  token?: string;
+  user: AuthUser;
+}
+
+export interface ChangePasswordPayload {
+  old_password: string;
+  current_password: string;
+  new_password: string;
+  new_password_confirmation: string;
+}
+
+export interface MessageResponse {
+  message?: string;
+}
+
+export type SortDirection = "asc" | "desc";
+
+/** Bentuk response pagination Laravel (`->paginate()`) */
+export interface PaginatedResponse<T> {
+  data: T[];
+  current_page: number;
+  last_page: number;
+  per_page: number;
+  total: number;
+  from: number | null;
+  to: number | null;
+}
+
+/** Ringkasan data mahasiswa yang ikut di response submission/attempt/nilai */
+export interface StudentSummary {
+  id: number;
+  name: string;
+  username: string;
+  nim: string | null;
+  email: string | null;
+}
+
+// -----------------------------
+// Course template & course instance
+// -----------------------------
+
+export type CourseStatus = "draft" | "active" | "finished";
+
+export interface CourseTemplate {
+  id: number;
+  code: string;
+  name: string;
+  description: string | null;
+  sks: number;
+  semester_recommendation: string | null;
+  is_active: boolean;
+  created_at?: string;
+}
+
+export interface CourseTemplateLite {
+  id: number;
+  code: string;
+  name: string;
+}
+
+export interface LecturerLite {
+  id: number;
+  name: string;
+  username: string;
+}
+
+export interface CourseInstance {
+  id: number;
+  course_template_id: number;
+  class_name: string;
+  semester: string;
+  lecturer_id: number;
+  status: CourseStatus;
+  start_date: string | null;
+  end_date: string | null;
+  notes: string | null;
+  template: CourseTemplateLite;
+  lecturer: LecturerLite | null;
+}
+
+export interface StudentCourseInstance extends CourseInstance {
+  enrolled_at?: string | null;
+}
+
+/**
+ * Versi kelas dari endpoint admin. Relasinya tidak selalu ikut, dan backend
+ * bisa kirim `course_template` atau `template`, jadi kita pegang dua2nya.
+ */
+export interface AdminCourseInstance {
+  id: number;
+  class_name: string;
+  semester: string;
+  status: CourseStatus;
+  start_date?: string | null;
+  end_date?: string | null;
+  notes?: string | null;
+  course_template_id?: number;
+  lecturer_id?: number;
+  course_template?: CourseTemplateLite | null;
+  template?: CourseTemplateLite | null;
+  lecturer?: LecturerLite | null;
+}
+
+/** Header kelas yang ikut di response sections & nilai */
+export interface CourseHeader {
+  id: number;
+  class_name: string;
+  semester: string;
+  status?: CourseStatus;
+  template: CourseTemplateLite | null;
+  lecturer: LecturerLite | null;
+}
+
+/** Relasi kelas yang ikut di detail tugas/quiz */
+export interface CourseInstanceRef {
+  id: number;
+  class_name: string;
+  semester: string;
+  template?: {
+    code: string;
+    name: string;
+  } | null;
+}
+
+// -----------------------------
+// Enrollment (peserta kelas)
+// -----------------------------
+
+export type EnrollmentStatus = "active" | "dropped";
+
+export interface EnrolledStudent extends StudentSummary {
+  role: string;
+  user_status: UserStatus;
+}
+
+export interface EnrollmentItem {
+  enrollment_id: number;
+  status: EnrollmentStatus;
+  enrolled_at?: string | null;
+  dropped_at?: string | null;
+  student: EnrolledStudent;
+}
+
+/** Detail kelas yang ikut di response daftar peserta */
+export interface ClassDetail extends AdminCourseInstance {
+  course_template_id: number;
+}
+
+export interface ClassStudentsResponse {
+  class: ClassDetail;
+  students: EnrollmentItem[];
+}
+
+export type EnrollStudentResponse =
+  | { enrollment: EnrollmentItem; message?: string }
+  | EnrollmentItem;
+
+// -----------------------------
+// Sections & materials
+// -----------------------------
+
+export interface SectionItem {
+  id: number;
+  title: string;
+  order: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SectionsResponse {
+  course: CourseHeader & {
+    status: CourseStatus;
+  };
+  sections: SectionItem[];
+}
+
+/** Konteks section yang ikut di response list materi/tugas/quiz */
+export interface SectionContext {
+  id: number;
+  title: string;
+  order: number | null;
+  course_instance: {
+    id: number;
+    class_name: string;
+    semester: string;
+  };
+}
+
+export type MaterialType = "file" | "link";
+
+export interface MaterialItem {
+  id: number;
+  title: string;
+  description: string | null;
+  type: MaterialType;
+  file_path: string | null;
+  file_url?: string | null;
+  url: string | null;
+  subject: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MaterialsResponse {
+  section: SectionContext;
+  materials: MaterialItem[];
+}
+
+// -----------------------------
+// Assignments & submissions
+// -----------------------------
+
+export type AssignmentType = "file" | "link";
+
+/** Satu tingkat capaian pada kriteria rubrik, misal "Baik" = 20 poin */
+export interface RubricLevel {
+  id: string;
+  label: string;
+  points: number;
+  description: string | null;
+}
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description: string | null;
+  levels: RubricLevel[];
+}
+
+/**
+ * Rubrik penilaian tugas. Kalau ada, `max_score` tugas = jumlah poin level
+ * tertinggi tiap kriteria.
+ */
+export interface Rubric {
+  criteria: RubricCriterion[];
+}
+
+/** Level yang dipilih per kriteria: id kriteria → id level */
+export interface RubricSelection {
+  [criterionId: string]: string;
+}
+
+export interface AssignmentItem {
+  id: number;
+  title: string;
+  description: string | null;
+  type: AssignmentType;
+  instructions: string | null;
+  deadline: string | null;
+  max_score: number | null;
+  allow_late: boolean;
+  rubric?: Rubric | null;
+  is_past_deadline: boolean;
+  can_submit_now: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AssignmentsResponse {
+  section: SectionContext;
+  assignments: AssignmentItem[];
+}
+
+export interface AssignmentDetail {
+  id: number;
+  title: string;
+  description: string | null;
+  instructions: string | null;
+  type: AssignmentType;
+  deadline: string | null;
+  max_score: number | null;
+  allow_late: boolean;
+  rubric?: Rubric | null;
+  is_past_deadline?: boolean;
+  can_submit_now?: boolean;
+  created_at: string;
+  updated_at: string;
+  course_instance?: CourseInstanceRef | null;
+}
+
+export interface AssignmentSubmissionItem {
+  id: number;
+  student: StudentSummary;
+  submitted_at: string | null;
+  file_url?: string | null;
+  link_url?: string | null;
+  score: number | null;
+  feedback: string | null;
+  /** Level rubrik yang dipilih saat menilai (null kalau dinilai manual) */
+  rubric_selection?: RubricSelection | null;
+  graded_at: string | null;
+}
+
+export interface TeacherAssignmentSubmissionsResponse {
+  assignment: AssignmentDetail;
+  submissions: AssignmentSubmissionItem[];
+}
+
+export interface GradeSubmissionPayload {
+  /** null = kosongkan nilai */
+  score: number | null;
+  feedback: string | null;
+  /**
+   * Kalau diisi harus mencakup semua kriteria; nilai lalu dihitung server
+   * dari rubrik dan `score` diabaikan. Tanpa pilihan rubrik, pilihan lama
+   * dihapus bila `score` tidak sama dengan hasil rubriknya.
+   */
+  rubric_selection?: RubricSelection | null;
+}
+
+/** Submission milik mahasiswa yang login */
+export interface StudentSubmission {
+  id: number;
+  submitted_at: string | null;
+  is_late?: boolean;
+  file_url?: string | null;
+  file_name?: string | null;
+  link_url?: string | null;
+  score: number | null;
+  feedback: string | null;
+  rubric_selection?: RubricSelection | null;
+  graded_at: string | null;
+}
+
+/** Detail tugas versi mahasiswa: flag deadline selalu dikirim */
+export interface StudentAssignmentDetail extends AssignmentDetail {
+  is_past_deadline: boolean;
+  can_submit_now: boolean;
+}
+
+export interface StudentAssignmentResponse {
+  assignment: StudentAssignmentDetail;
+  submission: StudentSubmission | null;
+}
+
+export interface SubmitAssignmentResponse {
+  message?: string;
+  submission: StudentSubmission;
+}
+
+// -----------------------------
+// Quizzes
+// -----------------------------
+
+export interface QuizTimeStatusFlags {
+  is_future: boolean;
+  is_ongoing: boolean;
+  is_finished: boolean;
+  can_attempt_now: boolean;
+}
+
+export type QuizTimeStatus =
+  | "not_started"
+  | "ongoing"
+  | "finished"
+  | QuizTimeStatusFlags
+  | string
+  | null;
+
+export interface QuizItem extends QuizRandomization {
+  id: number;
+  title: string;
+  description: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  duration_minutes: number | null;
+  max_score: number | null;
+  /** Jumlah soal quiz (withCount); backend lama tidak mengirimnya */
+  questions_count?: number;
+  time_status?: QuizTimeStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Pengacakan per quiz. Urutan & undian soal ditentukan backend saat attempt
+ * dimulai, jadi tiap mahasiswa mendapat susunan yang berbeda tetapi tetap
+ * sama selama attempt berjalan.
+ */
+export interface QuizRandomization {
+  shuffle_questions?: boolean;
+  /** Acak urutan opsi pilihan ganda; kunci jawaban dipetakan per attempt */
+  shuffle_options?: boolean;
+  /** Jumlah soal yang diundi dari seluruh soal quiz (null = semua soal) */
+  draw_count?: number | null;
+}
+
+export interface QuizzesResponse {
+  section: SectionContext;
+  quizzes: QuizItem[];
+}
+
+export type QuestionType =
+  | "multiple_choice"
+  | "multiple_answer"
+  | "true_false"
+  | "matching"
+  | "numeric"
+  | "short_answer"
+  | "essay";
+
+export interface QuizQuestionOption {
+  id?: string; // client-side id (optional)
+  text: string | null;
+}
+
+export interface QuizMatchingPair {
+  id?: string; // client-side id (optional)
+  left: string;
+  right: string;
+}
+
+/**
+ * Field kunci jawaban hanya diisi sesuai `type`:
+ * - multiple_choice → options + correct_option_index
+ * - multiple_answer → options + correct_option_indexes (+ partial_credit)
+ * - true_false → correct_boolean
+ * - matching → matching_pairs
+ * - numeric → numeric_answer ± numeric_tolerance
+ * - short_answer / essay → dinilai manual
+ */
+export interface QuizQuestion {
+  id?: number | string;
+  type: QuestionType;
+  text: string | null;
+  points: number;
+  options?: QuizQuestionOption[];
+  correct_option_index?: number | null;
+  correct_option_indexes?: number[] | null;
+  /** Nilai sebagian: tiap opsi benar menambah, tiap opsi salah mengurangi */
+  partial_credit?: boolean;
+  correct_boolean?: boolean | null;
+  matching_pairs?: QuizMatchingPair[];
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  /** Batas jumlah kata jawaban esai (null = bebas) */
+  essay_word_limit?: number | null;
+  /** Asal soal di bank soal (null = soal dibuat langsung di quiz ini) */
+  bank_question_id?: number | null;
+}
+
+/** Relasi section yang ikut di detail quiz (untuk header halaman) */
+export interface QuizSectionRef {
+  id: number;
+  title: string;
+  course_instance?: CourseInstanceRef;
+}
+
+export interface QuizDetail extends QuizRandomization {
+  id: number;
+  title: string;
+  description: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  duration_minutes: number | null;
+  max_score: number | null;
+  time_status?: QuizTimeStatus;
+  questions: QuizQuestion[] | null;
+  section?: QuizSectionRef;
+}
+
+export interface QuizAttemptSummary {
+  id: number;
+  student: StudentSummary;
+  score: number | null;
+  started_at: string | null;
+  submitted_at: string | null;
+  /** Jawaban isian singkat / esai yang belum diberi nilai dosen */
+  ungraded_count?: number;
+}
+
+export interface TeacherQuizAttemptsResponse {
+  quiz: QuizDetail;
+  attempts: QuizAttemptSummary[];
+}
+
+/** Nilai manual dosen untuk satu jawaban isian singkat / esai */
+export interface QuizAnswerGrade {
+  points: number;
+  feedback: string | null;
+  graded_at: string;
+}
+
+/** Jawaban mahasiswa untuk satu soal, dilihat dari sisi dosen */
+export interface QuizAttemptAnswer {
+  /** Key jawaban di AnswerMap (id soal, atau index kalau soal tanpa id) */
+  question_key: string;
+  question: QuizQuestion;
+  answer: AnswerValue;
+  /** Poin koreksi otomatis; null untuk soal yang dinilai manual */
+  auto_points: number | null;
+  manual_grade: QuizAnswerGrade | null;
+}
+
+export interface TeacherQuizAttemptDetail extends QuizAttemptSummary {
+  answers: QuizAttemptAnswer[];
+}
+
+export interface TeacherQuizAttemptResponse {
+  quiz: QuizDetail;
+  attempt: TeacherQuizAttemptDetail;
+}
+
+export interface GradeQuizAnswerPayload {
+  question_key: string;
+  /** null = hapus nilai (kembali ke antrian) */
+  points: number | null;
+  feedback: string | null;
+}
+
+/** Satu jawaban di antrian penilaian manual */
+export interface QuizGradingQueueItem {
+  attempt_id: number;
+  student: StudentSummary;
+  question_key: string;
+  /** Urutan soal di quiz (0-based) */
+  question_index: number;
+  question: QuizQuestion;
+  answer: AnswerValue;
+  manual_grade: QuizAnswerGrade | null;
+}
+
+export interface TeacherQuizGradingQueueResponse {
+  quiz: QuizDetail;
+  items: QuizGradingQueueItem[];
+}
+
+/** Field kunci jawaban yang tidak pernah dikirim ke mahasiswa */
+export type QuizAnswerKeyField =
+  | "correct_option_index"
+  | "correct_option_indexes"
+  | "correct_boolean"
+  | "matching_pairs"
+  | "numeric_answer"
+  | "numeric_tolerance";
+
+/**
+ * Versi soal untuk mahasiswa: tanpa kunci jawaban. Soal menjodohkan dikirim
+ * sebagai daftar pernyataan kiri dan pilihan kanan yang sudah diacak.
+ */
+export interface StudentQuizQuestion
+  extends Omit<QuizQuestion, QuizAnswerKeyField> {
+  matching_prompts?: string[];
+  matching_choices?: string[];
+}
+
+export interface StudentQuizDetail extends Omit<QuizDetail, "questions"> {
+  question_count?: number;
+}
+
+/**
+ * - multiple_choice → index opsi
+ * - multiple_answer → daftar index opsi
+ * - true_false → boolean
+ * - matching → pilihan kanan per pernyataan kiri ("" = belum dijawab)
+ * - numeric → angka (teks input, diparse backend)
+ * - short_answer / essay → teks jawaban
+ */
+export type AnswerValue =
+  | number
+  | string
+  | boolean
+  | number[]
+  | string[]
+  | null;
+
+export interface AnswerMap {
+  [questionKey: string]: AnswerValue;
+}
+
+export interface StudentQuizAttempt {
+  id: number;
+  started_at: string;
+  expires_at?: string | null;
+  submitted_at: string | null;
+  score: number | null;
+  answers?: AnswerMap | null;
+}
+
+export interface StudentQuizResponse {
+  quiz: StudentQuizDetail;
+  attempt: StudentQuizAttempt | null;
+  questions?: StudentQuizQuestion[] | null;
+  server_time?: string;
+}
+
+export interface StartAttemptResponse {
+  attempt: StudentQuizAttempt;
+  questions: StudentQuizQuestion[];
+  server_time?: string;
+}
+
+export interface SaveAnswersResponse {
+  saved_at?: string;
+  server_time?: string;
+}
+
+export interface SubmitAttemptResponse {
+  attempt: StudentQuizAttempt;
+  server_time?: string;
+}
+
+// -----------------------------
+// Question bank
+// -----------------------------
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+/**
+ * Soal di bank soal milik dosen. Isi soal sama dengan QuizQuestion; saat
+ * dipakai di quiz, soal disalin dengan bank_question_id menunjuk ke sini.
+ */
+export interface BankQuestion extends Omit<QuizQuestion, "id"> {
+  id: number;
+  owner_id: number;
+  /** null = bisa dipakai di semua mata kuliah */
+  course_template_id: number | null;
+  course_template?: CourseTemplateLite | null;
+  tags: string[];
+  difficulty: QuestionDifficulty | null;
+  /** Jumlah quiz yang memakai soal ini */
+  usage_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BankQuestionQuery {
+  search?: string;
+  type?: QuestionType;
+  difficulty?: QuestionDifficulty;
+  tag?: string;
+  course_template_id?: number;
+}
+
+export interface BankQuestionPayload
+  extends Omit<QuizQuestion, "id" | "text" | "bank_question_id"> {
+  text: string;
+  course_template_id: number | null;
+  tags: string[];
+  difficulty: QuestionDifficulty | null;
+}
+
+export interface UpdateBankQuestionPayload extends BankQuestionPayload {
+  /** true → salin perubahan ke quiz lain yang memakai soal ini */
+  propagate?: boolean;
+}
+
+export interface UpdateBankQuestionResponse {
+  question: BankQuestion;
+  /** Quiz yang soalnya ikut diperbarui */
+  updated_quiz_count: number;
+  /** Quiz yang dilewati karena sudah ada attempt mahasiswa */
+  skipped_quiz_count: number;
+}
+
+// -----------------------------
+// Grades
+// -----------------------------
+
+export interface GradeAssignmentMeta {
+  id: number;
+  title: string;
+  max_score: number;
+  deadline?: string | null;
+}
+
+export interface GradeQuizMeta {
+  id: number;
+  title: string;
+  max_score: number;
+  end_time?: string | null;
+}
+
+/** Kolom nilai manual (kehadiran, UTS, keaktifan, ...) tanpa tugas/quiz */
+export interface GradeManualMeta {
+  id: number;
+  title: string;
+  max_score: number;
+}
+
+export interface GradeScores {
+  assignments: {
+    [assignmentId: string]: {
+      score: number | null;
+      max_score: number;
+      submitted?: boolean;
+    };
+  };
+  quizzes: {
+    [quizId: string]: {
+      best_score: number | null;
+      max_score: number;
+    };
+  };
+  manual?: {
+    [manualItemId: string]: {
+      score: number | null;
+      max_score: number;
+    };
+  };
+  /** Jumlah semua nilai mentah (tugas + quiz + kolom manual) */
+  total_score: number;
+  total_assignment_score: number;
+  total_quiz_score: number;
+  /** Rata-rata tertimbang per kategori skema (0–100), null = belum ada item */
+  category_scores?: { [categoryId: string]: number | null };
+  /** Nilai akhir tertimbang 0–100 menurut skema penilaian kelas */
+  final_score?: number | null;
+  letter_grade?: string | null;
+}
+
+export type GradeItemKind = "assignment" | "quiz" | "manual";
+
+/** Kategori nilai, misal Tugas 30%, Quiz 20%, UTS 25%, UAS 25% */
+export interface GradeCategory {
+  id: string;
+  name: string;
+  /** Bobot kategori dalam persen; total semua kategori 100 */
+  weight: number;
+  /** Jumlah nilai terendah di kategori ini yang tidak dihitung */
+  drop_lowest: number;
+}
+
+/** Penempatan satu tugas/quiz/kolom manual ke kategori beserta bobotnya */
+export interface GradeItemSetting {
+  kind: GradeItemKind;
+  id: number;
+  /** null = item tidak dihitung ke nilai akhir */
+  category_id: string | null;
+  /** Bobot relatif terhadap item lain di kategori yang sama */
+  weight: number;
+}
+
+/** Batas bawah nilai akhir untuk satu huruf mutu */
+export interface LetterGradeBand {
+  letter: string;
+  min_score: number;
+}
+
+/**
+ * Skema penilaian per kelas. Item yang belum tercantum di `items` masuk
+ * kategori "tugas" / "quiz" sesuai jenisnya (kalau kategori itu ada).
+ */
+export interface GradingScheme {
+  categories: GradeCategory[];
+  items: GradeItemSetting[];
+  letter_scale: LetterGradeBand[];
+}
+
+export interface GradeStudentRow extends GradeScores {
+  student: StudentSummary;
+}
+
+export interface TeacherCourseGradesResponse {
+  course: CourseHeader;
+  assignments: GradeAssignmentMeta[];
+  quizzes: GradeQuizMeta[];
+  manual_items?: GradeManualMeta[];
+  students: GradeStudentRow[];
+  /** Skema yang berlaku (default kalau dosen belum mengatur) */
+  grading_scheme?: GradingScheme;
+}
+
+/**
+ * Nilai satu kelas milik mahasiswa yang login. `grades` bentuknya sama dengan
+ * satu baris `students` pada TeacherCourseGradesResponse (tanpa data student).
+ */
+export interface StudentCourseGrades {
+  course: CourseHeader;
+  assignments: GradeAssignmentMeta[];
+  quizzes: GradeQuizMeta[];
+  manual_items?: GradeManualMeta[];
+  grades: GradeScores;
+  grading_scheme?: GradingScheme;
+}
+
+export interface StudentGradesResponse {
+  courses: StudentCourseGrades[];
+}
+
+// -----------------------------
+// Payload create/update
+// -----------------------------
+
+export interface UserPayload {
+  name: string;
+  email: string | null;
+  username: string;
+  nim: string | null;
+  role: UserRole;
+  status: UserStatus;
+  force_password_change: boolean;
+  /** Hanya dipakai saat bulk import mahasiswa */
+  password?: string;
+}
+
+export interface ResetPasswordResponse {
+  plain_password?: string;
+  password?: string;
+  message?: string;
+}
+
+export interface CourseTemplatePayload {
+  code: string;
+  name: string;
+  description: string | null;
+  sks: number;
+  semester_recommendation: string | null;
+  is_active: boolean;
+}
+
+export interface CourseInstancePayload {
+  course_template_id: number;
+  class_name: string;
+  semester: string;
+  lecturer_id: number;
+  status: CourseStatus;
+  start_date: string | null;
+  end_date: string | null;
+  notes: string | null;
+}
+
+export interface SectionPayload {
+  title: string;
+  order?: number | null;
+}
+
+export interface AssignmentPayload {
+  title: string;
+  description?: string | null;
+  type: AssignmentType;
+  instructions?: string | null;
+  deadline?: string | null;
+  /** Diabaikan kalau tugas punya rubrik */
+  max_score?: number | null;
+  allow_late?: boolean;
+}
+
+export interface QuizPayload extends QuizRandomization {
+  title: string;
+  description?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  duration_minutes?: number | null;
+  max_score?: number | null;
+  questions?: QuizQuestion[] | null;
+}
+
+export interface ManualGradeItemPayload {
+  title: string;
+  max_score: number;
+}
+
+/**
+ * Satu sel rekap yang diubah dari grid nilai. Nilai quiz tidak bisa diubah
+ * (berasal dari attempt); nilai tugas hanya untuk mahasiswa yang sudah
+ * mengumpulkan.
+ */
+export interface GradeCellUpdate {
+  kind: "assignment" | "manual";
+  item_id: number;
+  student_id: number;
+  /** null = kosongkan nilai */
+  score: number | null;
+}
+
+export interface UpdateCourseGradesPayload {
+  entries: GradeCellUpdate[];
+}
@@ -2,14 +2,41 @@
 
 /**
  * HTTP client wrapper untuk LMS backend.
- * - Base URL dari NEXT_PUBLIC_API_BASE_URL
- *   (fallback ke https://backend-lms.farros.space)
  * - Tambah Authorization: Bearer <token> otomatis jika token ada
+ * - 401 → coba refresh token / validasi ulang sesi, lalu ulangi request;
+ *   kalau gagal → token dihapus & redirect ke /login
+ * - AbortSignal, timeout per request, dan retry (khusus method idempotent)
+ *   dengan exponential backoff untuk network error & 502/503/504
  * - Helper GET / POST / PUT / DELETE dengan generic typing
+ * - Default request dikirim ke origin yang sama dan diteruskan proxy BFF
+ *   src/app/api/[...path]/route.ts (backend diatur lewat LMS_BACKEND_URL
+ *   di server). NEXT_PUBLIC_API_BASE_URL → browser menembak backend langsung.
+ * - Dua mode sesi (NEXT_PUBLIC_AUTH_MODE):
+ *   - "bearer" (default): token di localStorage, dikirim sebagai Authorization
+ *   - "cookie": token di cookie HttpOnly yang dipasang route handler
+ *     /api/auth/login, lalu dipasang proxy saat meneruskan request
  */
+/** Host backend; dipakai langsung untuk URL file storage */
 export const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_BASE_URL ?? "https://backend-lms.farros.space";
 // process.env.NEXT_PUBLIC_API_BASE_URL ?? "http://127.0.0.1:8000/";
+
+export type AuthMode = "bearer" | "cookie";
+
+export const AUTH_MODE: AuthMode =
+  process.env.NEXT_PUBLIC_AUTH_MODE === "cookie" ? "cookie" : "bearer";
+
+/** Di mode cookie browser tidak pernah memegang token */
+export const isCookieAuthMode = AUTH_MODE === "cookie";
+
+/**
+ * Base URL untuk request dari browser. Kosong = lewat proxy BFF di origin
+ * yang sama. Mode cookie selalu lewat proxy karena cookie-nya first-party.
+ */
+const REQUEST_BASE_URL = isCookieAuthMode
+  ? ""
+  : (process.env.NEXT_PUBLIC_API_BASE_URL ?? "").replace(/\/+$/, "");
+
 // -----------------------------
 // Token management
 // -----------------------------
@@ -101,16 +128,351 @@ export interface ApiRequestOptions {
    * Jika di-set, ini yang dipakai, bukan getAuthToken().
    */
   tokenOverride?: string | null;
+
+  /**
+   * Jika true, response 401 langsung dilempar sebagai ApiError tanpa
+   * mencoba refresh sesi / redirect ke /login.
+   * Default: false.
+   */
+  skipAuthRefresh?: boolean;
+
+  /**
+   * Signal untuk membatalkan request (misal saat komponen unmount).
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Batas waktu per percobaan request, termasuk membaca body (ms).
+   * 0 = tanpa timeout.
+   * Default: 30 detik, atau 2 menit untuk upload FormData.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Jumlah maksimal retry untuk network error & 502/503/504.
+   * Hanya berlaku untuk GET/PUT; DELETE tidak di-retry. Default: 2.
+   */
+  retries?: number;
 }
 
-export interface ApiError extends Error {
+/**
+ * Opsi per panggilan yang bisa diteruskan dari fungsi SDK (src/lib/api).
+ */
+export type ApiCallOptions = Pick<
+  ApiRequestOptions,
+  "signal" | "timeoutMs" | "retries"
+>;
+
+/**
+ * - http    → server membalas dengan status non-2xx (lihat `status`)
+ * - timeout → tidak ada balasan dalam `timeoutMs`
+ * - network → gagal terhubung (offline, DNS, CORS, dsb.)
+ * - abort   → dibatalkan lewat `signal`
+ */
+export type ApiErrorKind = "http" | "timeout" | "network" | "abort";
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
   status?: number;
   data?: unknown;
+
+  constructor(
+    message: string,
+    kind: ApiErrorKind,
+    status?: number,
+    data?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * True jika error berasal dari request yang sengaja dibatalkan.
+ * Dipakai di catch supaya pembatalan tidak ditampilkan sebagai error.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof ApiError && error.kind === "abort";
 }
 
-interface ErrorResponseBody {
+/**
+ * Bentuk body error dari backend. Proxy BFF (src/app/api/[...path]) juga
+ * menormalisasi semua error ke bentuk ini, termasuk halaman error HTML.
+ */
+export interface ErrorResponseBody {
   message?: string;
   error?: string;
+  /** Error validasi Laravel: { field: ["pesan", ...] } */
+  errors?: Record<string, string[]>;
+}
+
+// -----------------------------
+// Timeout & retry
+// -----------------------------
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const UPLOAD_TIMEOUT_MS = 120_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+/**
+ * Method yang aman diulang otomatis. DELETE sengaja tidak: kalau request
+ * pertama sudah sampai backend tetapi gateway timeout, retry-nya mendapat
+ * 404 dan UI melaporkan gagal untuk data yang sebenarnya sudah terhapus.
+ */
+const RETRYABLE_METHODS: ReadonlySet<HttpMethod> = new Set(["GET", "PUT"]);
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([502, 503, 504]);
+
+const TIMEOUT_MESSAGE = "Server tidak merespons. Silakan coba lagi.";
+const NETWORK_MESSAGE =
+  "Tidak dapat terhubung ke server. Periksa koneksi internet Anda.";
+const ABORT_MESSAGE = "Request dibatalkan.";
+
+interface FetchResult {
+  response: Response;
+  /** Body JSON; null kalau bukan JSON atau tidak bisa diparse */
+  data: unknown;
+}
+
+/**
+ * Satu kali fetch dengan timeout, termasuk membaca body: timer baru
+ * dilepas setelah body selesai, jadi response yang macet di tengah jalan
+ * juga kena timeout. Error fetch diterjemahkan ke ApiError dengan kind
+ * timeout / abort / network.
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): Promise<FetchResult> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : null;
+
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch {
+      if (timedOut) throw new ApiError(TIMEOUT_MESSAGE, "timeout");
+      if (signal?.aborted) throw new ApiError(ABORT_MESSAGE, "abort");
+      throw new ApiError(NETWORK_MESSAGE, "network");
+    }
+
+    const contentType = response.headers.get("Content-Type") ?? "";
+    const data: unknown = contentType.includes("application/json")
+      ? await response.json().catch(() => null)
+      : null;
+    // Body terputus karena timer → jangan kembalikan data setengah jadi
+    if (timedOut) throw new ApiError(TIMEOUT_MESSAGE, "timeout");
+
+    return { response, data };
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Tunggu sebelum retry; ikut batal kalau signal di-abort.
+ */
+function waitBeforeRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError(ABORT_MESSAGE, "abort"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError(ABORT_MESSAGE, "abort"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** 500ms, 1s, 2s, ... + sedikit jitter supaya retry tidak serempak */
+function getRetryDelay(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 100;
+}
+
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: { signal?: AbortSignal; timeoutMs: number; maxRetries: number }
+): Promise<FetchResult> {
+  const { signal, timeoutMs, maxRetries } = options;
+
+  for (let attempt = 0; ; attempt += 1) {
+    const canRetry = attempt < maxRetries;
+
+    try {
+      const result = await fetchWithTimeout(url, init, signal, timeoutMs);
+      if (!canRetry || !RETRYABLE_STATUSES.has(result.response.status)) {
+        return result;
+      }
+    } catch (error: unknown) {
+      // Hanya network error yang di-retry; timeout & abort langsung dilempar
+      const isNetworkError =
+        error instanceof ApiError && error.kind === "network";
+      if (!canRetry || !isNetworkError) throw error;
+    }
+
+    await waitBeforeRetry(getRetryDelay(attempt), signal);
+  }
+}
+
+// -----------------------------
+// Session refresh (401 interceptor)
+// -----------------------------
+
+const REFRESH_PATH = "/api/auth/refresh";
+const ME_PATH = "/api/auth/me";
+const SESSION_EXPIRED_MESSAGE =
+  "Sesi Anda telah berakhir. Silakan login kembali.";
+
+/**
+ * Promise refresh yang sedang berjalan. Selama belum selesai, semua request
+ * lain (dan semua 401 yang datang bersamaan) menunggu promise yang sama,
+ * jadi refresh hanya dilakukan sekali.
+ */
+let refreshPromise: Promise<boolean> | null = null;
+
+type SessionExpiredListener = () => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+/**
+ * Daftarkan callback yang dipanggil saat sesi dinyatakan habis
+ * (sebelum redirect ke /login). Return: fungsi untuk unsubscribe.
+ */
+export function onSessionExpired(listener: SessionExpiredListener) {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+function buildUrl(path: string): string {
+  if (path.startsWith("http")) return path;
+
+  return `${REQUEST_BASE_URL}/${path.replace(/^\/+/, "")}`;
+}
+
+/**
+ * Coba pulihkan sesi setelah 401:
+ * 1. POST /api/auth/refresh → kalau backend mengembalikan token baru, simpan.
+ * 2. Kalau endpoint refresh tidak ada / gagal, validasi ulang token yang
+ *    tersimpan via /api/auth/me (token mungkin sudah diganti tab lain).
+ */
+async function tryRefreshSession(
+  staleToken: string | null
+): Promise<boolean> {
+  // Mode cookie: route handler /api/auth/refresh yang mengurus semuanya
+  if (isCookieAuthMode) {
+    try {
+      const res = await fetch(buildUrl(REFRESH_PATH), {
+        method: "POST",
+        headers: { Accept: "application/json" },
+      });
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  try {
+    const res = await fetch(buildUrl(REFRESH_PATH), {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${staleToken}`,
+      },
+    });
+
+    if (res.ok) {
+      const data: unknown = await res.json().catch(() => null);
+      const token =
+        data && typeof data === "object"
+          ? (data as { token?: unknown; access_token?: unknown }).token ??
+            (data as { access_token?: unknown }).access_token
+          : null;
+      if (typeof token === "string" && token) {
+        setAuthToken(token);
+        return true;
+      }
+    }
+  } catch {
+    // lanjut ke validasi ulang
+  }
+
+  // Paksa baca ulang dari localStorage (bisa jadi sudah login ulang di tab lain)
+  authToken = null;
+  const current = getAuthToken();
+  if (!current) return false;
+
+  try {
+    const res = await fetch(buildUrl(ME_PATH), {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        Authorization: `Bearer ${current}`,
+      },
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+function refreshSession(staleToken: string | null): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = tryRefreshSession(staleToken).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Sesi tidak bisa dipulihkan: hapus token, beri tahu listener (AuthContext),
+ * lalu arahkan ke /login dengan URL asal sebagai `redirect`.
+ */
+function handleSessionExpired() {
+  clearAuthToken();
+  sessionExpiredListeners.forEach((listener) => listener());
+
+  if (typeof window === "undefined") return;
+
+  const { pathname, search, hash } = window.location;
+  if (pathname.startsWith("/login")) return;
+
+  const params = new URLSearchParams({
+    message: SESSION_EXPIRED_MESSAGE,
+    redirect: `${pathname}${search}${hash}`,
+  });
+  window.location.replace(`/login?${params.toString()}`);
 }
 
 /**
@@ -135,12 +497,21 @@ export async function apiRequest<TResponse = unknown>(
     headers = {},
     withAuth = true,
     tokenOverride,
+    skipAuthRefresh = false,
+    signal,
+    timeoutMs,
+    retries = DEFAULT_RETRIES,
   } = options;
 
+  const canRefresh = withAuth && !tokenOverride && !skipAuthRefresh;
+
+  // Kalau refresh sedang berjalan, tunggu dulu supaya tidak kirim token lama
+  if (canRefresh && refreshPromise) {
+    await refreshPromise.catch(() => false);
+  }
+
   // Build URL (base + path + query)
-  let url = path.startsWith("http")
-    ? path
-    : `${API_BASE_URL.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+  let url = buildUrl(path);
 
   if (query && Object.keys(query).length > 0) {
     const params = new URLSearchParams();
@@ -173,43 +544,89 @@ export async function apiRequest<TResponse = unknown>(
     requestBody = body as FormData;
   }
 
-  // Authorization header
-  if (withAuth) {
-    const token = tokenOverride ?? getAuthToken();
-    if (token) {
-      requestHeaders["Authorization"] = `Bearer ${token}`;
+  // Authorization header (mode cookie: dipasang proxy dari cookie HttpOnly)
+  const token = withAuth ? tokenOverride ?? getAuthToken() : null;
+  if (token) {
+    requestHeaders["Authorization"] = `Bearer ${token}`;
+  }
+
+  const { response, data: responseData } = await fetchWithRetry(
+    url,
+    {
+      method,
+      headers: requestHeaders,
+      // Hanya GET yang tidak boleh punya body
+      body: method === "GET" ? undefined : requestBody,
+      // NOTE: credentials default = "same-origin" → untuk cross-origin akan dianggap non-credentialed
+      // dan tidak perlu Access-Control-Allow-Credentials dari server
+    },
+    {
+      signal,
+      timeoutMs:
+        timeoutMs ?? (isFormData ? UPLOAD_TIMEOUT_MS : DEFAULT_TIMEOUT_MS),
+      maxRetries: RETRYABLE_METHODS.has(method) ? retries : 0,
     }
+  );
+
+  // Dibatalkan saat body masih dibaca → jangan kembalikan data setengah jadi
+  if (signal?.aborted) {
+    throw new ApiError(ABORT_MESSAGE, "abort");
   }
 
-  const response = await fetch(url, {
-    method,
-    headers: requestHeaders,
-    // Hanya GET yang tidak boleh punya body
-    body: method === "GET" ? undefined : requestBody,
-    // NOTE: credentials default = "same-origin" → untuk cross-origin akan dianggap non-credentialed
-    // dan tidak perlu Access-Control-Allow-Credentials dari server
-  });
+  // Mode cookie: browser tidak tahu ada token atau tidak, jadi 401 selalu
+  // dicoba dipulihkan lewat route handler refresh
+  const hasSession = isCookieAuthMode || token !== null;
+
+  if (response.status === 401 && canRefresh && hasSession) {
+    // Token sudah diganti oleh refresh lain selama request ini berjalan
+    const latestToken = getAuthToken();
+    const refreshed =
+      (latestToken !== null && latestToken !== token) ||
+      (await refreshSession(token));
+    if (refreshed) {
+      // Ulangi sekali dengan token terbaru; 401 berikutnya tidak di-refresh
+      // lagi, tetapi berarti sesi memang sudah tidak berlaku (misal user
+      // dicabut atau cookie baru tidak tersimpan)
+      try {
+        return await apiRequest<TResponse>({
+          ...options,
+          skipAuthRefresh: true,
+        });
+      } catch (error: unknown) {
+        if (error instanceof ApiError && error.status === 401) {
+          handleSessionExpired();
+          throw new ApiError(
+            SESSION_EXPIRED_MESSAGE,
+            "http",
+            error.status,
+            error.data
+          );
+        }
+        throw error;
+      }
+    }
+
+    handleSessionExpired();
 
-  const contentType = response.headers.get("Content-Type") ?? "";
-  const isJson = contentType.includes("application/json");
-  const responseData: unknown = isJson
-    ? await response.json().catch(() => null)
-    : null;
+    throw new ApiError(
+      SESSION_EXPIRED_MESSAGE,
+      "http",
+      response.status,
+      responseData
+    );
+  }
 
   if (!response.ok) {
     let message = `Request failed with status ${response.status}`;
 
-    if (isJson && responseData && typeof responseData === "object") {
+    if (responseData && typeof responseData === "object") {
       const errBody = responseData as ErrorResponseBody;
       if (errBody.message || errBody.error) {
         message = errBody.message ?? errBody.error ?? message;
       }
     }
 
-    const error: ApiError = new Error(message);
-    error.status = response.status;
-    error.data = responseData;
-    throw error;
+    throw new ApiError(message, "http", response.status, responseData);
   }
 
   return responseData as TResponse;
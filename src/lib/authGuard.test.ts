@@ -0,0 +1,29 @@
+// src/lib/authGuard.test.ts
+
+import { describe, expect, it } from "vitest";
+import { getSafeRedirect } from "./authGuard";
+
+describe("getSafeRedirect", () => {
+  it("menerima path internal beserta query dan hash", () => {
+    expect(getSafeRedirect("/teacher/courses/20?tab=grades#nilai")).toBe(
+      "/teacher/courses/20?tab=grades#nilai"
+    );
+    expect(getSafeRedirect("/student/../teacher")).toBe("/teacher");
+  });
+
+  it("menolak URL yang bisa keluar dari situs", () => {
+    [
+      null,
+      "",
+      "https://evil.com",
+      "//evil.com",
+      "/\\evil.com",
+      "/\\/evil.com",
+      "/\t/evil.com",
+      "/\n/evil.com",
+      "/login?redirect=/teacher",
+    ].forEach((value) => {
+      expect(getSafeRedirect(value)).toBeNull();
+    });
+  });
+});
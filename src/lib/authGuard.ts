@@ -0,0 +1,146 @@
+// src/lib/authGuard.ts
+
+import type { AuthUser, UserRole } from "./api/types";
+
+/**
+ * Aturan akses halaman per role, dipakai di dua tempat:
+ * - src/proxy.ts → redirect di server sebelum halaman dirender
+ * - RequireRole  → cek ulang di client setelah /api/auth/me selesai
+ *
+ * Proxy tidak bisa membaca token di localStorage, jadi AuthContext menulis
+ * cookie lms_session berisi role + flag force_password_change. Cookie ini
+ * hanya petunjuk untuk redirect, BUKAN bukti login — otorisasi sebenarnya
+ * tetap dilakukan backend.
+ */
+
+export const SESSION_COOKIE_NAME = "lms_session";
+const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 hari
+
+export const LOGIN_REQUIRED_MESSAGE =
+  "Silakan login untuk mengakses halaman ini.";
+export const FORCE_PASSWORD_CHANGE_MESSAGE =
+  "Silakan ganti password sebelum mengakses LMS.";
+
+export interface SessionHint {
+  role: UserRole;
+  forcePasswordChange: boolean;
+}
+
+const DASHBOARD_PATHS: Record<UserRole, string> = {
+  superadmin: "/superadmin",
+  dosen: "/teacher",
+  mahasiswa: "/student",
+};
+
+/** Prefix URL yang hanya boleh dibuka role tertentu */
+const PROTECTED_ROUTES: { prefix: string; role: UserRole }[] = [
+  { prefix: "/superadmin", role: "superadmin" },
+  { prefix: "/teacher", role: "dosen" },
+  { prefix: "/student", role: "mahasiswa" },
+];
+
+export function getDashboardPath(role: UserRole | null | undefined): string {
+  return role ? DASHBOARD_PATHS[role] ?? "/" : "/";
+}
+
+export function getRequiredRole(pathname: string): UserRole | null {
+  const route = PROTECTED_ROUTES.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return route?.role ?? null;
+}
+
+export function toSessionHint(user: AuthUser | null): SessionHint | null {
+  if (!user) return null;
+  return {
+    role: user.role,
+    forcePasswordChange: user.force_password_change,
+  };
+}
+
+/** Format cookie: "<role>:<0|1>", contoh "dosen:0" */
+export function parseSessionHint(
+  value: string | null | undefined
+): SessionHint | null {
+  if (!value) return null;
+
+  const [role, flag] = value.split(":");
+  if (role !== "superadmin" && role !== "dosen" && role !== "mahasiswa") {
+    return null;
+  }
+
+  return { role, forcePasswordChange: flag === "1" };
+}
+
+/**
+ * Tentukan ke mana user harus dilempar, atau null kalau boleh lanjut.
+ * - belum login → /login (dengan ?redirect= supaya bisa kembali)
+ * - wajib ganti password → /change-password
+ * - role tidak sesuai → /unauthorized
+ */
+export function getGuardRedirect(
+  session: SessionHint | null,
+  requiredRole: UserRole | null,
+  returnTo?: string
+): string | null {
+  if (!session) {
+    const params = new URLSearchParams({ message: LOGIN_REQUIRED_MESSAGE });
+    if (returnTo) params.set("redirect", returnTo);
+    return `/login?${params.toString()}`;
+  }
+
+  if (session.forcePasswordChange) {
+    const params = new URLSearchParams({
+      message: FORCE_PASSWORD_CHANGE_MESSAGE,
+    });
+    return `/change-password?${params.toString()}`;
+  }
+
+  if (requiredRole && session.role !== requiredRole) {
+    return "/unauthorized";
+  }
+
+  return null;
+}
+
+/** Origin sementara untuk mengurai path relatif, tidak pernah dibuka */
+const REDIRECT_BASE = "http://lms.invalid";
+
+/**
+ * Ambil URL asal dari ?redirect= (diisi saat sesi habis). Hanya path
+ * internal yang diterima, supaya tidak bisa dipakai open redirect: browser
+ * menormalkan "\" jadi "/" dan membuang tab/newline, sehingga "/\evil.com"
+ * berubah jadi "//evil.com".
+ */
+export function getSafeRedirect(value: string | null): string | null {
+  if (!value || !value.startsWith("/")) return null;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === "\\" || code < 0x20 || code === 0x7f) return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, REDIRECT_BASE);
+  } catch {
+    return null;
+  }
+  if (url.origin !== REDIRECT_BASE) return null;
+  if (url.pathname.startsWith("/login")) return null;
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/** Tulis/hapus cookie lms_session (dipanggil AuthContext) */
+export function writeSessionHint(user: AuthUser | null) {
+  if (typeof document === "undefined") return;
+
+  if (!user) {
+    document.cookie = `${SESSION_COOKIE_NAME}=; Path=/; Max-Age=0; SameSite=Lax`;
+    return;
+  }
+
+  const value = `${user.role}:${user.force_password_change ? "1" : "0"}`;
+  document.cookie =
+    `${SESSION_COOKIE_NAME}=${value}; Path=/; ` +
+    `Max-Age=${SESSION_COOKIE_MAX_AGE}; SameSite=Lax`;
+}
@@ -0,0 +1,24 @@
+// src/lib/download.ts
+
+/** MIME type file Excel (.xlsx) untuk Blob hasil XLSX.write */
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** Unduh Blob / teks sebagai file lewat link sementara (browser saja) */
+export function downloadFile(
+  content: Blob | ArrayBuffer | string,
+  fileName: string,
+  type = "text/plain;charset=utf-8"
+): void {
+  const blob =
+    content instanceof Blob ? content : new Blob([content], { type });
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
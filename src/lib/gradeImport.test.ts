@@ -0,0 +1,137 @@
+// src/lib/gradeImport.test.ts
+
+import { describe, expect, it } from "vitest";
+import type { AssignmentSubmissionItem } from "./api/types";
+import { writeGradebookWorkbook } from "./gradebookExport";
+import {
+  getGradeImportTemplateRows,
+  parseGradeImport,
+  readGradeSheet,
+} from "./gradeImport";
+
+function submission(
+  id: number,
+  nim: string | null,
+  username: string,
+  score: number | null
+): AssignmentSubmissionItem {
+  return {
+    id,
+    student: { id, name: `Mahasiswa ${id}`, username, nim, email: null },
+    submitted_at: "2026-01-01T00:00:00Z",
+    score,
+    feedback: null,
+    graded_at: null,
+  };
+}
+
+const SUBMISSIONS = [
+  submission(1, "2201001", "budi", null),
+  submission(2, null, "siti", 80),
+];
+
+describe("parseGradeImport", () => {
+  it("mencocokkan NIM/username dan memvalidasi tiap baris", () => {
+    const { rows, problems } = parseGradeImport(
+      [
+        ["NIM", "Username", "Nilai", "Feedback"],
+        ["2201001", "", "85,5", "Bagus"],
+        ["", "SITI", "80", ""],
+        ["", "", "", ""],
+        ["9999", "", "70", ""],
+        ["", "budi", "90", ""],
+        ["", "siti", "120", ""],
+      ],
+      SUBMISSIONS,
+      100
+    );
+
+    expect(problems).toEqual([]);
+    expect(
+      rows.map(({ line, score, feedback, error, changed }) => ({
+        line,
+        score,
+        feedback,
+        error,
+        changed,
+      }))
+    ).toEqual([
+      { line: 2, score: 85.5, feedback: "Bagus", error: null, changed: true },
+      { line: 3, score: 80, feedback: null, error: null, changed: false },
+      {
+        line: 5,
+        score: null,
+        feedback: null,
+        error: "Tidak ada submission dengan NIM/username ini.",
+        changed: false,
+      },
+      {
+        line: 6,
+        score: null,
+        feedback: null,
+        error: "Mahasiswa yang sama sudah ada di baris 2.",
+        changed: false,
+      },
+      {
+        line: 7,
+        score: 80,
+        feedback: null,
+        error: "Mahasiswa yang sama sudah ada di baris 3.",
+        changed: false,
+      },
+    ]);
+  });
+
+  it("feedback tanpa nilai ditolak untuk submission yang belum dinilai", () => {
+    const { rows } = parseGradeImport(
+      [
+        ["NIM", "Username", "Nilai", "Feedback"],
+        ["2201001", "", "", "Perbaiki kesimpulan"],
+        ["", "siti", "", "Sudah bagus"],
+      ],
+      SUBMISSIONS,
+      100
+    );
+
+    expect(rows).toMatchObject([
+      {
+        line: 2,
+        score: null,
+        error: "Nilai wajib diisi untuk submission yang belum dinilai.",
+        changed: false,
+      },
+      {
+        line: 3,
+        score: 80,
+        feedback: "Sudah bagus",
+        error: null,
+        changed: true,
+      },
+    ]);
+  });
+
+    it("menolak file tanpa kolom wajib", () => {
+    expect(parseGradeImport([["Nama", "Nilai"]], SUBMISSIONS, 100)).toEqual({
+      rows: [],
+      problems: [
+        "Baris pertama harus berisi kolom NIM atau Username, dan kolom Nilai.",
+      ],
+    });
+  });
+
+  it("membaca kembali template XLSX yang diisi", () => {
+    const submissions = [
+      SUBMISSIONS[0],
+      { ...SUBMISSIONS[1], feedback: "-kurang rapi" },
+    ];
+    const template = getGradeImportTemplateRows(submissions);
+    template[1][3] = 75;
+    const sheet = readGradeSheet(writeGradebookWorkbook(template));
+
+    // "-kurang rapi" diekspor dengan awalan ', tidak dianggap berubah
+    const { rows } = parseGradeImport(sheet, submissions, 100);
+    expect(rows.filter((row) => row.changed)).toMatchObject([
+      { line: 2, identifier: "2201001", score: 75 },
+    ]);
+  });
+});
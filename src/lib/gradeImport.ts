@@ -0,0 +1,192 @@
+// src/lib/gradeImport.ts
+
+import * as XLSX from "xlsx";
+import type { AssignmentSubmissionItem } from "./api/types";
+import type { GradebookCell } from "./gradebookExport";
+import { parseScoreInput } from "./gradebookGrid";
+
+/**
+ * Impor nilai tugas dari XLSX/CSV di halaman detail tugas dosen. Baris file
+ * dicocokkan ke submission lewat NIM atau username; sel nilai/feedback yang
+ * kosong berarti nilai/feedback lama dipertahankan.
+ */
+
+export interface GradeImportRow {
+  /** Nomor baris di file (baris 1 = header) */
+  line: number;
+  /** NIM atau username seperti tertulis di file */
+  identifier: string;
+  submission: AssignmentSubmissionItem | null;
+  score: number | null;
+  feedback: string | null;
+  error: string | null;
+  /** true kalau nilai atau feedback berbeda dari yang tersimpan */
+  changed: boolean;
+}
+
+export interface GradeImportResult {
+  rows: GradeImportRow[];
+  problems: string[];
+}
+
+const HEADER_ALIASES = {
+  nim: ["nim", "npm"],
+  username: ["username", "user"],
+  score: ["nilai", "score", "skor"],
+  feedback: ["feedback", "catatan", "komentar"],
+};
+
+type HeaderKey = keyof typeof HEADER_ALIASES;
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  // Buang awalan `'` yang ditambahkan ekspor template untuk teks mirip formula
+  return String(value)
+    .replace(/^'(?=[=+\-@\t\r])/, "")
+    .trim();
+}
+
+function findColumns(header: unknown[]): Partial<Record<HeaderKey, number>> {
+  const names = header.map((cell) => toText(cell).toLowerCase());
+  const columns: Partial<Record<HeaderKey, number>> = {};
+  (Object.keys(HEADER_ALIASES) as HeaderKey[]).forEach((key) => {
+    const index = names.findIndex((name) =>
+      HEADER_ALIASES[key].includes(name)
+    );
+    if (index >= 0) columns[key] = index;
+  });
+  return columns;
+}
+
+/**
+ * Baris sheet pertama dari file XLSX atau CSV. Baris kosong ikut dibaca
+ * supaya nomor baris di pesan error sama dengan di file.
+ */
+export function readGradeSheet(data: ArrayBuffer): unknown[][] {
+  const workbook = XLSX.read(data, { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    blankrows: true,
+    defval: null,
+  });
+}
+
+export function parseGradeImport(
+  sheetRows: unknown[][],
+  submissions: AssignmentSubmissionItem[],
+  maxScore: number
+): GradeImportResult {
+  const [header = [], ...body] = sheetRows;
+  const columns = findColumns(header);
+  if (
+    (columns.nim === undefined && columns.username === undefined) ||
+    columns.score === undefined
+  ) {
+    return {
+      rows: [],
+      problems: [
+        "Baris pertama harus berisi kolom NIM atau Username, dan kolom Nilai.",
+      ],
+    };
+  }
+
+  const byNim = new Map<string, AssignmentSubmissionItem>();
+  const byUsername = new Map<string, AssignmentSubmissionItem>();
+  submissions.forEach((submission) => {
+    if (submission.student.nim) {
+      byNim.set(submission.student.nim.toLowerCase(), submission);
+    }
+    byUsername.set(submission.student.username.toLowerCase(), submission);
+  });
+
+  const rows: GradeImportRow[] = [];
+  const problems: string[] = [];
+  const seen = new Map<number, number>();
+
+  body.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (key: HeaderKey) => {
+      const column = columns[key];
+      return column === undefined ? "" : toText(cells[column]);
+    };
+
+    const nim = cell("nim");
+    const username = cell("username");
+    const scoreText = cell("score");
+    const feedbackText = cell("feedback");
+    const identifier = nim || username;
+
+    if (!identifier) {
+      if (scoreText || feedbackText) {
+        problems.push(`Baris ${line}: NIM/username kosong, dilewati.`);
+      }
+      return;
+    }
+    // Baris template yang tidak diisi
+    if (!scoreText && !feedbackText) return;
+
+    const submission =
+      (nim && byNim.get(nim.toLowerCase())) ||
+      (username && byUsername.get(username.toLowerCase())) ||
+      null;
+    const row: GradeImportRow = {
+      line,
+      identifier,
+      submission,
+      score: submission?.score ?? null,
+      feedback: feedbackText || (submission?.feedback ?? null),
+      error: null,
+      changed: false,
+    };
+    rows.push(row);
+
+    if (!submission) {
+      row.error = "Tidak ada submission dengan NIM/username ini.";
+      return;
+    }
+
+    const firstLine = seen.get(submission.id);
+    if (firstLine !== undefined) {
+      row.error = `Mahasiswa yang sama sudah ada di baris ${firstLine}.`;
+      return;
+    }
+    seen.set(submission.id, line);
+
+    if (scoreText) {
+      const parsed = parseScoreInput(scoreText, maxScore);
+      if (!parsed.ok) {
+        row.error = parsed.error;
+        return;
+      }
+      row.score = parsed.score;
+    }
+    // Endpoint penilaian butuh nilai; feedback saja tidak bisa disimpan
+    if (row.score === null && row.feedback !== submission.feedback) {
+      row.error = "Nilai wajib diisi untuk submission yang belum dinilai.";
+      return;
+    }
+
+    row.changed =
+      row.score !== submission.score || row.feedback !== submission.feedback;
+  });
+
+  return { rows, problems };
+}
+
+/** Template berisi semua submission beserta nilai & feedback saat ini */
+export function getGradeImportTemplateRows(
+  submissions: AssignmentSubmissionItem[]
+): GradebookCell[][] {
+  return [
+    ["NIM", "Username", "Nama", "Nilai", "Feedback"],
+    ...submissions.map((submission) => [
+      submission.student.nim,
+      submission.student.username,
+      submission.student.name,
+      submission.score,
+      submission.feedback,
+    ]),
+  ];
+}
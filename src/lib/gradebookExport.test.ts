@@ -0,0 +1,108 @@
+// src/lib/gradebookExport.test.ts
+
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import type { TeacherCourseGradesResponse } from "./api/types";
+import {
+  buildGradebookRows,
+  getGradebookFileName,
+  gradebookToCsv,
+  writeGradebookWorkbook,
+} from "./gradebookExport";
+
+const GRADES: TeacherCourseGradesResponse = {
+  course: {
+    id: 20,
+    class_name: "A",
+    semester: "2025/2026 Ganjil",
+    template: { id: 1, code: "IF101", name: "Algoritma" },
+    lecturer: null,
+  },
+  assignments: [{ id: 1, title: "Tugas 1", max_score: 100 }],
+  quizzes: [{ id: 5, title: "Quiz 1", max_score: 20 }],
+  students: [
+    {
+      student: {
+        id: 7,
+        name: "Budi, S.",
+        username: "budi",
+        nim: "2025001",
+        email: null,
+      },
+      assignments: { "1": { score: 80, max_score: 100 } },
+      quizzes: { "5": { best_score: null, max_score: 20 } },
+      total_assignment_score: 80,
+      total_quiz_score: 0,
+      total_score: 80,
+    },
+  ],
+};
+
+describe("buildGradebookRows", () => {
+  it("menyusun kolom item, subtotal kategori dan nilai akhir", () => {
+    const [header, row] = buildGradebookRows(GRADES);
+    expect(header).toEqual([
+      "No",
+      "NIM",
+      "Nama",
+      "Tugas 1 (Tugas, maks 100)",
+      "Quiz 1 (Quiz, maks 20)",
+      "Tugas (50%)",
+      "Quiz (50%)",
+      "Nilai Akhir",
+      "Huruf",
+    ]);
+    expect(row).toEqual([1, "2025001", "Budi, S.", 80, null, 80, 0, 40, "D"]);
+  });
+});
+
+describe("ekspor file", () => {
+  it("CSV meng-escape koma dan XLSX bisa dibaca ulang", () => {
+    const rows = buildGradebookRows(GRADES);
+    expect(gradebookToCsv(rows).split("\r\n")[1]).toBe(
+      '1,2025001,"Budi, S.",80,,80,0,40,D'
+    );
+
+    const workbook = XLSX.read(writeGradebookWorkbook(rows), {
+      type: "array",
+    });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    expect(XLSX.utils.sheet_to_json(sheet, { header: 1 })[1]).toEqual([
+      1,
+      "2025001",
+      "Budi, S.",
+      80,
+      undefined,
+      80,
+      0,
+      40,
+      "D",
+    ]);
+    expect(getGradebookFileName(GRADES.course)).toBe(
+      "nilai_IF101_A_2025-2026-Ganjil"
+    );
+  });
+
+  it("menetralkan teks yang dibaca spreadsheet sebagai formula", () => {
+    const name = '=HYPERLINK("http://evil.example","Klik")';
+    const rows = buildGradebookRows({
+      ...GRADES,
+      students: [
+        {
+          ...GRADES.students[0],
+          student: { ...GRADES.students[0].student, name, nim: "-2025001" },
+        },
+      ],
+    });
+    expect(gradebookToCsv(rows).split("\r\n")[1]).toBe(
+      `1,'-2025001,"'=HYPERLINK(""http://evil.example"",""Klik"")",80,,80,0,40,D`
+    );
+
+    const workbook = XLSX.read(writeGradebookWorkbook(rows), {
+      type: "array",
+    });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    expect(sheet.C2).toMatchObject({ t: "s", v: `'${name}` });
+    expect(sheet.C2.f).toBeUndefined();
+  });
+});
@@ -0,0 +1,121 @@
+// src/lib/gradebookExport.ts
+
+import * as XLSX from "xlsx";
+import type { TeacherCourseGradesResponse } from "./api/types";
+import {
+  GRADE_ITEM_KIND_LABELS,
+  getDefaultGradingScheme,
+  getItemScore,
+  listGradeItems,
+  resolveFinalGrade,
+} from "./gradingScheme";
+
+/**
+ * Ekspor rekap nilai kelas (tab Grades dosen) ke XLSX / CSV. Baris pertama
+ * adalah header; satu baris per mahasiswa dengan nilai tiap tugas, quiz dan
+ * kolom manual, subtotal per kategori, nilai akhir dan huruf mutu.
+ */
+
+export type GradebookCell = string | number | null;
+
+export type GradebookExportFormat = "xlsx" | "csv";
+
+export const GRADEBOOK_EXPORT_FORMATS: GradebookExportFormat[] = [
+  "xlsx",
+  "csv",
+];
+
+export const GRADEBOOK_EXPORT_FORMAT_LABELS: Record<
+  GradebookExportFormat,
+  string
+> = {
+  xlsx: "Excel (.xlsx)",
+  csv: "CSV (.csv)",
+};
+
+export function buildGradebookRows(
+  grades: TeacherCourseGradesResponse
+): GradebookCell[][] {
+  const scheme = grades.grading_scheme ?? getDefaultGradingScheme();
+  const items = listGradeItems(grades);
+
+  const header: GradebookCell[] = [
+    "No",
+    "NIM",
+    "Nama",
+    ...items.map(
+      (item) =>
+        `${item.title} (${GRADE_ITEM_KIND_LABELS[item.kind]}, maks ` +
+        `${item.max_score})`
+    ),
+    ...scheme.categories.map(
+      (category) => `${category.name} (${category.weight}%)`
+    ),
+    "Nilai Akhir",
+    "Huruf",
+  ];
+
+  const rows = grades.students.map((row, index) => {
+    const final = resolveFinalGrade(scheme, items, row);
+    return [
+      index + 1,
+      row.student.nim ?? row.student.username,
+      row.student.name,
+      ...items.map((item) => getItemScore(row, item).score),
+      ...scheme.categories.map(
+        (category) => final.category_scores[category.id] ?? null
+      ),
+      final.final_score,
+      final.letter_grade,
+    ];
+  });
+
+  return [header, ...rows];
+}
+
+/**
+ * Teks yang diawali =, +, -, @, tab atau CR dibaca spreadsheet sebagai
+ * formula (CSV injection), misal nama "=HYPERLINK(...)". Diberi awalan `'`
+ * supaya tampil sebagai teks biasa; angka tetap angka.
+ */
+function neutralizeFormula(value: GradebookCell): GradebookCell {
+  return typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+    ? `'${value}`
+    : value;
+}
+
+function escapeCsvCell(value: GradebookCell): string {
+  if (value === null) return "";
+  const text = String(neutralizeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV dengan pemisah koma dan baris CRLF (format yang dibaca Excel) */
+export function gradebookToCsv(rows: GradebookCell[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+export function writeGradebookWorkbook(rows: GradebookCell[][]): ArrayBuffer {
+  const worksheet = XLSX.utils.aoa_to_sheet(
+    rows.map((row) => row.map(neutralizeFormula))
+  );
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Nilai");
+  return XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+}
+
+/** Nama file ekspor, misal "nilai_IF101_A_2025-1" */
+export function getGradebookFileName(
+  course: TeacherCourseGradesResponse["course"]
+): string {
+  const parts = [
+    "nilai",
+    course.template?.code ?? `kelas-${course.id}`,
+    course.class_name,
+    course.semester,
+  ];
+  return parts
+    .join("_")
+    .replace(/[^A-Za-z0-9_-]+/g, "-")
+    .replace(/-+/g, "-");
+}
@@ -0,0 +1,88 @@
+// src/lib/gradebookGrid.test.ts
+
+import { describe, expect, it } from "vitest";
+import type { GradeScores } from "./api/types";
+import {
+  applyPaste,
+  getCellKey,
+  parseClipboardGrid,
+  parseScoreInput,
+  summarizeDraft,
+} from "./gradebookGrid";
+import type { GradeItem } from "./gradingScheme";
+
+const ITEMS: GradeItem[] = [
+  { kind: "assignment", id: 1, title: "Tugas 1", max_score: 100 },
+  { kind: "quiz", id: 5, title: "Quiz 1", max_score: 20 },
+  { kind: "manual", id: 9, title: "Kehadiran", max_score: 10 },
+];
+
+function row(submitted: boolean, manual: number | null): GradeScores {
+  return {
+    assignments: {
+      "1": { score: submitted ? 70 : null, max_score: 100, submitted },
+    },
+    quizzes: { "5": { best_score: 15, max_score: 20 } },
+    manual: { "9": { score: manual, max_score: 10 } },
+    total_assignment_score: 0,
+    total_quiz_score: 0,
+    total_score: 0,
+  };
+}
+
+const ROWS = [
+  { studentId: 1, scores: row(true, 8) },
+  { studentId: 2, scores: row(false, null) },
+];
+
+describe("parseScoreInput", () => {
+  it("menerima koma desimal dan kosong, menolak di luar rentang", () => {
+    expect(parseScoreInput("7,5", 10)).toEqual({ ok: true, score: 7.5 });
+    expect(parseScoreInput(" ", 10)).toEqual({ ok: true, score: null });
+    expect(parseScoreInput("11", 10)).toEqual({
+      ok: false,
+      error: "Nilai harus di antara 0 dan 10.",
+    });
+    expect(parseScoreInput("abc", 10).ok).toBe(false);
+  });
+});
+
+describe("tempel dari Excel", () => {
+  it("melewati sel quiz dan tugas yang belum dikumpulkan", () => {
+    const pasted = parseClipboardGrid("80\t99\t9\r\n60\t99\t7\r\n");
+    expect(pasted).toEqual([
+      ["80", "99", "9"],
+      ["60", "99", "7"],
+    ]);
+
+    const draft = applyPaste({}, pasted, { row: 0, col: 0 }, {
+      items: ITEMS,
+      rows: ROWS,
+    });
+    expect(draft).toEqual({
+      [getCellKey(ITEMS[0], 1)]: "80",
+      [getCellKey(ITEMS[2], 1)]: "9",
+      [getCellKey(ITEMS[2], 2)]: "7",
+    });
+  });
+});
+
+describe("summarizeDraft", () => {
+  it("hanya mengirim sel yang berubah dan menandai sel tidak valid", () => {
+    const { updates, errors } = summarizeDraft(
+      {
+        [getCellKey(ITEMS[0], 1)]: "70",
+        [getCellKey(ITEMS[2], 1)]: "",
+        [getCellKey(ITEMS[2], 2)]: "12",
+      },
+      ITEMS,
+      ROWS
+    );
+    expect(updates).toEqual([
+      { kind: "manual", item_id: 9, student_id: 1, score: null },
+    ]);
+    expect(errors).toEqual({
+      [getCellKey(ITEMS[2], 2)]: "Nilai harus di antara 0 dan 10.",
+    });
+  });
+});
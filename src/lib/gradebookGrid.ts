@@ -0,0 +1,163 @@
+// src/lib/gradebookGrid.ts
+
+import type { GradeCellUpdate, GradeScores } from "./api/types";
+import { getItemScore, type GradeItem } from "./gradingScheme";
+
+/**
+ * Logika grid nilai yang bisa diedit di tab Grades: key sel, parsing input
+ * dan tempelan dari Excel, serta perubahan draft → payload simpan. Nilai
+ * quiz selalu read-only (berasal dari attempt).
+ */
+
+/** Isi sel yang sudah diketik tapi belum disimpan, per key sel */
+export type GradeDraft = Record<string, string>;
+
+export function getCellKey(
+  item: Pick<GradeItem, "kind" | "id">,
+  studentId: number
+): string {
+  return `${item.kind}:${item.id}:${studentId}`;
+}
+
+/**
+ * Sel tugas hanya bisa dinilai kalau mahasiswa sudah mengumpulkan; kolom
+ * manual selalu bisa diisi.
+ */
+export function isCellEditable(item: GradeItem, scores: GradeScores): boolean {
+  if (item.kind === "manual") return true;
+  if (item.kind === "quiz") return false;
+  const cell = scores.assignments[String(item.id)];
+  return Boolean(cell) && cell.submitted !== false;
+}
+
+export function formatCellValue(score: number | null): string {
+  return score === null ? "" : String(score);
+}
+
+export type ScoreInput =
+  | { ok: true; score: number | null }
+  | { ok: false; error: string };
+
+/** Kosong = hapus nilai; koma desimal (format Excel Indonesia) diterima */
+export function parseScoreInput(value: string, maxScore: number): ScoreInput {
+  const text = value.trim().replace(",", ".");
+  if (!text) return { ok: true, score: null };
+
+  const score = Number(text);
+  if (!Number.isFinite(score)) {
+    return { ok: false, error: "Nilai harus berupa angka." };
+  }
+  if (score < 0 || score > maxScore) {
+    return {
+      ok: false,
+      error: `Nilai harus di antara 0 dan ${maxScore}.`,
+    };
+  }
+  return { ok: true, score };
+}
+
+/** Teks clipboard (tab & baris baru dari Excel/Sheets) → baris sel */
+export function parseClipboardGrid(text: string): string[][] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+  return lines.map((line) => line.split("\t"));
+}
+
+/**
+ * Terapkan tempelan mulai dari sel (row, col). Sel yang tidak bisa diedit
+ * atau di luar grid dilewati, posisi tetap mengikuti bentuk tempelan.
+ */
+export function applyPaste(
+  draft: GradeDraft,
+  pasted: string[][],
+  start: { row: number; col: number },
+  grid: {
+    items: GradeItem[];
+    rows: { studentId: number; scores: GradeScores }[];
+  }
+): GradeDraft {
+  const next = { ...draft };
+  pasted.forEach((values, rowOffset) => {
+    const row = grid.rows[start.row + rowOffset];
+    if (!row) return;
+    values.forEach((value, colOffset) => {
+      const item = grid.items[start.col + colOffset];
+      if (!item || !isCellEditable(item, row.scores)) return;
+      next[getCellKey(item, row.studentId)] = value.trim();
+    });
+  });
+  return next;
+}
+
+/** Baris nilai dengan draft diterapkan, untuk pratinjau nilai akhir */
+export function applyDraftToScores(
+  scores: GradeScores,
+  studentId: number,
+  items: GradeItem[],
+  draft: GradeDraft
+): GradeScores {
+  const assignments = { ...scores.assignments };
+  const manual = { ...scores.manual };
+  items.forEach((item) => {
+    const value = draft[getCellKey(item, studentId)];
+    if (value === undefined || item.kind === "quiz") return;
+
+    const { max_score: maxScore } = getItemScore(scores, item);
+    const parsed = parseScoreInput(value, maxScore);
+    if (!parsed.ok) return;
+
+    const key = String(item.id);
+    if (item.kind === "assignment") {
+      assignments[key] = {
+        ...assignments[key],
+        max_score: maxScore,
+        score: parsed.score,
+      };
+    } else {
+      manual[key] = { max_score: maxScore, score: parsed.score };
+    }
+  });
+  return { ...scores, assignments, manual };
+}
+
+export interface DraftSummary {
+  updates: GradeCellUpdate[];
+  /** Pesan error per key sel yang isinya tidak valid */
+  errors: Record<string, string>;
+}
+
+/** Sel draft yang nilainya benar-benar berubah → payload simpan */
+export function summarizeDraft(
+  draft: GradeDraft,
+  items: GradeItem[],
+  rows: { studentId: number; scores: GradeScores }[]
+): DraftSummary {
+  const updates: GradeCellUpdate[] = [];
+  const errors: Record<string, string> = {};
+
+  rows.forEach(({ studentId, scores }) => {
+    items.forEach((item) => {
+      if (item.kind === "quiz") return;
+      const key = getCellKey(item, studentId);
+      const value = draft[key];
+      if (value === undefined) return;
+
+      const current = getItemScore(scores, item);
+      const parsed = parseScoreInput(value, current.max_score);
+      if (!parsed.ok) {
+        errors[key] = parsed.error;
+        return;
+      }
+      if (parsed.score === current.score) return;
+
+      updates.push({
+        kind: item.kind,
+        item_id: item.id,
+        student_id: studentId,
+        score: parsed.score,
+      });
+    });
+  });
+
+  return { updates, errors };
+}
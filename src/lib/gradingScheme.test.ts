@@ -0,0 +1,132 @@
+// src/lib/gradingScheme.test.ts
+
+import { describe, expect, it } from "vitest";
+import type { GradeScores, GradingScheme } from "./api/types";
+import {
+  DEFAULT_LETTER_SCALE,
+  computeFinalGrade,
+  getDefaultGradingScheme,
+  toLetterGrade,
+  validateGradingScheme,
+  type GradeItem,
+} from "./gradingScheme";
+
+const ITEMS: GradeItem[] = [
+  { kind: "assignment", id: 1, title: "Tugas 1", max_score: 100 },
+  { kind: "assignment", id: 2, title: "Tugas 2", max_score: 50 },
+  { kind: "assignment", id: 3, title: "UTS", max_score: 100 },
+  { kind: "quiz", id: 10, title: "Quiz 1", max_score: 20 },
+];
+
+/** Baris nilai dari skor mentah; null = belum ada nilai */
+function scores(
+  assignments: Record<number, number | null>,
+  quizzes: Record<number, number | null>
+): GradeScores {
+  const maxOf = (id: number) =>
+    ITEMS.find((item) => item.id === id)?.max_score ?? 100;
+  const row: GradeScores = {
+    assignments: {},
+    quizzes: {},
+    total_assignment_score: 0,
+    total_quiz_score: 0,
+    total_score: 0,
+  };
+  Object.entries(assignments).forEach(([id, score]) => {
+    row.assignments[id] = { score, max_score: maxOf(Number(id)) };
+  });
+  Object.entries(quizzes).forEach(([id, best]) => {
+    row.quizzes[id] = { best_score: best, max_score: maxOf(Number(id)) };
+  });
+  return row;
+}
+
+const SCHEME: GradingScheme = {
+  categories: [
+    { id: "tugas", name: "Tugas", weight: 40, drop_lowest: 1 },
+    { id: "uts", name: "UTS", weight: 40, drop_lowest: 0 },
+    { id: "quiz", name: "Quiz", weight: 20, drop_lowest: 0 },
+  ],
+  items: [{ kind: "assignment", id: 3, category_id: "uts", weight: 1 }],
+  letter_scale: DEFAULT_LETTER_SCALE,
+};
+
+describe("computeFinalGrade", () => {
+  it("menghitung rata-rata tertimbang dengan buang nilai terendah", () => {
+    const result = computeFinalGrade(
+      SCHEME,
+      ITEMS,
+      scores({ 1: 60, 2: 45, 3: 80 }, { 10: 15 })
+    );
+    // Tugas: 60% dibuang, tersisa 90%; UTS 80%; Quiz 75%
+    expect(result.category_scores).toEqual({ tugas: 90, uts: 80, quiz: 75 });
+    expect(result.final_score).toBe(83);
+    expect(result.letter_grade).toBe("AB");
+  });
+
+  it("nilai kosong dihitung 0 tanpa dibuang, kategori kosong diabaikan", () => {
+    const scheme: GradingScheme = {
+      ...SCHEME,
+      categories: [
+        ...SCHEME.categories.slice(0, 2),
+        { id: "uas", name: "UAS", weight: 20, drop_lowest: 0 },
+      ],
+    };
+    const result = computeFinalGrade(
+      scheme,
+      ITEMS,
+      scores({ 1: null, 2: 25, 3: 70 }, {})
+    );
+    // Tugas: hanya Tugas 2 yang sudah dinilai, jadi tidak ada yang dibuang
+    // → (0 + 50) / 2; UAS belum punya item
+    expect(result.category_scores.tugas).toBe(25);
+    expect(result.category_scores.uas).toBeNull();
+    expect(result.final_score).toBe(47.5);
+    expect(result.letter_grade).toBe("D");
+  });
+
+  it("skema default menimbang tugas dan quiz sama besar", () => {
+    const result = computeFinalGrade(
+      getDefaultGradingScheme(),
+      ITEMS,
+      scores({ 1: 100, 2: 50, 3: 100 }, { 10: 10 })
+    );
+    expect(result.final_score).toBe(75);
+  });
+});
+
+describe("toLetterGrade", () => {
+  it("memakai batas bawah inklusif", () => {
+    expect(toLetterGrade(DEFAULT_LETTER_SCALE, 85)).toBe("A");
+    expect(toLetterGrade(DEFAULT_LETTER_SCALE, 84.99)).toBe("AB");
+    expect(toLetterGrade(DEFAULT_LETTER_SCALE, 0)).toBe("E");
+    expect(toLetterGrade(DEFAULT_LETTER_SCALE, null)).toBeNull();
+  });
+});
+
+describe("validateGradingScheme", () => {
+  it("menolak total bobot selain 100 dan kategori yang hilang", () => {
+    expect(validateGradingScheme(SCHEME)).toBeNull();
+    expect(
+      validateGradingScheme({
+        ...SCHEME,
+        categories: SCHEME.categories.slice(0, 2),
+      })
+    ).toMatch(/Total bobot kategori harus 100%/);
+    expect(
+      validateGradingScheme({
+        ...SCHEME,
+        items: [{ kind: "quiz", id: 10, category_id: "uas", weight: 1 }],
+      })
+    ).toMatch(/kategori yang sudah dihapus/);
+  });
+
+  it("mewajibkan huruf mutu berbatas 0", () => {
+    expect(
+      validateGradingScheme({
+        ...SCHEME,
+        letter_scale: DEFAULT_LETTER_SCALE.filter((band) => band.min_score > 0),
+      })
+    ).toBe("Huruf mutu terendah harus berbatas 0.");
+  });
+});
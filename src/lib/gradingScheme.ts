@@ -0,0 +1,373 @@
+// src/lib/gradingScheme.ts
+
+import type {
+  GradeAssignmentMeta,
+  GradeCategory,
+  GradeItemKind,
+  GradeItemSetting,
+  GradeManualMeta,
+  GradeQuizMeta,
+  GradeScores,
+  GradingScheme,
+  LetterGradeBand,
+} from "./api/types";
+
+/**
+ * Skema penilaian kelas: kategori berbobot, bobot per item, buang nilai
+ * terendah, dan konversi nilai akhir ke huruf mutu. Dipakai halaman dosen
+ * (pratinjau saat mengedit skema) dan mock backend (nilai akhir di rekap).
+ */
+
+/** Skala huruf mutu default fakultas (batas bawah, inklusif) */
+export const DEFAULT_LETTER_SCALE: LetterGradeBand[] = [
+  { letter: "A", min_score: 85 },
+  { letter: "AB", min_score: 80 },
+  { letter: "B", min_score: 70 },
+  { letter: "BC", min_score: 65 },
+  { letter: "C", min_score: 55 },
+  { letter: "D", min_score: 40 },
+  { letter: "E", min_score: 0 },
+];
+
+/**
+ * Kategori tujuan item yang belum diatur dosen, per jenis item. Kolom manual
+ * tidak dihitung sampai dosen memilih kategorinya.
+ */
+const DEFAULT_CATEGORY_BY_KIND: Record<GradeItemKind, string | null> = {
+  assignment: "tugas",
+  quiz: "quiz",
+  manual: null,
+};
+
+export const GRADE_ITEM_KIND_LABELS: Record<GradeItemKind, string> = {
+  assignment: "Tugas",
+  quiz: "Quiz",
+  manual: "Manual",
+};
+
+export function getDefaultGradingScheme(): GradingScheme {
+  return {
+    categories: [
+      { id: "tugas", name: "Tugas", weight: 50, drop_lowest: 0 },
+      { id: "quiz", name: "Quiz", weight: 50, drop_lowest: 0 },
+    ],
+    items: [],
+    letter_scale: DEFAULT_LETTER_SCALE.map((band) => ({ ...band })),
+  };
+}
+
+/** Satu kolom nilai di rekap (tugas, quiz atau kolom manual) */
+export interface GradeItem {
+  kind: GradeItemKind;
+  id: number;
+  title: string;
+  max_score: number;
+}
+
+export function listGradeItems(meta: {
+  assignments: GradeAssignmentMeta[];
+  quizzes: GradeQuizMeta[];
+  manual_items?: GradeManualMeta[];
+}): GradeItem[] {
+  return [
+    ...meta.assignments.map((row) => ({
+      kind: "assignment" as const,
+      id: row.id,
+      title: row.title,
+      max_score: row.max_score,
+    })),
+    ...meta.quizzes.map((row) => ({
+      kind: "quiz" as const,
+      id: row.id,
+      title: row.title,
+      max_score: row.max_score,
+    })),
+    ...(meta.manual_items ?? []).map((row) => ({
+      kind: "manual" as const,
+      id: row.id,
+      title: row.title,
+      max_score: row.max_score,
+    })),
+  ];
+}
+
+/** Pengaturan item dari skema, atau default sesuai jenisnya */
+export function getItemSetting(
+  scheme: GradingScheme,
+  kind: GradeItemKind,
+  id: number
+): GradeItemSetting {
+  const listed = scheme.items.find(
+    (row) => row.kind === kind && row.id === id
+  );
+  if (listed) return listed;
+
+  const fallback = DEFAULT_CATEGORY_BY_KIND[kind];
+  return {
+    kind,
+    id,
+    category_id:
+      fallback && scheme.categories.some((row) => row.id === fallback)
+        ? fallback
+        : null,
+    weight: 1,
+  };
+}
+
+/** Ganti pengaturan satu item tanpa mengubah item lain */
+export function setItemSetting(
+  scheme: GradingScheme,
+  setting: GradeItemSetting
+): GradingScheme {
+  return {
+    ...scheme,
+    items: [
+      ...scheme.items.filter(
+        (row) => !(row.kind === setting.kind && row.id === setting.id)
+      ),
+      setting,
+    ],
+  };
+}
+
+function toPercent(
+  score: number | null | undefined,
+  max: number
+): number | null {
+  if (score === null || score === undefined || !max) return null;
+  return (score / max) * 100;
+}
+
+/** Nilai mentah item (skor tugas, skor terbaik quiz, nilai kolom manual) */
+export function getItemScore(
+  scores: GradeScores,
+  item: GradeItem
+): { score: number | null; max_score: number } {
+  const key = String(item.id);
+  if (item.kind === "assignment") {
+    const cell = scores.assignments[key];
+    return {
+      score: cell?.score ?? null,
+      max_score: cell?.max_score ?? item.max_score,
+    };
+  }
+  if (item.kind === "quiz") {
+    const cell = scores.quizzes[key];
+    return {
+      score: cell?.best_score ?? null,
+      max_score: cell?.max_score ?? item.max_score,
+    };
+  }
+  const cell = scores.manual?.[key];
+  return {
+    score: cell?.score ?? null,
+    max_score: cell?.max_score ?? item.max_score,
+  };
+}
+
+/** Nilai item dalam persen (0–100); null kalau belum ada nilai */
+export function getItemPercent(
+  scores: GradeScores,
+  item: GradeItem
+): number | null {
+  const { score, max_score } = getItemScore(scores, item);
+  return toPercent(score, max_score);
+}
+
+export function toLetterGrade(
+  scale: LetterGradeBand[],
+  score: number | null
+): string | null {
+  if (score === null) return null;
+  const band = [...scale]
+    .sort((a, b) => b.min_score - a.min_score)
+    .find((row) => score >= row.min_score);
+  return band?.letter ?? null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface FinalGrade {
+  category_scores: { [categoryId: string]: number | null };
+  final_score: number | null;
+  letter_grade: string | null;
+}
+
+/**
+ * Hitung nilai akhir satu mahasiswa. Item tanpa nilai dihitung 0 tetapi
+ * tidak ikut dibuang: "buang terendah" hanya berlaku untuk nilai yang sudah
+ * ada, supaya yang terbuang bukan sekadar item yang belum dinilai.
+ * Kategori yang belum punya item tidak dihitung dan bobot kategori lain
+ * dinormalisasi ulang.
+ */
+export function computeFinalGrade(
+  scheme: GradingScheme,
+  items: GradeItem[],
+  scores: GradeScores
+): FinalGrade {
+  const categoryScores: FinalGrade["category_scores"] = {};
+  let weighted = 0;
+  let totalWeight = 0;
+
+  scheme.categories.forEach((category) => {
+    const entries = items
+      .map((item) => ({
+        setting: getItemSetting(scheme, item.kind, item.id),
+        percent: getItemPercent(scores, item),
+      }))
+      .filter(
+        ({ setting }) =>
+          setting.category_id === category.id && setting.weight > 0
+      );
+    const graded = entries
+      .filter((row) => row.percent !== null)
+      .map((row) => ({ setting: row.setting, percent: row.percent ?? 0 }))
+      .sort((a, b) => a.percent - b.percent);
+    const ungraded = entries
+      .filter((row) => row.percent === null)
+      .map((row) => ({ setting: row.setting, percent: 0 }));
+
+    // Minimal satu nilai yang sudah ada tetap dihitung walau drop_lowest
+    // lebih besar
+    const dropCount = Math.min(
+      Math.max(category.drop_lowest, 0),
+      Math.max(graded.length - 1, 0)
+    );
+    const kept = [...graded.slice(dropCount), ...ungraded];
+    const itemWeight = kept.reduce((sum, row) => sum + row.setting.weight, 0);
+
+    if (kept.length === 0 || itemWeight === 0) {
+      categoryScores[category.id] = null;
+      return;
+    }
+
+    const score =
+      kept.reduce((sum, row) => sum + row.percent * row.setting.weight, 0) /
+      itemWeight;
+    categoryScores[category.id] = round2(score);
+
+    if (category.weight > 0) {
+      weighted += score * category.weight;
+      totalWeight += category.weight;
+    }
+  });
+
+  const finalScore = totalWeight > 0 ? round2(weighted / totalWeight) : null;
+  return {
+    category_scores: categoryScores,
+    final_score: finalScore,
+    letter_grade: toLetterGrade(scheme.letter_scale, finalScore),
+  };
+}
+
+/**
+ * Nilai akhir dari backend kalau tersedia; kalau belum (backend lama),
+ * dihitung di klien dari skema yang sama.
+ */
+export function resolveFinalGrade(
+  scheme: GradingScheme,
+  items: GradeItem[],
+  scores: GradeScores
+): FinalGrade {
+  if (scores.final_score === undefined) {
+    return computeFinalGrade(scheme, items, scores);
+  }
+  return {
+    category_scores: scores.category_scores ?? {},
+    final_score: scores.final_score,
+    letter_grade: scores.letter_grade ?? null,
+  };
+}
+
+/** Id kategori dari nama, unik terhadap kategori yang sudah ada */
+export function createCategoryId(
+  name: string,
+  categories: GradeCategory[]
+): string {
+  const base =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "kategori";
+  let id = base;
+  let counter = 2;
+  while (categories.some((row) => row.id === id)) {
+    id = `${base}-${counter}`;
+    counter += 1;
+  }
+  return id;
+}
+
+/** Pesan error pertama dari skema, atau null kalau skema valid */
+export function validateGradingScheme(scheme: GradingScheme): string | null {
+  const { categories, items, letter_scale: scale } = scheme;
+
+  if (categories.length === 0) {
+    return "Minimal harus ada 1 kategori nilai.";
+  }
+  for (const category of categories) {
+    if (!category.name.trim()) return "Nama kategori wajib diisi.";
+    if (!Number.isFinite(category.weight) || category.weight < 0) {
+      return `Bobot kategori "${category.name}" harus angka 0 atau lebih.`;
+    }
+    if (!Number.isInteger(category.drop_lowest) || category.drop_lowest < 0) {
+      return (
+        `Jumlah nilai terendah yang dibuang di "${category.name}" harus ` +
+        "bilangan bulat 0 atau lebih."
+      );
+    }
+  }
+  const names = categories.map((row) => row.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) {
+    return "Nama kategori tidak boleh sama.";
+  }
+
+  const totalWeight = categories.reduce((sum, row) => sum + row.weight, 0);
+  if (Math.abs(totalWeight - 100) > 0.01) {
+    return (
+      "Total bobot kategori harus 100% " +
+      `(sekarang ${round2(totalWeight)}%).`
+    );
+  }
+
+  for (const item of items) {
+    if (!Number.isFinite(item.weight) || item.weight < 0) {
+      return "Bobot item harus angka 0 atau lebih.";
+    }
+    if (
+      item.category_id !== null &&
+      !categories.some((row) => row.id === item.category_id)
+    ) {
+      return "Ada item yang masuk ke kategori yang sudah dihapus.";
+    }
+  }
+
+  if (scale.length === 0) return "Skala huruf mutu tidak boleh kosong.";
+  for (const band of scale) {
+    if (!band.letter.trim()) return "Huruf mutu wajib diisi.";
+    if (
+      !Number.isFinite(band.min_score) ||
+      band.min_score < 0 ||
+      band.min_score > 100
+    ) {
+      return `Batas nilai huruf ${band.letter} harus di antara 0 dan 100.`;
+    }
+  }
+  const letters = scale.map((band) => band.letter.trim().toUpperCase());
+  if (new Set(letters).size !== letters.length) {
+    return "Huruf mutu tidak boleh sama.";
+  }
+  const minimums = scale.map((band) => band.min_score);
+  if (new Set(minimums).size !== minimums.length) {
+    return "Batas nilai tiap huruf mutu harus berbeda.";
+  }
+  // Tanpa batas 0, nilai akhir di bawah huruf terendah tidak punya huruf
+  if (!minimums.includes(0)) {
+    return "Huruf mutu terendah harus berbatas 0.";
+  }
+
+  return null;
+}
@@ -0,0 +1,202 @@
+// src/lib/mockBackend/http.ts
+
+import type { UserRole } from "../api/types";
+import type { MockState, MockUser } from "./store";
+
+/**
+ * Router kecil + helper request/response untuk mock backend.
+ * Pesan error mengikuti gaya backend Laravel: { message, errors? }.
+ */
+
+export class MockHttpError extends Error {
+  status: number;
+  errors?: Record<string, string[]>;
+
+  constructor(
+    status: number,
+    message: string,
+    errors?: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = "MockHttpError";
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+export interface MockContext {
+  request: Request;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  state: MockState;
+  /** Base URL mock (misal http://localhost:3000/mock-api), untuk file_url */
+  baseUrl: string;
+}
+
+/** Return value selain Response dijadikan JSON 200 */
+export type MockHandler = (ctx: MockContext) => unknown | Promise<unknown>;
+
+export interface MockRoute {
+  method: string;
+  /** Path dengan parameter `:nama`, atau `*` di akhir untuk sisa path */
+  pattern: string;
+  handler: MockHandler;
+}
+
+export function route(
+  method: string,
+  pattern: string,
+  handler: MockHandler
+): MockRoute {
+  return { method, pattern, handler };
+}
+
+export function matchRoute(
+  routes: MockRoute[],
+  method: string,
+  pathname: string
+): { route: MockRoute; params: Record<string, string> } | null {
+  const pathParts = pathname.split("/").filter(Boolean);
+
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+
+    const patternParts = candidate.pattern.split("/").filter(Boolean);
+    const params: Record<string, string> = {};
+    let matched = true;
+
+    for (let i = 0; i < patternParts.length; i += 1) {
+      const part = patternParts[i];
+      if (part === "*") {
+        params["*"] = pathParts.slice(i).join("/");
+        break;
+      }
+      const value = pathParts[i];
+      if (value === undefined) {
+        matched = false;
+        break;
+      }
+      if (part.startsWith(":")) {
+        params[part.slice(1)] = decodeURIComponent(value);
+      } else if (part !== value) {
+        matched = false;
+        break;
+      }
+    }
+
+    const wildcard = patternParts[patternParts.length - 1] === "*";
+    if (matched && (wildcard || patternParts.length === pathParts.length)) {
+      return { route: candidate, params };
+    }
+  }
+
+  return null;
+}
+
+export function jsonResponse(data: unknown, status = 200): Response {
+  return Response.json(data, { status });
+}
+
+export function toErrorResponse(error: unknown): Response {
+  if (error instanceof MockHttpError) {
+    return jsonResponse(
+      error.errors
+        ? { message: error.message, errors: error.errors }
+        : { message: error.message },
+      error.status
+    );
+  }
+  const message = error instanceof Error ? error.message : "Server error";
+  return jsonResponse({ message }, 500);
+}
+
+/** Error validasi 422 untuk satu field */
+export function validationError(field: string, message: string): never {
+  throw new MockHttpError(422, message, { [field]: [message] });
+}
+
+export function notFound(message = "Data tidak ditemukan."): never {
+  throw new MockHttpError(404, message);
+}
+
+export function forbidden(message = "Anda tidak memiliki akses."): never {
+  throw new MockHttpError(403, message);
+}
+
+export function findById<T extends { id: number }>(
+  list: T[],
+  id: string | number,
+  message?: string
+): T {
+  const item = list.find((row) => row.id === Number(id));
+  if (!item) notFound(message);
+  return item;
+}
+
+export async function readBody(
+  request: Request
+): Promise<Record<string, unknown>> {
+  const data: unknown = await request.json().catch(() => null);
+  return data && typeof data === "object" && !Array.isArray(data)
+    ? (data as Record<string, unknown>)
+    : {};
+}
+
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("Authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1] : null;
+}
+
+/** User pemilik token; 401 kalau token tidak ada/tidak dikenal */
+export function requireUser(ctx: MockContext, role?: UserRole): MockUser {
+  const token = getBearerToken(ctx.request);
+  const userId = token ? ctx.state.tokens.get(token) : undefined;
+  const user = ctx.state.users.find((row) => row.id === userId);
+
+  if (!user || user.status !== "active") {
+    throw new MockHttpError(401, "Unauthenticated.");
+  }
+  if (role && user.role !== role) forbidden();
+  return user;
+}
+
+// -----------------------------
+// Normalisasi input
+// -----------------------------
+
+export function toStringOrNull(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text ? text : null;
+}
+
+export function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/** Array objek dari body; elemen selain objek dibuang */
+export function toArray(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter(
+        (row): row is Record<string, unknown> =>
+          Boolean(row) && typeof row === "object"
+      )
+    : [];
+}
+
+export function toBoolean(value: unknown): boolean {
+  return value === true || value === 1 || value === "1" || value === "true";
+}
+
+export function requireString(
+  body: Record<string, unknown>,
+  field: string,
+  label: string
+): string {
+  const value = toStringOrNull(body[field]);
+  if (!value) validationError(field, `${label} wajib diisi.`);
+  return value;
+}
@@ -0,0 +1,86 @@
+// src/lib/mockBackend/index.ts
+
+import {
+  jsonResponse,
+  matchRoute,
+  notFound,
+  route,
+  toErrorResponse,
+  type MockRoute,
+} from "./http";
+import { adminRoutes } from "./routes/admin";
+import { authRoutes } from "./routes/auth";
+import { courseRoutes } from "./routes/course";
+import { questionBankRoutes } from "./routes/questionBank";
+import { studentRoutes } from "./routes/student";
+import { teacherRoutes } from "./routes/teacher";
+import { getMockState, resetMockState } from "./store";
+
+/**
+ * Mock backend LMS in-memory untuk development offline & test E2E.
+ * Meniru endpoint backend Laravel yang dipanggil SDK src/lib/api, dengan
+ * akun seed (password semua: password123):
+ * - admin (superadmin), dosen (dosen)
+ * - 20250801001 (mahasiswa), 20250801002 (mahasiswa, wajib ganti password)
+ *
+ * Diaktifkan lewat route handler src/app/mock-api/[...path]/route.ts.
+ */
+
+const utilityRoutes: MockRoute[] = [
+  route("GET", "/storage/*", ({ params, state }) => {
+    const file = state.files.get(params["*"]);
+    if (!file) notFound("File tidak ditemukan.");
+    return new Response(file.data, {
+      headers: {
+        "Content-Type": file.type,
+        "Content-Disposition": `inline; filename="${file.name}"`,
+      },
+    });
+  }),
+
+  route("POST", "/__reset", () => {
+    resetMockState();
+    return { message: "Data mock dikembalikan ke seed." };
+  }),
+];
+
+const routes: MockRoute[] = [
+  ...utilityRoutes,
+  ...authRoutes,
+  ...adminRoutes,
+  ...courseRoutes,
+  ...teacherRoutes,
+  ...questionBankRoutes,
+  ...studentRoutes,
+];
+
+/**
+ * @param pathname path setelah prefix mock, misal /api/auth/login
+ * @param baseUrl URL publik prefix mock, dipakai untuk file_url
+ */
+export async function handleMockRequest(
+  request: Request,
+  pathname: string,
+  baseUrl: string
+): Promise<Response> {
+  const match = matchRoute(routes, request.method, pathname);
+  if (!match) {
+    return jsonResponse(
+      { message: `Endpoint mock tidak ditemukan: ${request.method} ${pathname}` },
+      404
+    );
+  }
+
+  try {
+    const result = await match.route.handler({
+      request,
+      params: match.params,
+      query: new URL(request.url).searchParams,
+      state: getMockState(),
+      baseUrl,
+    });
+    return result instanceof Response ? result : jsonResponse(result);
+  } catch (error: unknown) {
+    return toErrorResponse(error);
+  }
+}
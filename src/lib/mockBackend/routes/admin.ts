@@ -0,0 +1,432 @@
+// src/lib/mockBackend/routes/admin.ts
+
+import type {
+  CourseStatus,
+  EnrollmentItem,
+  User,
+  UserRole,
+  UserStatus,
+} from "../../api/types";
+import {
+  MockHttpError,
+  findById,
+  readBody,
+  requireString,
+  requireUser,
+  route,
+  toBoolean,
+  toNumberOrNull,
+  toStringOrNull,
+  validationError,
+  type MockContext,
+  type MockRoute,
+} from "../http";
+import { toCourseInstance, toUser } from "../serializers";
+import {
+  MOCK_DEFAULT_PASSWORD,
+  nextId,
+  type MockCourseInstance,
+  type MockEnrollment,
+  type MockState,
+} from "../store";
+
+const USER_ROLES: UserRole[] = ["superadmin", "dosen", "mahasiswa"];
+const COURSE_STATUSES: CourseStatus[] = ["draft", "active", "finished"];
+
+function requireAdmin(ctx: MockContext) {
+  return requireUser(ctx, "superadmin");
+}
+
+// -----------------------------
+// Users
+// -----------------------------
+
+function filterUsers(state: MockState, query: URLSearchParams): User[] {
+  const roles = (query.get("role") ?? "").split(",").filter(Boolean);
+  const status = query.get("status");
+  const keyword = (query.get("keyword") ?? "").trim().toLowerCase();
+
+  return state.users
+    .filter((user) => roles.length === 0 || roles.includes(user.role))
+    .filter((user) => !status || user.status === status)
+    .filter(
+      (user) =>
+        !keyword ||
+        [user.name, user.username, user.nim, user.email].some((value) =>
+          value?.toLowerCase().includes(keyword)
+        )
+    )
+    .map(toUser);
+}
+
+function sortUsers(users: User[], query: URLSearchParams): User[] {
+  const sort = query.get("sort") as keyof User | null;
+  if (!sort || !["name", "username", "role", "status"].includes(sort)) {
+    return users;
+  }
+  const factor = query.get("direction") === "desc" ? -1 : 1;
+  return [...users].sort(
+    (a, b) => String(a[sort]).localeCompare(String(b[sort])) * factor
+  );
+}
+
+/**
+ * Tanpa `page` → array biasa (seperti endpoint lama);
+ * dengan `page` → bentuk pagination Laravel.
+ */
+function listUsers(ctx: MockContext) {
+  requireAdmin(ctx);
+  const users = sortUsers(filterUsers(ctx.state, ctx.query), ctx.query);
+  if (!ctx.query.has("page")) return users;
+
+  const perPage = Math.max(1, toNumberOrNull(ctx.query.get("per_page")) ?? 15);
+  const lastPage = Math.max(1, Math.ceil(users.length / perPage));
+  const page = Math.min(
+    lastPage,
+    Math.max(1, toNumberOrNull(ctx.query.get("page")) ?? 1)
+  );
+  const start = (page - 1) * perPage;
+  const data = users.slice(start, start + perPage);
+
+  return {
+    data,
+    current_page: page,
+    last_page: lastPage,
+    per_page: perPage,
+    total: users.length,
+    from: data.length > 0 ? start + 1 : null,
+    to: data.length > 0 ? start + data.length : null,
+  };
+}
+
+function readUserPayload(body: Record<string, unknown>) {
+  const role = body.role as UserRole;
+  if (!USER_ROLES.includes(role)) {
+    validationError("role", "Role tidak valid.");
+  }
+  const status: UserStatus = body.status === "inactive" ? "inactive" : "active";
+
+  return {
+    name: requireString(body, "name", "Nama"),
+    username: requireString(body, "username", "Username"),
+    email: toStringOrNull(body.email),
+    nim: toStringOrNull(body.nim),
+    role,
+    status,
+    force_password_change: toBoolean(body.force_password_change),
+  };
+}
+
+function assertUniqueUsername(
+  state: MockState,
+  username: string,
+  exceptId?: number
+) {
+  const taken = state.users.some(
+    (user) => user.username === username && user.id !== exceptId
+  );
+  if (taken) validationError("username", "Username sudah digunakan.");
+}
+
+// -----------------------------
+// Course template
+// -----------------------------
+
+function readTemplatePayload(body: Record<string, unknown>) {
+  return {
+    code: requireString(body, "code", "Kode"),
+    name: requireString(body, "name", "Nama"),
+    description: toStringOrNull(body.description),
+    sks: toNumberOrNull(body.sks) ?? 0,
+    semester_recommendation: toStringOrNull(body.semester_recommendation),
+    is_active: toBoolean(body.is_active),
+  };
+}
+
+// -----------------------------
+// Course instance
+// -----------------------------
+
+function readInstancePayload(
+  state: MockState,
+  body: Record<string, unknown>
+): Omit<MockCourseInstance, "id" | "grading_scheme"> {
+  const templateId = toNumberOrNull(body.course_template_id);
+  if (!state.templates.some((row) => row.id === templateId)) {
+    validationError("course_template_id", "Template tidak ditemukan.");
+  }
+  const lecturerId = toNumberOrNull(body.lecturer_id);
+  const lecturer = state.users.find((row) => row.id === lecturerId);
+  if (!lecturer || lecturer.role !== "dosen") {
+    validationError("lecturer_id", "Dosen tidak ditemukan.");
+  }
+  const status = body.status as CourseStatus;
+  if (!COURSE_STATUSES.includes(status)) {
+    validationError("status", "Status tidak valid.");
+  }
+
+  return {
+    course_template_id: templateId as number,
+    class_name: requireString(body, "class_name", "Nama kelas"),
+    semester: requireString(body, "semester", "Semester"),
+    lecturer_id: lecturer.id,
+    status,
+    start_date: toStringOrNull(body.start_date),
+    end_date: toStringOrNull(body.end_date),
+    notes: toStringOrNull(body.notes),
+  };
+}
+
+function toAdminInstance(state: MockState, instance: MockCourseInstance) {
+  const full = toCourseInstance(state, instance);
+  return { ...full, course_template: full.template };
+}
+
+function toEnrollmentItem(
+  state: MockState,
+  enrollment: MockEnrollment
+): EnrollmentItem {
+  const student = findById(state.users, enrollment.student_id);
+  return {
+    enrollment_id: enrollment.id,
+    status: enrollment.status,
+    enrolled_at: enrollment.enrolled_at,
+    dropped_at: enrollment.dropped_at,
+    student: {
+      id: student.id,
+      name: student.name,
+      username: student.username,
+      nim: student.nim,
+      email: student.email,
+      role: student.role,
+      user_status: student.status,
+    },
+  };
+}
+
+export const adminRoutes: MockRoute[] = [
+  route("GET", "/api/admin/users", listUsers),
+
+  route("POST", "/api/admin/users", async (ctx) => {
+    requireAdmin(ctx);
+    const body = await readBody(ctx.request);
+    const payload = readUserPayload(body);
+    assertUniqueUsername(ctx.state, payload.username);
+
+    const user = {
+      id: nextId(ctx.state),
+      ...payload,
+      password: toStringOrNull(body.password) ?? MOCK_DEFAULT_PASSWORD,
+    };
+    ctx.state.users.push(user);
+    return toUser(user);
+  }),
+
+  route("PUT", "/api/admin/users/:id", async (ctx) => {
+    requireAdmin(ctx);
+    const user = findById(ctx.state.users, ctx.params.id);
+    const body = await readBody(ctx.request);
+    const payload = readUserPayload(body);
+    assertUniqueUsername(ctx.state, payload.username, user.id);
+
+    Object.assign(user, payload);
+    const password = toStringOrNull(body.password);
+    if (password) user.password = password;
+    return toUser(user);
+  }),
+
+  route("DELETE", "/api/admin/users/:id", (ctx) => {
+    const admin = requireAdmin(ctx);
+    const user = findById(ctx.state.users, ctx.params.id);
+    if (user.id === admin.id) {
+      throw new MockHttpError(422, "Tidak bisa menghapus akun sendiri.");
+    }
+    ctx.state.users = ctx.state.users.filter((row) => row.id !== user.id);
+    return { message: "User berhasil dihapus." };
+  }),
+
+  route("POST", "/api/admin/users/:id/reset-password", (ctx) => {
+    requireAdmin(ctx);
+    const user = findById(ctx.state.users, ctx.params.id);
+    const plain = `reset${Math.floor(100000 + Math.random() * 900000)}`;
+    user.password = plain;
+    user.force_password_change = true;
+    return { message: "Password berhasil direset.", plain_password: plain };
+  }),
+
+  route("GET", "/api/admin/course-templates", (ctx) => {
+    requireAdmin(ctx);
+    const search = (ctx.query.get("search") ?? "").toLowerCase();
+    const isActive = ctx.query.get("is_active");
+    return ctx.state.templates
+      .filter(
+        (row) =>
+          !search ||
+          row.code.toLowerCase().includes(search) ||
+          row.name.toLowerCase().includes(search)
+      )
+      .filter((row) => !isActive || row.is_active === (isActive === "1"));
+  }),
+
+  route("POST", "/api/admin/course-templates", async (ctx) => {
+    requireAdmin(ctx);
+    const payload = readTemplatePayload(await readBody(ctx.request));
+    if (ctx.state.templates.some((row) => row.code === payload.code)) {
+      validationError("code", "Kode sudah digunakan.");
+    }
+    const template = {
+      id: nextId(ctx.state),
+      ...payload,
+      created_at: new Date().toISOString(),
+    };
+    ctx.state.templates.push(template);
+    return template;
+  }),
+
+  route("PUT", "/api/admin/course-templates/:id", async (ctx) => {
+    requireAdmin(ctx);
+    const template = findById(ctx.state.templates, ctx.params.id);
+    Object.assign(template, readTemplatePayload(await readBody(ctx.request)));
+    return template;
+  }),
+
+  route("DELETE", "/api/admin/course-templates/:id", (ctx) => {
+    requireAdmin(ctx);
+    const template = findById(ctx.state.templates, ctx.params.id);
+    if (
+      ctx.state.instances.some((row) => row.course_template_id === template.id)
+    ) {
+      throw new MockHttpError(
+        422,
+        "Template masih dipakai oleh kelas dan tidak bisa dihapus."
+      );
+    }
+    ctx.state.templates = ctx.state.templates.filter(
+      (row) => row.id !== template.id
+    );
+    return { message: "Template berhasil dihapus." };
+  }),
+
+  route("GET", "/api/admin/course-instances", (ctx) => {
+    requireAdmin(ctx);
+    const semester = ctx.query.get("semester");
+    const status = ctx.query.get("status");
+    return ctx.state.instances
+      .filter((row) => !semester || row.semester === semester)
+      .filter((row) => !status || row.status === status)
+      .map((row) => toAdminInstance(ctx.state, row));
+  }),
+
+  route("POST", "/api/admin/course-instances", async (ctx) => {
+    requireAdmin(ctx);
+    const body = await readBody(ctx.request);
+    const instance = {
+      id: nextId(ctx.state),
+      ...readInstancePayload(ctx.state, body),
+      grading_scheme: null,
+    };
+    ctx.state.instances.push(instance);
+    return toAdminInstance(ctx.state, instance);
+  }),
+
+  route("PUT", "/api/admin/course-instances/:id", async (ctx) => {
+    requireAdmin(ctx);
+    const instance = findById(ctx.state.instances, ctx.params.id);
+    const body = await readBody(ctx.request);
+    Object.assign(instance, readInstancePayload(ctx.state, body));
+    return toAdminInstance(ctx.state, instance);
+  }),
+
+  route("DELETE", "/api/admin/course-instances/:id", (ctx) => {
+    requireAdmin(ctx);
+    const instance = findById(ctx.state.instances, ctx.params.id);
+    ctx.state.instances = ctx.state.instances.filter(
+      (row) => row.id !== instance.id
+    );
+    return { message: "Kelas berhasil dihapus." };
+  }),
+
+  route("POST", "/api/admin/course-instances/:id/status", async (ctx) => {
+    requireAdmin(ctx);
+    const instance = findById(ctx.state.instances, ctx.params.id);
+    const body = await readBody(ctx.request);
+    const status = body.status as CourseStatus;
+    if (!COURSE_STATUSES.includes(status)) {
+      validationError("status", "Status tidak valid.");
+    }
+    instance.status = status;
+    return toAdminInstance(ctx.state, instance);
+  }),
+
+  route("GET", "/api/admin/course-instances/:id/students", (ctx) => {
+    requireAdmin(ctx);
+    const instance = findById(ctx.state.instances, ctx.params.id);
+    return {
+      class: toAdminInstance(ctx.state, instance),
+      students: ctx.state.enrollments
+        .filter((row) => row.course_instance_id === instance.id)
+        .map((row) => toEnrollmentItem(ctx.state, row)),
+    };
+  }),
+
+  route("POST", "/api/admin/course-instances/:id/students", async (ctx) => {
+    requireAdmin(ctx);
+    const instance = findById(ctx.state.instances, ctx.params.id);
+    const nim = requireString(await readBody(ctx.request), "nim", "NIM");
+
+    const student = ctx.state.users.find(
+      (row) =>
+        row.role === "mahasiswa" && (row.nim === nim || row.username === nim)
+    );
+    if (!student) validationError("nim", "Mahasiswa tidak ditemukan.");
+
+    const now = new Date().toISOString();
+    let enrollment = ctx.state.enrollments.find(
+      (row) =>
+        row.course_instance_id === instance.id && row.student_id === student.id
+    );
+    if (enrollment?.status === "active") {
+      validationError("nim", "Mahasiswa sudah terdaftar di kelas ini.");
+    }
+    if (enrollment) {
+      enrollment.status = "active";
+      enrollment.enrolled_at = now;
+      enrollment.dropped_at = null;
+    } else {
+      enrollment = {
+        id: nextId(ctx.state),
+        course_instance_id: instance.id,
+        student_id: student.id,
+        status: "active",
+        enrolled_at: now,
+        dropped_at: null,
+      };
+      ctx.state.enrollments.push(enrollment);
+    }
+
+    return {
+      message: "Mahasiswa berhasil didaftarkan.",
+      enrollment: toEnrollmentItem(ctx.state, enrollment),
+    };
+  }),
+
+  route(
+    "DELETE",
+    "/api/admin/course-instances/:id/students/:studentId",
+    (ctx) => {
+      requireAdmin(ctx);
+      const enrollment = ctx.state.enrollments.find(
+        (row) =>
+          row.course_instance_id === Number(ctx.params.id) &&
+          row.student_id === Number(ctx.params.studentId) &&
+          row.status === "active"
+      );
+      if (!enrollment) {
+        throw new MockHttpError(404, "Mahasiswa tidak terdaftar di kelas.");
+      }
+      enrollment.status = "dropped";
+      enrollment.dropped_at = new Date().toISOString();
+      return { message: "Mahasiswa berhasil dikeluarkan." };
+    }
+  ),
+];
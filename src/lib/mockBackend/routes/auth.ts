@@ -0,0 +1,75 @@
+// src/lib/mockBackend/routes/auth.ts
+
+import {
+  MockHttpError,
+  getBearerToken,
+  readBody,
+  requireUser,
+  route,
+  validationError,
+  type MockRoute,
+} from "../http";
+import { toUser } from "../serializers";
+import type { MockState } from "../store";
+
+function issueToken(state: MockState, userId: number): string {
+  const token = `mock-${userId}-${crypto.randomUUID()}`;
+  state.tokens.set(token, userId);
+  return token;
+}
+
+export const authRoutes: MockRoute[] = [
+  route("GET", "/api/ping", () => ({ message: "pong (mock backend)" })),
+
+  route("POST", "/api/auth/login", async ({ request, state }) => {
+    const body = await readBody(request);
+    const username = String(body.username ?? "").trim();
+    const password = String(body.password ?? "");
+
+    const user = state.users.find((row) => row.username === username);
+    if (!user || user.password !== password) {
+      throw new MockHttpError(401, "Username atau password salah.");
+    }
+    if (user.status !== "active") {
+      throw new MockHttpError(403, "Akun Anda tidak aktif.");
+    }
+
+    return { token: issueToken(state, user.id), user: toUser(user) };
+  }),
+
+  route("POST", "/api/auth/logout", (ctx) => {
+    const token = getBearerToken(ctx.request);
+    if (token) ctx.state.tokens.delete(token);
+    return { message: "Logout berhasil." };
+  }),
+
+  route("GET", "/api/auth/me", (ctx) => toUser(requireUser(ctx))),
+
+  route("POST", "/api/auth/refresh", (ctx) => {
+    const user = requireUser(ctx);
+    const oldToken = getBearerToken(ctx.request);
+    if (oldToken) ctx.state.tokens.delete(oldToken);
+    return { token: issueToken(ctx.state, user.id) };
+  }),
+
+  route("POST", "/api/auth/change-password", async (ctx) => {
+    const user = requireUser(ctx);
+    const body = await readBody(ctx.request);
+    const current = String(body.current_password ?? body.old_password ?? "");
+    const next = String(body.new_password ?? "");
+
+    if (current !== user.password) {
+      validationError("current_password", "Password lama tidak sesuai.");
+    }
+    if (next.length < 8) {
+      validationError("new_password", "Password baru minimal 8 karakter.");
+    }
+    if (next !== body.new_password_confirmation) {
+      validationError("new_password", "Konfirmasi password tidak sama.");
+    }
+
+    user.password = next;
+    user.force_password_change = false;
+    return { message: "Password berhasil diubah." };
+  }),
+];
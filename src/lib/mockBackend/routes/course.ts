@@ -0,0 +1,564 @@
+// src/lib/mockBackend/routes/course.ts
+
+import type {
+  AssignmentType,
+  MaterialType,
+  QuestionType,
+  QuizQuestion,
+  Rubric,
+} from "../../api/types";
+import { QUESTION_TYPES } from "../../quizQuestions";
+import {
+  computeRubricScore,
+  getRubricMaxScore,
+  pruneRubricSelection,
+  validateRubric,
+} from "../../rubric";
+import {
+  findById,
+  forbidden,
+  readBody,
+  requireString,
+  requireUser,
+  route,
+  toArray,
+  toBoolean,
+  toNumberOrNull,
+  toStringOrNull,
+  validationError,
+  type MockContext,
+  type MockRoute,
+} from "../http";
+import {
+  findCourse,
+  getSectionCourse,
+  toAssignmentItem,
+  toCourseHeader,
+  toMaterialItem,
+  toQuizItem,
+  toSectionContext,
+  toSectionItem,
+} from "../serializers";
+import {
+  nextId,
+  type MockAssignment,
+  type MockCourseInstance,
+  type MockQuiz,
+  type MockState,
+  type MockUser,
+} from "../store";
+
+/**
+ * Endpoint isi kelas yang dipakai dosen (kelola) dan mahasiswa (lihat):
+ * sections, materi, tugas, quiz.
+ */
+
+export function isCourseMember(
+  state: MockState,
+  user: MockUser,
+  course: MockCourseInstance
+): boolean {
+  if (user.role === "superadmin") return true;
+  if (user.role === "dosen") return course.lecturer_id === user.id;
+  return state.enrollments.some(
+    (row) =>
+      row.course_instance_id === course.id &&
+      row.student_id === user.id &&
+      row.status === "active"
+  );
+}
+
+function requireCourseViewer(ctx: MockContext, course: MockCourseInstance) {
+  const user = requireUser(ctx);
+  if (!isCourseMember(ctx.state, user, course)) forbidden();
+  return user;
+}
+
+/** Hanya dosen pengampu (atau superadmin) yang boleh mengubah isi kelas */
+export function requireCourseOwner(
+  ctx: MockContext,
+  course: MockCourseInstance
+) {
+  const user = requireUser(ctx);
+  if (user.role === "mahasiswa" || !isCourseMember(ctx.state, user, course)) {
+    forbidden();
+  }
+  return user;
+}
+
+export function getSection(ctx: MockContext, id: string | number) {
+  const section = findById(ctx.state.sections, id, "Section tidak ditemukan.");
+  return { section, course: getSectionCourse(ctx.state, section) };
+}
+
+// -----------------------------
+// Materi (multipart)
+// -----------------------------
+
+function sanitizeFileName(name: string) {
+  return name.replace(/[^\w.-]+/g, "_");
+}
+
+/** Simpan file upload di memori, kembalikan path relatif storage */
+export async function storeUpload(
+  state: MockState,
+  folder: string,
+  file: File
+): Promise<string> {
+  const path = `${folder}/${nextId(state)}-${sanitizeFileName(file.name)}`;
+  state.files.set(path, {
+    name: file.name,
+    type: file.type || "application/octet-stream",
+    data: await file.arrayBuffer(),
+  });
+  return path;
+}
+
+async function readMaterialForm(
+  ctx: MockContext,
+  currentFilePath: string | null
+) {
+  const form = await ctx.request.formData();
+  const body = Object.fromEntries(
+    [...form.entries()].filter(([, value]) => typeof value === "string")
+  );
+  const type = body.type as MaterialType;
+  if (type !== "file" && type !== "link") {
+    validationError("type", "Tipe materi tidak valid.");
+  }
+
+  const upload = form.get("file");
+  let filePath = type === "file" ? currentFilePath : null;
+  if (type === "file" && upload instanceof File && upload.size > 0) {
+    filePath = await storeUpload(ctx.state, "materials", upload);
+  }
+  if (type === "file" && !filePath) {
+    validationError("file", "File materi wajib diunggah.");
+  }
+
+  const url = type === "link" ? toStringOrNull(body.url) : null;
+  if (type === "link" && !url) validationError("url", "URL wajib diisi.");
+
+  return {
+    title: requireString(body, "title", "Judul"),
+    description: toStringOrNull(body.description),
+    subject: toStringOrNull(body.subject),
+    type,
+    file_path: filePath,
+    url,
+  };
+}
+
+// -----------------------------
+// Tugas & quiz
+// -----------------------------
+
+function readAssignmentPayload(body: Record<string, unknown>) {
+  const type = body.type as AssignmentType;
+  if (type !== "file" && type !== "link") {
+    validationError("type", "Tipe tugas tidak valid.");
+  }
+  return {
+    title: requireString(body, "title", "Judul"),
+    description: toStringOrNull(body.description),
+    type,
+    instructions: toStringOrNull(body.instructions),
+    deadline: toStringOrNull(body.deadline),
+    max_score: toNumberOrNull(body.max_score),
+    allow_late: toBoolean(body.allow_late),
+  };
+}
+
+function readRubric(value: unknown): Rubric {
+  const body =
+    value && typeof value === "object"
+      ? (value as Record<string, unknown>)
+      : {};
+  const rubric: Rubric = {
+    criteria: toArray(body.criteria).map((criterion) => ({
+      id: toStringOrNull(criterion.id) ?? "",
+      title: toStringOrNull(criterion.title) ?? "",
+      description: toStringOrNull(criterion.description),
+      levels: toArray(criterion.levels).map((level) => ({
+        id: toStringOrNull(level.id) ?? "",
+        label: toStringOrNull(level.label) ?? "",
+        points: toNumberOrNull(level.points) ?? -1,
+        description: toStringOrNull(level.description),
+      })),
+    })),
+  };
+
+  const error = validateRubric(rubric);
+  if (error) validationError("rubric", error);
+  return rubric;
+}
+
+/**
+ * Normalisasi satu soal dari body request. Dipakai editor soal quiz dan
+ * bank soal; `field` menjadi prefix key error validasi.
+ */
+export function readQuestion(
+  state: MockState,
+  raw: Partial<QuizQuestion>,
+  index: number,
+  field = "questions"
+): QuizQuestion {
+  if (!QUESTION_TYPES.includes(raw.type as QuestionType)) {
+    validationError(
+      `${field}.${index}.type`,
+      `Tipe soal #${index + 1} tidak valid.`
+    );
+  }
+  const question: QuizQuestion = {
+    id: toNumberOrNull(raw.id) ?? nextId(state),
+    type: raw.type as QuestionType,
+    text: toStringOrNull(raw.text),
+    points: toNumberOrNull(raw.points) ?? 0,
+    bank_question_id: toNumberOrNull(raw.bank_question_id),
+  };
+  switch (question.type) {
+    case "multiple_choice":
+    case "multiple_answer":
+      question.options = (raw.options ?? []).map((option) => ({
+        text: toStringOrNull(option?.text),
+      }));
+      if (question.type === "multiple_choice") {
+        question.correct_option_index = toNumberOrNull(
+          raw.correct_option_index
+        );
+      } else {
+        question.correct_option_indexes = (raw.correct_option_indexes ?? [])
+          .map((value) => toNumberOrNull(value))
+          .filter((value): value is number => value !== null);
+        question.partial_credit =
+          raw.partial_credit === undefined || toBoolean(raw.partial_credit);
+      }
+      break;
+    case "true_false":
+      question.correct_boolean =
+        typeof raw.correct_boolean === "boolean" ? raw.correct_boolean : null;
+      break;
+    case "matching":
+      question.matching_pairs = (raw.matching_pairs ?? []).map((pair) => ({
+        left: String(pair?.left ?? ""),
+        right: String(pair?.right ?? ""),
+      }));
+      break;
+    case "numeric":
+      question.numeric_answer = toNumberOrNull(raw.numeric_answer);
+      question.numeric_tolerance = toNumberOrNull(raw.numeric_tolerance) ?? 0;
+      break;
+    case "essay":
+      question.essay_word_limit = toNumberOrNull(raw.essay_word_limit);
+      break;
+  }
+  return question;
+}
+
+function readQuestions(state: MockState, value: unknown): QuizQuestion[] {
+  if (!Array.isArray(value)) {
+    validationError("questions", "Daftar soal tidak valid.");
+  }
+
+  return value.map((raw: Partial<QuizQuestion>, index) =>
+    readQuestion(state, raw, index)
+  );
+}
+
+function readQuizPayload(
+  state: MockState,
+  body: Record<string, unknown>
+): Partial<MockQuiz> {
+  if (!("title" in body) && "questions" in body) {
+    return { questions: readQuestions(state, body.questions) };
+  }
+
+  const payload: Partial<MockQuiz> = {
+    title: requireString(body, "title", "Judul"),
+    description: toStringOrNull(body.description),
+    start_time: toStringOrNull(body.start_time),
+    end_time: toStringOrNull(body.end_time),
+    duration_minutes: toNumberOrNull(body.duration_minutes),
+    max_score: toNumberOrNull(body.max_score),
+  };
+  // Form lama tidak mengirim pengaturan acak; jangan reset yang sudah ada
+  if ("shuffle_questions" in body) {
+    payload.shuffle_questions = toBoolean(body.shuffle_questions);
+  }
+  if ("shuffle_options" in body) {
+    payload.shuffle_options = toBoolean(body.shuffle_options);
+  }
+  if ("draw_count" in body) {
+    const drawCount = toNumberOrNull(body.draw_count);
+    const blank = body.draw_count === null || body.draw_count === "";
+    if (
+      (drawCount === null && !blank) ||
+      (drawCount !== null && (!Number.isInteger(drawCount) || drawCount < 1))
+    ) {
+      validationError(
+        "draw_count",
+        "Jumlah soal yang diundi harus bilangan bulat minimal 1."
+      );
+    }
+    payload.draw_count = drawCount;
+  }
+  if (Array.isArray(body.questions)) {
+    payload.questions = readQuestions(state, body.questions);
+  }
+  return payload;
+}
+
+export const courseRoutes: MockRoute[] = [
+  // Sections
+  route("GET", "/api/course-instances/:id/sections", (ctx) => {
+    const course = findCourse(ctx.state, ctx.params.id);
+    requireCourseViewer(ctx, course);
+    return {
+      course: toCourseHeader(ctx.state, course),
+      sections: ctx.state.sections
+        .filter((row) => row.course_instance_id === course.id)
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.id - b.id)
+        .map(toSectionItem),
+    };
+  }),
+
+  route("POST", "/api/course-instances/:id/sections", async (ctx) => {
+    const course = findCourse(ctx.state, ctx.params.id);
+    requireCourseOwner(ctx, course);
+    const body = await readBody(ctx.request);
+    const now = new Date().toISOString();
+    const section = {
+      id: nextId(ctx.state),
+      course_instance_id: course.id,
+      title: requireString(body, "title", "Judul"),
+      order: toNumberOrNull(body.order),
+      created_at: now,
+      updated_at: now,
+    };
+    ctx.state.sections.push(section);
+    return toSectionItem(section);
+  }),
+
+  route("PUT", "/api/sections/:id", async (ctx) => {
+    const { section, course } = getSection(ctx, ctx.params.id);
+    requireCourseOwner(ctx, course);
+    const body = await readBody(ctx.request);
+    section.title = requireString(body, "title", "Judul");
+    if ("order" in body) section.order = toNumberOrNull(body.order);
+    section.updated_at = new Date().toISOString();
+    return toSectionItem(section);
+  }),
+
+  route("DELETE", "/api/sections/:id", (ctx) => {
+    const { section, course } = getSection(ctx, ctx.params.id);
+    requireCourseOwner(ctx, course);
+    const { state } = ctx;
+    state.sections = state.sections.filter((row) => row.id !== section.id);
+    state.materials = state.materials.filter(
+      (row) => row.section_id !== section.id
+    );
+    state.assignments = state.assignments.filter(
+      (row) => row.section_id !== section.id
+    );
+    state.quizzes = state.quizzes.filter((row) => row.section_id !== section.id);
+    return { message: "Section berhasil dihapus." };
+  }),
+
+  // Materi
+  route("GET", "/api/sections/:id/materials", (ctx) => {
+    const { section, course } = getSection(ctx, ctx.params.id);
+    requireCourseViewer(ctx, course);
+    return {
+      section: toSectionContext(ctx.state, section),
+      materials: ctx.state.materials
+        .filter((row) => row.section_id === section.id)
+        .map((row) => toMaterialItem(ctx.baseUrl, row)),
+    };
+  }),
+
+  route("POST", "/api/sections/:id/materials", async (ctx) => {
+    const { section, course } = getSection(ctx, ctx.params.id);
+    requireCourseOwner(ctx, course);
+    const now = new Date().toISOString();
+    const material = {
+      id: nextId(ctx.state),
+      section_id: section.id,
+      ...(await readMaterialForm(ctx, null)),
+      created_at: now,
+      updated_at: now,
+    };
+    ctx.state.materials.push(material);
+    return toMaterialItem(ctx.baseUrl, material);
+  }),
+
+  // Update materi memakai POST + _method=PUT (lihat updateMaterial)
+  route("POST", "/api/materials/:id", async (ctx) => {
+    const material = findById(ctx.state.materials, ctx.params.id);
+    const { course } = getSection(ctx, material.section_id);
+    requireCourseOwner(ctx, course);
+    Object.assign(material, await readMaterialForm(ctx, material.file_path));
+    material.updated_at = new Date().toISOString();
+    return toMaterialItem(ctx.baseUrl, material);
+  }),
+
+  route("DELETE", "/api/materials/:id", (ctx) => {
+    const material = findById(ctx.state.materials, ctx.params.id);
+    const { course } = getSection(ctx, material.section_id);
+    requireCourseOwner(ctx, course);
+    ctx.state.materials = ctx.state.materials.filter(
+      (row) => row.id !== material.id
+    );
+    return { message: "Materi berhasil dihapus." };
+  }),
+
+  // Tugas
+  route("GET", "/api/sections/:id/assignments", (ctx) => {
+    const { section, course } = getSection(ctx, ctx.params.id);
+    requireCourseViewer(ctx, course);
+    return {
+      section: toSectionContext(ctx.state, section),
+      assignments: ctx.state.assignments
+        .filter((row) => row.section_id === section.id)
+        .map(toAssignmentItem),
+    };
+  }),
+
+  route("POST", "/api/sections/:id/assignments", async (ctx) => {
+    const { section, course } = getSection(ctx, ctx.params.id);
+    requireCourseOwner(ctx, course);
+    const now = new Date().toISOString();
+    const assignment: MockAssignment = {
+      id: nextId(ctx.state),
+      section_id: section.id,
+      ...readAssignmentPayload(await readBody(ctx.request)),
+      rubric: null,
+      created_at: now,
+      updated_at: now,
+    };
+    ctx.state.assignments.push(assignment);
+    return toAssignmentItem(assignment);
+  }),
+
+  route("PUT", "/api/assignments/:id", async (ctx) => {
+    const assignment = findById(ctx.state.assignments, ctx.params.id);
+    const { course } = getSection(ctx, assignment.section_id);
+    requireCourseOwner(ctx, course);
+    Object.assign(
+      assignment,
+      readAssignmentPayload(await readBody(ctx.request))
+    );
+    if (assignment.rubric) {
+      assignment.max_score = getRubricMaxScore(assignment.rubric);
+    }
+    assignment.updated_at = new Date().toISOString();
+    return toAssignmentItem(assignment);
+  }),
+
+  route("PUT", "/api/assignments/:id/rubric", async (ctx) => {
+    const assignment = findById(ctx.state.assignments, ctx.params.id);
+    const { course } = getSection(ctx, assignment.section_id);
+    requireCourseOwner(ctx, course);
+
+    const body = await readBody(ctx.request);
+    const rubric = body.rubric ? readRubric(body.rubric) : null;
+    assignment.rubric = rubric;
+    if (rubric) assignment.max_score = getRubricMaxScore(rubric);
+    assignment.updated_at = new Date().toISOString();
+
+    // Nilai yang sudah diisi lewat rubrik dihitung ulang; kalau kriterianya
+    // berubah sehingga pilihan tidak lengkap lagi, nilainya dibiarkan dan
+    // dosen menilai ulang
+    ctx.state.submissions
+      .filter(
+        (row) => row.assignment_id === assignment.id && row.rubric_selection
+      )
+      .forEach((submission) => {
+        const selection =
+          rubric && submission.rubric_selection
+            ? pruneRubricSelection(rubric, submission.rubric_selection)
+            : null;
+        const score = rubric ? computeRubricScore(rubric, selection) : null;
+        if (score === null) {
+          submission.rubric_selection = null;
+          return;
+        }
+        submission.rubric_selection = selection;
+        submission.score = score;
+      });
+
+    return toAssignmentItem(assignment);
+  }),
+
+  route("DELETE", "/api/assignments/:id", (ctx) => {
+    const assignment = findById(ctx.state.assignments, ctx.params.id);
+    const { course } = getSection(ctx, assignment.section_id);
+    requireCourseOwner(ctx, course);
+    ctx.state.assignments = ctx.state.assignments.filter(
+      (row) => row.id !== assignment.id
+    );
+    ctx.state.submissions = ctx.state.submissions.filter(
+      (row) => row.assignment_id !== assignment.id
+    );
+    return { message: "Tugas berhasil dihapus." };
+  }),
+
+  // Quiz
+  route("GET", "/api/sections/:id/quizzes", (ctx) => {
+    const { section, course } = getSection(ctx, ctx.params.id);
+    requireCourseViewer(ctx, course);
+    return {
+      section: toSectionContext(ctx.state, section),
+      quizzes: ctx.state.quizzes
+        .filter((row) => row.section_id === section.id)
+        .map(toQuizItem),
+    };
+  }),
+
+  route("POST", "/api/sections/:id/quizzes", async (ctx) => {
+    const { section, course } = getSection(ctx, ctx.params.id);
+    requireCourseOwner(ctx, course);
+    const now = new Date().toISOString();
+    const quiz: MockQuiz = {
+      id: nextId(ctx.state),
+      section_id: section.id,
+      title: "",
+      description: null,
+      start_time: null,
+      end_time: null,
+      duration_minutes: null,
+      max_score: null,
+      shuffle_questions: false,
+      shuffle_options: false,
+      draw_count: null,
+      questions: [],
+      ...readQuizPayload(ctx.state, await readBody(ctx.request)),
+      created_at: now,
+      updated_at: now,
+    };
+    ctx.state.quizzes.push(quiz);
+    return toQuizItem(quiz);
+  }),
+
+  route("PUT", "/api/quizzes/:id", async (ctx) => {
+    const quiz = findById(ctx.state.quizzes, ctx.params.id);
+    const { course } = getSection(ctx, quiz.section_id);
+    requireCourseOwner(ctx, course);
+    Object.assign(
+      quiz,
+      readQuizPayload(ctx.state, await readBody(ctx.request))
+    );
+    quiz.updated_at = new Date().toISOString();
+    return toQuizItem(quiz);
+  }),
+
+  route("DELETE", "/api/quizzes/:id", (ctx) => {
+    const quiz = findById(ctx.state.quizzes, ctx.params.id);
+    const { course } = getSection(ctx, quiz.section_id);
+    requireCourseOwner(ctx, course);
+    ctx.state.quizzes = ctx.state.quizzes.filter((row) => row.id !== quiz.id);
+    ctx.state.attempts = ctx.state.attempts.filter(
+      (row) => row.quiz_id !== quiz.id
+    );
+    return { message: "Quiz berhasil dihapus." };
+  }),
+];
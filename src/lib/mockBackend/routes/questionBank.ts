@@ -0,0 +1,212 @@
+// src/lib/mockBackend/routes/questionBank.ts
+
+import type { QuestionDifficulty, QuizQuestion } from "../../api/types";
+import {
+  findById,
+  forbidden,
+  readBody,
+  requireString,
+  requireUser,
+  route,
+  toBoolean,
+  toNumberOrNull,
+  validationError,
+  type MockContext,
+  type MockRoute,
+} from "../http";
+import { toBankQuestion } from "../serializers";
+import { nextId, type MockBankQuestion, type MockState } from "../store";
+import { readQuestion } from "./course";
+
+const DIFFICULTIES: QuestionDifficulty[] = ["easy", "medium", "hard"];
+
+function findOwnQuestion(ctx: MockContext, userId: number) {
+  const question = findById(
+    ctx.state.bankQuestions,
+    ctx.params.id,
+    "Soal tidak ditemukan di bank soal."
+  );
+  if (question.owner_id !== userId) forbidden();
+  return question;
+}
+
+function readTags(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const tags = value
+    .map((tag) => String(tag ?? "").trim())
+    .filter((tag) => tag.length > 0);
+  return Array.from(new Set(tags));
+}
+
+function readBankPayload(
+  state: MockState,
+  body: Record<string, unknown>
+): Omit<MockBankQuestion, "id" | "owner_id" | "created_at" | "updated_at"> {
+  requireString(body, "text", "Teks soal");
+  const { id: _id, ...question } = readQuestion(
+    state,
+    { ...(body as Partial<QuizQuestion>), bank_question_id: null },
+    0,
+    "question"
+  );
+
+  if (!(question.points > 0)) {
+    validationError("points", "Poin soal harus lebih dari 0.");
+  }
+
+  const difficulty = body.difficulty ?? null;
+  if (
+    difficulty !== null &&
+    !DIFFICULTIES.includes(difficulty as QuestionDifficulty)
+  ) {
+    validationError("difficulty", "Tingkat kesulitan tidak valid.");
+  }
+
+  const templateId = toNumberOrNull(body.course_template_id);
+  if (templateId !== null) {
+    findById(state.templates, templateId, "Mata kuliah tidak ditemukan.");
+  }
+
+  const { bank_question_id: _bankId, ...content } = question;
+
+  return {
+    ...content,
+    course_template_id: templateId,
+    tags: readTags(body.tags),
+    difficulty: difficulty as QuestionDifficulty | null,
+  };
+}
+
+/**
+ * Salin isi soal bank ke quiz milik dosen yang memakainya. Quiz yang sudah
+ * punya attempt dilewati supaya nilai mahasiswa tidak berubah diam-diam.
+ */
+function propagateToQuizzes(
+  state: MockState,
+  question: MockBankQuestion,
+  lecturerId: number
+) {
+  let updated = 0;
+  let skipped = 0;
+
+  for (const quiz of state.quizzes) {
+    if (!quiz.questions.some((row) => row.bank_question_id === question.id)) {
+      continue;
+    }
+    const section = findById(state.sections, quiz.section_id);
+    const course = findById(state.instances, section.course_instance_id);
+    if (course.lecturer_id !== lecturerId) continue;
+
+    if (state.attempts.some((row) => row.quiz_id === quiz.id)) {
+      skipped += 1;
+      continue;
+    }
+
+    quiz.questions = quiz.questions.map((row) =>
+      row.bank_question_id === question.id
+        ? {
+            id: row.id,
+            type: question.type,
+            text: question.text,
+            points: question.points,
+            options: question.options,
+            correct_option_index: question.correct_option_index,
+            bank_question_id: question.id,
+          }
+        : row
+    );
+    quiz.updated_at = new Date().toISOString();
+    updated += 1;
+  }
+
+  return { updated, skipped };
+}
+
+export const questionBankRoutes: MockRoute[] = [
+  route("GET", "/api/teacher/question-bank", (ctx) => {
+    const user = requireUser(ctx, "dosen");
+    const search = (ctx.query.get("search") ?? "").trim().toLowerCase();
+    const type = ctx.query.get("type");
+    const difficulty = ctx.query.get("difficulty");
+    const tag = ctx.query.get("tag");
+    const templateId = toNumberOrNull(ctx.query.get("course_template_id"));
+
+    return ctx.state.bankQuestions
+      .filter((row) => row.owner_id === user.id)
+      .filter((row) => !type || row.type === type)
+      .filter((row) => !difficulty || row.difficulty === difficulty)
+      .filter((row) => !tag || row.tags.includes(tag))
+      .filter(
+        (row) =>
+          templateId === null ||
+          row.course_template_id === null ||
+          row.course_template_id === templateId
+      )
+      .filter(
+        (row) => !search || (row.text ?? "").toLowerCase().includes(search)
+      )
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at) || b.id - a.id)
+      .map((row) => toBankQuestion(ctx.state, row));
+  }),
+
+  route("GET", "/api/teacher/question-bank/tags", (ctx) => {
+    const user = requireUser(ctx, "dosen");
+    const tags = ctx.state.bankQuestions
+      .filter((row) => row.owner_id === user.id)
+      .flatMap((row) => row.tags);
+    return Array.from(new Set(tags)).sort((a, b) => a.localeCompare(b));
+  }),
+
+  route("POST", "/api/teacher/question-bank", async (ctx) => {
+    const user = requireUser(ctx, "dosen");
+    const body = await readBody(ctx.request);
+    const now = new Date().toISOString();
+    const question: MockBankQuestion = {
+      id: nextId(ctx.state),
+      owner_id: user.id,
+      ...readBankPayload(ctx.state, body),
+      created_at: now,
+      updated_at: now,
+    };
+    ctx.state.bankQuestions.push(question);
+    return toBankQuestion(ctx.state, question);
+  }),
+
+  route("PUT", "/api/teacher/question-bank/:id", async (ctx) => {
+    const user = requireUser(ctx, "dosen");
+    const question = findOwnQuestion(ctx, user.id);
+    const body = await readBody(ctx.request);
+
+    Object.assign(question, readBankPayload(ctx.state, body), {
+      updated_at: new Date().toISOString(),
+    });
+
+    const result = toBoolean(body.propagate)
+      ? propagateToQuizzes(ctx.state, question, user.id)
+      : { updated: 0, skipped: 0 };
+
+    return {
+      question: toBankQuestion(ctx.state, question),
+      updated_quiz_count: result.updated,
+      skipped_quiz_count: result.skipped,
+    };
+  }),
+
+  route("DELETE", "/api/teacher/question-bank/:id", (ctx) => {
+    const user = requireUser(ctx, "dosen");
+    const question = findOwnQuestion(ctx, user.id);
+
+    // Salinan di quiz tetap ada, hanya tautannya ke bank yang diputus
+    for (const quiz of ctx.state.quizzes) {
+      for (const row of quiz.questions) {
+        if (row.bank_question_id === question.id) {
+          row.bank_question_id = null;
+        }
+      }
+    }
+    ctx.state.bankQuestions = ctx.state.bankQuestions.filter(
+      (row) => row.id !== question.id
+    );
+    return { message: "Soal dihapus dari bank soal." };
+  }),
+];
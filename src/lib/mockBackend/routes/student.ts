@@ -0,0 +1,280 @@
+// src/lib/mockBackend/routes/student.ts
+
+import type { AnswerMap } from "../../api/types";
+import {
+  MockHttpError,
+  findById,
+  forbidden,
+  readBody,
+  requireUser,
+  route,
+  toStringOrNull,
+  validationError,
+  type MockContext,
+  type MockRoute,
+} from "../http";
+import {
+  computeGrades,
+  createAttemptLayout,
+  getQuizTimeStatus,
+  scoreAttempt,
+  toAssignmentDetail,
+  toCourseHeader,
+  toCourseInstance,
+  toGradeMeta,
+  toQuizDetail,
+  toStudentAttempt,
+  toStudentQuestions,
+  toStudentSubmission,
+} from "../serializers";
+import { nextId, type MockQuiz, type MockQuizAttempt } from "../store";
+import { getSection, isCourseMember, storeUpload } from "./course";
+
+/** Toleransi keterlambatan simpan/submit setelah waktu habis */
+const ATTEMPT_GRACE_MS = 30_000;
+
+function requireStudent(ctx: MockContext) {
+  return requireUser(ctx, "mahasiswa");
+}
+
+/** Mahasiswa hanya boleh mengakses isi kelas tempat ia terdaftar aktif */
+function requireEnrolled(ctx: MockContext, sectionId: number) {
+  const user = requireStudent(ctx);
+  const { section, course } = getSection(ctx, sectionId);
+  if (!isCourseMember(ctx.state, user, course)) forbidden();
+  return { user, section, course };
+}
+
+function computeExpiresAt(quiz: MockQuiz, startedAt: number): string | null {
+  const candidates: number[] = [];
+  if (quiz.duration_minutes) {
+    candidates.push(startedAt + quiz.duration_minutes * 60_000);
+  }
+  if (quiz.end_time) candidates.push(Date.parse(quiz.end_time));
+  return candidates.length > 0
+    ? new Date(Math.min(...candidates)).toISOString()
+    : null;
+}
+
+function isExpired(attempt: MockQuizAttempt, graceMs = 0) {
+  return (
+    attempt.expires_at !== null &&
+    Date.parse(attempt.expires_at) + graceMs < Date.now()
+  );
+}
+
+function finalizeAttempt(quiz: MockQuiz, attempt: MockQuizAttempt) {
+  attempt.submitted_at = new Date().toISOString();
+  attempt.score = scoreAttempt(quiz, attempt);
+}
+
+function readAnswers(body: Record<string, unknown>): AnswerMap {
+  const answers = body.answers;
+  return answers && typeof answers === "object" && !Array.isArray(answers)
+    ? (answers as AnswerMap)
+    : {};
+}
+
+/** Attempt milik mahasiswa yang login, masih terbuka untuk dijawab */
+function getOpenAttempt(ctx: MockContext) {
+  const user = requireStudent(ctx);
+  const attempt = findById(ctx.state.attempts, ctx.params.id);
+  if (attempt.student_id !== user.id) forbidden();
+
+  const quiz = findById(ctx.state.quizzes, attempt.quiz_id);
+  if (attempt.submitted_at) {
+    throw new MockHttpError(422, "Attempt sudah dikumpulkan.");
+  }
+  if (isExpired(attempt, ATTEMPT_GRACE_MS)) {
+    finalizeAttempt(quiz, attempt);
+    throw new MockHttpError(422, "Waktu pengerjaan sudah habis.");
+  }
+  return { quiz, attempt };
+}
+
+export const studentRoutes: MockRoute[] = [
+  route("GET", "/api/student/course-instances", (ctx) => {
+    const user = requireStudent(ctx);
+    return ctx.state.enrollments
+      .filter((row) => row.student_id === user.id && row.status === "active")
+      .map((row) => ({
+        ...toCourseInstance(
+          ctx.state,
+          findById(ctx.state.instances, row.course_instance_id)
+        ),
+        enrolled_at: row.enrolled_at,
+      }));
+  }),
+
+  route("GET", "/api/student/assignments/:id", (ctx) => {
+    const assignment = findById(ctx.state.assignments, ctx.params.id);
+    const { user } = requireEnrolled(ctx, assignment.section_id);
+    const submission = ctx.state.submissions.find(
+      (row) => row.assignment_id === assignment.id && row.student_id === user.id
+    );
+    return {
+      assignment: toAssignmentDetail(ctx.state, assignment),
+      submission: submission
+        ? toStudentSubmission(ctx.baseUrl, assignment, submission)
+        : null,
+    };
+  }),
+
+  route("POST", "/api/student/assignments/:id/submit", async (ctx) => {
+    const assignment = findById(ctx.state.assignments, ctx.params.id);
+    const { user } = requireEnrolled(ctx, assignment.section_id);
+    const detail = toAssignmentDetail(ctx.state, assignment);
+    if (!detail.can_submit_now) {
+      throw new MockHttpError(422, "Batas waktu pengumpulan sudah lewat.");
+    }
+
+    const form = await ctx.request.formData();
+    let filePath: string | null = null;
+    let fileName: string | null = null;
+    let linkUrl: string | null = null;
+
+    if (assignment.type === "file") {
+      const file = form.get("file");
+      if (!(file instanceof File) || file.size === 0) {
+        validationError("file", "File wajib diunggah.");
+      }
+      filePath = await storeUpload(ctx.state, "submissions", file);
+      fileName = file.name;
+    } else {
+      linkUrl = toStringOrNull(form.get("link_url"));
+      if (!linkUrl) validationError("link_url", "Link wajib diisi.");
+    }
+
+    let submission = ctx.state.submissions.find(
+      (row) => row.assignment_id === assignment.id && row.student_id === user.id
+    );
+    if (!submission) {
+      submission = {
+        id: nextId(ctx.state),
+        assignment_id: assignment.id,
+        student_id: user.id,
+        submitted_at: "",
+        file_path: null,
+        file_name: null,
+        link_url: null,
+        score: null,
+        feedback: null,
+        rubric_selection: null,
+        graded_at: null,
+      };
+      ctx.state.submissions.push(submission);
+    }
+    Object.assign(submission, {
+      submitted_at: new Date().toISOString(),
+      file_path: filePath,
+      file_name: fileName,
+      link_url: linkUrl,
+    });
+
+    return {
+      message: "Tugas berhasil dikumpulkan.",
+      submission: toStudentSubmission(ctx.baseUrl, assignment, submission),
+    };
+  }),
+
+  route("GET", "/api/student/quizzes/:id", (ctx) => {
+    const quiz = findById(ctx.state.quizzes, ctx.params.id);
+    const { user } = requireEnrolled(ctx, quiz.section_id);
+
+    const attempt = ctx.state.attempts
+      .filter((row) => row.quiz_id === quiz.id && row.student_id === user.id)
+      .at(-1);
+    if (attempt && !attempt.submitted_at && isExpired(attempt)) {
+      finalizeAttempt(quiz, attempt);
+    }
+
+    const { questions: _questions, ...detail } = toQuizDetail(ctx.state, quiz);
+    const questionCount = attempt
+      ? attempt.question_keys.length
+      : Math.min(quiz.draw_count ?? Infinity, quiz.questions.length);
+    return {
+      quiz: { ...detail, question_count: questionCount },
+      attempt: attempt ? toStudentAttempt(attempt) : null,
+      questions: attempt ? toStudentQuestions(quiz, attempt) : null,
+      server_time: new Date().toISOString(),
+    };
+  }),
+
+  route("POST", "/api/student/quizzes/:id/attempts", (ctx) => {
+    const quiz = findById(ctx.state.quizzes, ctx.params.id);
+    const { user } = requireEnrolled(ctx, quiz.section_id);
+
+    const timeStatus = getQuizTimeStatus(quiz);
+    if (timeStatus !== "ongoing") {
+      throw new MockHttpError(
+        422,
+        timeStatus === "not_started"
+          ? "Quiz belum dimulai."
+          : "Quiz sudah berakhir."
+      );
+    }
+
+    const existing = ctx.state.attempts.find(
+      (row) => row.quiz_id === quiz.id && row.student_id === user.id
+    );
+    if (existing?.submitted_at) {
+      throw new MockHttpError(422, "Anda sudah mengerjakan quiz ini.");
+    }
+
+    const now = Date.now();
+    const attempt = existing ?? {
+      id: nextId(ctx.state),
+      quiz_id: quiz.id,
+      student_id: user.id,
+      started_at: new Date(now).toISOString(),
+      expires_at: computeExpiresAt(quiz, now),
+      submitted_at: null,
+      score: null,
+      answers: {},
+      ...createAttemptLayout(quiz),
+      manual_grades: {},
+    };
+    if (!existing) ctx.state.attempts.push(attempt);
+
+    return {
+      attempt: toStudentAttempt(attempt),
+      questions: toStudentQuestions(quiz, attempt),
+      server_time: new Date().toISOString(),
+    };
+  }),
+
+  route("PUT", "/api/student/quiz-attempts/:id/answers", async (ctx) => {
+    const { attempt } = getOpenAttempt(ctx);
+    const answers = readAnswers(await readBody(ctx.request));
+    attempt.answers = { ...attempt.answers, ...answers };
+    const now = new Date().toISOString();
+    return { saved_at: now, server_time: now };
+  }),
+
+  route("POST", "/api/student/quiz-attempts/:id/submit", async (ctx) => {
+    const { quiz, attempt } = getOpenAttempt(ctx);
+    const answers = readAnswers(await readBody(ctx.request));
+    attempt.answers = { ...attempt.answers, ...answers };
+    finalizeAttempt(quiz, attempt);
+    return {
+      attempt: toStudentAttempt(attempt),
+      server_time: new Date().toISOString(),
+    };
+  }),
+
+  route("GET", "/api/student/grades", (ctx) => {
+    const user = requireStudent(ctx);
+    return {
+      courses: ctx.state.enrollments
+        .filter((row) => row.student_id === user.id && row.status === "active")
+        .map((row) => {
+          const course = findById(ctx.state.instances, row.course_instance_id);
+          return {
+            course: toCourseHeader(ctx.state, course),
+            ...toGradeMeta(ctx.state, course.id),
+            grades: computeGrades(ctx.state, course.id, user.id),
+          };
+        }),
+    };
+  }),
+];
@@ -0,0 +1,526 @@
+// src/lib/mockBackend/routes/teacher.ts
+
+import type {
+  CourseStatus,
+  GradeItemKind,
+  GradingScheme,
+  RubricSelection,
+} from "../../api/types";
+import { validateGradingScheme } from "../../gradingScheme";
+import { isManuallyGraded } from "../../quizQuestions";
+import { computeRubricScore, pruneRubricSelection } from "../../rubric";
+import {
+  MockHttpError,
+  findById,
+  readBody,
+  requireString,
+  requireUser,
+  route,
+  toArray,
+  toNumberOrNull,
+  toStringOrNull,
+  validationError,
+  type MockContext,
+  type MockRoute,
+} from "../http";
+import {
+  computeGrades,
+  findCourse,
+  getAttemptQuestions,
+  getCourseContent,
+  questionKey,
+  scoreAttempt,
+  toAttemptAnswers,
+  toAssignmentDetail,
+  toCourseHeader,
+  toCourseInstance,
+  toFileUrl,
+  toGradeMeta,
+  toQuizDetail,
+  toStudentSummary,
+  toTeacherAttemptSummary,
+} from "../serializers";
+import {
+  nextId,
+  type MockAssignment,
+  type MockCourseInstance,
+  type MockQuiz,
+  type MockQuizAttempt,
+  type MockState,
+  type MockSubmission,
+} from "../store";
+import { getSection, requireCourseOwner } from "./course";
+
+const COURSE_STATUSES: CourseStatus[] = ["draft", "active", "finished"];
+
+/** Attempt quiz di kelas yang diampu dosen yang login */
+function getOwnedAttempt(ctx: MockContext) {
+  const attempt = findById(ctx.state.attempts, ctx.params.id);
+  const quiz = findById(ctx.state.quizzes, attempt.quiz_id);
+  const { course } = getSection(ctx, quiz.section_id);
+  requireCourseOwner(ctx, course);
+  return { quiz, attempt };
+}
+
+/** Kolom nilai manual di kelas yang diampu dosen yang login */
+function getOwnedManualItem(ctx: MockContext) {
+  const item = findById(ctx.state.manualGradeItems, ctx.params.id);
+  const course = findCourse(ctx.state, item.course_instance_id);
+  requireCourseOwner(ctx, course);
+  return { item, course };
+}
+
+function getActiveStudents(state: MockState, courseId: number) {
+  return state.enrollments
+    .filter(
+      (row) => row.course_instance_id === courseId && row.status === "active"
+    )
+    .map((row) => findById(state.users, row.student_id));
+}
+
+function toCourseGrades(state: MockState, course: MockCourseInstance) {
+  const students = getActiveStudents(state, course.id);
+
+  return {
+    course: toCourseHeader(state, course),
+    ...toGradeMeta(state, course.id),
+    students: students.map((student) => ({
+      student: toStudentSummary(student),
+      ...computeGrades(state, course.id, student.id),
+    })),
+  };
+}
+
+function readRubricSelection(value: unknown): RubricSelection | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const selection: RubricSelection = {};
+  Object.entries(value).forEach(([criterionId, levelId]) => {
+    const id = toStringOrNull(levelId);
+    if (id) selection[criterionId] = id;
+  });
+  return Object.keys(selection).length > 0 ? selection : null;
+}
+
+/** Pilihan rubrik lama hanya dipertahankan kalau nilainya tidak diubah */
+function keepRubricSelection(
+  assignment: MockAssignment,
+  submission: MockSubmission,
+  score: number | null
+): RubricSelection | null {
+  const { rubric } = assignment;
+  const selection = submission.rubric_selection;
+  if (!rubric || !selection) return null;
+  return computeRubricScore(rubric, selection) === score ? selection : null;
+}
+
+function readManualItemPayload(body: Record<string, unknown>) {
+  const title = requireString(body, "title", "Nama kolom");
+  const maxScore = toNumberOrNull(body.max_score);
+  if (maxScore === null || maxScore <= 0) {
+    validationError("max_score", "Nilai maksimal harus lebih dari 0.");
+  }
+  return { title, max_score: maxScore };
+}
+
+const GRADE_ITEM_KINDS: GradeItemKind[] = ["assignment", "quiz", "manual"];
+
+function readGradingScheme(body: Record<string, unknown>): GradingScheme {
+  const scheme: GradingScheme = {
+    categories: toArray(body.categories).map((row) => ({
+      id: toStringOrNull(row.id) ?? "",
+      name: toStringOrNull(row.name) ?? "",
+      weight: toNumberOrNull(row.weight) ?? 0,
+      drop_lowest: toNumberOrNull(row.drop_lowest) ?? 0,
+    })),
+    items: toArray(body.items)
+      .filter((row) => GRADE_ITEM_KINDS.includes(row.kind as GradeItemKind))
+      .map((row) => ({
+        kind: row.kind as GradeItemKind,
+        id: toNumberOrNull(row.id) ?? 0,
+        category_id: toStringOrNull(row.category_id),
+        weight: toNumberOrNull(row.weight) ?? 1,
+      })),
+    letter_scale: toArray(body.letter_scale).map((row) => ({
+      letter: toStringOrNull(row.letter) ?? "",
+      min_score: toNumberOrNull(row.min_score) ?? 0,
+    })),
+  };
+
+  if (scheme.categories.some((row) => !row.id)) {
+    validationError("categories", "Id kategori wajib diisi.");
+  }
+  const error = validateGradingScheme(scheme);
+  if (error) validationError("grading_scheme", error);
+  return scheme;
+}
+
+function toAttemptResponse(
+  state: MockState,
+  quiz: MockQuiz,
+  attempt: MockQuizAttempt
+) {
+  return {
+    quiz: toQuizDetail(state, quiz),
+    attempt: {
+      ...toTeacherAttemptSummary(state, quiz, attempt),
+      answers: toAttemptAnswers(quiz, attempt),
+    },
+  };
+}
+
+export const teacherRoutes: MockRoute[] = [
+  route("GET", "/api/teacher/course-instances", (ctx) => {
+    const user = requireUser(ctx, "dosen");
+    const status = ctx.query.get("status");
+    return ctx.state.instances
+      .filter((row) => row.lecturer_id === user.id)
+      .filter((row) => !status || row.status === status)
+      .map((row) => toCourseInstance(ctx.state, row));
+  }),
+
+  route("POST", "/api/teacher/course-instances/:id/status", async (ctx) => {
+    const course = findCourse(ctx.state, ctx.params.id);
+    requireCourseOwner(ctx, course);
+    const body = await readBody(ctx.request);
+    const status = body.status as CourseStatus;
+    if (!COURSE_STATUSES.includes(status)) {
+      validationError("status", "Status tidak valid.");
+    }
+    course.status = status;
+    return toCourseInstance(ctx.state, course);
+  }),
+
+  route("GET", "/api/teacher/course-instances/:id/grades", (ctx) => {
+    const course = findCourse(ctx.state, ctx.params.id);
+    requireCourseOwner(ctx, course);
+    return toCourseGrades(ctx.state, course);
+  }),
+
+  route(
+    "PUT",
+    "/api/teacher/course-instances/:id/grading-scheme",
+    async (ctx) => {
+      const course = findCourse(ctx.state, ctx.params.id);
+      requireCourseOwner(ctx, course);
+      course.grading_scheme = readGradingScheme(await readBody(ctx.request));
+      return toCourseGrades(ctx.state, course);
+    }
+  ),
+
+  route("PUT", "/api/teacher/course-instances/:id/grades", async (ctx) => {
+    const course = findCourse(ctx.state, ctx.params.id);
+    requireCourseOwner(ctx, course);
+
+    const body = await readBody(ctx.request);
+    const students = getActiveStudents(ctx.state, course.id);
+    const { assignments } = getCourseContent(ctx.state, course.id);
+    const manualItems = ctx.state.manualGradeItems.filter(
+      (row) => row.course_instance_id === course.id
+    );
+
+    // Validasi semua sel dulu supaya perubahan tersimpan utuh atau tidak
+    // sama sekali
+    const updates = toArray(body.entries).map((row, index) => {
+      const field = `entries.${index}`;
+      const student = students.find(
+        (item) => item.id === toNumberOrNull(row.student_id)
+      );
+      if (!student) {
+        validationError(field, "Mahasiswa tidak terdaftar di kelas ini.");
+      }
+
+      const score = toNumberOrNull(row.score);
+      if (score === null && toStringOrNull(row.score) !== null) {
+        validationError(field, `${student.name}: nilai harus berupa angka.`);
+      }
+
+      const itemId = toNumberOrNull(row.item_id);
+      if (row.kind === "assignment") {
+        const assignment = assignments.find((item) => item.id === itemId);
+        if (!assignment) validationError(field, "Tugas tidak ditemukan.");
+        const submission = ctx.state.submissions.find(
+          (item) =>
+            item.assignment_id === assignment.id &&
+            item.student_id === student.id
+        );
+        if (!submission) {
+          validationError(
+            field,
+            `${student.name} belum mengumpulkan "${assignment.title}".`
+          );
+        }
+        const maxScore = assignment.max_score ?? 100;
+        if (score !== null && (score < 0 || score > maxScore)) {
+          validationError(
+            field,
+            `${student.name} • ${assignment.title}: nilai harus di antara ` +
+              `0 dan ${maxScore}.`
+          );
+        }
+        return {
+          kind: "assignment" as const,
+          assignment,
+          submission,
+          score,
+        };
+      }
+
+      if (row.kind === "manual") {
+        const item = manualItems.find((entry) => entry.id === itemId);
+        if (!item) validationError(field, "Kolom nilai tidak ditemukan.");
+        if (score !== null && (score < 0 || score > item.max_score)) {
+          validationError(
+            field,
+            `${student.name} • ${item.title}: nilai harus di antara 0 dan ` +
+              `${item.max_score}.`
+          );
+        }
+        return {
+          kind: "manual" as const,
+          itemId: item.id,
+          studentId: student.id,
+          score,
+        };
+      }
+
+      return validationError(field, "Nilai quiz tidak bisa diubah dari rekap.");
+    });
+
+    const now = new Date().toISOString();
+    updates.forEach((update) => {
+      if (update.kind === "assignment") {
+        update.submission.rubric_selection = keepRubricSelection(
+          update.assignment,
+          update.submission,
+          update.score
+        );
+        update.submission.score = update.score;
+        update.submission.graded_at = update.score === null ? null : now;
+        return;
+      }
+
+      ctx.state.manualGrades = ctx.state.manualGrades.filter(
+        (row) =>
+          row.item_id !== update.itemId || row.student_id !== update.studentId
+      );
+      if (update.score !== null) {
+        ctx.state.manualGrades.push({
+          item_id: update.itemId,
+          student_id: update.studentId,
+          score: update.score,
+          updated_at: now,
+        });
+      }
+    });
+
+    return toCourseGrades(ctx.state, course);
+  }),
+
+  route(
+    "POST",
+    "/api/teacher/course-instances/:id/manual-grade-items",
+    async (ctx) => {
+      const course = findCourse(ctx.state, ctx.params.id);
+      requireCourseOwner(ctx, course);
+      const payload = readManualItemPayload(await readBody(ctx.request));
+      ctx.state.manualGradeItems.push({
+        id: nextId(ctx.state),
+        course_instance_id: course.id,
+        ...payload,
+      });
+      return toCourseGrades(ctx.state, course);
+    }
+  ),
+
+  route("PUT", "/api/teacher/manual-grade-items/:id", async (ctx) => {
+    const { item, course } = getOwnedManualItem(ctx);
+    const payload = readManualItemPayload(await readBody(ctx.request));
+    const highest = Math.max(
+      0,
+      ...ctx.state.manualGrades
+        .filter((row) => row.item_id === item.id)
+        .map((row) => row.score)
+    );
+    if (payload.max_score < highest) {
+      validationError(
+        "max_score",
+        `Sudah ada nilai ${highest}; nilai maksimal tidak boleh lebih kecil.`
+      );
+    }
+    Object.assign(item, payload);
+    return toCourseGrades(ctx.state, course);
+  }),
+
+  route("DELETE", "/api/teacher/manual-grade-items/:id", (ctx) => {
+    const { item, course } = getOwnedManualItem(ctx);
+    ctx.state.manualGradeItems = ctx.state.manualGradeItems.filter(
+      (row) => row.id !== item.id
+    );
+    ctx.state.manualGrades = ctx.state.manualGrades.filter(
+      (row) => row.item_id !== item.id
+    );
+    if (course.grading_scheme) {
+      course.grading_scheme = {
+        ...course.grading_scheme,
+        items: course.grading_scheme.items.filter(
+          (row) => !(row.kind === "manual" && row.id === item.id)
+        ),
+      };
+    }
+    return toCourseGrades(ctx.state, course);
+  }),
+
+  route("GET", "/api/teacher/assignments/:id/submissions", (ctx) => {
+    const assignment = findById(ctx.state.assignments, ctx.params.id);
+    const { course } = getSection(ctx, assignment.section_id);
+    requireCourseOwner(ctx, course);
+
+    return {
+      assignment: toAssignmentDetail(ctx.state, assignment),
+      submissions: ctx.state.submissions
+        .filter((row) => row.assignment_id === assignment.id)
+        .map((row) => ({
+          id: row.id,
+          student: toStudentSummary(findById(ctx.state.users, row.student_id)),
+          submitted_at: row.submitted_at,
+          file_url: toFileUrl(ctx.baseUrl, row.file_path),
+          link_url: row.link_url,
+          score: row.score,
+          feedback: row.feedback,
+          rubric_selection: row.rubric_selection,
+          graded_at: row.graded_at,
+        })),
+    };
+  }),
+
+  route("POST", "/api/teacher/assignment-submissions/:id/grade", async (ctx) => {
+    const submission = findById(ctx.state.submissions, ctx.params.id);
+    const assignment = findById(ctx.state.assignments, submission.assignment_id);
+    const { course } = getSection(ctx, assignment.section_id);
+    requireCourseOwner(ctx, course);
+
+    const body = await readBody(ctx.request);
+    const { rubric } = assignment;
+    const selection = readRubricSelection(body.rubric_selection);
+    let score: number | null;
+    if (selection) {
+      if (!rubric) {
+        validationError("rubric_selection", "Tugas ini tidak memakai rubrik.");
+      }
+      score = computeRubricScore(rubric, selection);
+      if (score === null) {
+        validationError(
+          "rubric_selection",
+          "Pilih satu tingkat capaian di setiap kriteria rubrik."
+        );
+      }
+    } else {
+      score = toNumberOrNull(body.score);
+      const maxScore = assignment.max_score ?? 100;
+      if (score !== null && (score < 0 || score > maxScore)) {
+        validationError("score", `Nilai harus di antara 0 dan ${maxScore}.`);
+      }
+    }
+
+    submission.rubric_selection =
+      selection && rubric
+        ? pruneRubricSelection(rubric, selection)
+        : keepRubricSelection(assignment, submission, score);
+    submission.score = score;
+    submission.feedback = toStringOrNull(body.feedback);
+    submission.graded_at = score === null ? null : new Date().toISOString();
+    return { message: "Nilai berhasil disimpan." };
+  }),
+
+  route("GET", "/api/teacher/quizzes/:id/attempts", (ctx) => {
+    const quiz = findById(ctx.state.quizzes, ctx.params.id);
+    const { course } = getSection(ctx, quiz.section_id);
+    requireCourseOwner(ctx, course);
+
+    return {
+      quiz: toQuizDetail(ctx.state, quiz),
+      attempts: ctx.state.attempts
+        .filter((row) => row.quiz_id === quiz.id)
+        .map((row) => toTeacherAttemptSummary(ctx.state, quiz, row)),
+    };
+  }),
+
+  route("GET", "/api/teacher/quiz-attempts/:id", (ctx) => {
+    const { quiz, attempt } = getOwnedAttempt(ctx);
+    return toAttemptResponse(ctx.state, quiz, attempt);
+  }),
+
+  route("POST", "/api/teacher/quiz-attempts/:id/grade", async (ctx) => {
+    const { quiz, attempt } = getOwnedAttempt(ctx);
+    if (!attempt.submitted_at) {
+      throw new MockHttpError(422, "Attempt belum dikumpulkan mahasiswa.");
+    }
+
+    const body = await readBody(ctx.request);
+    const key = String(body.question_key ?? "");
+    const question = getAttemptQuestions(quiz, attempt).find(
+      (row) => row.key === key
+    )?.question;
+    if (!question) {
+      validationError("question_key", "Soal tidak ada di attempt ini.");
+    }
+    if (!isManuallyGraded(question.type)) {
+      validationError("question_key", "Soal ini dinilai otomatis.");
+    }
+
+    const points = toNumberOrNull(body.points);
+    if (points === null) {
+      delete attempt.manual_grades[key];
+    } else {
+      if (points < 0 || points > question.points) {
+        validationError(
+          "points",
+          `Poin harus di antara 0 dan ${question.points}.`
+        );
+      }
+      attempt.manual_grades[key] = {
+        points,
+        feedback: toStringOrNull(body.feedback),
+        graded_at: new Date().toISOString(),
+      };
+    }
+
+    attempt.score = scoreAttempt(quiz, attempt);
+    return toAttemptResponse(ctx.state, quiz, attempt);
+  }),
+
+  route("GET", "/api/teacher/quizzes/:id/grading-queue", (ctx) => {
+    const quiz = findById(ctx.state.quizzes, ctx.params.id);
+    const { course } = getSection(ctx, quiz.section_id);
+    requireCourseOwner(ctx, course);
+
+    const attempts = ctx.state.attempts
+      .filter((row) => row.quiz_id === quiz.id && row.submitted_at)
+      .map((row) => ({
+        attempt: row,
+        student: toStudentSummary(findById(ctx.state.users, row.student_id)),
+      }))
+      .sort((a, b) => a.student.name.localeCompare(b.student.name));
+
+    // Dengan undian soal, tiap attempt hanya punya sebagian soal quiz
+    const items = quiz.questions.flatMap((question, index) => {
+      if (!isManuallyGraded(question.type)) return [];
+      const key = questionKey(question, index);
+      return attempts
+        .filter(({ attempt }) => attempt.question_keys.includes(key))
+        .map(({ attempt, student }) => ({
+          attempt_id: attempt.id,
+          student,
+          question_key: key,
+          question_index: index,
+          question,
+          answer: attempt.answers[key] ?? null,
+          manual_grade: attempt.manual_grades[key] ?? null,
+        }));
+    });
+
+    return { quiz: toQuizDetail(ctx.state, quiz), items };
+  }),
+];
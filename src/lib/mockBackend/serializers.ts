@@ -0,0 +1,693 @@
+// src/lib/mockBackend/serializers.ts
+
+import type {
+  AnswerValue,
+  AssignmentItem,
+  BankQuestion,
+  CourseHeader,
+  CourseInstance,
+  GradeAssignmentMeta,
+  GradeManualMeta,
+  GradeQuizMeta,
+  GradeScores,
+  GradingScheme,
+  MaterialItem,
+  QuizAttemptAnswer,
+  QuizAttemptSummary,
+  QuizDetail,
+  QuizItem,
+  QuizQuestion,
+  SectionContext,
+  SectionItem,
+  StudentQuizAttempt,
+  StudentQuizQuestion,
+  StudentSubmission,
+  StudentSummary,
+  User,
+} from "../api/types";
+import {
+  computeFinalGrade,
+  getDefaultGradingScheme,
+  listGradeItems,
+} from "../gradingScheme";
+import { isManuallyGraded } from "../quizQuestions";
+import { findById, notFound } from "./http";
+import type {
+  MockAssignment,
+  MockBankQuestion,
+  MockCourseInstance,
+  MockMaterial,
+  MockQuiz,
+  MockQuizAttempt,
+  MockSection,
+  MockState,
+  MockSubmission,
+  MockUser,
+} from "./store";
+
+/**
+ * Rakit response dengan bentuk yang sama persis dengan tipe di
+ * src/lib/api/types.ts dari record mentah MockState.
+ */
+
+export function toUser(user: MockUser): User {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+export function toStudentSummary(user: MockUser): StudentSummary {
+  return {
+    id: user.id,
+    name: user.name,
+    username: user.username,
+    nim: user.nim,
+    email: user.email,
+  };
+}
+
+export function toFileUrl(baseUrl: string, filePath: string | null) {
+  return filePath ? `${baseUrl}/storage/${filePath}` : null;
+}
+
+// -----------------------------
+// Kelas
+// -----------------------------
+
+export function toCourseInstance(
+  state: MockState,
+  instance: MockCourseInstance
+): CourseInstance {
+  const template = state.templates.find(
+    (row) => row.id === instance.course_template_id
+  );
+  const lecturer = state.users.find((row) => row.id === instance.lecturer_id);
+  const { grading_scheme: _scheme, ...fields } = instance;
+
+  return {
+    ...fields,
+    template: template
+      ? { id: template.id, code: template.code, name: template.name }
+      : { id: instance.course_template_id, code: "-", name: "-" },
+    lecturer: lecturer
+      ? { id: lecturer.id, name: lecturer.name, username: lecturer.username }
+      : null,
+  };
+}
+
+export function toCourseHeader(
+  state: MockState,
+  instance: MockCourseInstance
+): CourseHeader & { status: MockCourseInstance["status"] } {
+  const full = toCourseInstance(state, instance);
+  return {
+    id: full.id,
+    class_name: full.class_name,
+    semester: full.semester,
+    status: full.status,
+    template: full.template,
+    lecturer: full.lecturer,
+  };
+}
+
+// -----------------------------
+// Section & isinya
+// -----------------------------
+
+export function toSectionItem(section: MockSection): SectionItem {
+  const { course_instance_id: _courseId, ...rest } = section;
+  return rest;
+}
+
+export function getSectionCourse(state: MockState, section: MockSection) {
+  return findById(state.instances, section.course_instance_id);
+}
+
+export function toSectionContext(
+  state: MockState,
+  section: MockSection
+): SectionContext {
+  const course = getSectionCourse(state, section);
+  return {
+    id: section.id,
+    title: section.title,
+    order: section.order,
+    course_instance: {
+      id: course.id,
+      class_name: course.class_name,
+      semester: course.semester,
+    },
+  };
+}
+
+export function toMaterialItem(
+  baseUrl: string,
+  material: MockMaterial
+): MaterialItem {
+  const { section_id: _sectionId, ...rest } = material;
+  return { ...rest, file_url: toFileUrl(baseUrl, material.file_path) };
+}
+
+export function getDeadlineFlags(assignment: MockAssignment) {
+  const isPast =
+    assignment.deadline !== null &&
+    Date.parse(assignment.deadline) < Date.now();
+  return {
+    is_past_deadline: isPast,
+    can_submit_now: !isPast || assignment.allow_late,
+  };
+}
+
+export function toAssignmentItem(assignment: MockAssignment): AssignmentItem {
+  const { section_id: _sectionId, ...rest } = assignment;
+  return { ...rest, ...getDeadlineFlags(assignment) };
+}
+
+export function toAssignmentDetail(
+  state: MockState,
+  assignment: MockAssignment
+) {
+  const section = findById(state.sections, assignment.section_id);
+  const course = toCourseInstance(state, getSectionCourse(state, section));
+  return {
+    ...toAssignmentItem(assignment),
+    course_instance: {
+      id: course.id,
+      class_name: course.class_name,
+      semester: course.semester,
+      template: { code: course.template.code, name: course.template.name },
+    },
+  };
+}
+
+export function toStudentSubmission(
+  baseUrl: string,
+  assignment: MockAssignment,
+  submission: MockSubmission
+): StudentSubmission {
+  return {
+    id: submission.id,
+    submitted_at: submission.submitted_at,
+    is_late:
+      assignment.deadline !== null &&
+      Date.parse(submission.submitted_at) > Date.parse(assignment.deadline),
+    file_url: toFileUrl(baseUrl, submission.file_path),
+    file_name: submission.file_name,
+    link_url: submission.link_url,
+    score: submission.score,
+    feedback: submission.feedback,
+    rubric_selection: submission.rubric_selection,
+    graded_at: submission.graded_at,
+  };
+}
+
+// -----------------------------
+// Quiz
+// -----------------------------
+
+export function getQuizTimeStatus(quiz: MockQuiz) {
+  const now = Date.now();
+  if (quiz.start_time && Date.parse(quiz.start_time) > now) {
+    return "not_started";
+  }
+  if (quiz.end_time && Date.parse(quiz.end_time) < now) return "finished";
+  return "ongoing";
+}
+
+export function toQuizItem(quiz: MockQuiz): QuizItem {
+  return {
+    id: quiz.id,
+    title: quiz.title,
+    description: quiz.description,
+    start_time: quiz.start_time,
+    end_time: quiz.end_time,
+    duration_minutes: quiz.duration_minutes,
+    max_score: quiz.max_score,
+    shuffle_questions: quiz.shuffle_questions,
+    shuffle_options: quiz.shuffle_options,
+    draw_count: quiz.draw_count,
+    questions_count: quiz.questions.length,
+    time_status: getQuizTimeStatus(quiz),
+    created_at: quiz.created_at,
+    updated_at: quiz.updated_at,
+  };
+}
+
+export function toQuizDetail(state: MockState, quiz: MockQuiz): QuizDetail {
+  const section = findById(state.sections, quiz.section_id);
+  const course = toCourseInstance(state, getSectionCourse(state, section));
+  return {
+    ...toQuizItem(quiz),
+    questions: quiz.questions,
+    section: {
+      id: section.id,
+      title: section.title,
+      course_instance: {
+        id: course.id,
+        class_name: course.class_name,
+        semester: course.semester,
+        template: { code: course.template.code, name: course.template.name },
+      },
+    },
+  };
+}
+
+export function toBankQuestion(
+  state: MockState,
+  question: MockBankQuestion
+): BankQuestion {
+  const template = state.templates.find(
+    (row) => row.id === question.course_template_id
+  );
+  return {
+    ...question,
+    course_template: template
+      ? { id: template.id, code: template.code, name: template.name }
+      : null,
+    usage_count: state.quizzes.filter((quiz) =>
+      quiz.questions.some((row) => row.bank_question_id === question.id)
+    ).length,
+  };
+}
+
+/** Hash string sederhana untuk urutan acak yang stabil antar request */
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function questionKey(question: QuizQuestion, index: number): string {
+  return question.id != null ? String(question.id) : String(index);
+}
+
+/**
+ * Undi & acak soal/opsi untuk attempt baru sesuai pengaturan quiz. Hasilnya
+ * disimpan di attempt supaya susunan tetap sama saat halaman dimuat ulang.
+ */
+export function createAttemptLayout(
+  quiz: MockQuiz
+): Pick<MockQuizAttempt, "question_keys" | "option_orders"> {
+  let keys = quiz.questions.map(questionKey);
+  if (quiz.draw_count !== null && quiz.draw_count < keys.length) {
+    // Soal hasil undian tetap urut seperti di quiz kecuali diacak juga
+    const drawn = new Set(shuffle(keys).slice(0, quiz.draw_count));
+    keys = keys.filter((key) => drawn.has(key));
+  }
+  if (quiz.shuffle_questions) keys = shuffle(keys);
+
+  const optionOrders: Record<string, number[]> = {};
+  if (quiz.shuffle_options) {
+    quiz.questions.forEach((question, index) => {
+      const key = questionKey(question, index);
+      if (!keys.includes(key) || !question.options?.length) return;
+      optionOrders[key] = shuffle(question.options.map((_, i) => i));
+    });
+  }
+  return { question_keys: keys, option_orders: optionOrders };
+}
+
+/** Soal yang didapat attempt, sesuai urutan tampil */
+export function getAttemptQuestions(
+  quiz: MockQuiz,
+  attempt: MockQuizAttempt
+): { key: string; question: QuizQuestion }[] {
+  const byKey = new Map(
+    quiz.questions.map((question, index) => [
+      questionKey(question, index),
+      question,
+    ])
+  );
+  return attempt.question_keys.flatMap((key) => {
+    const question = byKey.get(key);
+    return question ? [{ key, question }] : [];
+  });
+}
+
+/**
+ * Urutan opsi attempt untuk satu soal. Diabaikan kalau jumlah opsi sudah
+ * berubah sejak attempt dimulai (soal diedit dosen).
+ */
+function getOptionOrder(
+  attempt: MockQuizAttempt,
+  key: string,
+  question: QuizQuestion
+): number[] | null {
+  const order = attempt.option_orders[key];
+  return order && order.length === (question.options?.length ?? 0)
+    ? order
+    : null;
+}
+
+/** Jawaban dalam index opsi tampil → index opsi asli soal */
+export function toOriginalAnswer(
+  attempt: MockQuizAttempt,
+  key: string,
+  question: QuizQuestion
+): AnswerValue {
+  const answer = attempt.answers[key] ?? null;
+  const order = getOptionOrder(attempt, key, question);
+  if (!order || answer === null) return answer;
+
+  if (question.type === "multiple_choice" && typeof answer === "number") {
+    return order[answer] ?? answer;
+  }
+  if (question.type === "multiple_answer" && Array.isArray(answer)) {
+    return answer.map((idx) => order[Number(idx)] ?? Number(idx));
+  }
+  return answer;
+}
+
+/** Soal attempt untuk mahasiswa: urutan & opsi sesuai hasil pengacakan */
+export function toStudentQuestions(
+  quiz: MockQuiz,
+  attempt: MockQuizAttempt
+): StudentQuizQuestion[] {
+  return getAttemptQuestions(quiz, attempt).map(({ key, question }) => {
+    const order = getOptionOrder(attempt, key, question);
+    const options = question.options;
+    return toStudentQuestion(
+      order && options
+        ? { ...question, options: order.map((idx) => options[idx]) }
+        : question
+    );
+  });
+}
+
+/**
+ * Kunci jawaban tidak pernah dikirim ke mahasiswa. Pilihan kanan soal
+ * menjodohkan diacak per soal supaya urutannya tidak membocorkan pasangan.
+ */
+function toStudentQuestion(question: QuizQuestion): StudentQuizQuestion {
+  const {
+    correct_option_index: _index,
+    correct_option_indexes: _indexes,
+    correct_boolean: _boolean,
+    matching_pairs: pairs,
+    numeric_answer: _numeric,
+    numeric_tolerance: _tolerance,
+    ...rest
+  } = question;
+
+  if (question.type !== "matching") return rest;
+
+  const rights = (pairs ?? []).map((pair) => pair.right);
+  const salt = String(question.id ?? "");
+  return {
+    ...rest,
+    matching_prompts: (pairs ?? []).map((pair) => pair.left),
+    matching_choices: Array.from(new Set(rights)).sort(
+      (a, b) => hashString(salt + a) - hashString(salt + b)
+    ),
+  };
+}
+
+export function toStudentAttempt(
+  attempt: MockQuizAttempt
+): StudentQuizAttempt {
+  return {
+    id: attempt.id,
+    started_at: attempt.started_at,
+    expires_at: attempt.expires_at,
+    submitted_at: attempt.submitted_at,
+    score: attempt.score,
+    answers: attempt.answers,
+  };
+}
+
+/**
+ * Porsi nilai (0–1) satu jawaban. Isian singkat & esai dinilai dosen,
+ * jadi selalu 0 di sini.
+ */
+export function scoreAnswer(
+  question: QuizQuestion,
+  answer: AnswerValue
+): number {
+  // Number("") = 0, jadi jawaban kosong harus disaring sebelum dibandingkan
+  // dengan index opsi
+  if (
+    answer === null ||
+    answer === undefined ||
+    (typeof answer === "string" && answer.trim() === "")
+  ) {
+    return 0;
+  }
+
+  switch (question.type) {
+    case "multiple_choice":
+      return Number(answer) === question.correct_option_index ? 1 : 0;
+
+    case "multiple_answer": {
+      const correct = new Set(question.correct_option_indexes ?? []);
+      if (correct.size === 0 || !Array.isArray(answer)) return 0;
+      const selected = new Set(
+        answer.filter((idx) => String(idx).trim() !== "").map(Number)
+      );
+      let right = 0;
+      let wrong = 0;
+      selected.forEach((idx) => (correct.has(idx) ? right++ : wrong++));
+      if (question.partial_credit === false) {
+        return right === correct.size && wrong === 0 ? 1 : 0;
+      }
+      // Opsi salah mengurangi nilai supaya memilih semua opsi tidak untung
+      return Math.max(0, (right - wrong) / correct.size);
+    }
+
+    case "true_false":
+      return answer === question.correct_boolean ? 1 : 0;
+
+    case "matching": {
+      const pairs = question.matching_pairs ?? [];
+      if (pairs.length === 0 || !Array.isArray(answer)) return 0;
+      const matched = pairs.filter(
+        (pair, i) => String(answer[i] ?? "") === pair.right
+      ).length;
+      return matched / pairs.length;
+    }
+
+    case "numeric": {
+      const value = Number(String(answer).trim().replace(",", "."));
+      const expected = question.numeric_answer;
+      if (String(answer).trim() === "" || !Number.isFinite(value)) return 0;
+      if (typeof expected !== "number") return 0;
+      const tolerance = Math.abs(question.numeric_tolerance ?? 0);
+      return Math.abs(value - expected) <= tolerance + 1e-9 ? 1 : 0;
+    }
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Nilai otomatis untuk tipe soal yang punya kunci jawaban, ditambah nilai
+ * manual dosen untuk isian singkat / esai. Total poin soal diskalakan ke
+ * max_score quiz kalau diisi.
+ */
+export function scoreAttempt(quiz: MockQuiz, attempt: MockQuizAttempt) {
+  let earned = 0;
+  let total = 0;
+
+  // Hanya soal yang didapat attempt (undian) yang masuk total poin
+  getAttemptQuestions(quiz, attempt).forEach(({ key, question }) => {
+    const points = Number(question.points) || 0;
+    total += points;
+
+    if (isManuallyGraded(question.type)) {
+      earned += attempt.manual_grades[key]?.points ?? 0;
+    } else {
+      const answer = toOriginalAnswer(attempt, key, question);
+      earned += points * scoreAnswer(question, answer);
+    }
+  });
+  earned = Math.round(earned * 100) / 100;
+
+  if (quiz.max_score && total > 0) {
+    return Math.round((earned / total) * quiz.max_score * 100) / 100;
+  }
+  return earned;
+}
+
+/** Jawaban per soal untuk dosen, lengkap dengan kunci & nilai */
+export function toAttemptAnswers(
+  quiz: MockQuiz,
+  attempt: MockQuizAttempt
+): QuizAttemptAnswer[] {
+  return getAttemptQuestions(quiz, attempt).map(({ key, question }) => {
+    const answer = toOriginalAnswer(attempt, key, question);
+    const manual = isManuallyGraded(question.type);
+    return {
+      question_key: key,
+      question,
+      answer,
+      auto_points: manual
+        ? null
+        : Math.round(
+            (Number(question.points) || 0) * scoreAnswer(question, answer) * 100
+          ) / 100,
+      manual_grade: manual ? attempt.manual_grades[key] ?? null : null,
+    };
+  });
+}
+
+export function toTeacherAttemptSummary(
+  state: MockState,
+  quiz: MockQuiz,
+  attempt: MockQuizAttempt
+): QuizAttemptSummary {
+  return {
+    id: attempt.id,
+    student: toStudentSummary(findById(state.users, attempt.student_id)),
+    score: attempt.score,
+    started_at: attempt.started_at,
+    submitted_at: attempt.submitted_at,
+    ungraded_count: attempt.submitted_at
+      ? getAttemptQuestions(quiz, attempt).filter(
+          ({ key, question }) =>
+            isManuallyGraded(question.type) && !attempt.manual_grades[key]
+        ).length
+      : 0,
+  };
+}
+
+// -----------------------------
+// Nilai
+// -----------------------------
+
+export function getCourseContent(state: MockState, courseId: number) {
+  const sectionIds = new Set(
+    state.sections
+      .filter((row) => row.course_instance_id === courseId)
+      .map((row) => row.id)
+  );
+  return {
+    assignments: state.assignments.filter((row) =>
+      sectionIds.has(row.section_id)
+    ),
+    quizzes: state.quizzes.filter((row) => sectionIds.has(row.section_id)),
+  };
+}
+
+/** Skema penilaian kelas, atau skema default kalau belum diatur */
+export function getGradingScheme(
+  state: MockState,
+  courseId: number
+): GradingScheme {
+  const course = findById(state.instances, courseId);
+  return course.grading_scheme ?? getDefaultGradingScheme();
+}
+
+/** Kolom nilai manual kelas, urut sesuai waktu dibuat */
+export function getManualGradeItems(state: MockState, courseId: number) {
+  return state.manualGradeItems.filter(
+    (row) => row.course_instance_id === courseId
+  );
+}
+
+export function toGradeMeta(state: MockState, courseId: number) {
+  const { assignments, quizzes } = getCourseContent(state, courseId);
+  const assignmentMeta: GradeAssignmentMeta[] = assignments.map((row) => ({
+    id: row.id,
+    title: row.title,
+    max_score: row.max_score ?? 100,
+    deadline: row.deadline,
+  }));
+  const quizMeta: GradeQuizMeta[] = quizzes.map((row) => ({
+    id: row.id,
+    title: row.title,
+    max_score: row.max_score ?? 100,
+    end_time: row.end_time,
+  }));
+  const manualMeta: GradeManualMeta[] = getManualGradeItems(
+    state,
+    courseId
+  ).map((row) => ({ id: row.id, title: row.title, max_score: row.max_score }));
+  return {
+    assignments: assignmentMeta,
+    quizzes: quizMeta,
+    manual_items: manualMeta,
+    grading_scheme: getGradingScheme(state, courseId),
+  };
+}
+
+export function computeGrades(
+  state: MockState,
+  courseId: number,
+  studentId: number
+): GradeScores {
+  const { assignments, quizzes } = getCourseContent(state, courseId);
+  const grades: GradeScores = {
+    assignments: {},
+    quizzes: {},
+    total_score: 0,
+    total_assignment_score: 0,
+    total_quiz_score: 0,
+  };
+
+  assignments.forEach((assignment) => {
+    const submission = state.submissions.find(
+      (row) =>
+        row.assignment_id === assignment.id && row.student_id === studentId
+    );
+    const score = submission?.score ?? null;
+    grades.assignments[String(assignment.id)] = {
+      score,
+      max_score: assignment.max_score ?? 100,
+      submitted: Boolean(submission),
+    };
+    grades.total_assignment_score += score ?? 0;
+  });
+
+  quizzes.forEach((quiz) => {
+    const scores = state.attempts
+      .filter(
+        (row) =>
+          row.quiz_id === quiz.id &&
+          row.student_id === studentId &&
+          row.submitted_at !== null &&
+          row.score !== null
+      )
+      .map((row) => row.score as number);
+    const best = scores.length > 0 ? Math.max(...scores) : null;
+    grades.quizzes[String(quiz.id)] = {
+      best_score: best,
+      max_score: quiz.max_score ?? 100,
+    };
+    grades.total_quiz_score += best ?? 0;
+  });
+
+  const manual: NonNullable<GradeScores["manual"]> = {};
+  let totalManual = 0;
+  getManualGradeItems(state, courseId).forEach((item) => {
+    const score =
+      state.manualGrades.find(
+        (row) => row.item_id === item.id && row.student_id === studentId
+      )?.score ?? null;
+    manual[String(item.id)] = { score, max_score: item.max_score };
+    totalManual += score ?? 0;
+  });
+  grades.manual = manual;
+
+  grades.total_score =
+    grades.total_assignment_score + grades.total_quiz_score + totalManual;
+
+  const scheme = getGradingScheme(state, courseId);
+  const items = listGradeItems(toGradeMeta(state, courseId));
+  return { ...grades, ...computeFinalGrade(scheme, items, grades) };
+}
+
+export function findCourse(state: MockState, id: string | number) {
+  const course = state.instances.find((row) => row.id === Number(id));
+  if (!course) notFound("Kelas tidak ditemukan.");
+  return course;
+}
@@ -0,0 +1,468 @@
+// src/lib/mockBackend/store.ts
+
+import type {
+  AnswerMap,
+  AssignmentType,
+  BankQuestion,
+  CourseStatus,
+  CourseTemplate,
+  EnrollmentStatus,
+  GradingScheme,
+  MaterialType,
+  QuizAnswerGrade,
+  QuizQuestion,
+  Rubric,
+  RubricSelection,
+  User,
+} from "../api/types";
+
+/**
+ * Data in-memory untuk mock backend (src/app/mock-api/[...path]/route.ts).
+ * Bentuk record mengikuti tabel backend Laravel; relasi (template, lecturer,
+ * student, dst.) dirakit saat response dibuat, bukan disimpan di sini.
+ *
+ * State disimpan di globalThis supaya tidak hilang saat modul di-reload
+ * oleh HMR `next dev`. Restart server = kembali ke data seed.
+ */
+
+/** Password semua akun seed */
+export const MOCK_DEFAULT_PASSWORD = "password123";
+
+export interface MockUser extends User {
+  password: string;
+}
+
+export interface MockCourseInstance {
+  id: number;
+  course_template_id: number;
+  class_name: string;
+  semester: string;
+  lecturer_id: number;
+  status: CourseStatus;
+  start_date: string | null;
+  end_date: string | null;
+  notes: string | null;
+  /** null = belum diatur dosen, rekap memakai skema default */
+  grading_scheme: GradingScheme | null;
+}
+
+export interface MockEnrollment {
+  id: number;
+  course_instance_id: number;
+  student_id: number;
+  status: EnrollmentStatus;
+  enrolled_at: string;
+  dropped_at: string | null;
+}
+
+export interface MockSection {
+  id: number;
+  course_instance_id: number;
+  title: string;
+  order: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockMaterial {
+  id: number;
+  section_id: number;
+  title: string;
+  description: string | null;
+  type: MaterialType;
+  file_path: string | null;
+  url: string | null;
+  subject: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockAssignment {
+  id: number;
+  section_id: number;
+  title: string;
+  description: string | null;
+  type: AssignmentType;
+  instructions: string | null;
+  deadline: string | null;
+  max_score: number | null;
+  allow_late: boolean;
+  rubric: Rubric | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockSubmission {
+  id: number;
+  assignment_id: number;
+  student_id: number;
+  submitted_at: string;
+  file_path: string | null;
+  file_name: string | null;
+  link_url: string | null;
+  score: number | null;
+  feedback: string | null;
+  /** Selalu lengkap dan sama dengan `score` kalau tidak null */
+  rubric_selection: RubricSelection | null;
+  graded_at: string | null;
+}
+
+export interface MockQuiz {
+  id: number;
+  section_id: number;
+  title: string;
+  description: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  duration_minutes: number | null;
+  max_score: number | null;
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  draw_count: number | null;
+  questions: QuizQuestion[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockQuizAttempt {
+  id: number;
+  quiz_id: number;
+  student_id: number;
+  started_at: string;
+  expires_at: string | null;
+  submitted_at: string | null;
+  score: number | null;
+  answers: AnswerMap;
+  /** Key soal yang didapat mahasiswa, sesuai urutan tampil */
+  question_keys: string[];
+  /**
+   * Urutan opsi per key soal: index tampil → index asli. Jawaban disimpan
+   * dalam index tampil dan dipetakan balik saat dinilai.
+   */
+  option_orders: Record<string, number[]>;
+  /** Nilai manual dosen per key jawaban (isian singkat / esai) */
+  manual_grades: Record<string, QuizAnswerGrade>;
+}
+
+/** Kolom nilai manual di rekap kelas (kehadiran, UTS, keaktifan, ...) */
+export interface MockManualGradeItem {
+  id: number;
+  course_instance_id: number;
+  title: string;
+  max_score: number;
+}
+
+export interface MockManualGrade {
+  item_id: number;
+  student_id: number;
+  score: number;
+  updated_at: string;
+}
+
+/** Relasi & hitungan pemakaian dirakit di serializer */
+export type MockBankQuestion = Omit<
+  BankQuestion,
+  "course_template" | "usage_count"
+>;
+
+/** File hasil upload (materi & submission), disajikan di /storage/* */
+export interface MockStoredFile {
+  name: string;
+  type: string;
+  data: ArrayBuffer;
+}
+
+export interface MockState {
+  lastId: number;
+  /** token → id user */
+  tokens: Map<string, number>;
+  files: Map<string, MockStoredFile>;
+  users: MockUser[];
+  templates: CourseTemplate[];
+  instances: MockCourseInstance[];
+  enrollments: MockEnrollment[];
+  sections: MockSection[];
+  materials: MockMaterial[];
+  assignments: MockAssignment[];
+  submissions: MockSubmission[];
+  quizzes: MockQuiz[];
+  attempts: MockQuizAttempt[];
+  bankQuestions: MockBankQuestion[];
+  manualGradeItems: MockManualGradeItem[];
+  manualGrades: MockManualGrade[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Data awal:
+ * - admin (superadmin), dosen, 2 mahasiswa (Siti wajib ganti password)
+ * - 1 template + 1 kelas aktif milik dosen, Budi sudah terdaftar
+ * - 1 section berisi materi link, tugas link, dan quiz 2 soal yang sedang
+ *   berlangsung
+ * - 2 soal di bank soal dosen, salah satunya dipakai quiz seed
+ */
+function createSeedState(): MockState {
+  const now = new Date().toISOString();
+
+  const users: MockUser[] = [
+    {
+      id: 1,
+      name: "Super Admin",
+      email: "admin@lms.test",
+      username: "admin",
+      nim: null,
+      role: "superadmin",
+      status: "active",
+      force_password_change: false,
+      password: MOCK_DEFAULT_PASSWORD,
+    },
+    {
+      id: 2,
+      name: "Dosen Pengampu",
+      email: "dosen@lms.test",
+      username: "dosen",
+      nim: null,
+      role: "dosen",
+      status: "active",
+      force_password_change: false,
+      password: MOCK_DEFAULT_PASSWORD,
+    },
+    {
+      id: 3,
+      name: "Budi Santoso",
+      email: null,
+      username: "20250801001",
+      nim: "20250801001",
+      role: "mahasiswa",
+      status: "active",
+      force_password_change: false,
+      password: MOCK_DEFAULT_PASSWORD,
+    },
+    {
+      id: 4,
+      name: "Siti Aminah",
+      email: null,
+      username: "20250801002",
+      nim: "20250801002",
+      role: "mahasiswa",
+      status: "active",
+      force_password_change: true,
+      password: MOCK_DEFAULT_PASSWORD,
+    },
+  ];
+
+  return {
+    lastId: 100,
+    tokens: new Map(),
+    files: new Map(),
+    users,
+    templates: [
+      {
+        id: 10,
+        code: "IF101",
+        name: "Algoritma dan Pemrograman",
+        description: "Dasar algoritma dan pemrograman terstruktur.",
+        sks: 3,
+        semester_recommendation: "1",
+        is_active: true,
+        created_at: now,
+      },
+    ],
+    instances: [
+      {
+        id: 20,
+        course_template_id: 10,
+        class_name: "IF101-A",
+        semester: "2025/2026 Ganjil",
+        lecturer_id: 2,
+        status: "active",
+        start_date: daysFromNow(-30).slice(0, 10),
+        end_date: daysFromNow(90).slice(0, 10),
+        notes: null,
+        grading_scheme: null,
+      },
+    ],
+    enrollments: [
+      {
+        id: 30,
+        course_instance_id: 20,
+        student_id: 3,
+        status: "active",
+        enrolled_at: now,
+        dropped_at: null,
+      },
+    ],
+    sections: [
+      {
+        id: 40,
+        course_instance_id: 20,
+        title: "Pertemuan 1 - Pengenalan",
+        order: 1,
+        created_at: now,
+        updated_at: now,
+      },
+    ],
+    materials: [
+      {
+        id: 50,
+        section_id: 40,
+        title: "Silabus Perkuliahan",
+        description: "Rencana pembelajaran satu semester.",
+        type: "link",
+        file_path: null,
+        url: "https://example.com/silabus",
+        subject: "Pengenalan",
+        created_at: now,
+        updated_at: now,
+      },
+    ],
+    assignments: [
+      {
+        id: 60,
+        section_id: 40,
+        title: "Tugas 1 - Flowchart",
+        description: "Buat flowchart algoritma sederhana.",
+        type: "link",
+        instructions: "Kumpulkan link Google Drive berisi flowchart.",
+        deadline: daysFromNow(7),
+        max_score: 100,
+        allow_late: false,
+        rubric: null,
+        created_at: now,
+        updated_at: now,
+      },
+    ],
+    submissions: [],
+    quizzes: [
+      {
+        id: 70,
+        section_id: 40,
+        title: "Kuis 1 - Konsep Dasar",
+        description: "Kuis singkat materi pertemuan 1.",
+        start_time: daysFromNow(-1),
+        end_time: daysFromNow(7),
+        duration_minutes: 30,
+        max_score: 100,
+        shuffle_questions: false,
+        shuffle_options: false,
+        draw_count: null,
+        questions: [
+          {
+            id: 71,
+            type: "multiple_choice",
+            text: "Simbol flowchart untuk keputusan adalah ...",
+            points: 50,
+            options: [
+              { text: "Persegi panjang" },
+              { text: "Belah ketupat" },
+              { text: "Oval" },
+              { text: "Jajar genjang" },
+            ],
+            correct_option_index: 1,
+            bank_question_id: 80,
+          },
+          {
+            id: 72,
+            type: "short_answer",
+            text: "Sebutkan satu contoh bahasa pemrograman.",
+            points: 50,
+          },
+        ],
+        created_at: now,
+        updated_at: now,
+      },
+    ],
+    attempts: [],
+    bankQuestions: [
+      {
+        id: 80,
+        owner_id: 2,
+        course_template_id: 10,
+        type: "multiple_choice",
+        text: "Simbol flowchart untuk keputusan adalah ...",
+        points: 50,
+        options: [
+          { text: "Persegi panjang" },
+          { text: "Belah ketupat" },
+          { text: "Oval" },
+          { text: "Jajar genjang" },
+        ],
+        correct_option_index: 1,
+        tags: ["flowchart"],
+        difficulty: "easy",
+        created_at: now,
+        updated_at: now,
+      },
+      {
+        id: 81,
+        owner_id: 2,
+        course_template_id: null,
+        type: "short_answer",
+        text: "Jelaskan perbedaan algoritma dan program.",
+        points: 20,
+        tags: ["konsep dasar"],
+        difficulty: "medium",
+        created_at: now,
+        updated_at: now,
+      },
+      {
+        id: 82,
+        owner_id: 2,
+        course_template_id: 10,
+        type: "true_false",
+        text: "Setiap algoritma harus memiliki kondisi berhenti.",
+        points: 10,
+        correct_boolean: true,
+        tags: ["konsep dasar"],
+        difficulty: "easy",
+        created_at: now,
+        updated_at: now,
+      },
+      {
+        id: 83,
+        owner_id: 2,
+        course_template_id: 10,
+        type: "matching",
+        text: "Pasangkan simbol flowchart dengan fungsinya.",
+        points: 30,
+        matching_pairs: [
+          { left: "Oval", right: "Mulai / selesai" },
+          { left: "Belah ketupat", right: "Keputusan" },
+          { left: "Jajar genjang", right: "Input / output" },
+        ],
+        tags: ["flowchart"],
+        difficulty: "medium",
+        created_at: now,
+        updated_at: now,
+      },
+    ],
+    manualGradeItems: [],
+    manualGrades: [],
+  };
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __lmsMockState?: MockState;
+};
+
+export function getMockState(): MockState {
+  if (!globalStore.__lmsMockState) {
+    globalStore.__lmsMockState = createSeedState();
+  }
+  return globalStore.__lmsMockState;
+}
+
+/** Kembalikan ke data seed (dipakai test E2E lewat POST /__reset) */
+export function resetMockState() {
+  globalStore.__lmsMockState = createSeedState();
+}
+
+export function nextId(state: MockState): number {
+  state.lastId += 1;
+  return state.lastId;
+}
@@ -0,0 +1,37 @@
+// src/lib/queryCache.test.ts
+
+import { afterEach, describe, expect, it } from "vitest";
+import { clearQueryCache, fetchQuery, invalidateQuery } from "./queryCache";
+
+afterEach(() => {
+  clearQueryCache();
+});
+
+describe("invalidateQuery", () => {
+  it("refetch saat request masih berjalan tidak hilang", async () => {
+    let calls = 0;
+    let resolveFirst: (value: string) => void = () => {};
+    const query = {
+      key: "/api/test",
+      fetcher: () => {
+        calls += 1;
+        if (calls === 1) {
+          return new Promise<string>((resolve) => {
+            resolveFirst = resolve;
+          });
+        }
+        return Promise.resolve("baru");
+      },
+    };
+
+    const pending = fetchQuery(query);
+    // Yang dilakukan refetch() dari useQuery
+    invalidateQuery(query.key);
+    resolveFirst("lama");
+    await expect(pending).resolves.toBe("lama");
+
+    // Response pertama sudah basi, jadi request berikutnya tidak dari cache
+    await expect(fetchQuery(query)).resolves.toBe("baru");
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,295 @@
+// src/lib/queryCache.ts
+
+import {
+  useCallback,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { ApiRequestOptions } from "./apiClient";
+
+/**
+ * Cache bersama untuk data hasil GET ke backend.
+ * - Key = path + query (urutan query tidak berpengaruh)
+ * - Request dengan key yang sama saat masih berjalan hanya dikirim sekali
+ * - Stale-while-revalidate: data lama langsung ditampilkan, lalu diperbarui
+ *   di background kalau sudah lewat staleTimeMs atau di-invalidate
+ * - Mutasi memanggil invalidateQueries(path) supaya list terkait di-refetch
+ */
+
+export const DEFAULT_STALE_TIME_MS = 30_000;
+
+export interface QueryDescriptor<T> {
+  key: string;
+  fetcher: () => Promise<T>;
+}
+
+interface QueryEntry {
+  data: unknown;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+  invalidated: boolean;
+}
+
+const EMPTY_ENTRY: QueryEntry = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  invalidated: false,
+};
+
+const entries = new Map<string, QueryEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+const listeners = new Map<string, Set<() => void>>();
+/** Key yang di-invalidate saat request-nya masih berjalan */
+const invalidatedInFlight = new Set<string>();
+
+/**
+ * Naik setiap clearQueryCache(); response dari request yang dimulai
+ * sebelum cache dikosongkan tidak boleh ditulis balik.
+ */
+let generation = 0;
+
+// -----------------------------
+// Store internals
+// -----------------------------
+
+function getEntry(key: string | null): QueryEntry {
+  if (!key) return EMPTY_ENTRY;
+  return entries.get(key) ?? EMPTY_ENTRY;
+}
+
+function updateEntry(key: string, patch: Partial<QueryEntry>) {
+  // Selalu object baru supaya useSyncExternalStore mendeteksi perubahan
+  entries.set(key, { ...getEntry(key), ...patch });
+  listeners.get(key)?.forEach((listener) => listener());
+}
+
+function subscribeKey(key: string, listener: () => void) {
+  let set = listeners.get(key);
+  if (!set) {
+    set = new Set();
+    listeners.set(key, set);
+  }
+  set.add(listener);
+
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(key);
+  };
+}
+
+function isFresh(entry: QueryEntry, staleTimeMs: number): boolean {
+  return (
+    entry.data !== undefined &&
+    !entry.invalidated &&
+    Date.now() - entry.updatedAt < staleTimeMs
+  );
+}
+
+// -----------------------------
+// Public API
+// -----------------------------
+
+/**
+ * Bangun key cache dari path + query. Nilai kosong diabaikan, sama seperti
+ * apiRequest, jadi { status: "" } dan {} menghasilkan key yang sama.
+ */
+export function getQueryKey(
+  path: string,
+  query?: ApiRequestOptions["query"]
+): string {
+  if (!query) return path;
+
+  const params = Object.entries(query)
+    .filter(
+      ([, value]) => value !== null && value !== undefined && value !== ""
+    )
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`
+    )
+    .join("&");
+
+  return params ? `${path}?${params}` : path;
+}
+
+/**
+ * Ambil data lewat cache. Kalau masih fresh → langsung dari cache,
+ * kalau sedang di-fetch → ikut menunggu request yang sama.
+ */
+export function fetchQuery<T>(
+  { key, fetcher }: QueryDescriptor<T>,
+  options?: { staleTimeMs?: number; force?: boolean }
+): Promise<T> {
+  const staleTimeMs = options?.staleTimeMs ?? DEFAULT_STALE_TIME_MS;
+  const force = options?.force ?? false;
+
+  const entry = getEntry(key);
+  if (!force && isFresh(entry, staleTimeMs)) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  updateEntry(key, { isFetching: true });
+  invalidatedInFlight.delete(key);
+  const startedGeneration = generation;
+
+  const promise = fetcher()
+    .then((data) => {
+      if (startedGeneration !== generation) return data;
+      // Response bisa jadi sudah basi kalau ada mutasi selama request jalan
+      updateEntry(key, {
+        data,
+        error: null,
+        updatedAt: Date.now(),
+        isFetching: false,
+        invalidated: invalidatedInFlight.delete(key),
+      });
+      return data;
+    })
+    .catch((error: unknown) => {
+      if (startedGeneration === generation) {
+        updateEntry(key, {
+          error,
+          isFetching: false,
+          invalidated: invalidatedInFlight.delete(key),
+        });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === promise) inFlight.delete(key);
+    });
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Tandai satu key sebagai basi. Kalau request key itu masih berjalan,
+ * tanda basi dipertahankan setelah response datang supaya tetap refetch.
+ */
+export function invalidateQuery(key: string) {
+  if (inFlight.has(key)) invalidatedInFlight.add(key);
+  updateEntry(key, { invalidated: true });
+}
+
+/**
+ * Tandai semua query di bawah path ini sebagai basi. Komponen yang sedang
+ * memakai query tersebut akan refetch otomatis.
+ *
+ * Contoh: invalidateQueries("/api/admin/users") juga mengenai
+ * "/api/admin/users?role=dosen".
+ */
+export function invalidateQueries(pathPrefix: string) {
+  for (const key of Array.from(entries.keys())) {
+    if (
+      key === pathPrefix ||
+      key.startsWith(`${pathPrefix}?`) ||
+      key.startsWith(`${pathPrefix}/`)
+    ) {
+      invalidateQuery(key);
+    }
+  }
+}
+
+/**
+ * Kosongkan seluruh cache (dipanggil saat login/logout supaya data user
+ * sebelumnya tidak ikut tampil).
+ */
+export function clearQueryCache() {
+  generation += 1;
+  entries.clear();
+  inFlight.clear();
+  invalidatedInFlight.clear();
+  listeners.forEach((set) => set.forEach((listener) => listener()));
+}
+
+// -----------------------------
+// React hook
+// -----------------------------
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  /** true hanya saat belum ada data sama sekali (first load) */
+  loading: boolean;
+  /** true setiap ada request berjalan, termasuk revalidate di background */
+  validating: boolean;
+  /** Paksa refetch (data lama tetap tampil selama menunggu) */
+  refetch: () => void;
+}
+
+/**
+ * Baca data dari cache dan revalidate bila perlu.
+ * Kirim null untuk menunda query (misal parameter belum siap).
+ *
+ * keepPreviousData: saat key berganti (misal pindah halaman tabel), data key
+ * sebelumnya tetap ditampilkan sampai data key baru datang.
+ */
+export function useQuery<T>(
+  query: QueryDescriptor<T> | null,
+  options?: { staleTimeMs?: number; keepPreviousData?: boolean }
+): UseQueryResult<T> {
+  const key = query?.key ?? null;
+  const staleTimeMs = options?.staleTimeMs ?? DEFAULT_STALE_TIME_MS;
+  const keepPreviousData = options?.keepPreviousData ?? false;
+
+  const subscribe = useCallback(
+    (listener: () => void) => (key ? subscribeKey(key, listener) : () => {}),
+    [key]
+  );
+  const entry = useSyncExternalStore(
+    subscribe,
+    () => getEntry(key),
+    () => EMPTY_ENTRY
+  );
+
+  useEffect(() => {
+    if (!query || entry.isFetching) return;
+    if (isFresh(entry, staleTimeMs)) return;
+    // Error tidak di-retry otomatis (hindari loop); tunggu refetch/invalidate
+    if (entry.error && !entry.invalidated) return;
+
+    fetchQuery(query, { force: true }).catch(() => {
+      // error sudah disimpan di entry
+    });
+    // query dibuat ulang tiap render; cukup bereaksi pada key-nya
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, entry, staleTimeMs]);
+
+  const refetch = useCallback(() => {
+    if (key) invalidateQuery(key);
+  }, [key]);
+
+  const [previousData, setPreviousData] = useState<unknown>(undefined);
+  if (
+    keepPreviousData &&
+    entry.data !== undefined &&
+    entry.data !== previousData
+  ) {
+    setPreviousData(entry.data);
+  }
+
+  const data =
+    entry.data !== undefined
+      ? entry.data
+      : keepPreviousData && !entry.error
+      ? previousData
+      : undefined;
+
+  return {
+    data: data as T | undefined,
+    error: entry.error,
+    loading:
+      key !== null && data === undefined && (entry.isFetching || !entry.error),
+    validating: entry.isFetching,
+    refetch,
+  };
+}
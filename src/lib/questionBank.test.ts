@@ -0,0 +1,109 @@
+// src/lib/questionBank.test.ts
+
+import { describe, expect, it } from "vitest";
+import type { BankQuestion, CourseInstance, QuizQuestion } from "./api/types";
+import {
+  getTeachingTemplates,
+  parseTags,
+  toBankPayloadFromQuizQuestion,
+  toQuizQuestionFromBank,
+} from "./questionBank";
+
+const bankQuestion: BankQuestion = {
+  id: 80,
+  owner_id: 2,
+  course_template_id: 10,
+  type: "multiple_choice",
+  text: "Simbol flowchart untuk keputusan adalah ...",
+  points: 50,
+  options: [{ text: "Persegi panjang" }, { text: "Belah ketupat" }],
+  correct_option_index: 1,
+  tags: ["flowchart"],
+  difficulty: "easy",
+  created_at: "2026-10-01T00:00:00Z",
+  updated_at: "2026-10-01T00:00:00Z",
+};
+
+function makeCourse(id: number, templateId: number, code: string) {
+  return {
+    id,
+    template: { id: templateId, code, name: `Mata kuliah ${code}` },
+  } as CourseInstance;
+}
+
+describe("parseTags", () => {
+  it("memisah koma, trim, dan membuang duplikat tanpa beda huruf besar", () => {
+    expect(parseTags(" Flowchart, loop ,, flowchart,LOOP ")).toEqual([
+      "Flowchart",
+      "loop",
+    ]);
+    expect(parseTags("")).toEqual([]);
+  });
+});
+
+describe("toQuizQuestionFromBank", () => {
+  it("menyalin isi soal dengan id baru dan tautan ke bank", () => {
+    const copy = toQuizQuestionFromBank(bankQuestion, "new-1");
+    expect(copy).toEqual({
+      id: "new-1",
+      type: "multiple_choice",
+      text: bankQuestion.text,
+      points: 50,
+      options: [
+        { id: "opt-1", text: "Persegi panjang" },
+        { id: "opt-2", text: "Belah ketupat" },
+      ],
+      correct_option_index: 1,
+      bank_question_id: 80,
+    });
+    // Salinan tidak berbagi referensi opsi dengan soal bank
+    expect(copy.options).not.toBe(bankQuestion.options);
+  });
+
+  it("isian singkat tidak membawa kunci pilihan ganda", () => {
+    const copy = toQuizQuestionFromBank(
+      { ...bankQuestion, type: "short_answer", options: undefined },
+      "new-2"
+    );
+    expect(copy.options).toBeUndefined();
+    expect(copy.correct_option_index).toBeUndefined();
+  });
+});
+
+describe("toBankPayloadFromQuizQuestion", () => {
+  it("membuang id soal quiz dan id opsi", () => {
+    const question: QuizQuestion = {
+      id: 71,
+      type: "multiple_choice",
+      text: "  Pilih satu  ",
+      points: 10,
+      options: [
+        { id: "opt-1", text: "A" },
+        { id: "opt-2", text: null },
+      ],
+      correct_option_index: 0,
+      bank_question_id: null,
+    };
+    expect(toBankPayloadFromQuizQuestion(question)).toEqual({
+      type: "multiple_choice",
+      text: "Pilih satu",
+      points: 10,
+      options: [{ text: "A" }, { text: "" }],
+      correct_option_index: 0,
+      course_template_id: null,
+      tags: [],
+      difficulty: null,
+    });
+  });
+});
+
+describe("getTeachingTemplates", () => {
+  it("mengambil mata kuliah unik dan mengurutkan berdasarkan kode", () => {
+    const templates = getTeachingTemplates([
+      makeCourse(1, 11, "IF202"),
+      makeCourse(2, 10, "IF101"),
+      makeCourse(3, 11, "IF202"),
+    ]);
+    expect(templates.map((t) => t.code)).toEqual(["IF101", "IF202"]);
+  });
+});
@@ -0,0 +1,90 @@
+// src/lib/questionBank.ts
+
+import type {
+  BankQuestion,
+  BankQuestionPayload,
+  CourseInstance,
+  CourseTemplateLite,
+  QuestionDifficulty,
+  QuizQuestion,
+} from "./api/types";
+import { pickQuestionContent } from "./quizQuestions";
+
+/**
+ * Konversi antara soal bank dan soal quiz. Soal bank tidak pernah dipakai
+ * langsung: quiz menyimpan salinan dengan bank_question_id, jadi quiz lama
+ * tidak berubah ketika soal di bank diedit (kecuali dosen memilih
+ * menerapkannya ke quiz lain).
+ */
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: "Mudah",
+  medium: "Sedang",
+  hard: "Sulit",
+};
+
+/** "Flowchart, loop , flowchart" → ["Flowchart", "loop"] (tanpa duplikat) */
+export function parseTags(input: string): string[] {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const raw of input.split(",")) {
+    const tag = raw.trim();
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Salinan soal bank untuk disisipkan ke draft quiz. `id` dibuat baru supaya
+ * backend menganggapnya soal baru di quiz tersebut.
+ */
+export function toQuizQuestionFromBank(
+  question: BankQuestion,
+  id: string
+): QuizQuestion {
+  return {
+    ...pickQuestionContent(question),
+    id,
+    bank_question_id: question.id,
+  };
+}
+
+/** Payload bank soal dari soal yang sudah ada di quiz */
+export function toBankPayloadFromQuizQuestion(
+  question: QuizQuestion,
+  meta: Pick<
+    BankQuestionPayload,
+    "course_template_id" | "tags" | "difficulty"
+  > = { course_template_id: null, tags: [], difficulty: null }
+): BankQuestionPayload {
+  const content = pickQuestionContent(question);
+  return {
+    ...content,
+    text: (content.text ?? "").trim(),
+    // id opsi/pasangan hanya dipakai editor
+    options: content.options?.map((opt) => ({ text: opt.text })),
+    matching_pairs: content.matching_pairs?.map((pair) => ({
+      left: pair.left,
+      right: pair.right,
+    })),
+    ...meta,
+  };
+}
+
+/** Mata kuliah (template) unik dari kelas yang diampu dosen */
+export function getTeachingTemplates(
+  courses: CourseInstance[]
+): CourseTemplateLite[] {
+  const map = new Map<number, CourseTemplateLite>();
+  for (const course of courses) {
+    if (course.template && !map.has(course.template.id)) {
+      map.set(course.template.id, course.template);
+    }
+  }
+  return Array.from(map.values()).sort((a, b) =>
+    a.code.localeCompare(b.code)
+  );
+}
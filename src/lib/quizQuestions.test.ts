@@ -0,0 +1,251 @@
+// src/lib/quizQuestions.test.ts
+
+import { describe, expect, it } from "vitest";
+import type { QuizQuestion } from "./api/types";
+import {
+  changeQuestionType,
+  countWords,
+  createQuestion,
+  describeQuizRandomization,
+  formatAnswer,
+  formatAnswerKey,
+  normalizeQuizQuestion,
+  validateDrawCount,
+  validateQuizQuestion,
+  validateQuizQuestions,
+} from "./quizQuestions";
+
+function makeQuestion(patch: Partial<QuizQuestion>): QuizQuestion {
+  return { id: 1, type: "multiple_choice", text: "Soal", points: 10, ...patch };
+}
+
+describe("createQuestion", () => {
+  it("menyiapkan field sesuai tipe", () => {
+    const ma = createQuestion("multiple_answer", "q-1");
+    expect(ma.id).toBe("q-1");
+    expect(ma.options).toHaveLength(2);
+    expect(ma.correct_option_indexes).toEqual([]);
+    expect(ma.partial_credit).toBe(true);
+
+    const matching = createQuestion("matching");
+    expect(matching.matching_pairs).toHaveLength(2);
+    expect(matching.options).toBeUndefined();
+
+    const numeric = createQuestion("numeric");
+    expect(numeric.numeric_answer).toBeNull();
+    expect(numeric.numeric_tolerance).toBe(0);
+  });
+});
+
+describe("changeQuestionType", () => {
+  it("memakai ulang opsi pilihan ganda dan membuang kunci lama", () => {
+    const mc = makeQuestion({
+      options: [{ text: "A" }, { text: "B" }],
+      correct_option_index: 1,
+      bank_question_id: 80,
+    });
+    const ma = changeQuestionType(mc, "multiple_answer");
+    expect(ma.options?.map((opt) => opt.text)).toEqual(["A", "B"]);
+    expect(ma.correct_option_index).toBeUndefined();
+    expect(ma.correct_option_indexes).toEqual([]);
+    expect(ma.bank_question_id).toBe(80);
+
+    const tf = changeQuestionType(mc, "true_false");
+    expect(tf.options).toBeUndefined();
+    expect(tf.correct_boolean).toBeNull();
+    expect(tf.text).toBe("Soal");
+  });
+});
+
+describe("normalizeQuizQuestion", () => {
+  it("mengisi nilai kosong supaya input editor tidak menerima null", () => {
+    const normalized = normalizeQuizQuestion(
+      makeQuestion({
+        text: null,
+        points: Number.NaN,
+        options: [{ text: null }, { id: "x", text: "B" }],
+      })
+    );
+    expect(normalized.text).toBe("");
+    expect(normalized.points).toBe(1);
+    expect(normalized.options).toEqual([
+      { id: "opt-1", text: "" },
+      { id: "x", text: "B" },
+    ]);
+    expect(normalized.bank_question_id).toBeNull();
+  });
+});
+
+describe("validateQuizQuestion", () => {
+  it("memakai nomor soal di pesan, atau tanpa nomor untuk soal tunggal", () => {
+    const empty = makeQuestion({ text: " " });
+    expect(validateQuizQuestion(empty, 2)).toBe(
+      "Soal #3 belum diisi teksnya."
+    );
+    expect(validateQuizQuestion(empty, null)).toBe(
+      "Soal belum diisi teksnya."
+    );
+  });
+
+  it("banyak jawaban butuh minimal satu kunci yang valid", () => {
+    const q = makeQuestion({
+      type: "multiple_answer",
+      options: [{ text: "A" }, { text: "B" }],
+      correct_option_indexes: [],
+    });
+    expect(validateQuizQuestion(q, 0)).toMatch(/minimal punya 1 jawaban/);
+    expect(
+      validateQuizQuestion({ ...q, correct_option_indexes: [0, 2] }, 0)
+    ).toMatch(/tidak valid/);
+    expect(
+      validateQuizQuestion({ ...q, correct_option_indexes: [0, 1] }, 0)
+    ).toBeNull();
+  });
+
+  it("benar/salah wajib punya kunci boolean", () => {
+    const q = makeQuestion({ type: "true_false", correct_boolean: null });
+    expect(validateQuizQuestion(q, 0)).toMatch(/belum ditentukan/);
+    expect(
+      validateQuizQuestion({ ...q, correct_boolean: false }, 0)
+    ).toBeNull();
+  });
+
+  it("menjodohkan menolak pasangan kosong dan duplikat", () => {
+    const q = makeQuestion({
+      type: "matching",
+      matching_pairs: [
+        { left: "Oval", right: "Mulai" },
+        { left: "oval ", right: "Keputusan" },
+      ],
+    });
+    expect(validateQuizQuestion(q, 0)).toMatch(/pernyataan kiri yang sama/);
+    expect(
+      validateQuizQuestion(
+        {
+          ...q,
+          matching_pairs: [
+            { left: "Oval", right: "Mulai" },
+            { left: "Belah ketupat", right: "" },
+          ],
+        },
+        0
+      )
+    ).toMatch(/pasangan kosong/);
+  });
+
+  it("numerik butuh jawaban angka dan toleransi tidak negatif", () => {
+    const q = makeQuestion({ type: "numeric", numeric_answer: null });
+    expect(validateQuizQuestion(q, 0)).toMatch(/jawaban angka/);
+    expect(
+      validateQuizQuestion(
+        { ...q, numeric_answer: 3.14, numeric_tolerance: -1 },
+        0
+      )
+    ).toMatch(/Toleransi/);
+    expect(
+      validateQuizQuestion({ ...q, numeric_answer: 0, numeric_tolerance: 0 }, 0)
+    ).toBeNull();
+  });
+
+  it("batas kata esai opsional tapi harus bilangan bulat positif", () => {
+    const q = makeQuestion({ type: "essay", essay_word_limit: null });
+    expect(validateQuizQuestion(q, 0)).toBeNull();
+    expect(
+      validateQuizQuestion({ ...q, essay_word_limit: 2.5 }, 0)
+    ).toMatch(/Batas kata/);
+  });
+});
+
+describe("validateQuizQuestions", () => {
+  it("mengembalikan error pertama berdasarkan urutan soal", () => {
+    expect(
+      validateQuizQuestions([
+        makeQuestion({ type: "short_answer" }),
+        makeQuestion({ type: "true_false" }),
+        makeQuestion({ type: "numeric" }),
+      ])
+    ).toBe("Soal benar/salah #2 belum ditentukan jawabannya.");
+  });
+});
+
+describe("countWords", () => {
+  it("menghitung kata yang dipisah spasi atau baris baru", () => {
+    expect(countWords("  ")).toBe(0);
+    expect(countWords("satu dua\n tiga")).toBe(3);
+  });
+});
+
+describe("formatAnswer / formatAnswerKey", () => {
+  it("menampilkan jawaban dan kunci per tipe soal", () => {
+    const ma = makeQuestion({
+      type: "multiple_answer",
+      options: [{ text: "Oval" }, { text: "Belah ketupat" }, { text: "Kotak" }],
+      correct_option_indexes: [0, 2],
+    });
+    expect(formatAnswer(ma, [1])).toBe("B. Belah ketupat");
+    expect(formatAnswerKey(ma)).toBe("A. Oval; C. Kotak");
+
+    const matching = makeQuestion({
+      type: "matching",
+      matching_pairs: [
+        { left: "Oval", right: "Mulai" },
+        { left: "Belah ketupat", right: "Keputusan" },
+      ],
+    });
+    expect(formatAnswer(matching, ["Keputusan", ""])).toBe(
+      "Oval → Keputusan; Belah ketupat → —"
+    );
+
+    const numeric = makeQuestion({
+      type: "numeric",
+      numeric_answer: 3.14,
+      numeric_tolerance: 0.01,
+    });
+    expect(formatAnswerKey(numeric)).toBe("3.14 ± 0.01");
+    expect(formatAnswer(makeQuestion({ type: "true_false" }), false)).toBe(
+      "Salah"
+    );
+  });
+
+  it("jawaban kosong dan soal manual tanpa kunci menjadi string kosong", () => {
+    const essay = makeQuestion({ type: "essay" });
+    expect(formatAnswer(essay, null)).toBe("");
+    expect(formatAnswer(essay, "  Jawaban  ")).toBe("Jawaban");
+    expect(formatAnswerKey(essay)).toBe("");
+  });
+});
+
+describe("describeQuizRandomization", () => {
+  it("merangkum pengaturan acak dan membatasi undian ke jumlah soal", () => {
+    expect(describeQuizRandomization({ draw_count: null })).toBe("");
+    expect(
+      describeQuizRandomization(
+        { shuffle_questions: true, shuffle_options: true, draw_count: 5 },
+        3
+      )
+    ).toBe("Soal diacak • Opsi diacak • 3 dari 3 soal diundi");
+    expect(describeQuizRandomization({ draw_count: 5 })).toBe(
+      "5 soal diundi"
+    );
+  });
+});
+
+describe("validateDrawCount", () => {
+  it("menerima kosong atau bilangan bulat sampai jumlah soal", () => {
+    expect(validateDrawCount("")).toBeNull();
+    expect(validateDrawCount("  ")).toBeNull();
+    expect(validateDrawCount(" 3 ", 8)).toBeNull();
+    expect(validateDrawCount("8", 8)).toBeNull();
+  });
+
+  it("menolak pecahan, teks, nol, dan undian melebihi jumlah soal", () => {
+    ["2.5", "abc", "3x", "0", "-1"].forEach((value) => {
+      expect(validateDrawCount(value, 8)).toBe(
+        "Jumlah soal yang diundi harus bilangan bulat minimal 1."
+      );
+    });
+    expect(validateDrawCount("9", 8)).toBe(
+      "Jumlah soal yang diundi tidak boleh lebih dari jumlah soal quiz (8)."
+    );
+  });
+});
@@ -0,0 +1,415 @@
+// src/lib/quizQuestions.ts
+
+import type {
+  AnswerValue,
+  QuestionType,
+  QuizMatchingPair,
+  QuizQuestion,
+  QuizQuestionOption,
+  QuizRandomization,
+} from "./api/types";
+
+/**
+ * Model soal quiz per tipe: label, soal kosong untuk editor, normalisasi
+ * data dari backend, dan aturan validasi sebelum soal disimpan.
+ */
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: "Pilihan Ganda",
+  multiple_answer: "Pilihan Ganda (Banyak Jawaban)",
+  true_false: "Benar / Salah",
+  matching: "Menjodohkan",
+  numeric: "Numerik",
+  short_answer: "Isian Singkat",
+  essay: "Esai",
+};
+
+/** Urutan tipe di tombol tambah soal & dropdown filter */
+export const QUESTION_TYPES: QuestionType[] = [
+  "multiple_choice",
+  "multiple_answer",
+  "true_false",
+  "matching",
+  "numeric",
+  "short_answer",
+  "essay",
+];
+
+/** Tipe yang jawabannya dikoreksi dosen, bukan otomatis */
+export function isManuallyGraded(type: QuestionType): boolean {
+  return type === "short_answer" || type === "essay";
+}
+
+/** Jumlah kata jawaban esai (dipisah spasi) */
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+export function createClientId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function emptyOptions(): QuizQuestionOption[] {
+  return [
+    { id: createClientId("opt"), text: "" },
+    { id: createClientId("opt"), text: "" },
+  ];
+}
+
+function emptyPairs(): QuizMatchingPair[] {
+  return [
+    { id: createClientId("pair"), left: "", right: "" },
+    { id: createClientId("pair"), left: "", right: "" },
+  ];
+}
+
+/**
+ * Ambil isi soal sesuai tipenya saja. Field milik tipe lain dibuang supaya
+ * mengganti tipe di editor tidak meninggalkan kunci jawaban basi.
+ */
+export function pickQuestionContent(
+  question: QuizQuestion
+): Omit<QuizQuestion, "id" | "bank_question_id"> {
+  const base = {
+    type: question.type,
+    text: question.text ?? "",
+    points: question.points,
+  };
+  const options = (question.options ?? []).map((opt, index) => ({
+    id: opt.id ?? `opt-${index + 1}`,
+    text: opt.text ?? "",
+  }));
+
+  switch (question.type) {
+    case "multiple_choice":
+      return {
+        ...base,
+        options,
+        correct_option_index: question.correct_option_index ?? 0,
+      };
+    case "multiple_answer":
+      return {
+        ...base,
+        options,
+        correct_option_indexes: [...(question.correct_option_indexes ?? [])],
+        partial_credit: question.partial_credit ?? true,
+      };
+    case "true_false":
+      return { ...base, correct_boolean: question.correct_boolean ?? null };
+    case "matching":
+      return {
+        ...base,
+        matching_pairs: (question.matching_pairs ?? []).map((pair, index) => ({
+          id: pair.id ?? `pair-${index + 1}`,
+          left: pair.left ?? "",
+          right: pair.right ?? "",
+        })),
+      };
+    case "numeric":
+      return {
+        ...base,
+        numeric_answer: question.numeric_answer ?? null,
+        numeric_tolerance: question.numeric_tolerance ?? 0,
+      };
+    case "essay":
+      return {
+        ...base,
+        essay_word_limit: question.essay_word_limit ?? null,
+      };
+    default:
+      return base;
+  }
+}
+
+/** Soal baru yang siap diisi di editor */
+export function createQuestion(
+  type: QuestionType,
+  id: string = createClientId("new")
+): QuizQuestion {
+  return {
+    ...pickQuestionContent({
+      type,
+      text: "",
+      points: 1,
+      options: emptyOptions(),
+      matching_pairs: emptyPairs(),
+    }),
+    id,
+  };
+}
+
+/**
+ * Ganti tipe soal: teks & poin tetap, opsi dipakai ulang antar tipe pilihan
+ * ganda, kunci jawaban lain di-reset.
+ */
+export function changeQuestionType(
+  question: QuizQuestion,
+  type: QuestionType
+): QuizQuestion {
+  const hasOptions =
+    (question.type === "multiple_choice" ||
+      question.type === "multiple_answer") &&
+    (question.options?.length ?? 0) > 0;
+
+  return {
+    ...pickQuestionContent({
+      type,
+      text: question.text,
+      points: question.points,
+      options: hasOptions ? question.options : emptyOptions(),
+      matching_pairs: emptyPairs(),
+    }),
+    id: question.id,
+    bank_question_id: question.bank_question_id,
+  };
+}
+
+/** Data soal dari backend → draft editor tanpa null di value input */
+export function normalizeQuizQuestion(question: QuizQuestion): QuizQuestion {
+  return {
+    ...pickQuestionContent({
+      ...question,
+      points:
+        typeof question.points === "number" && !Number.isNaN(question.points)
+          ? question.points
+          : 1,
+    }),
+    id: question.id,
+    bank_question_id: question.bank_question_id ?? null,
+  };
+}
+
+function hasDuplicate(values: string[]): boolean {
+  const normalized = values.map((value) => value.trim().toLowerCase());
+  return new Set(normalized).size !== normalized.length;
+}
+
+/**
+ * Aturan validasi per tipe. Mengembalikan pesan error pertama untuk soal
+ * ke-`index` (0-based), atau null kalau soal valid. `index` null dipakai
+ * untuk soal tunggal (bank soal) sehingga pesan tanpa nomor.
+ */
+export function validateQuizQuestion(
+  q: QuizQuestion,
+  index: number | null
+): string | null {
+  const ref = index === null ? "" : ` #${index + 1}`;
+
+  if (!q.text || !q.text.trim()) {
+    return `Soal${ref} belum diisi teksnya.`;
+  }
+  if (!Number.isFinite(q.points) || q.points <= 0) {
+    return `Poin untuk soal${ref} harus angka lebih dari 0.`;
+  }
+
+  switch (q.type) {
+    case "multiple_choice": {
+      const options = q.options ?? [];
+      if (options.length < 2) {
+        return `Soal pilihan ganda${ref} minimal punya 2 opsi.`;
+      }
+      if (options.some((opt) => !opt.text || !opt.text.trim())) {
+        return `Soal pilihan ganda${ref} masih punya opsi kosong.`;
+      }
+      if (
+        q.correct_option_index === null ||
+        q.correct_option_index === undefined ||
+        q.correct_option_index < 0 ||
+        q.correct_option_index >= options.length
+      ) {
+        return `Soal pilihan ganda${ref} belum memiliki jawaban benar yang valid.`;
+      }
+      return null;
+    }
+
+    case "multiple_answer": {
+      const options = q.options ?? [];
+      const correct = q.correct_option_indexes ?? [];
+      if (options.length < 2) {
+        return `Soal banyak jawaban${ref} minimal punya 2 opsi.`;
+      }
+      if (options.some((opt) => !opt.text || !opt.text.trim())) {
+        return `Soal banyak jawaban${ref} masih punya opsi kosong.`;
+      }
+      if (correct.length === 0) {
+        return `Soal banyak jawaban${ref} minimal punya 1 jawaban benar.`;
+      }
+      if (correct.some((idx) => idx < 0 || idx >= options.length)) {
+        return `Soal banyak jawaban${ref} punya jawaban benar yang tidak valid.`;
+      }
+      return null;
+    }
+
+    case "true_false":
+      if (typeof q.correct_boolean !== "boolean") {
+        return `Soal benar/salah${ref} belum ditentukan jawabannya.`;
+      }
+      return null;
+
+    case "matching": {
+      const pairs = q.matching_pairs ?? [];
+      if (pairs.length < 2) {
+        return `Soal menjodohkan${ref} minimal punya 2 pasangan.`;
+      }
+      if (pairs.some((pair) => !pair.left.trim() || !pair.right.trim())) {
+        return `Soal menjodohkan${ref} masih punya pasangan kosong.`;
+      }
+      if (hasDuplicate(pairs.map((pair) => pair.left))) {
+        return `Soal menjodohkan${ref} punya pernyataan kiri yang sama.`;
+      }
+      if (hasDuplicate(pairs.map((pair) => pair.right))) {
+        return `Soal menjodohkan${ref} punya pasangan kanan yang sama.`;
+      }
+      return null;
+    }
+
+    case "numeric":
+      if (
+        typeof q.numeric_answer !== "number" ||
+        !Number.isFinite(q.numeric_answer)
+      ) {
+        return `Soal numerik${ref} belum memiliki jawaban angka yang valid.`;
+      }
+      if (
+        q.numeric_tolerance !== null &&
+        q.numeric_tolerance !== undefined &&
+        (!Number.isFinite(q.numeric_tolerance) || q.numeric_tolerance < 0)
+      ) {
+        return `Toleransi soal numerik${ref} harus angka 0 atau lebih.`;
+      }
+      return null;
+
+    case "essay":
+      if (
+        q.essay_word_limit !== null &&
+        q.essay_word_limit !== undefined &&
+        (!Number.isInteger(q.essay_word_limit) || q.essay_word_limit <= 0)
+      ) {
+        return `Batas kata soal esai${ref} harus bilangan bulat lebih dari 0.`;
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+/** Pesan error pertama dari seluruh daftar soal, atau null */
+export function validateQuizQuestions(
+  questions: QuizQuestion[]
+): string | null {
+  for (const [index, question] of questions.entries()) {
+    const error = validateQuizQuestion(question, index);
+    if (error) return error;
+  }
+  return null;
+}
+
+function optionLabel(question: QuizQuestion, index: number): string {
+  const text = question.options?.[index]?.text ?? "";
+  return `${String.fromCharCode(65 + index)}. ${text}`.trim();
+}
+
+/**
+ * Jawaban mahasiswa dalam bentuk teks untuk halaman penilaian dosen.
+ * String kosong berarti tidak dijawab.
+ */
+export function formatAnswer(
+  question: QuizQuestion,
+  answer: AnswerValue | undefined
+): string {
+  if (answer === null || answer === undefined) return "";
+
+  switch (question.type) {
+    case "multiple_choice":
+      return typeof answer === "number" ? optionLabel(question, answer) : "";
+    case "multiple_answer":
+      return Array.isArray(answer)
+        ? answer.map((idx) => optionLabel(question, Number(idx))).join("; ")
+        : "";
+    case "true_false":
+      return typeof answer === "boolean" ? (answer ? "Benar" : "Salah") : "";
+    case "matching": {
+      if (!Array.isArray(answer)) return "";
+      return (question.matching_pairs ?? [])
+        .map((pair, i) => `${pair.left} → ${String(answer[i] ?? "") || "—"}`)
+        .join("; ");
+    }
+    default:
+      return String(answer).trim();
+  }
+}
+
+/** Kunci jawaban dalam bentuk teks; kosong untuk soal yang dinilai manual */
+export function formatAnswerKey(question: QuizQuestion): string {
+  switch (question.type) {
+    case "multiple_choice":
+      return question.correct_option_index != null
+        ? formatAnswer(question, question.correct_option_index)
+        : "";
+    case "multiple_answer":
+      return formatAnswer(question, question.correct_option_indexes ?? []);
+    case "true_false":
+      return formatAnswer(question, question.correct_boolean ?? null);
+    case "matching":
+      return formatAnswer(
+        question,
+        (question.matching_pairs ?? []).map((pair) => pair.right)
+      );
+    case "numeric":
+      return question.numeric_answer != null
+        ? `${question.numeric_answer}${
+            question.numeric_tolerance
+              ? ` ± ${question.numeric_tolerance}`
+              : ""
+          }`
+        : "";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Validasi input "jumlah soal diundi" (teks mentah dari form). Kosong berarti
+ * semua soal; selain itu harus bilangan bulat positif dan, kalau jumlah soal
+ * quiz diketahui, tidak lebih dari jumlah soal.
+ */
+export function validateDrawCount(
+  value: string,
+  questionCount: number | null = null
+): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const drawCount = Number(trimmed);
+  if (!Number.isInteger(drawCount) || drawCount < 1) {
+    return "Jumlah soal yang diundi harus bilangan bulat minimal 1.";
+  }
+  if (questionCount !== null && drawCount > questionCount) {
+    return (
+      "Jumlah soal yang diundi tidak boleh lebih dari jumlah soal quiz " +
+      `(${questionCount}).`
+    );
+  }
+  return null;
+}
+
+/**
+ * Ringkasan pengaturan acak quiz, misal "Soal diacak • 5 dari 8 soal
+ * diundi". String kosong kalau quiz tidak memakai pengacakan.
+ */
+export function describeQuizRandomization(
+  settings: QuizRandomization,
+  questionCount: number | null = null
+): string {
+  const parts: string[] = [];
+  if (settings.shuffle_questions) parts.push("Soal diacak");
+  if (settings.shuffle_options) parts.push("Opsi diacak");
+  if (settings.draw_count != null && questionCount !== null) {
+    const drawn = Math.min(settings.draw_count, questionCount);
+    parts.push(`${drawn} dari ${questionCount} soal diundi`);
+  } else if (settings.draw_count != null) {
+    parts.push(`${settings.draw_count} soal diundi`);
+  }
+  return parts.join(" • ");
+}
@@ -0,0 +1,187 @@
+// src/lib/quizTransfer.test.ts
+
+import { describe, expect, it } from "vitest";
+import type { QuizQuestion } from "./api/types";
+import {
+  exportAiken,
+  exportGift,
+  parseAiken,
+  parseGift,
+  questionsFromSheetRows,
+  questionsToSheetRows,
+  readQuizWorkbook,
+  writeQuizWorkbook,
+} from "./quizTransfer";
+
+const SAMPLE: QuizQuestion[] = [
+  {
+    type: "multiple_choice",
+    text: "Simbol keputusan: {?}",
+    points: 10,
+    options: [{ text: "Oval" }, { text: "Belah ketupat" }],
+    correct_option_index: 1,
+  },
+  {
+    type: "multiple_answer",
+    text: "Bahasa pemrograman",
+    points: 5,
+    options: [{ text: "Python" }, { text: "HTML" }, { text: "Java" }],
+    correct_option_indexes: [0, 2],
+    partial_credit: true,
+  },
+  {
+    type: "true_false",
+    text: "Flowchart = diagram",
+    points: 2,
+    correct_boolean: false,
+  },
+  {
+    type: "matching",
+    text: "Jodohkan",
+    points: 4,
+    matching_pairs: [
+      { left: "Oval", right: "Mulai" },
+      { left: "Belah ketupat", right: "Keputusan" },
+    ],
+  },
+  {
+    type: "numeric",
+    text: "22/7",
+    points: 3,
+    numeric_answer: 3.14,
+    numeric_tolerance: 0.01,
+  },
+  { type: "short_answer", text: "Contoh bahasa", points: 5 },
+  { type: "essay", text: "Jelaskan", points: 20, essay_word_limit: 150 },
+];
+
+/** Bandingkan isi soal tanpa id opsi/pasangan yang dibuat ulang */
+function content(q: QuizQuestion) {
+  return {
+    type: q.type,
+    text: q.text,
+    points: q.points,
+    options: q.options?.map((opt) => opt.text),
+    correct_option_index: q.correct_option_index,
+    correct_option_indexes: q.correct_option_indexes,
+    correct_boolean: q.correct_boolean,
+    pairs: q.matching_pairs?.map((pair) => [pair.left, pair.right]),
+    numeric_answer: q.numeric_answer,
+    numeric_tolerance: q.numeric_tolerance,
+  };
+}
+
+describe("parseGift", () => {
+  it("mengenali tipe soal dari blok jawaban", () => {
+    const { questions, problems } = parseGift(
+      [
+        "// komentar biasa",
+        "::Q1:: Ibukota Indonesia? {=Jakarta ~Bandung#salah ~Surabaya}",
+        "",
+        "Bumi itu datar. {F}",
+        "",
+        "Nilai pi? {#3.14:0.01}",
+        "",
+        "Pilih bilangan prima {~%50%2 ~%50%3 ~%-100%4}",
+        "",
+        "Ceritakan liburanmu. {}",
+        "",
+        "Teks tanpa jawaban",
+      ].join("\n")
+    );
+
+    expect(questions.map((item) => item.question.type)).toEqual([
+      "multiple_choice",
+      "true_false",
+      "numeric",
+      "multiple_answer",
+      "essay",
+    ]);
+    expect(questions[0].question.options?.map((opt) => opt.text)).toEqual([
+      "Jakarta",
+      "Bandung",
+      "Surabaya",
+    ]);
+    expect(questions[1].question.correct_boolean).toBe(false);
+    expect(questions[3].question.correct_option_indexes).toEqual([0, 1]);
+    expect(questions.every((item) => item.error === null)).toBe(true);
+    expect(problems).toEqual([
+      "Baris 12: tidak ada blok jawaban {...}, bagian ini dilewati.",
+    ]);
+  });
+
+  it("isian singkat GIFT diimpor tanpa kunci dengan catatan", () => {
+    const [item] = parseGift("Contoh bahasa? {=Python =Java}").questions;
+    expect(item.question.type).toBe("short_answer");
+    expect(item.note).toMatch(/Python, Java/);
+  });
+
+  it("hasil ekspor bisa diimpor ulang tanpa kehilangan isi", () => {
+    const { content: text, skipped } = exportGift(SAMPLE);
+    expect(skipped).toBe(0);
+    const { questions, problems } = parseGift(text);
+    expect(problems).toEqual([]);
+    expect(questions.map((item) => content(item.question))).toEqual(
+      SAMPLE.map((q) => content({ ...q, essay_word_limit: undefined }))
+    );
+  });
+});
+
+describe("Aiken", () => {
+  it("membaca pilihan ganda dan melaporkan soal tanpa ANSWER", () => {
+    const { questions, problems } = parseAiken(
+      [
+        "Simbol keputusan adalah",
+        "A. Oval",
+        "B) Belah ketupat",
+        "ANSWER: B",
+        "",
+        "Soal tanpa kunci",
+        "A. Ya",
+        "B. Tidak",
+      ].join("\n")
+    );
+    expect(questions).toHaveLength(1);
+    expect(questions[0].question.correct_option_index).toBe(1);
+    expect(problems).toEqual([
+      'Baris 6: soal tidak punya baris "ANSWER:", dilewati.',
+    ]);
+  });
+
+  it("ekspor hanya pilihan ganda", () => {
+    const { content: text, skipped } = exportAiken(SAMPLE);
+    expect(skipped).toBe(SAMPLE.length - 1);
+    expect(text).toBe(
+      "Simbol keputusan: {?}\nA. Oval\nB. Belah ketupat\nANSWER: B\n"
+    );
+  });
+});
+
+describe("Excel", () => {
+  it("baris sheet dan workbook bolak-balik tanpa kehilangan isi", () => {
+    const rows = questionsToSheetRows(SAMPLE);
+    const fromRows = questionsFromSheetRows(rows);
+    expect(fromRows.problems).toEqual([]);
+    expect(fromRows.questions.map((item) => content(item.question))).toEqual(
+      SAMPLE.map(content)
+    );
+    expect(fromRows.questions[6].question.essay_word_limit).toBe(150);
+
+    const fromWorkbook = readQuizWorkbook(writeQuizWorkbook(rows));
+    expect(fromWorkbook.questions).toHaveLength(SAMPLE.length);
+  });
+
+  it("menandai tipe tak dikenal dan kunci yang kosong", () => {
+    const { questions, problems } = questionsFromSheetRows([
+      ["Tipe", "Soal", "Poin", "Kunci", "Opsi A", "Opsi B"],
+      ["Pilihan Ganda", "Soal A", 5, "", "Ya", "Tidak"],
+      ["pilgan", "Soal B"],
+      [],
+    ]);
+    expect(questions).toHaveLength(1);
+    expect(questions[0].error).toMatch(/jawaban benar yang valid/);
+    expect(problems).toEqual([
+      'Baris 3: tipe soal "pilgan" tidak dikenal, dilewati.',
+    ]);
+  });
+});
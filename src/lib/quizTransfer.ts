@@ -0,0 +1,754 @@
+// src/lib/quizTransfer.ts
+
+import * as XLSX from "xlsx";
+import type {
+  QuestionType,
+  QuizMatchingPair,
+  QuizQuestion,
+  QuizQuestionOption,
+} from "./api/types";
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  createClientId,
+  createQuestion,
+  validateQuizQuestion,
+} from "./quizQuestions";
+
+/**
+ * Impor / ekspor soal quiz: format teks Moodle (GIFT, Aiken) dan template
+ * Excel. Hasil impor selalu lewat pratinjau dulu, jadi parser tidak
+ * melempar error; soal bermasalah ditandai per item.
+ */
+
+export type QuizTransferFormat = "gift" | "aiken" | "xlsx";
+
+export const QUIZ_TRANSFER_FORMATS: QuizTransferFormat[] = [
+  "gift",
+  "aiken",
+  "xlsx",
+];
+
+export const QUIZ_TRANSFER_FORMAT_LABELS: Record<QuizTransferFormat, string> =
+  {
+    gift: "GIFT (Moodle)",
+    aiken: "Aiken",
+    xlsx: "Excel (.xlsx)",
+  };
+
+/** Satu soal hasil impor beserta status validasinya */
+export interface ImportedQuestion {
+  /** Asal soal di file, misal "Baris 4" */
+  source: string;
+  question: QuizQuestion;
+  /** Pesan validasi (validateQuizQuestion); null = siap ditambahkan */
+  error: string | null;
+  /** Catatan konversi, misal kunci isian singkat yang tidak ikut */
+  note: string | null;
+}
+
+export interface QuizImportResult {
+  questions: ImportedQuestion[];
+  /** Bagian file yang sama sekali tidak bisa dibaca sebagai soal */
+  problems: string[];
+}
+
+export interface QuizExportResult {
+  content: string;
+  /** Jumlah soal yang tidak didukung format tujuan */
+  skipped: number;
+}
+
+// -----------------------------
+// Helper bersama
+// -----------------------------
+
+function toOptions(texts: string[]): QuizQuestionOption[] {
+  return texts.map((text) => ({ id: createClientId("opt"), text }));
+}
+
+function toPairs(pairs: [string, string][]): QuizMatchingPair[] {
+  return pairs.map(([left, right]) => ({
+    id: createClientId("pair"),
+    left,
+    right,
+  }));
+}
+
+function buildQuestion(
+  type: QuestionType,
+  text: string,
+  points: number,
+  patch: Partial<QuizQuestion> = {}
+): QuizQuestion {
+  return { ...createQuestion(type), text, points, ...patch };
+}
+
+function toImported(
+  source: string,
+  question: QuizQuestion,
+  note: string | null = null
+): ImportedQuestion {
+  return {
+    source,
+    question,
+    error: validateQuizQuestion(question, null),
+    note,
+  };
+}
+
+function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function letterToIndex(value: string): number {
+  return value.trim().toUpperCase().charCodeAt(0) - 65;
+}
+
+function parseNumber(value: string): number | null {
+  const trimmed = value.trim().replace(",", ".");
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (["benar", "true", "t", "b", "1"].includes(normalized)) return true;
+  if (["salah", "false", "f", "s", "0"].includes(normalized)) return false;
+  return null;
+}
+
+// -----------------------------
+// GIFT
+// -----------------------------
+
+function escapeGift(text: string): string {
+  return text.replace(/([~=#{}:\\])/g, "\\$1").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeGift(text: string): string {
+  return text
+    .replace(/\\(.)/g, (_, ch: string) => (ch === "n" ? "\n" : ch))
+    .trim();
+}
+
+/** Posisi karakter `chars` pertama yang tidak di-escape, atau -1 */
+function indexOfUnescaped(text: string, chars: string, from = 0): number {
+  for (let i = from; i < text.length; i += 1) {
+    if (text[i] === "\\") {
+      i += 1;
+    } else if (chars.includes(text[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Buang umpan balik (`#...`) di akhir jawaban GIFT */
+function stripGiftFeedback(text: string): string {
+  const index = indexOfUnescaped(text, "#");
+  return index >= 0 ? text.slice(0, index) : text;
+}
+
+interface GiftAnswer {
+  marker: "=" | "~";
+  weight: number | null;
+  text: string;
+}
+
+function splitGiftAnswers(body: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  let start = indexOfUnescaped(body, "=~");
+
+  while (start >= 0) {
+    const next = indexOfUnescaped(body, "=~", start + 1);
+    let raw = body.slice(start + 1, next >= 0 ? next : undefined);
+    let weight: number | null = null;
+
+    const weightMatch = /^\s*%(-?[\d.]+)%/.exec(raw);
+    if (weightMatch) {
+      weight = Number(weightMatch[1]);
+      raw = raw.slice(weightMatch[0].length);
+    }
+
+    answers.push({
+      marker: body[start] as "=" | "~",
+      weight,
+      text: stripGiftFeedback(raw),
+    });
+    start = next;
+  }
+
+  return answers;
+}
+
+function parseGiftNumeric(body: string): Partial<QuizQuestion> {
+  // {#3.14:0.01}, {#3.1..3.2}, atau {#=3.14:0.01 =%50%3:1} (ambil pertama)
+  let raw = body.slice(1).trim();
+  if (raw.startsWith("=")) {
+    const first = splitGiftAnswers(raw)[0];
+    raw = first ? first.text : "";
+  }
+  raw = stripGiftFeedback(raw).replace(/\\/g, "").trim();
+
+  const range = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(raw);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    return {
+      numeric_answer: (min + max) / 2,
+      numeric_tolerance: Math.abs(max - min) / 2,
+    };
+  }
+
+  const [answer, tolerance = "0"] = raw.split(":");
+  return {
+    numeric_answer: parseNumber(answer),
+    numeric_tolerance: parseNumber(tolerance) ?? 0,
+  };
+}
+
+/** Metadata dari komentar sebelum soal (hasil ekspor aplikasi ini) */
+interface GiftMeta {
+  points: number | null;
+  type: string | null;
+}
+
+interface GiftBlock extends GiftMeta {
+  line: number;
+  lines: string[];
+}
+
+function parseGiftBlock(block: GiftBlock): ImportedQuestion | string {
+  const source = `Baris ${block.line}`;
+  let raw = block.lines.join("\n").trim();
+
+  // Judul ::...:: dan penanda format [html]/[markdown] tidak dipakai
+  raw = raw.replace(/^::(?:\\.|[^\\])*?::/, "").trim();
+  raw = raw.replace(/^\[(?:html|moodle|plain|markdown)\]/i, "").trim();
+
+  const open = indexOfUnescaped(raw, "{");
+  const close = open >= 0 ? indexOfUnescaped(raw, "}", open + 1) : -1;
+  if (open < 0 || close < 0) {
+    return `${source}: tidak ada blok jawaban {...}, bagian ini dilewati.`;
+  }
+
+  const before = raw.slice(0, open).trim();
+  const after = raw.slice(close + 1).trim();
+  // Format "kata hilang": jawaban di tengah kalimat diganti titik-titik
+  const text = unescapeGift(after ? `${before} _____ ${after}` : before);
+  const body = raw.slice(open + 1, close).trim();
+  const points = block.points ?? 1;
+
+  if (!body) {
+    const type = block.type === "short_answer" ? "short_answer" : "essay";
+    return toImported(source, buildQuestion(type, text, points));
+  }
+
+  const boolMatch = /^(TRUE|FALSE|T|F)\s*(?:#[\s\S]*)?$/i.exec(body);
+  if (boolMatch) {
+    return toImported(
+      source,
+      buildQuestion("true_false", text, points, {
+        correct_boolean: boolMatch[1].toUpperCase().startsWith("T"),
+      })
+    );
+  }
+
+  if (body.startsWith("#")) {
+    return toImported(
+      source,
+      buildQuestion("numeric", text, points, parseGiftNumeric(body))
+    );
+  }
+
+  const answers = splitGiftAnswers(body);
+  if (answers.length === 0) {
+    return `${source}: jawaban soal tidak dikenali, bagian ini dilewati.`;
+  }
+
+  const isMatching = answers.every(
+    (answer) => answer.marker === "=" && answer.text.includes("->")
+  );
+  if (isMatching) {
+    const pairs = answers.map((answer): [string, string] => {
+      const index = answer.text.indexOf("->");
+      return [
+        unescapeGift(answer.text.slice(0, index)),
+        unescapeGift(answer.text.slice(index + 2)),
+      ];
+    });
+    return toImported(
+      source,
+      buildQuestion("matching", text, points, {
+        matching_pairs: toPairs(pairs),
+      })
+    );
+  }
+
+  const options = answers.map((answer) => unescapeGift(answer.text));
+
+  if (answers.every((answer) => answer.marker === "=")) {
+    return toImported(
+      source,
+      buildQuestion("short_answer", text, points),
+      `Jawaban yang diterima di GIFT (${options.join(", ")}) tidak ikut ` +
+        "diimpor; isian singkat dinilai manual."
+    );
+  }
+
+  const correct = answers
+    .map((answer, index) => {
+      const weight = answer.weight ?? (answer.marker === "=" ? 100 : 0);
+      return weight > 0 ? index : -1;
+    })
+    .filter((index) => index >= 0);
+  const hasWeights = answers.some((answer) => answer.weight !== null);
+
+  if (hasWeights || correct.length > 1) {
+    return toImported(
+      source,
+      buildQuestion("multiple_answer", text, points, {
+        options: toOptions(options),
+        correct_option_indexes: correct,
+        partial_credit: true,
+      })
+    );
+  }
+
+  return toImported(
+    source,
+    buildQuestion("multiple_choice", text, points, {
+      options: toOptions(options),
+      correct_option_index: correct[0] ?? null,
+    })
+  );
+}
+
+/**
+ * Baca teks GIFT. Soal dipisah baris kosong; komentar `// poin: N` dan
+ * `// tipe: short_answer` (dari ekspor aplikasi ini) ikut dibaca.
+ */
+export function parseGift(text: string): QuizImportResult {
+  const result: QuizImportResult = { questions: [], problems: [] };
+  const blocks: GiftBlock[] = [];
+  let current: GiftBlock | null = null;
+  let pending: GiftMeta = { points: null, type: null };
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      current = null;
+      return;
+    }
+    if (trimmed.startsWith("//")) {
+      const points = /^\/\/\s*poin\s*:\s*([\d.]+)/i.exec(trimmed);
+      const type = /^\/\/\s*tipe\s*:\s*(\w+)/i.exec(trimmed);
+      if (points) pending = { ...pending, points: Number(points[1]) };
+      if (type) pending = { ...pending, type: type[1] };
+      return;
+    }
+    if (trimmed.startsWith("$CATEGORY:")) return;
+
+    if (!current) {
+      current = { line: index + 1, lines: [], ...pending };
+      pending = { points: null, type: null };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+  });
+
+  blocks.forEach((block) => {
+    const parsed = parseGiftBlock(block);
+    if (typeof parsed === "string") {
+      result.problems.push(parsed);
+    } else {
+      result.questions.push(parsed);
+    }
+  });
+
+  return result;
+}
+
+function toGiftAnswerBlock(q: QuizQuestion): string {
+  const options = q.options ?? [];
+
+  switch (q.type) {
+    case "multiple_choice":
+      return options
+        .map(
+          (opt, index) =>
+            `${index === q.correct_option_index ? "=" : "~"}` +
+            escapeGift(opt.text ?? "")
+        )
+        .join("\n");
+    case "multiple_answer": {
+      const correct = q.correct_option_indexes ?? [];
+      const weight =
+        Math.round((100 / Math.max(correct.length, 1)) * 1e5) / 1e5;
+      return options
+        .map(
+          (opt, index) =>
+            `~%${correct.includes(index) ? weight : -100}%` +
+            escapeGift(opt.text ?? "")
+        )
+        .join("\n");
+    }
+    case "true_false":
+      return q.correct_boolean ? "TRUE" : "FALSE";
+    case "matching":
+      return (q.matching_pairs ?? [])
+        .map(
+          (pair) => `=${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`
+        )
+        .join("\n");
+    case "numeric":
+      return `#${q.numeric_answer ?? 0}:${q.numeric_tolerance ?? 0}`;
+    default:
+      return "";
+  }
+}
+
+/** Semua tipe soal bisa diekspor ke GIFT; poin disimpan sebagai komentar */
+export function exportGift(questions: QuizQuestion[]): QuizExportResult {
+  const blocks = questions.map((q, index) => {
+    const lines = [`// poin: ${q.points}`];
+    if (q.type === "short_answer") lines.push("// tipe: short_answer");
+
+    const answer = toGiftAnswerBlock(q);
+    const head = `::Soal ${index + 1}:: ${escapeGift(q.text ?? "")}`;
+    lines.push(
+      answer.includes("\n") ? `${head} {\n${answer}\n}` : `${head} {${answer}}`
+    );
+    return lines.join("\n");
+  });
+
+  return { content: `${blocks.join("\n\n")}\n`, skipped: 0 };
+}
+
+// -----------------------------
+// Aiken
+// -----------------------------
+
+/**
+ * Baca teks Aiken: teks soal, opsi "A." / "A)", lalu "ANSWER: X".
+ * Aiken hanya mengenal pilihan ganda satu jawaban.
+ */
+export function parseAiken(text: string): QuizImportResult {
+  const result: QuizImportResult = { questions: [], problems: [] };
+  let current: { line: number; text: string[]; options: string[] } | null =
+    null;
+
+  const dropCurrent = () => {
+    if (current) {
+      result.problems.push(
+        `Baris ${current.line}: soal tidak punya baris "ANSWER:", dilewati.`
+      );
+    }
+    current = null;
+  };
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const answer = /^ANSWER\s*:\s*([A-Z])\s*$/i.exec(trimmed);
+    if (answer) {
+      if (!current || current.options.length === 0) {
+        result.problems.push(
+          `Baris ${index + 1}: "ANSWER:" tanpa soal dan opsi, dilewati.`
+        );
+        current = null;
+        return;
+      }
+      result.questions.push(
+        toImported(
+          `Baris ${current.line}`,
+          buildQuestion("multiple_choice", current.text.join("\n"), 1, {
+            options: toOptions(current.options),
+            correct_option_index: letterToIndex(answer[1]),
+          })
+        )
+      );
+      current = null;
+      return;
+    }
+
+    const option = /^([A-Z])[.)]\s+(.*)$/.exec(trimmed);
+    if (option && current && current.text.length > 0) {
+      current.options.push(option[2].trim());
+      return;
+    }
+
+    // Teks baru setelah opsi berarti soal sebelumnya lupa "ANSWER:"
+    if (current && current.options.length > 0) dropCurrent();
+    if (!current) {
+      current = { line: index + 1, text: [], options: [] };
+    }
+    current.text.push(trimmed);
+  });
+
+  dropCurrent();
+  return result;
+}
+
+/** Hanya soal pilihan ganda yang bisa diekspor ke Aiken */
+export function exportAiken(questions: QuizQuestion[]): QuizExportResult {
+  const supported = questions.filter((q) => q.type === "multiple_choice");
+  const blocks = supported.map((q) =>
+    [
+      (q.text ?? "").replace(/\s*\r?\n\s*/g, " "),
+      ...(q.options ?? []).map(
+        (opt, index) => `${optionLetter(index)}. ${opt.text ?? ""}`
+      ),
+      `ANSWER: ${optionLetter(q.correct_option_index ?? 0)}`,
+    ].join("\n")
+  );
+
+  return {
+    content: blocks.length > 0 ? `${blocks.join("\n\n")}\n` : "",
+    skipped: questions.length - supported.length,
+  };
+}
+
+// -----------------------------
+// Excel
+// -----------------------------
+
+const SHEET_MIN_OPTIONS = 6;
+
+type SheetCell = string | number;
+
+/**
+ * Kolom template Excel. "Kunci" berisi huruf opsi (A atau A, C),
+ * Benar/Salah, atau angka; soal menjodohkan memakai "kiri -> kanan" di
+ * kolom opsi.
+ */
+export function getQuizSheetHeader(optionCount = SHEET_MIN_OPTIONS): string[] {
+  return [
+    "Tipe",
+    "Soal",
+    "Poin",
+    "Kunci",
+    "Toleransi",
+    "Batas kata",
+    ...Array.from(
+      { length: Math.max(optionCount, SHEET_MIN_OPTIONS) },
+      (_, index) => `Opsi ${optionLetter(index)}`
+    ),
+  ];
+}
+
+function toSheetRow(q: QuizQuestion): SheetCell[] {
+  const options = (q.options ?? []).map((opt) => opt.text ?? "");
+  let key: SheetCell = "";
+  let cells: string[] = [];
+
+  switch (q.type) {
+    case "multiple_choice":
+      key = optionLetter(q.correct_option_index ?? 0);
+      cells = options;
+      break;
+    case "multiple_answer":
+      key = (q.correct_option_indexes ?? []).map(optionLetter).join(", ");
+      cells = options;
+      break;
+    case "true_false":
+      key = q.correct_boolean ? "Benar" : "Salah";
+      break;
+    case "matching":
+      cells = (q.matching_pairs ?? []).map(
+        (pair) => `${pair.left} -> ${pair.right}`
+      );
+      break;
+    case "numeric":
+      key = q.numeric_answer ?? "";
+      break;
+  }
+
+  return [
+    q.type,
+    q.text ?? "",
+    q.points,
+    key,
+    q.type === "numeric" ? q.numeric_tolerance ?? 0 : "",
+    q.type === "essay" ? q.essay_word_limit ?? "" : "",
+    ...cells,
+  ];
+}
+
+/** Baris sheet (header + satu baris per soal) untuk ekspor Excel */
+export function questionsToSheetRows(questions: QuizQuestion[]): SheetCell[][] {
+  const optionCount = Math.max(
+    0,
+    ...questions.map((q) =>
+      Math.max(q.options?.length ?? 0, q.matching_pairs?.length ?? 0)
+    )
+  );
+  return [getQuizSheetHeader(optionCount), ...questions.map(toSheetRow)];
+}
+
+/** Template kosong dengan satu contoh per tipe soal */
+export function getQuizTemplateRows(): SheetCell[][] {
+  return [
+    getQuizSheetHeader(),
+    [
+      "multiple_choice",
+      "Simbol flowchart untuk keputusan adalah ...",
+      10,
+      "B",
+      "",
+      "",
+      "Oval",
+      "Belah ketupat",
+      "Jajar genjang",
+    ],
+    [
+      "multiple_answer",
+      "Manakah yang termasuk bahasa pemrograman?",
+      10,
+      "A, C",
+      "",
+      "",
+      "Python",
+      "HTML",
+      "Java",
+    ],
+    ["true_false", "Flowchart dibaca dari atas ke bawah.", 5, "Benar"],
+    [
+      "matching",
+      "Jodohkan simbol dengan fungsinya.",
+      10,
+      "",
+      "",
+      "",
+      "Oval -> Mulai/selesai",
+      "Belah ketupat -> Keputusan",
+    ],
+    ["numeric", "Hasil 22 / 7 (dua angka desimal)?", 5, 3.14, 0.01],
+    ["short_answer", "Sebutkan satu contoh bahasa pemrograman.", 5],
+    ["essay", "Jelaskan perbedaan algoritma dan program.", 20, "", "", 150],
+  ];
+}
+
+function resolveType(value: string): QuestionType | null {
+  const normalized = value.trim().toLowerCase();
+  return (
+    QUESTION_TYPES.find(
+      (type) =>
+        type === normalized ||
+        QUESTION_TYPE_LABELS[type].toLowerCase() === normalized
+    ) ?? null
+  );
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+/** Baca baris sheet hasil `sheet_to_json({ header: 1 })` */
+export function questionsFromSheetRows(rows: unknown[][]): QuizImportResult {
+  const result: QuizImportResult = { questions: [], problems: [] };
+  const header = (rows[0] ?? []).map((cell) => cellText(cell).toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+
+  if (column("tipe") < 0 || column("soal") < 0) {
+    result.problems.push(
+      'Header tidak sesuai template: kolom "Tipe" dan "Soal" wajib ada.'
+    );
+    return result;
+  }
+
+  const optionColumns = header
+    .map((name, index) => (name.startsWith("opsi") ? index : -1))
+    .filter((index) => index >= 0);
+
+  rows.slice(1).forEach((row, rowIndex) => {
+    const source = `Baris ${rowIndex + 2}`;
+    const get = (name: string) => cellText(row[column(name)]);
+    if (row.every((cell) => cellText(cell) === "")) return;
+
+    const type = resolveType(get("tipe"));
+    if (!type) {
+      result.problems.push(
+        `${source}: tipe soal "${get("tipe")}" tidak dikenal, dilewati.`
+      );
+      return;
+    }
+
+    const text = get("soal");
+    const points = parseNumber(get("poin")) ?? 1;
+    const key = get("kunci");
+    const cells = optionColumns
+      .map((index) => cellText(row[index]))
+      .filter((cell) => cell !== "");
+    let patch: Partial<QuizQuestion> = {};
+
+    switch (type) {
+      case "multiple_choice":
+        patch = {
+          options: toOptions(cells),
+          correct_option_index: key ? letterToIndex(key) : null,
+        };
+        break;
+      case "multiple_answer":
+        patch = {
+          options: toOptions(cells),
+          correct_option_indexes: key
+            .split(/[,;\s]+/)
+            .filter(Boolean)
+            .map(letterToIndex),
+        };
+        break;
+      case "true_false":
+        patch = { correct_boolean: parseBoolean(key) };
+        break;
+      case "matching":
+        patch = {
+          matching_pairs: toPairs(
+            cells.map((cell): [string, string] => {
+              const [left, ...right] = cell.split("->");
+              return [left.trim(), right.join("->").trim()];
+            })
+          ),
+        };
+        break;
+      case "numeric":
+        patch = {
+          numeric_answer: parseNumber(key),
+          numeric_tolerance: parseNumber(get("toleransi")) ?? 0,
+        };
+        break;
+      case "essay":
+        patch = { essay_word_limit: parseNumber(get("batas kata")) };
+        break;
+    }
+
+    result.questions.push(
+      toImported(source, buildQuestion(type, text, points, patch))
+    );
+  });
+
+  return result;
+}
+
+/** Baca sheet pertama workbook Excel (hasil FileReader.readAsArrayBuffer) */
+export function readQuizWorkbook(data: ArrayBuffer): QuizImportResult {
+  const workbook = XLSX.read(data, { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    return { questions: [], problems: ["File Excel tidak punya sheet."] };
+  }
+  return questionsFromSheetRows(
+    XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "" })
+  );
+}
+
+export function writeQuizWorkbook(rows: SheetCell[][]): ArrayBuffer {
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Soal");
+  return XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+}
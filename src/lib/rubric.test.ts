@@ -0,0 +1,78 @@
+// src/lib/rubric.test.ts
+
+import { describe, expect, it } from "vitest";
+import type { Rubric } from "./api/types";
+import {
+  computeRubricScore,
+  createRubricCriterion,
+  getRubricMaxScore,
+  pruneRubricSelection,
+  validateRubric,
+} from "./rubric";
+
+const RUBRIC: Rubric = {
+  criteria: [
+    {
+      id: "k1",
+      title: "Kelengkapan",
+      description: null,
+      levels: [
+        { id: "l1", label: "Lengkap", points: 60, description: null },
+        { id: "l2", label: "Sebagian", points: 30, description: null },
+      ],
+    },
+    {
+      id: "k2",
+      title: "Kerapian",
+      description: null,
+      levels: [
+        { id: "l1", label: "Rapi", points: 40, description: null },
+        { id: "l2", label: "Kurang rapi", points: 12.5, description: null },
+      ],
+    },
+  ],
+};
+
+describe("computeRubricScore", () => {
+  it("menjumlah poin level yang dipilih, null kalau belum lengkap", () => {
+    expect(getRubricMaxScore(RUBRIC)).toBe(100);
+    expect(computeRubricScore(RUBRIC, { k1: "l1", k2: "l2" })).toBe(72.5);
+    expect(computeRubricScore(RUBRIC, { k1: "l1" })).toBeNull();
+    expect(computeRubricScore(RUBRIC, { k1: "l1", k2: "l9" })).toBeNull();
+    expect(computeRubricScore(RUBRIC, null)).toBeNull();
+  });
+
+  it("membuang pilihan untuk kriteria/level yang sudah tidak ada", () => {
+    expect(
+      pruneRubricSelection(RUBRIC, { k1: "l2", k2: "l9", k3: "l1" })
+    ).toEqual({ k1: "l2" });
+  });
+});
+
+describe("validateRubric", () => {
+  it("menerima kriteria baru dan menolak rubrik yang tidak lengkap", () => {
+    const first = createRubricCriterion([]);
+    const second = createRubricCriterion([first]);
+    expect(second.id).not.toBe(first.id);
+    expect(validateRubric({ criteria: [first, second] })).toBeNull();
+
+    expect(validateRubric({ criteria: [] })).toBe(
+      "Minimal harus ada 1 kriteria."
+    );
+    expect(
+      validateRubric({
+        criteria: [{ ...first, levels: first.levels.slice(0, 1) }],
+      })
+    ).toBe('Kriteria "Kriteria 1" minimal punya 2 tingkat capaian.');
+    expect(
+      validateRubric({
+        criteria: [
+          {
+            ...first,
+            levels: first.levels.map((level) => ({ ...level, points: 0 })),
+          },
+        ],
+      })
+    ).toBe("Total poin rubrik harus lebih dari 0.");
+  });
+});
@@ -0,0 +1,146 @@
+// src/lib/rubric.ts
+
+import type {
+  Rubric,
+  RubricCriterion,
+  RubricLevel,
+  RubricSelection,
+} from "./api/types";
+
+/**
+ * Rubrik penilaian tugas: kriteria × tingkat capaian berpoin. Dipakai editor
+ * rubrik dan form nilai dosen, tampilan nilai mahasiswa, serta mock backend
+ * (nilai submission dihitung dari level yang dipilih).
+ */
+
+/** Tingkat capaian untuk kriteria baru, dari yang tertinggi */
+const DEFAULT_LEVELS: Array<Pick<RubricLevel, "label" | "points">> = [
+  { label: "Sangat baik", points: 25 },
+  { label: "Baik", points: 20 },
+  { label: "Cukup", points: 15 },
+  { label: "Kurang", points: 5 },
+];
+
+/** Id berikutnya yang belum dipakai, misal "k3" atau "l2" */
+export function createRubricId(
+  prefix: string,
+  taken: Array<{ id: string }>
+): string {
+  let counter = taken.length + 1;
+  while (taken.some((row) => row.id === `${prefix}${counter}`)) {
+    counter += 1;
+  }
+  return `${prefix}${counter}`;
+}
+
+export function createRubricCriterion(
+  criteria: RubricCriterion[]
+): RubricCriterion {
+  const levels: RubricLevel[] = [];
+  DEFAULT_LEVELS.forEach((level) => {
+    levels.push({
+      id: createRubricId("l", levels),
+      label: level.label,
+      points: level.points,
+      description: null,
+    });
+  });
+  return {
+    id: createRubricId("k", criteria),
+    title: `Kriteria ${criteria.length + 1}`,
+    description: null,
+    levels,
+  };
+}
+
+function getCriterionMax(criterion: RubricCriterion): number {
+  return criterion.levels.reduce(
+    (max, level) => Math.max(max, level.points),
+    0
+  );
+}
+
+/** Nilai maksimal tugas yang memakai rubrik ini */
+export function getRubricMaxScore(rubric: Rubric): number {
+  return rubric.criteria.reduce(
+    (sum, criterion) => sum + getCriterionMax(criterion),
+    0
+  );
+}
+
+export function findRubricLevel(
+  criterion: RubricCriterion,
+  selection: RubricSelection | null | undefined
+): RubricLevel | null {
+  const levelId = selection?.[criterion.id];
+  return criterion.levels.find((level) => level.id === levelId) ?? null;
+}
+
+/** Jumlah poin level yang dipilih, atau null kalau masih ada kriteria kosong */
+export function computeRubricScore(
+  rubric: Rubric,
+  selection: RubricSelection | null | undefined
+): number | null {
+  let total = 0;
+  for (const criterion of rubric.criteria) {
+    const level = findRubricLevel(criterion, selection);
+    if (!level) return null;
+    total += level.points;
+  }
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Buang pilihan yang kriteria/levelnya sudah tidak ada, misal setelah rubrik
+ * diubah.
+ */
+export function pruneRubricSelection(
+  rubric: Rubric,
+  selection: RubricSelection
+): RubricSelection {
+  const pruned: RubricSelection = {};
+  rubric.criteria.forEach((criterion) => {
+    const level = findRubricLevel(criterion, selection);
+    if (level) pruned[criterion.id] = level.id;
+  });
+  return pruned;
+}
+
+/** Pesan error pertama dari rubrik, atau null kalau rubrik valid */
+export function validateRubric(rubric: Rubric): string | null {
+  if (rubric.criteria.length === 0) {
+    return "Minimal harus ada 1 kriteria.";
+  }
+
+  const criterionIds = new Set<string>();
+  for (const criterion of rubric.criteria) {
+    const title = criterion.title.trim();
+    if (!title) return "Judul kriteria wajib diisi.";
+    if (!criterion.id || criterionIds.has(criterion.id)) {
+      return `Id kriteria "${title}" kosong atau ganda.`;
+    }
+    criterionIds.add(criterion.id);
+
+    if (criterion.levels.length < 2) {
+      return `Kriteria "${title}" minimal punya 2 tingkat capaian.`;
+    }
+    const levelIds = new Set<string>();
+    for (const level of criterion.levels) {
+      if (!level.label.trim()) {
+        return `Nama tingkat capaian di "${title}" wajib diisi.`;
+      }
+      if (!level.id || levelIds.has(level.id)) {
+        return `Id tingkat "${level.label}" di "${title}" kosong atau ganda.`;
+      }
+      levelIds.add(level.id);
+      if (!Number.isFinite(level.points) || level.points < 0) {
+        return `Poin "${level.label}" di "${title}" harus angka 0 atau lebih.`;
+      }
+    }
+  }
+
+  if (getRubricMaxScore(rubric) <= 0) {
+    return "Total poin rubrik harus lebih dari 0.";
+  }
+  return null;
+}
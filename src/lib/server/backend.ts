@@ -0,0 +1,110 @@
+// src/lib/server/backend.ts
+
+import { NextResponse } from "next/server";
+import type { ErrorResponseBody } from "../apiClient";
+
+/**
+ * Akses ke backend LMS dari route handler (proxy BFF & /api/auth/*).
+ * Host backend hanya diketahui server:
+ * - LMS_BACKEND_URL → misal http://127.0.0.1:8000 atau server tiruan
+ *   untuk development/test
+ * - fallback ke NEXT_PUBLIC_API_BASE_URL, lalu host produksi
+ *
+ * Hanya boleh di-import dari route handler (bukan dari komponen client).
+ */
+
+export const BACKEND_URL = (
+  process.env.LMS_BACKEND_URL ??
+  process.env.NEXT_PUBLIC_API_BASE_URL ??
+  "https://backend-lms.farros.space"
+).replace(/\/+$/, "");
+
+/** Sedikit di atas timeout upload apiClient (2 menit) */
+const UPSTREAM_TIMEOUT_MS = 150_000;
+
+export const UPSTREAM_UNREACHABLE_MESSAGE = "Tidak dapat terhubung ke server.";
+export const UPSTREAM_TIMEOUT_MESSAGE =
+  "Server tidak merespons. Silakan coba lagi.";
+
+export function getBackendUrl(path: string, search = ""): string {
+  return `${BACKEND_URL}/${path.replace(/^\/+/, "")}${search}`;
+}
+
+/**
+ * fetch ke backend dengan timeout. Gagal terhubung / timeout langsung
+ * dijadikan response error 502 / 504 yang siap dikembalikan ke browser.
+ */
+export async function fetchBackend(
+  path: string,
+  init: RequestInit & { search?: string }
+): Promise<Response> {
+  const { search, ...rest } = init;
+
+  try {
+    return await fetch(getBackendUrl(path, search), {
+      ...rest,
+      cache: "no-store",
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (error: unknown) {
+    const timedOut =
+      error instanceof DOMException && error.name === "TimeoutError";
+    return timedOut
+      ? errorResponse(504, UPSTREAM_TIMEOUT_MESSAGE)
+      : errorResponse(502, UPSTREAM_UNREACHABLE_MESSAGE);
+  }
+}
+
+/** Baca body JSON upstream; null kalau bukan JSON */
+export async function readJson(response: Response): Promise<unknown> {
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (!contentType.includes("application/json")) return null;
+  return response.json().catch(() => null);
+}
+
+function getDefaultErrorMessage(status: number): string {
+  if (status === 401) return "Sesi Anda telah berakhir.";
+  if (status === 403) return "Anda tidak memiliki akses.";
+  if (status === 404) return "Data tidak ditemukan.";
+  if (status === 419) return "Sesi Anda telah berakhir.";
+  if (status === 429) return "Terlalu banyak permintaan. Coba lagi nanti.";
+  if (status >= 500) return `Terjadi kesalahan di server (${status}).`;
+  return `Request failed with status ${status}`;
+}
+
+/**
+ * Samakan body error apa pun (JSON Laravel, halaman HTML, body kosong)
+ * ke bentuk ErrorResponseBody yang dibaca apiClient.
+ */
+export function toErrorResponseBody(
+  status: number,
+  data: unknown
+): ErrorResponseBody {
+  const body: ErrorResponseBody = {};
+
+  if (data && typeof data === "object") {
+    const raw = data as {
+      message?: unknown;
+      error?: unknown;
+      errors?: unknown;
+    };
+    if (typeof raw.message === "string" && raw.message) {
+      body.message = raw.message;
+    }
+    if (typeof raw.error === "string" && raw.error) {
+      body.error = raw.error;
+    }
+    if (raw.errors && typeof raw.errors === "object") {
+      body.errors = raw.errors as Record<string, string[]>;
+    }
+  }
+
+  body.message = body.message ?? body.error ?? getDefaultErrorMessage(status);
+  return body;
+}
+
+export function errorResponse(status: number, message: string) {
+  return NextResponse.json(toErrorResponseBody(status, { message }), {
+    status,
+  });
+}
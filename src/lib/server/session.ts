@@ -0,0 +1,60 @@
+// src/lib/server/session.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+
+/**
+ * Cookie sesi untuk mode cookie (NEXT_PUBLIC_AUTH_MODE=cookie).
+ * Token backend tidak pernah sampai ke browser: disimpan di cookie HttpOnly
+ * oleh route handler /api/auth/*, lalu dipasang sebagai Bearer oleh proxy
+ * src/app/api/[...path]/route.ts.
+ *
+ * Hanya boleh di-import dari route handler (bukan dari komponen client).
+ */
+
+export const TOKEN_COOKIE_NAME = "lms_token";
+const TOKEN_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 hari
+
+export function getSessionToken(request: NextRequest): string | null {
+  return request.cookies.get(TOKEN_COOKIE_NAME)?.value || null;
+}
+
+/**
+ * Token untuk diteruskan ke backend: cookie sesi (mode cookie), atau
+ * header Authorization dari browser (mode bearer).
+ */
+export function getRequestToken(request: NextRequest): string | null {
+  const cookieToken = getSessionToken(request);
+  if (cookieToken) return cookieToken;
+
+  const header = request.headers.get("Authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1] : null;
+}
+
+export function setSessionToken(response: NextResponse, token: string) {
+  response.cookies.set(TOKEN_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: TOKEN_COOKIE_MAX_AGE,
+  });
+}
+
+export function clearSessionToken(response: NextResponse) {
+  response.cookies.set(TOKEN_COOKIE_NAME, "", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 0,
+  });
+}
+
+/** Backend Laravel mengembalikan token sebagai `token` atau `access_token` */
+export function extractToken(data: unknown): string | null {
+  if (!data || typeof data !== "object") return null;
+  const body = data as { token?: unknown; access_token?: unknown };
+  const token = body.token ?? body.access_token;
+  return typeof token === "string" && token ? token : null;
+}
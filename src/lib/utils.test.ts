@@ -0,0 +1,281 @@
+// src/lib/utils.test.ts
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ApiError } from "./apiClient";
+import type { QuizTimeStatusFlags, User } from "./api/types";
+import {
+  extractArray,
+  extractErrorMessage,
+  formatDate,
+  formatDateTime,
+  formatDuration,
+  formatQuizStatus,
+  generateNimAndPassword,
+  getNextOrderForToday,
+  getNimDatePrefix,
+  parseNumberOrNull,
+  toLocalDateTimeInput,
+} from "./utils";
+
+/** Jalankan test di zona waktu tertentu (Node membaca ulang process.env.TZ) */
+function useTimezone(tz: string) {
+  let previous: string | undefined;
+
+  beforeEach(() => {
+    previous = process.env.TZ;
+    process.env.TZ = tz;
+  });
+
+  afterEach(() => {
+    if (previous === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = previous;
+    }
+  });
+}
+
+function makeStudent(id: number, nim: string | null): User {
+  return {
+    id,
+    name: `Mahasiswa ${id}`,
+    email: null,
+    username: nim ?? `user${id}`,
+    nim,
+    role: "mahasiswa",
+    status: "active",
+    force_password_change: false,
+  };
+}
+
+function flags(partial: Partial<QuizTimeStatusFlags>): QuizTimeStatusFlags {
+  return {
+    is_future: false,
+    is_ongoing: false,
+    is_finished: false,
+    can_attempt_now: false,
+    ...partial,
+  };
+}
+
+describe("extractErrorMessage", () => {
+  it("memakai message dari Error / ApiError", () => {
+    expect(extractErrorMessage(new Error("Gagal total"), "fallback")).toBe(
+      "Gagal total"
+    );
+    expect(
+      extractErrorMessage(new ApiError("Forbidden", "http", 403), "fallback")
+    ).toBe("Forbidden");
+  });
+
+  it("membaca message lalu error dari body response", () => {
+    expect(
+      extractErrorMessage({ data: { message: "Dari body" } }, "fallback")
+    ).toBe("Dari body");
+    expect(
+      extractErrorMessage({ data: { message: "", error: "Alternatif" } }, "x")
+    ).toBe("Alternatif");
+  });
+
+  it("mengembalikan string error apa adanya", () => {
+    expect(extractErrorMessage("Pesan langsung", "fallback")).toBe(
+      "Pesan langsung"
+    );
+  });
+
+  it("jatuh ke fallback jika tidak ada pesan", () => {
+    expect(extractErrorMessage(null, "fallback")).toBe("fallback");
+    expect(extractErrorMessage(new Error(""), "fallback")).toBe("fallback");
+    expect(extractErrorMessage({ data: "teks" }, "fallback")).toBe("fallback");
+    expect(extractErrorMessage("", "fallback")).toBe("fallback");
+  });
+});
+
+describe("formatDate / formatDateTime", () => {
+  useTimezone("Asia/Jakarta");
+
+  it("memakai placeholder untuk nilai kosong", () => {
+    expect(formatDate(null)).toBe("—");
+    expect(formatDate(undefined)).toBe("—");
+    expect(formatDateTime("")).toBe("—");
+  });
+
+  it("mengembalikan string asli jika tidak bisa diparse", () => {
+    expect(formatDate("bukan tanggal")).toBe("bukan tanggal");
+    expect(formatDateTime("bukan tanggal")).toBe("bukan tanggal");
+  });
+
+  it("memformat dengan locale id-ID", () => {
+    expect(formatDate("2026-10-19T03:00:00Z")).toBe("19 Okt 2026");
+    expect(formatDateTime("2026-10-19T03:05:00Z")).toBe("19 Okt 2026, 10.05");
+  });
+
+  describe("di zona waktu UTC", () => {
+    useTimezone("UTC");
+
+    it("tanggal ikut bergeser sesuai zona waktu", () => {
+      // 19 Okt 02.00 WIB = 18 Okt 19.00 UTC
+      expect(formatDate("2026-10-19T02:00:00+07:00")).toBe("18 Okt 2026");
+      expect(formatDateTime("2026-10-19T02:00:00+07:00")).toBe(
+        "18 Okt 2026, 19.00"
+      );
+    });
+  });
+});
+
+describe("toLocalDateTimeInput", () => {
+  it("mengembalikan string kosong untuk nilai kosong / tidak valid", () => {
+    expect(toLocalDateTimeInput(null)).toBe("");
+    expect(toLocalDateTimeInput(undefined)).toBe("");
+    expect(toLocalDateTimeInput("kemarin")).toBe("");
+  });
+
+  describe("Asia/Jakarta (UTC+7)", () => {
+    useTimezone("Asia/Jakarta");
+
+    it("mengonversi timestamp UTC ke jam lokal", () => {
+      expect(toLocalDateTimeInput("2026-10-19T10:30:00Z")).toBe(
+        "2026-10-19T17:30"
+      );
+    });
+
+    it("berpindah hari saat melewati tengah malam lokal", () => {
+      expect(toLocalDateTimeInput("2026-12-31T18:15:00Z")).toBe(
+        "2027-01-01T01:15"
+      );
+    });
+
+    it("membiarkan waktu lokal tanpa zona (format backend Laravel)", () => {
+      expect(toLocalDateTimeInput("2026-10-19 08:00:00")).toBe(
+        "2026-10-19T08:00"
+      );
+      expect(toLocalDateTimeInput("2026-10-19T08:00")).toBe(
+        "2026-10-19T08:00"
+      );
+    });
+  });
+
+  describe("America/New_York (DST)", () => {
+    useTimezone("America/New_York");
+
+    it("memakai offset musim panas dan musim dingin", () => {
+      // EDT (UTC-4) sebelum 1 Nov 2026, EST (UTC-5) sesudahnya
+      expect(toLocalDateTimeInput("2026-10-19T12:00:00Z")).toBe(
+        "2026-10-19T08:00"
+      );
+      expect(toLocalDateTimeInput("2026-11-19T12:00:00Z")).toBe(
+        "2026-11-19T07:00"
+      );
+    });
+
+    it("berpindah ke hari sebelumnya untuk deadline dini hari UTC", () => {
+      expect(toLocalDateTimeInput("2026-10-19T02:00:00Z")).toBe(
+        "2026-10-18T22:00"
+      );
+    });
+  });
+
+  describe("bolak-balik dengan input datetime-local", () => {
+    useTimezone("Asia/Jakarta");
+
+    it("nilai form yang disimpan lalu dimuat ulang tidak bergeser", () => {
+      // Form mengirim nilai datetime-local apa adanya; backend
+      // mengembalikannya sebagai ISO dengan offset zona yang sama.
+      const formValue = "2026-10-25T23:59";
+      const fromBackend = new Date(formValue).toISOString();
+      expect(fromBackend).toBe("2026-10-25T16:59:00.000Z");
+      expect(toLocalDateTimeInput(fromBackend)).toBe(formValue);
+    });
+  });
+});
+
+describe("formatDuration", () => {
+  it("memformat menit dan jam", () => {
+    expect(formatDuration(null)).toBe("—");
+    expect(formatDuration(0)).toBe("—");
+    expect(formatDuration(45)).toBe("45 menit");
+    expect(formatDuration(60)).toBe("1 jam");
+    expect(formatDuration(90)).toBe("1 jam 30 menit");
+  });
+});
+
+describe("parseNumberOrNull", () => {
+  it("mengembalikan bilangan bulat atau null", () => {
+    expect(parseNumberOrNull("")).toBeNull();
+    expect(parseNumberOrNull("   ")).toBeNull();
+    expect(parseNumberOrNull("abc")).toBeNull();
+    expect(parseNumberOrNull(" 42 ")).toBe(42);
+    expect(parseNumberOrNull("0")).toBe(0);
+    expect(parseNumberOrNull("-5")).toBe(-5);
+    expect(parseNumberOrNull("12.9")).toBe(12);
+  });
+});
+
+describe("formatQuizStatus", () => {
+  it("menerjemahkan status string", () => {
+    expect(formatQuizStatus(undefined)).toBe("—");
+    expect(formatQuizStatus("not_started")).toBe("Belum dimulai");
+    expect(formatQuizStatus("ongoing")).toBe("Sedang berlangsung");
+    expect(formatQuizStatus("finished")).toBe("Sudah berakhir");
+    expect(formatQuizStatus("draft")).toBe("draft");
+  });
+
+  it("membaca objek flag dari backend", () => {
+    expect(formatQuizStatus(flags({ is_ongoing: true }))).toBe(
+      "Sedang berlangsung"
+    );
+    expect(formatQuizStatus(flags({ is_future: true }))).toBe(
+      "Belum dimulai"
+    );
+    expect(formatQuizStatus(flags({ is_finished: true }))).toBe(
+      "Sudah berakhir"
+    );
+    expect(formatQuizStatus(flags({ can_attempt_now: true }))).toBe(
+      "Dapat dikerjakan"
+    );
+    expect(formatQuizStatus(flags({}))).toBe("Status tidak diketahui");
+  });
+});
+
+describe("extractArray", () => {
+  it("menerima array langsung maupun bungkus pagination", () => {
+    expect(extractArray<number>([1, 2])).toEqual([1, 2]);
+    expect(extractArray<number>({ data: [3], total: 1 })).toEqual([3]);
+  });
+
+  it("mengembalikan array kosong untuk bentuk lain", () => {
+    expect(extractArray(null)).toEqual([]);
+    expect(extractArray({ data: "x" })).toEqual([]);
+    expect(extractArray("teks")).toEqual([]);
+  });
+});
+
+describe("NIM mahasiswa", () => {
+  const date = new Date(2025, 7, 1, 9, 0); // 1 Agustus 2025, jam lokal
+
+  it("membentuk prefix yyyymmdd dari tanggal lokal", () => {
+    expect(getNimDatePrefix(date)).toBe("20250801");
+    expect(getNimDatePrefix(new Date(2026, 11, 9))).toBe("20261209");
+  });
+
+  it("membentuk NIM, username, dan password", () => {
+    expect(generateNimAndPassword("Budi Santoso", 7, date)).toEqual({
+      nim: "20250801007",
+      username: "20250801007",
+      password: "budisan007",
+    });
+    expect(generateNimAndPassword("Al", 123, date).password).toBe("al123");
+  });
+
+  it("melanjutkan urutan terbesar hari itu", () => {
+    const users: User[] = [
+      makeStudent(1, "20250801001"),
+      makeStudent(2, "20250801004"),
+      makeStudent(3, "20250731009"),
+      makeStudent(4, null),
+      { ...makeStudent(5, "20250801050"), role: "dosen" },
+    ];
+    expect(getNextOrderForToday(users, date)).toBe(5);
+    expect(getNextOrderForToday([], date)).toBe(1);
+  });
+});
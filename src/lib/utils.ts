@@ -0,0 +1,229 @@
+// src/lib/utils.ts
+
+import type { ApiError } from "./apiClient";
+import type { QuizTimeStatus, User } from "./api/types";
+
+/**
+ * Helper murni yang dipakai banyak halaman (pesan error, format tanggal,
+ * konversi input form, NIM mahasiswa). Tidak boleh menyentuh DOM/React
+ * supaya bisa diuji langsung (src/lib/utils.test.ts).
+ */
+
+// -----------------------------
+// Error
+// -----------------------------
+
+/**
+ * Pesan error yang layak ditampilkan: string apa adanya, message
+ * Error/ApiError, lalu `message` / `error` dari body response, terakhir
+ * fallback.
+ */
+export function extractErrorMessage(error: unknown, fallback: string): string {
+  if (typeof error === "string" && error.length > 0) {
+    return error;
+  }
+
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+
+  if (typeof error === "object" && error !== null && "data" in error) {
+    const apiError = error as ApiError;
+    if (apiError.data && typeof apiError.data === "object") {
+      const body = apiError.data as { message?: unknown; error?: unknown };
+      if (typeof body.message === "string" && body.message.length > 0) {
+        return body.message;
+      }
+      if (typeof body.error === "string" && body.error.length > 0) {
+        return body.error;
+      }
+    }
+  }
+
+  return fallback;
+}
+
+// -----------------------------
+// Tanggal & waktu
+// -----------------------------
+
+function parseDate(dateStr: string): Date | null {
+  const date = new Date(dateStr);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** "19 Okt 2026" di zona waktu browser; string tak valid apa adanya */
+export function formatDate(dateStr: string | null | undefined): string {
+  if (!dateStr) return "—";
+  const date = parseDate(dateStr);
+  if (!date) return dateStr;
+  return date.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/** "19 Okt 2026, 17.30" di zona waktu browser */
+export function formatDateTime(dateStr: string | null | undefined): string {
+  if (!dateStr) return "—";
+  const date = parseDate(dateStr);
+  if (!date) return dateStr;
+  return date.toLocaleString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Waktu dari backend → nilai `<input type="datetime-local">`
+ * (yyyy-MM-ddTHH:mm, jam lokal browser).
+ */
+export function toLocalDateTimeInput(
+  dateStr: string | null | undefined
+): string {
+  if (!dateStr) return "";
+  const date = parseDate(dateStr);
+  if (!date) return "";
+  return (
+    `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-` +
+    `${pad2(date.getDate())}T${pad2(date.getHours())}:` +
+    `${pad2(date.getMinutes())}`
+  );
+}
+
+export function formatDuration(minutes: number | null): string {
+  if (!minutes) return "—";
+  if (minutes < 60) return `${minutes} menit`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (m === 0) return `${h} jam`;
+  return `${h} jam ${m} menit`;
+}
+
+// -----------------------------
+// Angka & status
+// -----------------------------
+
+/** Bilangan bulat dari input teks; kosong/tidak valid → null */
+export function parseNumberOrNull(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number.parseInt(trimmed, 10);
+  if (Number.isNaN(parsed)) return null;
+  return parsed;
+}
+
+/** Label status waktu quiz; backend bisa kirim string atau objek flag */
+export function formatQuizStatus(
+  status: QuizTimeStatus | undefined
+): string {
+  if (status == null) return "—";
+
+  if (typeof status === "string") {
+    switch (status) {
+      case "not_started":
+        return "Belum dimulai";
+      case "ongoing":
+        return "Sedang berlangsung";
+      case "finished":
+        return "Sudah berakhir";
+      default:
+        return status;
+    }
+  }
+
+  if (status.is_ongoing) return "Sedang berlangsung";
+  if (status.is_future) return "Belum dimulai";
+  if (status.is_finished) return "Sudah berakhir";
+  if (status.can_attempt_now) return "Dapat dikerjakan";
+
+  return "Status tidak diketahui";
+}
+
+// -----------------------------
+// Response backend
+// -----------------------------
+
+/**
+ * Endpoint kadang mengembalikan array langsung, kadang dibungkus
+ * pagination Laravel ({ data: [...] }). Keduanya dinormalisasi jadi array.
+ */
+export function extractArray<T>(value: unknown): T[] {
+  if (Array.isArray(value)) {
+    return value as T[];
+  }
+
+  if (value && typeof value === "object" && "data" in value) {
+    const obj = value as { data?: unknown };
+    if (Array.isArray(obj.data)) {
+      return obj.data as T[];
+    }
+  }
+
+  return [];
+}
+
+// -----------------------------
+// NIM mahasiswa
+// -----------------------------
+
+/** Prefix NIM berdasarkan tanggal masuk (jam lokal): yyyymmdd */
+export function getNimDatePrefix(date: Date): string {
+  return `${date.getFullYear()}${pad2(date.getMonth() + 1)}${pad2(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * Generate NIM & password:
+ * NIM = (TahunMasuk)(BulanMasuk)(TanggalMasuk)(UrutanDataMahasiswa)
+ * Password = 7 huruf pertama nama (tanpa spasi, huruf kecil) + (UrutanDataMahasiswa 3 digit)
+ */
+export function generateNimAndPassword(
+  name: string,
+  order: number,
+  date: Date
+): { nim: string; password: string; username: string } {
+  const orderStr = String(order).padStart(3, "0");
+
+  const nim = `${getNimDatePrefix(date)}${orderStr}`;
+
+  const normalizedName = name.replace(/\s+/g, "").toLowerCase().slice(0, 7);
+
+  const password = `${normalizedName}${orderStr}`;
+  const username = nim; // username = NIM
+
+  return { nim, password, username };
+}
+
+/**
+ * Urutan berikutnya untuk NIM hari ini: cari urutan terbesar (NNN) dari
+ * NIM mahasiswa yang diawali prefix (yyyymmdd) tanggal tersebut, lalu +1.
+ */
+export function getNextOrderForToday(users: User[], date: Date): number {
+  const prefix = getNimDatePrefix(date);
+
+  let maxOrder = 0;
+
+  users.forEach((u) => {
+    if (u.role !== "mahasiswa" || !u.nim) return;
+    const nim = u.nim.trim();
+    if (!nim.startsWith(prefix)) return;
+    const suffix = nim.slice(prefix.length);
+    if (suffix.length === 0) return;
+    const n = Number.parseInt(suffix, 10);
+    if (!Number.isNaN(n) && n > maxOrder) {
+      maxOrder = n;
+    }
+  });
+
+  return maxOrder + 1;
+}
@@ -0,0 +1,47 @@
+// src/proxy.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  SESSION_COOKIE_NAME,
+  getGuardRedirect,
+  getRequiredRole,
+  parseSessionHint,
+} from "./lib/authGuard";
+
+/**
+ * Proxy (dulu middleware.ts): redirect halaman terproteksi sebelum
+ * dirender, supaya shell dashboard tidak sempat tampil lalu dilempar.
+ * Aturannya sama persis dengan RequireRole (lihat lib/authGuard.ts).
+ */
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = parseSessionHint(
+    request.cookies.get(SESSION_COOKIE_NAME)?.value
+  );
+
+  // /change-password cukup sudah login; role apa pun boleh
+  if (pathname === "/change-password") {
+    if (session) return NextResponse.next();
+    return NextResponse.redirect(
+      new URL(getGuardRedirect(null, null) ?? "/login", request.url)
+    );
+  }
+
+  const target = getGuardRedirect(
+    session,
+    getRequiredRole(pathname),
+    `${pathname}${search}`
+  );
+  if (!target) return NextResponse.next();
+
+  return NextResponse.redirect(new URL(target, request.url));
+}
+
+export const config = {
+  matcher: [
+    "/superadmin/:path*",
+    "/teacher/:path*",
+    "/student/:path*",
+    "/change-password",
+  ],
+};